@@ -8,25 +8,57 @@ import Dashboard from './pages/Dashboard';
 import FileManager from './pages/FileManager';
 import Analytics from './pages/Analytics';
 import PersonalAssets from './pages/PersonalAssets';
+import Household from './pages/Household';
+import CategoryRules from './pages/CategoryRules';
+import Merchants from './pages/Merchants';
 import Layout from './components/Layout';
 import { ErrorBoundary } from './components/ErrorBoundary';
 import { OfflineStatus } from './components/OfflineStatus';
 import { ErrorNotificationProvider } from './components/ErrorNotificationProvider';
+import { UndoToast } from './components/UndoToast';
+import { VaultUnlockScreen } from './components/VaultUnlockScreen';
+import { LoadingSpinner } from './components/LoadingStates';
+import { useStoreHydration } from './hooks/useStoreHydration';
+import { useVault, useVaultAutoLock } from './hooks/useVault';
+import { useTabSync } from './hooks/useTabSync';
+import { useOriginalFileCleanup } from './hooks/useFileReprocessing';
 
 function App() {
+  const hydrated = useStoreHydration();
+  const { status } = useVault();
+  useVaultAutoLock();
+  useTabSync();
+  useOriginalFileCleanup(hydrated);
+
+  if (status === 'locked') {
+    return (
+      <ErrorBoundary>
+        <VaultUnlockScreen />
+      </ErrorBoundary>
+    );
+  }
+
   return (
     <ErrorBoundary>
       <ErrorNotificationProvider>
         <Router>
           <OfflineStatus />
+          <UndoToast />
           <Layout>
-            <Routes>
-              <Route path="/" element={<Navigate to="/dashboard" replace />} />
-              <Route path="/dashboard" element={<Dashboard />} />
-              <Route path="/files" element={<FileManager />} />
-              <Route path="/analytics" element={<Analytics />} />
-              <Route path="/assets" element={<PersonalAssets />} />
-            </Routes>
+            {hydrated ? (
+              <Routes>
+                <Route path="/" element={<Navigate to="/dashboard" replace />} />
+                <Route path="/dashboard" element={<Dashboard />} />
+                <Route path="/files" element={<FileManager />} />
+                <Route path="/analytics" element={<Analytics />} />
+                <Route path="/assets" element={<PersonalAssets />} />
+                <Route path="/household" element={<Household />} />
+                <Route path="/rules" element={<CategoryRules />} />
+                <Route path="/merchants" element={<Merchants />} />
+              </Routes>
+            ) : (
+              <LoadingSpinner size="lg" text="載入資料中..." />
+            )}
           </Layout>
         </Router>
       </ErrorNotificationProvider>
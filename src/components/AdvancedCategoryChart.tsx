@@ -13,7 +13,7 @@ import {
 
 } from 'chart.js';
 import { Pie, Doughnut, Bar } from 'react-chartjs-2';
-import { PieChart, Download, Filter } from 'lucide-react';
+import { PieChart, Download, Filter, ChevronLeft, ChevronRight } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import {
   Select,
@@ -24,6 +24,17 @@ import {
 } from '@/components/ui/select';
 import { Badge } from '@/components/ui/badge';
 import { Invoice } from '@/types';
+import { calculateCategoryBreakdown, getValidInvoices } from '@/lib/statisticsService';
+import { categorizeItem } from '@/lib/categoryRules';
+import {
+  formatCategoryPath,
+  getCategoryAncestors,
+  getCategoryLabel,
+  getCategoryLevel,
+  getParentCategory,
+  isCategoryWithin,
+  normalizeCategoryPath,
+} from '@/lib/categoryTree';
 
 ChartJS.register(
   ArcElement,
@@ -44,11 +55,13 @@ type ChartType = 'pie' | 'doughnut' | 'bar';
 type DataType = 'amount' | 'count';
 
 interface CategoryData {
-  category: string;
+  category: string; // Name shown at the current level
+  path: string; // Full category path; empty for the grouped small categories
   amount: number;
   count: number;
-  percentage: number;
+  percentage: number; // Of the current level
   items: string[];
+  drillable: boolean;
 }
 
 // Predefined colors for categories
@@ -69,44 +82,57 @@ export function AdvancedCategoryChart({ invoices, className }: AdvancedCategoryC
   const [chartType, setChartType] = useState<ChartType>('doughnut');
   const [dataType, setDataType] = useState<DataType>('amount');
   const [minPercentage, setMinPercentage] = useState<number>(1);
+  // Parent category being viewed; null shows the top level
+  const [drillPath, setDrillPath] = useState<string | null>(null);
+
+  // Category tree and the item names under each leaf category
+  const { tree, itemsByCategory } = useMemo(() => {
+    const issued = getValidInvoices(invoices);
+    const itemsByCategory = new Map<string, Set<string>>();
+    issued.forEach(invoice => {
+      invoice.items.forEach(item => {
+        const category =
+          normalizeCategoryPath(item.category || '') || categorizeItem(item.itemName, item.amount);
+        const names = itemsByCategory.get(category) || new Set<string>();
+        names.add(item.itemName);
+        itemsByCategory.set(category, names);
+      });
+    });
+    return { tree: calculateCategoryBreakdown(issued), itemsByCategory };
+  }, [invoices]);
+
+  // Fall back to the top level when the viewed category no longer has children
+  const currentPath =
+    drillPath && getCategoryLevel(tree, drillPath).length > 0 ? drillPath : null;
 
   // Process category data
   const categoryData = useMemo(() => {
-    if (invoices.length === 0) return [];
-
-    const categoryMap = new Map<string, { amount: number; count: number; items: Set<string> }>();
-    let totalAmount = 0;
-    let totalCount = 0;
+    const level = getCategoryLevel(tree, currentPath);
+    if (level.length === 0) return [];
 
-    // Aggregate data by category
-    invoices.forEach(invoice => {
-      if (invoice.status !== 'issued') return;
+    const totalAmount = level.reduce((sum, stat) => sum + stat.amount, 0);
+    const totalCount = level.reduce((sum, stat) => sum + stat.count, 0);
 
-      invoice.items.forEach(item => {
-        const category = item.category || '其他';
-        const existing = categoryMap.get(category) || { amount: 0, count: 0, items: new Set() };
-        
-        existing.amount += item.amount;
-        existing.count += 1;
-        existing.items.add(item.itemName);
-        
-        categoryMap.set(category, existing);
-        totalAmount += item.amount;
-        totalCount += 1;
-      });
+    const categories: CategoryData[] = level.map(stat => {
+      // A parent's own items are listed under its own path, so match exactly
+      const names = Array.from(itemsByCategory.entries())
+        .filter(([category]) =>
+          stat.children ? isCategoryWithin(category, stat.category) : category === stat.category
+        )
+        .flatMap(([, itemNames]) => Array.from(itemNames));
+      return {
+        category: getCategoryLabel(stat.category, currentPath),
+        path: stat.category,
+        amount: stat.amount,
+        count: stat.count,
+        percentage: dataType === 'amount'
+          ? (totalAmount !== 0 ? (stat.amount / totalAmount) * 100 : 0)
+          : (totalCount !== 0 ? (stat.count / totalCount) * 100 : 0),
+        items: Array.from(new Set(names)),
+        drillable: Boolean(stat.children?.length),
+      };
     });
 
-    // Convert to array and calculate percentages
-    const categories: CategoryData[] = Array.from(categoryMap.entries()).map(([category, data]) => ({
-      category,
-      amount: data.amount,
-      count: data.count,
-      percentage: dataType === 'amount' 
-        ? (data.amount / totalAmount) * 100 
-        : (data.count / totalCount) * 100,
-      items: Array.from(data.items),
-    }));
-
     // Sort by the selected data type
     categories.sort((a, b) => {
       return dataType === 'amount' ? b.amount - a.amount : b.count - a.count;
@@ -119,21 +145,30 @@ export function AdvancedCategoryChart({ invoices, className }: AdvancedCategoryC
     if (smallCategories.length > 0) {
       const otherCategory: CategoryData = {
         category: '其他 (小分類)',
+        path: '',
         amount: smallCategories.reduce((sum, cat) => sum + cat.amount, 0),
         count: smallCategories.reduce((sum, cat) => sum + cat.count, 0),
         percentage: smallCategories.reduce((sum, cat) => sum + cat.percentage, 0),
         items: smallCategories.flatMap(cat => cat.items),
+        drillable: false,
       };
       filteredCategories.push(otherCategory);
     }
 
     return filteredCategories;
-  }, [invoices, dataType, minPercentage]);
+  }, [tree, itemsByCategory, currentPath, dataType, minPercentage]);
+
+  const drillInto = (category: CategoryData | undefined) => {
+    if (category?.drillable) setDrillPath(category.path);
+  };
 
   // Chart configuration
   const options: ChartOptions<'pie' | 'doughnut' | 'bar'> = {
     responsive: true,
     maintainAspectRatio: false,
+    onClick: (_event, elements) => {
+      if (elements.length > 0) drillInto(categoryData[elements[0].index]);
+    },
     plugins: {
       legend: {
         position: chartType === 'bar' ? 'top' : 'right',
@@ -165,7 +200,7 @@ export function AdvancedCategoryChart({ invoices, className }: AdvancedCategoryC
       },
       title: {
         display: true,
-        text: `品項分類統計 (依${dataType === 'amount' ? '金額' : '數量'})`,
+        text: `${currentPath ? formatCategoryPath(currentPath) : '品項分類統計'} (依${dataType === 'amount' ? '金額' : '數量'})`,
       },
       tooltip: {
         callbacks: {
@@ -175,7 +210,9 @@ export function AdvancedCategoryChart({ invoices, className }: AdvancedCategoryC
             if (!category) return '';
             
             const lines = [
-              `${category.category}`,
+              category.path && category.path !== currentPath
+                ? formatCategoryPath(category.path)
+                : category.category,
               `金額: $${category.amount.toLocaleString()}`,
               `數量: ${category.count} 筆`,
               `佔比: ${category.percentage.toFixed(1)}%`,
@@ -186,6 +223,9 @@ export function AdvancedCategoryChart({ invoices, className }: AdvancedCategoryC
             } else {
               lines.push(`品項: ${category.items.slice(0, 3).join(', ')} 等 ${category.items.length} 項`);
             }
+            if (category.drillable) {
+              lines.push('點選查看子分類');
+            }
             
             return lines;
           },
@@ -304,6 +344,44 @@ export function AdvancedCategoryChart({ invoices, className }: AdvancedCategoryC
         </Button>
       </div>
 
+      {/* Drill-down path */}
+      {currentPath && (
+        <div className="flex items-center gap-1 mb-2 text-sm">
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => setDrillPath(getParentCategory(currentPath))}
+            className="flex items-center gap-1"
+          >
+            <ChevronLeft className="h-4 w-4" />
+            返回上層
+          </Button>
+          <button
+            type="button"
+            className="text-muted-foreground hover:underline"
+            onClick={() => setDrillPath(null)}
+          >
+            全部分類
+          </button>
+          {getCategoryAncestors(currentPath).map(path => (
+            <span key={path} className="flex items-center gap-1">
+              <ChevronRight className="h-3 w-3 text-muted-foreground" />
+              {path === currentPath ? (
+                <span className="font-medium">{getCategoryLabel(path)}</span>
+              ) : (
+                <button
+                  type="button"
+                  className="text-muted-foreground hover:underline"
+                  onClick={() => setDrillPath(path)}
+                >
+                  {getCategoryLabel(path)}
+                </button>
+              )}
+            </span>
+          ))}
+        </div>
+      )}
+
       {/* Chart */}
       <div className="h-80">
         {chartType === 'pie' && (
@@ -328,10 +406,22 @@ export function AdvancedCategoryChart({ invoices, className }: AdvancedCategoryC
 
       {/* Category Summary */}
       <div className="mt-4 space-y-3">
-        <h4 className="text-sm font-medium">分類詳情</h4>
+        <div className="flex items-center justify-between">
+          <h4 className="text-sm font-medium">分類詳情</h4>
+          {categoryData.some(category => category.drillable) && (
+            <span className="text-xs text-muted-foreground">點選有子分類的項目可查看細項</span>
+          )}
+        </div>
         <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
           {categoryData.slice(0, 8).map((category, index) => (
-            <div key={category.category} className="flex items-center justify-between p-2 bg-muted/30 rounded">
+            <div
+              key={category.path || category.category}
+              className={`flex items-center justify-between p-2 bg-muted/30 rounded${
+                category.drillable ? ' cursor-pointer hover:bg-muted/60' : ''
+              }`}
+              onClick={() => drillInto(category)}
+              title={category.drillable ? '查看子分類' : undefined}
+            >
               <div className="flex items-center gap-2">
                 <div 
                   className="w-3 h-3 rounded-full" 
@@ -341,6 +431,7 @@ export function AdvancedCategoryChart({ invoices, className }: AdvancedCategoryC
                 <Badge variant="outline" className="text-xs">
                   {category.percentage.toFixed(1)}%
                 </Badge>
+                {category.drillable && <ChevronRight className="h-4 w-4 text-muted-foreground" />}
               </div>
               <div className="text-sm text-muted-foreground">
                 {dataType === 'amount' 
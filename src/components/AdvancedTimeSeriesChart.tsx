@@ -15,7 +15,8 @@ import {
 } from 'chart.js';
 import { Line, Bar } from 'react-chartjs-2';
 import { format, startOfDay, eachDayOfInterval, eachMonthOfInterval, startOfMonth, endOfMonth } from 'date-fns';
-import { zhTW } from 'date-fns/locale';
+import { useDateFormatter } from '@/hooks/useDateFormatter';
+import type { DateDisplayStyle } from '@/lib/dateFormat';
 import { BarChart3, LineChart, Download, Calendar } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import {
@@ -49,6 +50,7 @@ type TimeRange = 'daily' | 'monthly';
 
 
 export function AdvancedTimeSeriesChart({ invoices, className }: AdvancedTimeSeriesChartProps) {
+  const { formatDate } = useDateFormatter();
   const [chartType, setChartType] = useState<ChartType>('line');
   const [timeRange, setTimeRange] = useState<TimeRange>('daily');
 
@@ -62,16 +64,16 @@ export function AdvancedTimeSeriesChart({ invoices, className }: AdvancedTimeSer
     const maxDate = new Date(Math.max(...dates.map(d => d.getTime())));
 
     let intervals: Date[];
-    let formatString: string;
+    let displayStyle: DateDisplayStyle;
     let groupKey: (date: Date) => string;
 
     if (timeRange === 'daily') {
       intervals = eachDayOfInterval({ start: minDate, end: maxDate });
-      formatString = 'MM/dd';
+      displayStyle = 'short';
       groupKey = (date: Date) => format(startOfDay(date), 'yyyy-MM-dd');
     } else {
       intervals = eachMonthOfInterval({ start: startOfMonth(minDate), end: endOfMonth(maxDate) });
-      formatString = 'yyyy/MM';
+      displayStyle = 'month';
       groupKey = (date: Date) => format(startOfMonth(date), 'yyyy-MM');
     }
 
@@ -79,7 +81,7 @@ export function AdvancedTimeSeriesChart({ invoices, className }: AdvancedTimeSer
     const groupedData = new Map<string, { amount: number; count: number }>();
     
     invoices.forEach(invoice => {
-      if (invoice.status !== 'issued') return;
+      if (invoice.status !== 'issued' || invoice.excluded) return;
       
       const key = groupKey(invoice.invoiceDate);
       const existing = groupedData.get(key) || { amount: 0, count: 0 };
@@ -98,10 +100,10 @@ export function AdvancedTimeSeriesChart({ invoices, className }: AdvancedTimeSer
         date: key,
         amount: data.amount,
         count: data.count,
-        formattedDate: format(date, formatString, { locale: zhTW }),
+        formattedDate: formatDate(date, displayStyle),
       };
     });
-  }, [invoices, timeRange]);
+  }, [invoices, timeRange, formatDate]);
 
   // Chart configuration
   const options: ChartOptions<'line' | 'bar'> = {
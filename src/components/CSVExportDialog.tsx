@@ -21,6 +21,7 @@ import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Separator } from '@/components/ui/separator';
 import { Alert, AlertDescription } from '@/components/ui/alert';
+import { useDateFormatter } from '@/hooks/useDateFormatter';
 import { 
   Download, 
   FileText, 
@@ -42,6 +43,7 @@ export function CSVExportDialog({
   invoices, 
   title = '匯出 CSV 檔案' 
 }: CSVExportDialogProps) {
+  const { dateDisplay } = useDateFormatter();
   const [selectedFields, setSelectedFields] = useState<string[]>(DEFAULT_EXPORT_FIELDS);
   const [includeItems, setIncludeItems] = useState(false);
   const [customFilename, setCustomFilename] = useState('');
@@ -116,7 +118,8 @@ export function CSVExportDialog({
       const options: ExportOptions = {
         selectedFields,
         includeItems,
-        filename: customFilename.trim() || undefined
+        filename: customFilename.trim() || undefined,
+        dateDisplay
       };
 
       const result = await exportInvoicesToCSV(invoices, options, progressId);
@@ -0,0 +1,163 @@
+import { useMemo, useState } from 'react';
+import {
+  Chart as ChartJS,
+  CategoryScale,
+  LinearScale,
+  BarElement,
+  Tooltip,
+  ChartOptions,
+  TooltipItem,
+} from 'chart.js';
+import { Bar } from 'react-chartjs-2';
+import { CreditCard, Pencil } from 'lucide-react';
+import { useInvoiceStore } from '@/store';
+import { calculateCarrierStatistics, getValidInvoices } from '@/lib/statisticsService';
+import { CARRIER_KIND_LABELS } from '@/lib/carrierRegistry';
+import { Invoice } from '@/types';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+
+ChartJS.register(CategoryScale, LinearScale, BarElement, Tooltip);
+
+interface CarrierChartProps {
+  invoices: Invoice[];
+  className?: string;
+}
+
+/**
+ * Spending per carrier (phone barcode, citizen certificate, cards) with
+ * user-editable carrier labels
+ */
+export function CarrierChart({ invoices, className }: CarrierChartProps) {
+  const carrierLabels = useInvoiceStore(state => state.carrierLabels);
+  const setCarrierLabel = useInvoiceStore(state => state.setCarrierLabel);
+  const [editingKey, setEditingKey] = useState<string | null>(null);
+  const [draftLabel, setDraftLabel] = useState('');
+
+  const carriers = useMemo(
+    () =>
+      calculateCarrierStatistics(
+        getValidInvoices(invoices),
+        carrierLabels
+      ),
+    [invoices, carrierLabels]
+  );
+
+  const options: ChartOptions<'bar'> = {
+    indexAxis: 'y',
+    responsive: true,
+    maintainAspectRatio: false,
+    plugins: {
+      legend: { display: false },
+      tooltip: {
+        callbacks: {
+          label: (context: TooltipItem<'bar'>) => {
+            const carrier = carriers[context.dataIndex];
+            if (!carrier) return '';
+            return [
+              `金額: $${carrier.totalAmount.toLocaleString()}`,
+              `發票: ${carrier.invoiceCount} 張`,
+              `佔比: ${carrier.percentage.toFixed(1)}%`,
+            ];
+          },
+        },
+      },
+    },
+    scales: {
+      x: {
+        beginAtZero: true,
+        ticks: {
+          callback: value => `$${Number(value).toLocaleString()}`,
+        },
+      },
+    },
+  };
+
+  const startEditing = (carrierKey: string) => {
+    setEditingKey(carrierKey);
+    setDraftLabel(carrierLabels[carrierKey] ?? '');
+  };
+
+  const saveLabel = () => {
+    if (editingKey !== null) {
+      setCarrierLabel(editingKey, draftLabel);
+    }
+    setEditingKey(null);
+  };
+
+  if (carriers.length === 0) {
+    return (
+      <div className={className}>
+        <div className="flex h-48 items-center justify-center text-muted-foreground">
+          <CreditCard className="mr-2 h-5 w-5" />
+          沒有可顯示的載具資料
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className={className}>
+      <div style={{ height: Math.max(160, carriers.length * 40) }}>
+        <Bar
+          data={{
+            labels: carriers.map(carrier => carrier.displayName),
+            datasets: [
+              {
+                data: carriers.map(carrier => carrier.totalAmount),
+                backgroundColor: 'hsl(var(--primary) / 0.8)',
+                borderColor: 'hsl(var(--primary))',
+                borderWidth: 1,
+                borderRadius: 4,
+              },
+            ],
+          }}
+          options={options}
+        />
+      </div>
+
+      <ul className="mt-4 divide-y text-sm">
+        {carriers.map(carrier => (
+          <li key={carrier.carrierKey} className="flex items-center gap-2 py-2">
+            <Badge variant="outline" className="shrink-0">
+              {CARRIER_KIND_LABELS[carrier.kind]}
+            </Badge>
+            {editingKey === carrier.carrierKey ? (
+              <Input
+                autoFocus
+                className="h-8 text-xs"
+                value={draftLabel}
+                placeholder={carrier.carrierNumber || '自訂名稱'}
+                onChange={e => setDraftLabel(e.target.value)}
+                onBlur={saveLabel}
+                onKeyDown={e => {
+                  if (e.key === 'Enter') saveLabel();
+                  if (e.key === 'Escape') setEditingKey(null);
+                }}
+              />
+            ) : (
+              <span className="flex-1 truncate" title={carrier.carrierNumber}>
+                {carrier.displayName}
+              </span>
+            )}
+            <span className="shrink-0 text-muted-foreground">
+              ${carrier.totalAmount.toLocaleString()} · {carrier.invoiceCount} 張
+            </span>
+            {carrier.carrierKey && editingKey !== carrier.carrierKey && (
+              <Button
+                variant="ghost"
+                size="sm"
+                className="h-8 w-8 p-0"
+                title="設定載具名稱"
+                onClick={() => startEditing(carrier.carrierKey)}
+              >
+                <Pencil className="h-3 w-3" />
+              </Button>
+            )}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
@@ -15,6 +15,8 @@ import { Bar, Doughnut } from 'react-chartjs-2';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { useInvoiceStore } from '@/store';
+import { Invoice, Statistics } from '@/types';
+import { getValidInvoices } from '@/lib/statisticsService';
 import { ChartSkeleton } from './LoadingStates';
 import { PieChart, BarChart3 } from 'lucide-react';
 
@@ -31,6 +33,8 @@ ChartJS.register(
 
 interface CategoryChartProps {
   className?: string;
+  // Shown instead of the active profile's data, e.g. for the household view
+  data?: { statistics: Statistics | null; invoices: Invoice[] };
 }
 
 type ChartType = 'doughnut' | 'bar' | 'frequency';
@@ -49,15 +53,17 @@ const CATEGORY_COLORS = [
   'hsl(260, 70%, 50%)',
 ];
 
-export function CategoryChart({ className }: CategoryChartProps) {
-  const { statistics, invoices, isLoading } = useInvoiceStore();
+export function CategoryChart({ className, data }: CategoryChartProps) {
+  const store = useInvoiceStore();
+  const { statistics, invoices } = data ?? store;
+  const { isLoading } = store;
   const [chartType, setChartType] = useState<ChartType>('doughnut');
 
   // Calculate item frequency data
   const itemFrequencyData = useMemo(() => {
     if (!invoices.length) return null;
 
-    const validInvoices = invoices.filter(inv => inv.status === 'issued');
+    const validInvoices = getValidInvoices(invoices);
     const itemFrequency = new Map<string, { count: number; totalAmount: number; category: string }>();
 
     validInvoices.forEach(invoice => {
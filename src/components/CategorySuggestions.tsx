@@ -0,0 +1,229 @@
+import { useMemo, useState } from 'react';
+import { Check, RefreshCw, Sparkles } from 'lucide-react';
+import { useInvoiceStore } from '@/store';
+import { suggestCategories, type CategorySuggestion } from '@/lib/categoryClassifier';
+import { DEFAULT_CATEGORY, type ItemCategoryChange } from '@/lib/categoryRules';
+import { formatCategoryPath } from '@/lib/categoryTree';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+
+const SUGGESTION_LIMIT = 50;
+
+const CONFIDENCE_OPTIONS = [
+  { value: '0', label: '全部未分類品項' },
+  { value: '0.5', label: '信心 50% 以上' },
+  { value: '0.8', label: '信心 80% 以上' },
+  { value: '0.95', label: '信心 95% 以上' },
+];
+
+const rowKey = ({ invoice, item }: CategorySuggestion) => `${invoice.id}:${item.id}`;
+
+interface CategorySuggestionsProps {
+  categories: string[]; // Offered while typing a category
+}
+
+/**
+ * Items left in 其他 with the classifier's suggestions; typed categories count
+ * as corrections the classifier learns from, accepted suggestions do not
+ */
+export function CategorySuggestions({ categories }: CategorySuggestionsProps) {
+  const { invoices, categoryModel, setItemCategories, retrainCategoryModel } = useInvoiceStore();
+  // Without a trained model there are only items to categorize by hand
+  const [minConfidence, setMinConfidence] = useState(() =>
+    categoryModel.exampleCount > 0 ? 0.5 : 0
+  );
+  // Categories typed over a suggestion, and rows ticked or unticked by hand
+  const [edits, setEdits] = useState<Record<string, string>>({});
+  const [checked, setChecked] = useState<Record<string, boolean>>({});
+  const [message, setMessage] = useState<string | null>(null);
+
+  const suggestions = useMemo(
+    () => suggestCategories(categoryModel, invoices),
+    [categoryModel, invoices]
+  );
+  const visible = useMemo(
+    () =>
+      suggestions.filter(
+        row => minConfidence === 0 || (row.suggestion?.confidence ?? 0) >= minConfidence
+      ),
+    [suggestions, minConfidence]
+  );
+  const shown = visible.slice(0, SUGGESTION_LIMIT);
+
+  const categoryOf = (row: CategorySuggestion) =>
+    (edits[rowKey(row)] ?? row.suggestion?.category ?? '').trim();
+  // Rows with a suggestion or a typed category are ticked unless unticked
+  const isChecked = (row: CategorySuggestion) =>
+    checked[rowKey(row)] ?? Boolean(categoryOf(row));
+
+  const accepted = shown.filter(row => isChecked(row) && categoryOf(row));
+
+  const handleAccept = () => {
+    const changes: ItemCategoryChange[] = accepted.map(row => ({
+      invoiceId: row.invoice.id,
+      itemId: row.item.id,
+      category: categoryOf(row),
+      acceptedSuggestion: categoryOf(row) === row.suggestion?.category,
+    }));
+    setItemCategories(changes);
+    setEdits({});
+    setChecked({});
+    setMessage(`已套用 ${changes.length} 個品項的分類，模型已重新訓練`);
+  };
+
+  const setAllChecked = (value: boolean) =>
+    setChecked(Object.fromEntries(shown.map(row => [rowKey(row), value])));
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between space-y-0">
+        <div>
+          <CardTitle className="flex items-center gap-2">
+            <Sparkles className="h-5 w-5" />
+            分類建議
+          </CardTitle>
+          <p className="text-sm text-muted-foreground mt-1">
+            {categoryModel.exampleCount > 0
+              ? `模型已從 ${categoryModel.exampleCount} 筆手動分類學習。`
+              : '模型尚未訓練：為下列品項指定分類後，模型會學習你的分類方式。'}
+            手動指定的分類不會被規則覆蓋。
+          </p>
+        </div>
+        <div className="flex items-center gap-2">
+          <Select
+            value={String(minConfidence)}
+            onValueChange={value => setMinConfidence(Number(value))}
+          >
+            <SelectTrigger className="w-40" aria-label="顯示的建議">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {CONFIDENCE_OPTIONS.map(option => (
+                <SelectItem key={option.value} value={option.value}>
+                  {option.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => {
+              retrainCategoryModel();
+              setMessage('已依目前的手動分類重新訓練模型');
+            }}
+            title="依目前所有手動分類的品項重新訓練"
+          >
+            <RefreshCw className="mr-1 h-4 w-4" />
+            重新訓練
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {message && (
+          <p className="text-sm text-green-700" role="status">
+            {message}
+          </p>
+        )}
+
+        {visible.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            {suggestions.length === 0
+              ? `沒有歸為「${DEFAULT_CATEGORY}」的品項。`
+              : '沒有符合條件的建議，可改為顯示全部未分類品項。'}
+          </p>
+        ) : (
+          <>
+            <div className="flex items-center justify-between">
+              <p className="text-sm text-muted-foreground">
+                共 {visible.length} 個品項
+                {visible.length > SUGGESTION_LIMIT && `（顯示前 ${SUGGESTION_LIMIT} 個）`}
+              </p>
+              <div className="flex gap-2">
+                <Button variant="ghost" size="sm" onClick={() => setAllChecked(true)}>
+                  全選
+                </Button>
+                <Button variant="ghost" size="sm" onClick={() => setAllChecked(false)}>
+                  全不選
+                </Button>
+                <Button size="sm" disabled={accepted.length === 0} onClick={handleAccept}>
+                  <Check className="mr-1 h-4 w-4" />
+                  套用所選（{accepted.length}）
+                </Button>
+              </div>
+            </div>
+
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="w-10" />
+                  <TableHead>商店</TableHead>
+                  <TableHead>品名</TableHead>
+                  <TableHead className="text-right">金額</TableHead>
+                  <TableHead>分類</TableHead>
+                  <TableHead className="w-20 text-right">信心</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {shown.map(row => (
+                  <TableRow key={rowKey(row)}>
+                    <TableCell>
+                      <Checkbox
+                        aria-label={`套用 ${row.item.itemName} 的分類`}
+                        checked={isChecked(row)}
+                        onCheckedChange={value =>
+                          setChecked(current => ({ ...current, [rowKey(row)]: value as boolean }))
+                        }
+                      />
+                    </TableCell>
+                    <TableCell className="text-sm">{row.invoice.merchantName}</TableCell>
+                    <TableCell className="text-sm">{row.item.itemName}</TableCell>
+                    <TableCell className="text-right text-sm">{row.item.amount}</TableCell>
+                    <TableCell>
+                      <Input
+                        aria-label={`${row.item.itemName} 的分類`}
+                        className="h-8"
+                        list="suggestion-categories"
+                        placeholder="輸入分類"
+                        title={categoryOf(row) ? formatCategoryPath(categoryOf(row)) : undefined}
+                        value={edits[rowKey(row)] ?? row.suggestion?.category ?? ''}
+                        onChange={event =>
+                          setEdits(current => ({ ...current, [rowKey(row)]: event.target.value }))
+                        }
+                      />
+                    </TableCell>
+                    <TableCell className="text-right">
+                      {row.suggestion ? (
+                        <Badge variant="outline" className="text-xs">
+                          {Math.round(row.suggestion.confidence * 100)}%
+                        </Badge>
+                      ) : (
+                        <span className="text-xs text-muted-foreground">-</span>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+            <datalist id="suggestion-categories">
+              {categories.map(category => (
+                <option key={category} value={category} />
+              ))}
+            </datalist>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -1,4 +1,4 @@
-import { useState, useMemo } from 'react';
+import { useState, useMemo, useRef, type ReactNode } from 'react';
 import { 
   ChevronUp, 
   ChevronDown, 
@@ -8,13 +8,20 @@ import {
   ChevronsRight,
   Settings,
   Eye,
-  EyeOff
+  EyeOff,
+  X,
 } from 'lucide-react';
-import { format } from 'date-fns';
-import { zhTW } from 'date-fns/locale';
-import { cn } from '@/lib/utils';
+import { cn, SOURCE_TYPE_LABELS } from '@/lib/utils';
+import { useDateFormatter } from '@/hooks/useDateFormatter';
+import { getCarrierTypeInfo } from '@/lib/carrierRegistry';
+import { createMerchant, getMerchantKey, parseTags } from '@/lib/merchantDirectory';
+import { formatCategoryPath, getCategoryAncestors } from '@/lib/categoryTree';
+import type { ItemCategoryChange } from '@/lib/categoryRules';
+import { useInvoiceStore } from '@/store';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
 import {
   Select,
   SelectContent,
@@ -35,7 +42,7 @@ import {
   TableHeader,
   TableRow,
 } from '@/components/ui/table';
-import { Invoice } from '@/types';
+import { Invoice, InvoiceSourceType } from '@/types';
 
 // Column definition interface
 export interface ColumnDef {
@@ -59,6 +66,13 @@ export interface TableRow {
   items: Invoice['items'];
   carrierType: string;
   carrierNumber: string;
+  sourceType: InvoiceSourceType;
+  invoiceIds: string[]; // Every invoice merged into the row
+  itemInvoiceIds: Record<string, string>; // Item id -> id of its invoice
+  merchantKey: string; // See getMerchantKey
+  notes?: string;
+  tags: string[];
+  excluded: boolean;
 }
 
 // Sort configuration
@@ -72,7 +86,72 @@ interface DataTableProps {
   className?: string;
 }
 
+interface InlineEditProps {
+  value: string;
+  label: string;
+  onSave: (value: string) => void;
+  placeholder?: string;
+  list?: string;
+  children: ReactNode;
+}
+
+/**
+ * Shows its children until clicked, then an input; Enter or leaving the input
+ * saves, Escape cancels
+ */
+function InlineEdit({ value, label, onSave, placeholder, list, children }: InlineEditProps) {
+  const [draft, setDraft] = useState<string | null>(null);
+  // The input blurs as it unmounts after Enter; save only once
+  const closed = useRef(false);
+
+  if (draft === null) {
+    return (
+      <button
+        type="button"
+        className="text-left hover:underline decoration-dotted"
+        title={`編輯${label}`}
+        onClick={() => {
+          closed.current = false;
+          setDraft(value);
+        }}
+      >
+        {children}
+      </button>
+    );
+  }
+
+  const close = (save: boolean) => {
+    if (closed.current) return;
+    closed.current = true;
+    if (save && draft.trim() !== value) onSave(draft.trim());
+    setDraft(null);
+  };
+
+  return (
+    <Input
+      autoFocus
+      aria-label={label}
+      className="h-7 min-w-24"
+      list={list}
+      placeholder={placeholder}
+      value={draft}
+      onChange={event => setDraft(event.target.value)}
+      onBlur={() => close(true)}
+      onKeyDown={event => {
+        if (event.key === 'Enter') close(true);
+        if (event.key === 'Escape') close(false);
+      }}
+    />
+  );
+}
+
 export function DataTable({ invoices, className }: DataTableProps) {
+  const { formatDate } = useDateFormatter();
+  const { merchants, categoryRules, setItemCategories, editInvoices, saveMerchant } =
+    useInvoiceStore();
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [bulkCategory, setBulkCategory] = useState('');
+  const [bulkTags, setBulkTags] = useState('');
   const [sortConfig, setSortConfig] = useState<SortConfig>({ key: 'invoiceDate', direction: 'desc' });
   const [currentPage, setCurrentPage] = useState(1);
   const [pageSize, setPageSize] = useState(20);
@@ -88,8 +167,40 @@ export function DataTable({ invoices, className }: DataTableProps) {
     carrierType: false,
     carrierNumber: false,
     merchantId: false,
+    sourceType: true,
+    tags: true,
+    notes: true,
   });
 
+  const merchantsById = useMemo(
+    () => new Map(merchants.map(merchant => [merchant.id, merchant])),
+    [merchants]
+  );
+  const categories = useMemo(
+    () => Array.from(new Set(categoryRules.flatMap(rule => getCategoryAncestors(rule.category)))),
+    [categoryRules]
+  );
+
+  const saveDisplayName = (row: TableRow, displayName: string) => {
+    const merchant =
+      merchantsById.get(row.merchantKey) ?? createMerchant(row.merchantKey, row.merchantName);
+    saveMerchant({ ...merchant, displayName });
+  };
+
+  // Every editable item of the rows gets the category
+  const setRowsCategory = (rows: TableRow[], category: string) =>
+    setItemCategories(
+      rows.flatMap(row =>
+        row.items
+          .filter(item => !item.adjustment)
+          .map<ItemCategoryChange>(item => ({
+            invoiceId: row.itemInvoiceIds[item.id],
+            itemId: item.id,
+            category,
+          }))
+      )
+    );
+
   // Define columns
   const columns: ColumnDef[] = [
     {
@@ -105,7 +216,7 @@ export function DataTable({ invoices, className }: DataTableProps) {
       sortable: true,
       visible: columnVisibility.invoiceDate,
       width: 'w-28',
-      render: (value: Date) => format(value, 'yyyy/MM/dd', { locale: zhTW }),
+      render: (value: Date) => formatDate(value),
     },
     {
       key: 'merchantName',
@@ -113,6 +224,22 @@ export function DataTable({ invoices, className }: DataTableProps) {
       sortable: true,
       visible: columnVisibility.merchantName,
       width: 'w-40',
+      render: (value: string, row) => {
+        const displayName = merchantsById.get(row.merchantKey)?.displayName;
+        return (
+          <div>
+            <InlineEdit
+              label="商店顯示名稱"
+              value={displayName ?? ''}
+              placeholder={value}
+              onSave={name => saveDisplayName(row, name)}
+            >
+              {displayName || value || '-'}
+            </InlineEdit>
+            {displayName && <div className="text-xs text-muted-foreground">{value}</div>}
+          </div>
+        );
+      },
     },
     {
       key: 'totalAmount',
@@ -128,10 +255,13 @@ export function DataTable({ invoices, className }: DataTableProps) {
       sortable: true,
       visible: columnVisibility.status,
       width: 'w-20',
-      render: (value: string) => (
-        <Badge variant={value === 'issued' ? 'default' : 'destructive'}>
-          {value === 'issued' ? '正常' : '作廢'}
-        </Badge>
+      render: (value: string, row) => (
+        <div className="flex flex-col items-start gap-1">
+          <Badge variant={value === 'issued' ? 'default' : 'destructive'}>
+            {value === 'issued' ? '正常' : '作廢'}
+          </Badge>
+          {row.excluded && <Badge variant="secondary">不計入統計</Badge>}
+        </div>
       ),
     },
     {
@@ -187,21 +317,105 @@ export function DataTable({ invoices, className }: DataTableProps) {
 
         return (
           <div className="flex flex-wrap gap-1">
-            {row.items.map(item => (
-              <Badge key={item.id} variant="outline">
-                {item.category || '未分類'}
-              </Badge>
-            ))}
+            {row.items.map(item => {
+              const badge = (
+                <Badge
+                  variant={item.manualCategory ? 'secondary' : 'outline'}
+                  title={
+                    item.acceptedSuggestion ? '採用的分類建議' : item.manualCategory ? '手動分類' : undefined
+                  }
+                >
+                  {item.category ? formatCategoryPath(item.category) : '未分類'}
+                </Badge>
+              );
+              // Adjustment items keep the category reconciliation gave them
+              return item.adjustment ? (
+                <span key={item.id}>{badge}</span>
+              ) : (
+                <InlineEdit
+                  key={item.id}
+                  label={`${item.itemName} 的分類`}
+                  value={item.category ?? ''}
+                  list="data-table-categories"
+                  onSave={category =>
+                    setItemCategories([
+                      { invoiceId: row.itemInvoiceIds[item.id], itemId: item.id, category },
+                    ])
+                  }
+                >
+                  {badge}
+                </InlineEdit>
+              );
+            })}
           </div>
         );
       },
     },
+    {
+      key: 'tags',
+      label: '標籤',
+      sortable: false,
+      visible: columnVisibility.tags,
+      width: 'w-32',
+      render: (_value, row) =>
+        row.tags.length > 0 ? (
+          <div className="flex flex-wrap gap-1">
+            {row.tags.map(tag => (
+              <Badge key={tag} variant="outline" className="gap-1">
+                {tag}
+                <button
+                  type="button"
+                  aria-label={`移除標籤 ${tag}`}
+                  onClick={() =>
+                    editInvoices(row.invoiceIds, invoice => ({
+                      tags: (invoice.tags ?? []).filter(existing => existing !== tag),
+                    }))
+                  }
+                >
+                  <X className="h-3 w-3" />
+                </button>
+              </Badge>
+            ))}
+          </div>
+        ) : (
+          '-'
+        ),
+    },
+    {
+      key: 'notes',
+      label: '備註',
+      sortable: false,
+      visible: columnVisibility.notes,
+      width: 'w-40',
+      render: (_value, row) => (
+        <InlineEdit
+          label="備註"
+          value={row.notes ?? ''}
+          onSave={notes => editInvoices(row.invoiceIds, { notes })}
+        >
+          {row.notes || <span className="text-muted-foreground">新增備註</span>}
+        </InlineEdit>
+      ),
+    },
+    {
+      key: 'sourceType',
+      label: '來源',
+      sortable: true,
+      visible: columnVisibility.sourceType,
+      width: 'w-20',
+      render: (value: InvoiceSourceType) => (
+        <Badge variant={value === 'e-invoice' ? 'outline' : 'secondary'}>
+          {SOURCE_TYPE_LABELS[value]}
+        </Badge>
+      ),
+    },
     {
       key: 'carrierType',
       label: '載具類型',
       sortable: true,
       visible: columnVisibility.carrierType,
       width: 'w-24',
+      render: (value: string) => (value ? getCarrierTypeInfo(value).name : '-'),
     },
     {
       key: 'carrierNumber',
@@ -238,6 +452,14 @@ export function DataTable({ invoices, className }: DataTableProps) {
 
         invoiceMap.set(key, {
           ...existingInvoice,
+          invoiceIds: [...existingInvoice.invoiceIds, invoice.id],
+          itemInvoiceIds: {
+            ...Object.fromEntries((invoice.items ?? []).map(item => [item.id, invoice.id])),
+            ...existingInvoice.itemInvoiceIds,
+          },
+          notes: existingInvoice.notes || invoice.notes,
+          tags: Array.from(new Set([...existingInvoice.tags, ...(invoice.tags ?? [])])),
+          excluded: existingInvoice.excluded && Boolean(invoice.excluded),
           invoiceDate:
             invoice.invoiceDate && invoice.invoiceDate > existingInvoice.invoiceDate
               ? invoice.invoiceDate
@@ -262,6 +484,15 @@ export function DataTable({ invoices, className }: DataTableProps) {
           items: invoice.items ?? [],
           carrierType: invoice.carrierType,
           carrierNumber: invoice.carrierNumber,
+          sourceType: invoice.sourceType ?? 'e-invoice',
+          invoiceIds: [invoice.id],
+          itemInvoiceIds: Object.fromEntries(
+            (invoice.items ?? []).map(item => [item.id, invoice.id])
+          ),
+          merchantKey: getMerchantKey(invoice),
+          notes: invoice.notes,
+          tags: invoice.tags ?? [],
+          excluded: Boolean(invoice.excluded),
         });
       }
     });
@@ -325,6 +556,38 @@ export function DataTable({ invoices, className }: DataTableProps) {
   // Get visible columns
   const visibleColumns = columns.filter(col => col.visible);
 
+  // Selection survives paging; rows no longer listed drop out of it
+  const selectedRows = tableData.filter(row => selectedIds.has(row.id));
+  const selectedInvoiceIds = selectedRows.flatMap(row => row.invoiceIds);
+  const pageSelected =
+    paginatedData.length > 0 && paginatedData.every(row => selectedIds.has(row.id));
+
+  const toggleRow = (id: string, checked: boolean) =>
+    setSelectedIds(prev => {
+      const next = new Set(prev);
+      if (checked) next.add(id);
+      else next.delete(id);
+      return next;
+    });
+
+  const togglePage = (checked: boolean) =>
+    setSelectedIds(prev => {
+      const next = new Set(prev);
+      paginatedData.forEach(row => (checked ? next.add(row.id) : next.delete(row.id)));
+      return next;
+    });
+
+  const handleBulkCategory = () => {
+    setRowsCategory(selectedRows, bulkCategory);
+    setBulkCategory('');
+  };
+
+  const handleBulkTags = () => {
+    const tags = parseTags(bulkTags);
+    editInvoices(selectedInvoiceIds, invoice => ({ tags: [...(invoice.tags ?? []), ...tags] }));
+    setBulkTags('');
+  };
+
   return (
     <div className={cn("space-y-4", className)}>
       {/* Table Controls */}
@@ -390,12 +653,64 @@ export function DataTable({ invoices, className }: DataTableProps) {
         </Popover>
       </div>
 
+      {/* Bulk Actions */}
+      {selectedRows.length > 0 && (
+        <div className="flex flex-wrap items-center gap-2 rounded-lg border bg-muted/40 p-3">
+          <span className="text-sm font-medium">已選取 {selectedRows.length} 筆</span>
+          <Input
+            aria-label="批次設定分類"
+            className="h-8 w-40"
+            list="data-table-categories"
+            placeholder="分類，例如：餐食/午餐"
+            value={bulkCategory}
+            onChange={event => setBulkCategory(event.target.value)}
+          />
+          <Button size="sm" variant="outline" disabled={!bulkCategory.trim()} onClick={handleBulkCategory}>
+            設定分類
+          </Button>
+          <Input
+            aria-label="批次加上標籤"
+            className="h-8 w-40"
+            placeholder="標籤，以逗號分隔"
+            value={bulkTags}
+            onChange={event => setBulkTags(event.target.value)}
+          />
+          <Button size="sm" variant="outline" disabled={!bulkTags.trim()} onClick={handleBulkTags}>
+            加上標籤
+          </Button>
+          <Button
+            size="sm"
+            variant="outline"
+            onClick={() => editInvoices(selectedInvoiceIds, { excluded: true })}
+          >
+            排除統計
+          </Button>
+          <Button
+            size="sm"
+            variant="outline"
+            onClick={() => editInvoices(selectedInvoiceIds, { excluded: false })}
+          >
+            取消排除
+          </Button>
+          <Button size="sm" variant="ghost" onClick={() => setSelectedIds(new Set())}>
+            清除選取
+          </Button>
+        </div>
+      )}
+
       {/* Table */}
       <div className="border rounded-lg overflow-hidden">
         <div className="overflow-x-auto">
           <Table>
             <TableHeader>
               <TableRow>
+                <TableHead className="w-10">
+                  <Checkbox
+                    aria-label="選取本頁"
+                    checked={pageSelected}
+                    onCheckedChange={checked => togglePage(checked === true)}
+                  />
+                </TableHead>
                 {visibleColumns.map(column => (
                   <TableHead 
                     key={column.key} 
@@ -432,7 +747,14 @@ export function DataTable({ invoices, className }: DataTableProps) {
             <TableBody>
               {paginatedData.length > 0 ? (
                 paginatedData.map(row => (
-                  <TableRow key={row.id}>
+                  <TableRow key={row.id} className={cn(row.excluded && "opacity-60")}>
+                    <TableCell className="w-10">
+                      <Checkbox
+                        aria-label={`選取發票 ${row.invoiceNumber}`}
+                        checked={selectedIds.has(row.id)}
+                        onCheckedChange={checked => toggleRow(row.id, checked === true)}
+                      />
+                    </TableCell>
                     {visibleColumns.map(column => (
                       <TableCell key={column.key} className={column.width}>
                         {column.render 
@@ -445,7 +767,7 @@ export function DataTable({ invoices, className }: DataTableProps) {
                 ))
               ) : (
                 <TableRow>
-                  <TableCell colSpan={visibleColumns.length} className="text-center py-12">
+                  <TableCell colSpan={visibleColumns.length + 1} className="text-center py-12">
                     <div className="text-muted-foreground">
                       <p className="text-lg font-medium">無資料可顯示</p>
                       <p className="text-sm mt-1">請調整篩選條件或上傳發票檔案</p>
@@ -455,6 +777,11 @@ export function DataTable({ invoices, className }: DataTableProps) {
               )}
             </TableBody>
           </Table>
+          <datalist id="data-table-categories">
+            {categories.map(category => (
+              <option key={category} value={category} />
+            ))}
+          </datalist>
         </div>
       </div>
 
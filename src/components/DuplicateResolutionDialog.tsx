@@ -0,0 +1,121 @@
+import { useState } from 'react';
+import { useInvoiceStore } from '@/store';
+import { Invoice } from '@/types';
+import type {
+  DuplicatePair,
+  DuplicateResolution,
+} from '@/lib/duplicateService';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { useDateFormatter } from '@/hooks/useDateFormatter';
+
+interface DuplicateResolutionDialogProps {
+  open: boolean;
+  conflicts: DuplicatePair[];
+  onClose: () => void;
+}
+
+const RESOLUTION_LABELS: Record<DuplicateResolution, string> = {
+  existing: '保留原有',
+  incoming: '使用新檔案',
+  both: '兩者都保留',
+};
+
+function InvoiceSummary({ title, invoice }: { title: string; invoice: Invoice }) {
+  const { formatDate } = useDateFormatter();
+  return (
+    <div className="rounded-md border p-3 text-sm space-y-1">
+      <div className="text-xs font-medium text-muted-foreground">{title}</div>
+      <div className="font-medium">{invoice.merchantName}</div>
+      <div>{formatDate(invoice.invoiceDate)}</div>
+      <div>
+        金額: ${invoice.totalAmount.toLocaleString()}
+        {invoice.status === 'voided' && (
+          <Badge variant="destructive" className="ml-2">作廢</Badge>
+        )}
+      </div>
+      <ul className="text-xs text-muted-foreground list-disc list-inside">
+        {invoice.items.map(item => (
+          <li key={item.id}>
+            {item.itemName} ${item.amount.toLocaleString()}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
+
+export function DuplicateResolutionDialog({
+  open,
+  conflicts,
+  onClose,
+}: DuplicateResolutionDialogProps) {
+  const resolveDuplicate = useInvoiceStore(state => state.resolveDuplicate);
+  const [resolved, setResolved] = useState<Record<string, DuplicateResolution>>({});
+
+  const handleResolve = (pair: DuplicatePair, resolution: DuplicateResolution) => {
+    resolveDuplicate(pair, resolution);
+    setResolved(prev => ({ ...prev, [pair.incoming.id]: resolution }));
+  };
+
+  const handleClose = () => {
+    setResolved({});
+    onClose();
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={isOpen => !isOpen && handleClose()}>
+      <DialogContent onClose={handleClose} className="max-w-3xl">
+        <DialogHeader>
+          <DialogTitle>處理衝突的重複發票</DialogTitle>
+          <DialogDescription>
+            以下發票號碼已存在，但內容與新上傳的檔案不同。請選擇要保留的版本。
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="max-h-[60vh] overflow-y-auto space-y-4">
+          {conflicts.map(pair => (
+            <div key={pair.incoming.id} className="space-y-2 border-b pb-4">
+              <div className="flex items-center justify-between">
+                <span className="font-medium">{pair.incoming.invoiceNumber}</span>
+                {resolved[pair.incoming.id] && (
+                  <Badge variant="secondary">
+                    {RESOLUTION_LABELS[resolved[pair.incoming.id]]}
+                  </Badge>
+                )}
+              </div>
+              <div className="grid grid-cols-2 gap-3">
+                <InvoiceSummary title="原有資料" invoice={pair.existing} />
+                <InvoiceSummary title="新檔案" invoice={pair.incoming} />
+              </div>
+              <div className="flex gap-2 justify-end">
+                {(Object.keys(RESOLUTION_LABELS) as DuplicateResolution[]).map(resolution => (
+                  <Button
+                    key={resolution}
+                    size="sm"
+                    variant={resolved[pair.incoming.id] === resolution ? 'default' : 'outline'}
+                    onClick={() => handleResolve(pair, resolution)}
+                  >
+                    {RESOLUTION_LABELS[resolution]}
+                  </Button>
+                ))}
+              </div>
+            </div>
+          ))}
+        </div>
+
+        <DialogFooter>
+          <Button onClick={handleClose}>完成</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
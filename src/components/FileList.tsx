@@ -1,7 +1,11 @@
-import { useState } from 'react';
+import { useMemo, useState } from 'react';
 import { FileText, CheckCircle, AlertCircle, Clock, Trash2, RefreshCw } from 'lucide-react';
 import { useInvoiceStore } from '@/store';
-import { FileInfo } from '@/types';
+import { DataQualitySummary, FileInfo, ValidationWarningCode } from '@/types';
+import { ENCODING_LABELS } from '@/lib/encodingDetector';
+import { SOURCE_TYPE_LABELS } from '@/lib/utils';
+import { hasOriginalFile } from '@/lib/originalFileStore';
+import { formatInvoicePeriod, VALIDATION_WARNING_LABELS } from '@/lib/invoiceValidation';
 import { FileListSkeleton } from './LoadingStates';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
@@ -14,12 +18,26 @@ interface FileListProps {
 }
 
 export function FileList({ onReprocessFile }: FileListProps) {
-  const { files, removeFile, isLoading } = useInvoiceStore();
+  const { files, invoices, removeFile, isLoading } = useInvoiceStore();
   const [deleteDialog, setDeleteDialog] = useState<{ open: boolean; file: FileInfo | null }>({
     open: false,
     file: null
   });
 
+  // Count invoices currently in the store for each source file
+  const invoiceCounts = useMemo(() => {
+    const counts = new Map<string, number>();
+    invoices.forEach(invoice => {
+      if (invoice.sourceFileId) {
+        counts.set(
+          invoice.sourceFileId,
+          (counts.get(invoice.sourceFileId) ?? 0) + 1
+        );
+      }
+    });
+    return counts;
+  }, [invoices]);
+
   const formatFileSize = (bytes: number): string => {
     if (bytes === 0) return '0 B';
     const k = 1024;
@@ -64,6 +82,31 @@ export function FileList({ onReprocessFile }: FileListProps) {
     }
   };
 
+  const renderDataQuality = (quality: DataQualitySummary) => {
+    const { periods } = quality;
+    const periodText = periods.length > 1
+      ? `${formatInvoicePeriod(periods[0])} ~ ${formatInvoicePeriod(periods[periods.length - 1])}`
+      : periods.map(formatInvoicePeriod).join('');
+
+    return (
+      <>
+        {periodText && (
+          <div className="text-xs text-muted-foreground mt-1">
+            期別: {periodText}
+          </div>
+        )}
+        {quality.warningCount > 0 && (
+          <div className="text-xs text-orange-600 mt-1">
+            資料品質警告:{' '}
+            {(Object.keys(quality.warningCounts) as ValidationWarningCode[])
+              .map(code => `${VALIDATION_WARNING_LABELS[code]} ${quality.warningCounts[code]} 筆`)
+              .join('、')}
+          </div>
+        )}
+      </>
+    );
+  };
+
   const handleDeleteClick = (file: FileInfo) => {
     setDeleteDialog({ open: true, file });
   };
@@ -144,12 +187,23 @@ export function FileList({ onReprocessFile }: FileListProps) {
                     {getStatusIcon(file.status)}
                   </TableCell>
                   <TableCell>
-                    <div className="font-medium">{file.fileName}</div>
+                    <div className="font-medium flex items-center gap-2">
+                      {file.fileName}
+                      {file.sourceType && file.sourceType !== 'e-invoice' && (
+                        <Badge variant="outline">{SOURCE_TYPE_LABELS[file.sourceType]}</Badge>
+                      )}
+                    </div>
+                    {file.encoding && (
+                      <div className="text-xs text-muted-foreground mt-1">
+                        編碼: {ENCODING_LABELS[file.encoding]}
+                      </div>
+                    )}
                     {file.lastProcessedDate && file.lastProcessedDate !== file.uploadDate && (
                       <div className="text-xs text-muted-foreground mt-1">
                         最後處理: {formatDate(file.lastProcessedDate)}
                       </div>
                     )}
+                    {file.dataQuality && renderDataQuality(file.dataQuality)}
                     {file.errorMessage && (
                       <div className="text-xs text-red-500 mt-1">
                         {file.errorMessage}
@@ -164,7 +218,9 @@ export function FileList({ onReprocessFile }: FileListProps) {
                   </TableCell>
                   <TableCell>
                     {file.status === 'completed' ? (
-                      <span className="font-medium">{file.invoiceCount} 筆</span>
+                      <span className="font-medium">
+                        {invoiceCounts.get(file.id) ?? file.invoiceCount} 筆
+                      </span>
                     ) : (
                       <span className="text-muted-foreground">-</span>
                     )}
@@ -174,16 +230,17 @@ export function FileList({ onReprocessFile }: FileListProps) {
                   </TableCell>
                   <TableCell>
                     <div className="flex items-center gap-1">
-                      {(file.status === 'error' || file.status === 'completed') && (
+                      {/* Paper invoices have no file to reprocess */}
+                      {(file.status === 'error' || file.status === 'completed') && file.sourceType !== 'paper' && (
                         <Button
                           variant="ghost"
                           size="sm"
                           onClick={() => handleReprocess(file)}
                           className="h-8 w-8 p-0"
-                          title={file.originalFileData ? "重新處理" : "重新處理 (需重新上傳)"}
-                          disabled={!file.originalFileData}
+                          title={hasOriginalFile(file) ? "重新處理" : "重新處理 (需重新上傳)"}
+                          disabled={!hasOriginalFile(file)}
                         >
-                          <RefreshCw className={`h-3 w-3 ${!file.originalFileData ? 'opacity-50' : ''}`} />
+                          <RefreshCw className={`h-3 w-3 ${!hasOriginalFile(file) ? 'opacity-50' : ''}`} />
                         </Button>
                       )}
                       <Button
@@ -212,7 +269,9 @@ export function FileList({ onReprocessFile }: FileListProps) {
             <DialogDescription>
               您確定要刪除檔案 "{deleteDialog.file?.fileName}" 嗎？
               <br />
-              此操作將會移除檔案及其相關的發票資料，且無法復原。
+              此操作將會移除檔案及其相關的
+              {deleteDialog.file && ` ${invoiceCounts.get(deleteDialog.file.id) ?? 0} 筆`}
+              發票資料，且無法復原。
             </DialogDescription>
           </DialogHeader>
           <DialogFooter>
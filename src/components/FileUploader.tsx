@@ -1,29 +1,106 @@
-import { useCallback, useState } from 'react';
+import { useCallback, useRef, useState } from 'react';
 import { Upload, FileText, AlertCircle, CheckCircle } from 'lucide-react';
+import { useCSVParser } from '@/hooks/useCSVParser';
+import { ENCODING_LABELS } from '@/lib/encodingDetector';
+import { findStatementProfile } from '@/lib/statementParser';
 import { csvService } from '@/lib/csvService';
+import { getAvailableStorage } from '@/lib/originalFileStore';
+import { validateReceiptPhoto, type ReceiptPhotoResult } from '@/lib/qrImageDecoder';
+import {
+  DUPLICATE_POLICY_LABELS,
+  type DuplicatePair,
+  type DuplicateSummary,
+} from '@/lib/duplicateService';
+import { useInvoiceStore } from '@/store';
+import {
+  ColumnMapping,
+  DuplicatePolicy,
+  FileEncoding,
+  Invoice,
+  InvoiceSourceType,
+  StatementProfile,
+} from '@/types';
 import { ParseProgressDialog } from './ParseProgressDialog';
+import { DuplicateResolutionDialog } from './DuplicateResolutionDialog';
+import { ImportPreviewDialog } from './ImportPreviewDialog';
+import { StatementProfileDialog } from './StatementProfileDialog';
+import { ReceiptReviewDialog } from './ReceiptReviewDialog';
 import { ErrorMessage, type ErrorType } from './ErrorMessage';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
 
 interface FileUploaderProps {
-  onUploadComplete?: (results: Array<{ success: boolean; fileName: string; errors?: string[] }>) => void;
+  onUploadComplete?: (results: Array<{ success: boolean; fileName: string; errors?: string[]; duplicates?: DuplicateSummary }>) => void;
   multiple?: boolean;
   className?: string;
 }
 
-const MAX_FILE_SIZE = 10 * 1024 * 1024; // 10MB in bytes
+const IMPORT_TYPE_LABELS: Record<InvoiceSourceType, string> = {
+  'e-invoice': '電子發票 CSV',
+  statement: '銀行/信用卡對帳單',
+  paper: '紙本發票照片',
+};
+
+const ACCEPTED_FILE_TYPES: Record<InvoiceSourceType, string> = {
+  'e-invoice': '.csv',
+  statement: '.csv,.tsv,.txt',
+  paper: 'image/*',
+};
+
+const FILE_FORMAT_LABELS: Record<InvoiceSourceType, string> = {
+  'e-invoice': 'CSV',
+  statement: 'CSV、TSV、TXT',
+  paper: 'JPG、PNG、WebP',
+};
+
+const formatDuplicateSummary = (duplicates?: DuplicateSummary): string => {
+  if (!duplicates) return '上傳成功';
+  return `上傳成功：新增 ${duplicates.newCount} 筆、相同 ${duplicates.identicalCount} 筆、衝突 ${duplicates.conflictCount} 筆`;
+};
 
 export function FileUploader({ 
   onUploadComplete, 
   multiple = false, 
   className = '' 
 }: FileUploaderProps) {
-  const [isProcessing, setIsProcessing] = useState(false);
-  const [progress, setProgress] = useState(0);
-  const [progressMessage, setProgressMessage] = useState('');
+  const {
+    isProcessing,
+    progress,
+    progressMessage,
+    processFile,
+    processFiles,
+    processStatementFile,
+    decodePhotos,
+    cancel,
+  } = useCSVParser();
   const [dragActive, setDragActive] = useState(false);
+  const [encoding, setEncoding] = useState<FileEncoding | 'auto'>('auto');
+  const [importType, setImportType] = useState<InvoiceSourceType>('e-invoice');
+  const statementProfiles = useInvoiceStore(state => state.statementProfiles);
+  const duplicatePolicy = useInvoiceStore(state => state.settings.duplicatePolicy);
+  const previewBeforeImport = useInvoiceStore(state => state.settings.previewBeforeImport);
+  const updateSettings = useInvoiceStore(state => state.updateSettings);
+  const [previewFile, setPreviewFile] = useState<File | null>(null);
+  const previewResolverRef = useRef<((mapping: ColumnMapping | null) => void) | null>(null);
+  const [statementRequest, setStatementRequest] = useState<{
+    file: File;
+    profile?: StatementProfile;
+  } | null>(null);
+  const statementResolverRef = useRef<((profile: StatementProfile | null) => void) | null>(null);
+  const [receiptResults, setReceiptResults] = useState<ReceiptPhotoResult[] | null>(null);
+  const receiptResolverRef = useRef<((invoices: Invoice[] | null) => void) | null>(null);
+  const [conflicts, setConflicts] = useState<DuplicatePair[]>([]);
+  const [showConflicts, setShowConflicts] = useState(false);
   const [uploadStatus, setUploadStatus] = useState<{
     show: boolean;
     files: Array<{ name: string; status: 'success' | 'error' | 'processing'; message?: string; }>
@@ -35,17 +112,27 @@ export function FileUploader({
     details?: string;
   } | null>(null);
 
-  const validateFile = (file: File): { valid: boolean; error?: string; errorType?: ErrorType } => {
+  // room: bytes of storage left for this file, or null when unknown
+  const validateFile = useCallback((file: File, room: number | null): { valid: boolean; error?: string; errorType?: ErrorType } => {
     // Check file type
-    if (!file.name.toLowerCase().endsWith('.csv')) {
+    if (importType === 'paper') {
+      const photoValidation = validateReceiptPhoto(file);
+      if (!photoValidation.valid) {
+        return { valid: false, error: photoValidation.error, errorType: 'file-format' };
+      }
+    } else if (importType === 'statement') {
+      if (!/\.(csv|tsv|txt)$/i.test(file.name)) {
+        return { valid: false, error: '對帳單僅支援 CSV、TSV 或 TXT 格式檔案', errorType: 'file-format' };
+      }
+    } else if (!file.name.toLowerCase().endsWith('.csv')) {
       return { valid: false, error: '僅支援 CSV 格式檔案', errorType: 'file-format' };
     }
 
-    // Check file size
-    if (file.size > MAX_FILE_SIZE) {
-      return { 
-        valid: false, 
-        error: `檔案大小超過限制 (${(MAX_FILE_SIZE / 1024 / 1024).toFixed(0)}MB)`,
+    // Check the file fits in the storage left
+    if (room !== null && file.size > room) {
+      return {
+        valid: false,
+        error: `儲存空間不足 (剩餘約 ${(room / 1024 / 1024).toFixed(1)}MB)`,
         errorType: 'file-size'
       };
     }
@@ -56,18 +143,62 @@ export function FileUploader({
     }
 
     return { valid: true };
-  };
+  }, [importType]);
+
+  // Show the preview dialog for a file and wait for confirm (mapping) or skip (null)
+  const requestPreview = useCallback((file: File) => {
+    return new Promise<ColumnMapping | null>(resolve => {
+      previewResolverRef.current = resolve;
+      setPreviewFile(file);
+    });
+  }, []);
+
+  const resolvePreview = useCallback((mapping: ColumnMapping | null) => {
+    previewResolverRef.current?.(mapping);
+    previewResolverRef.current = null;
+    setPreviewFile(null);
+  }, []);
+
+  // Show the statement profile dialog and wait for the confirmed profile (or null to skip)
+  const requestStatementProfile = useCallback((file: File, profile?: StatementProfile) => {
+    return new Promise<StatementProfile | null>(resolve => {
+      statementResolverRef.current = resolve;
+      setStatementRequest({ file, profile });
+    });
+  }, []);
+
+  const resolveStatementProfile = useCallback((profile: StatementProfile | null) => {
+    statementResolverRef.current?.(profile);
+    statementResolverRef.current = null;
+    setStatementRequest(null);
+  }, []);
+
+  // Show decoded photos for confirmation; resolves with the invoices to import (or null)
+  const requestReceiptReview = useCallback((results: ReceiptPhotoResult[]) => {
+    return new Promise<Invoice[] | null>(resolve => {
+      receiptResolverRef.current = resolve;
+      setReceiptResults(results);
+    });
+  }, []);
+
+  const resolveReceiptReview = useCallback((invoices: Invoice[] | null) => {
+    receiptResolverRef.current?.(invoices);
+    receiptResolverRef.current = null;
+    setReceiptResults(null);
+  }, []);
 
   const handleFiles = useCallback(async (files: FileList | null) => {
     if (!files || files.length === 0) return;
 
     const fileArray = Array.from(files);
     
-    // Validate all files first
-    const validationResults = fileArray.map(file => ({
-      file,
-      validation: validateFile(file)
-    }));
+    // Validate all files first; together they have to fit in the storage left
+    let room = await getAvailableStorage();
+    const validationResults = fileArray.map(file => {
+      const validation = validateFile(file, room);
+      if (validation.valid && room !== null) room -= file.size;
+      return { file, validation };
+    });
 
     const invalidFiles = validationResults.filter(result => !result.validation.valid);
     const validFiles = validationResults.filter(result => result.validation.valid);
@@ -110,39 +241,114 @@ export function FileUploader({
       }));
       
       setUploadStatus({ show: true, files: processingFiles });
-      setIsProcessing(true);
 
       let results;
       
-      if (validFiles.length === 1) {
+      if (importType === 'paper') {
+        // Photos are decoded as one batch and land in FileList as a single source entry
+        const decoded = await decodePhotos(validFiles.map(({ file }) => file));
+        const invoices = decoded.cancelled ? null : await requestReceiptReview(decoded.results);
+
+        if (!invoices || invoices.length === 0) {
+          results = [{
+            success: false,
+            fileName: `${validFiles.length} 張發票照片`,
+            errors: [decoded.cancelled ? '已取消辨識' : '已略過匯入'],
+          }];
+        } else {
+          const result = csvService.importSourceInvoices(
+            `發票照片 ${invoices.length} 張（${new Date().toLocaleString('zh-TW')}）`,
+            'paper',
+            invoices,
+            { duplicatePolicy }
+          );
+          results = [{
+            success: result.success,
+            fileName: result.fileInfo.fileName,
+            errors: result.errors,
+            duplicates: result.duplicates,
+          }];
+        }
+      } else if (importType === 'statement') {
+        // Statements always need a profile; unknown layouts (or preview mode) ask for one
+        results = [];
+        for (const { file } of validFiles) {
+          const matchedProfile = findStatementProfile(file.name, statementProfiles);
+          const profile = matchedProfile && !previewBeforeImport
+            ? matchedProfile
+            : await requestStatementProfile(file, matchedProfile);
+          if (!profile) {
+            results.push({ success: false, fileName: file.name, errors: ['已略過匯入'] });
+            continue;
+          }
+
+          const result = await processStatementFile(file, profile, {
+            skipErrors: true,
+            encoding,
+            duplicatePolicy,
+          });
+          results.push({
+            success: result.success,
+            fileName: result.fileInfo.fileName,
+            errors: result.errors,
+            duplicates: result.duplicates,
+          });
+
+          if (result.cancelled) break;
+        }
+      } else if (previewBeforeImport) {
+        // Each file is previewed and confirmed before it is committed
+        results = [];
+        for (const { file } of validFiles) {
+          const columnMapping = await requestPreview(file);
+          if (!columnMapping) {
+            results.push({ success: false, fileName: file.name, errors: ['已略過匯入'] });
+            continue;
+          }
+
+          const result = await processFile(file, {
+            skipErrors: true,
+            encoding,
+            duplicatePolicy,
+            columnMapping,
+          });
+          results.push({
+            success: result.success,
+            fileName: result.fileInfo.fileName,
+            errors: result.errors,
+            duplicates: result.duplicates,
+          });
+
+          if (result.cancelled) break;
+        }
+      } else if (validFiles.length === 1) {
         const { file } = validFiles[0];
         
-        const result = await csvService.processFile(file, {
+        // Parsing runs in a worker; progress and cancellation go through useCSVParser
+        const result = await processFile(file, {
           skipErrors: true,
-          onProgress: (prog, msg) => {
-            setProgress(prog);
-            setProgressMessage(msg);
-          }
-        }, true); // Store original file for reprocessing
+          encoding,
+          duplicatePolicy,
+        });
 
         results = [{ 
           success: result.success, 
           fileName: result.fileInfo.fileName,
-          errors: result.errors 
+          errors: result.errors,
+          duplicates: result.duplicates,
         }];
       } else {
-        const multiResults = await csvService.processFiles(validFiles.map(({ file }) => file), {
+        const multiResults = await processFiles(validFiles.map(({ file }) => file), {
           skipErrors: true,
-          onProgress: (prog, msg) => {
-            setProgress(prog);
-            setProgressMessage(msg);
-          }
+          encoding,
+          duplicatePolicy,
         });
 
         results = multiResults.map(result => ({
           success: result.success,
           fileName: result.fileInfo.fileName,
           errors: result.errors,
+          duplicates: result.duplicates,
         }));
       }
       
@@ -150,15 +356,21 @@ export function FileUploader({
       const statusFiles = results.map(result => ({
         name: result.fileName,
         status: result.success ? 'success' as const : 'error' as const,
-        message: result.success ? '上傳成功' : result.errors?.join(', ')
+        message: result.success ? formatDuplicateSummary(result.duplicates) : result.errors?.join(', ')
       }));
       
       setUploadStatus({ show: true, files: statusFiles });
+
+      // Conflicting duplicates are offered for manual resolution
+      const uploadConflicts = results.flatMap(result => result.duplicates?.conflicts ?? []);
+      setConflicts(uploadConflicts);
       
-      // Auto-hide success messages after 3 seconds
-      setTimeout(() => {
-        setUploadStatus({ show: false, files: [] });
-      }, 3000);
+      // Auto-hide success messages after 3 seconds (kept while conflicts are open)
+      if (uploadConflicts.length === 0) {
+        setTimeout(() => {
+          setUploadStatus({ show: false, files: [] });
+        }, 3000);
+      }
       
       onUploadComplete?.(results);
     } catch (error) {
@@ -197,12 +409,8 @@ export function FileUploader({
         fileName: validFiles[0]?.file.name || 'unknown',
         errors: [errorMessage],
       }]);
-    } finally {
-      setIsProcessing(false);
-      setProgress(0);
-      setProgressMessage('');
     }
-  }, [onUploadComplete]);
+  }, [onUploadComplete, encoding, importType, validateFile, statementProfiles, duplicatePolicy, previewBeforeImport, requestPreview, requestStatementProfile, requestReceiptReview, processFile, processFiles, processStatementFile, decodePhotos]);
 
   const handleDrag = useCallback((e: React.DragEvent) => {
     e.preventDefault();
@@ -261,7 +469,7 @@ export function FileUploader({
               type="file"
               className="hidden"
               multiple={multiple}
-              accept=".csv"
+              accept={ACCEPTED_FILE_TYPES[importType]}
               onChange={handleChange}
               disabled={isProcessing}
             />
@@ -273,10 +481,10 @@ export function FileUploader({
               
               <div>
                 <h3 className="text-lg font-semibold mb-2">
-                  {dragActive ? '放開以上傳檔案' : '上傳發票檔案'}
+                  {dragActive ? '放開以上傳檔案' : `上傳${IMPORT_TYPE_LABELS[importType]}`}
                 </h3>
                 <p className="text-muted-foreground mb-4">
-                  拖放 CSV 檔案到此處，或點擊選擇檔案
+                  拖放 {FILE_FORMAT_LABELS[importType]} 檔案到此處，或點擊選擇檔案
                 </p>
                 
                 <Button 
@@ -289,7 +497,7 @@ export function FileUploader({
                 </Button>
                 
                 <div className="text-xs text-muted-foreground space-y-1">
-                  <p>支援 CSV 格式，最大檔案大小 {(MAX_FILE_SIZE / 1024 / 1024).toFixed(0)}MB</p>
+                  <p>支援 {FILE_FORMAT_LABELS[importType]} 格式，檔案大小受瀏覽器可用的儲存空間限制</p>
                   {multiple && <p>可同時上傳多個檔案</p>}
                 </div>
               </div>
@@ -297,6 +505,80 @@ export function FileUploader({
           </CardContent>
         </Card>
 
+        {/* Import Options */}
+        <div className="mt-3 flex flex-wrap items-center justify-end gap-2">
+          <Label htmlFor="import-type" className="text-xs text-muted-foreground">
+            匯入類型
+          </Label>
+          <Select
+            value={importType}
+            onValueChange={(value: InvoiceSourceType) => setImportType(value)}
+            disabled={isProcessing}
+          >
+            <SelectTrigger id="import-type" className="w-40 h-8 text-xs mr-2">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {(Object.keys(IMPORT_TYPE_LABELS) as InvoiceSourceType[]).map(key => (
+                <SelectItem key={key} value={key}>
+                  {IMPORT_TYPE_LABELS[key]}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <div className="flex items-center space-x-2 mr-2">
+            <Checkbox
+              id="preview-before-import"
+              checked={previewBeforeImport}
+              onCheckedChange={checked => updateSettings({ previewBeforeImport: checked as boolean })}
+              disabled={isProcessing}
+            />
+            <Label htmlFor="preview-before-import" className="text-xs text-muted-foreground">
+              匯入前預覽
+            </Label>
+          </div>
+          <Label htmlFor="duplicate-policy" className="text-xs text-muted-foreground">
+            重複發票
+          </Label>
+          <Select
+            value={duplicatePolicy}
+            onValueChange={(value: DuplicatePolicy) => updateSettings({ duplicatePolicy: value })}
+            disabled={isProcessing}
+          >
+            <SelectTrigger id="duplicate-policy" className="w-36 h-8 text-xs">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {(Object.keys(DUPLICATE_POLICY_LABELS) as DuplicatePolicy[]).map(key => (
+                <SelectItem key={key} value={key}>
+                  {DUPLICATE_POLICY_LABELS[key]}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+
+          <Label htmlFor="file-encoding" className="text-xs text-muted-foreground">
+            檔案編碼
+          </Label>
+          <Select
+            value={encoding}
+            onValueChange={(value: FileEncoding | 'auto') => setEncoding(value)}
+            disabled={isProcessing}
+          >
+            <SelectTrigger id="file-encoding" className="w-36 h-8 text-xs">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="auto">自動偵測</SelectItem>
+              {(Object.keys(ENCODING_LABELS) as FileEncoding[]).map(key => (
+                <SelectItem key={key} value={key}>
+                  {ENCODING_LABELS[key]}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
         {/* Upload Status Messages */}
         {uploadStatus.show && (
           <Card className="mt-4 border-l-4 border-l-blue-500">
@@ -327,6 +609,16 @@ export function FileUploader({
                     </div>
                   </div>
                 ))}
+                {conflicts.length > 0 && (
+                  <div className="flex items-center justify-between pt-2 border-t">
+                    <p className="text-xs text-orange-600">
+                      有 {conflicts.length} 筆發票與既有資料衝突
+                    </p>
+                    <Button size="sm" variant="outline" onClick={() => setShowConflicts(true)}>
+                      檢視衝突
+                    </Button>
+                  </div>
+                )}
                 {uploadStatus.files.some(f => f.message) && (
                   <div className="mt-2 pt-2 border-t">
                     {uploadStatus.files.filter(f => f.message).map((file, index) => (
@@ -363,6 +655,38 @@ export function FileUploader({
         isOpen={isProcessing}
         progress={progress}
         message={progressMessage}
+        onCancel={cancel}
+      />
+
+      <ImportPreviewDialog
+        file={previewFile}
+        encoding={encoding}
+        onConfirm={mapping => resolvePreview(mapping)}
+        onSkip={() => resolvePreview(null)}
+      />
+
+      <StatementProfileDialog
+        file={statementRequest?.file ?? null}
+        profile={statementRequest?.profile}
+        encoding={encoding}
+        onConfirm={profile => resolveStatementProfile(profile)}
+        onSkip={() => resolveStatementProfile(null)}
+      />
+
+      <ReceiptReviewDialog
+        results={receiptResults}
+        onConfirm={invoices => resolveReceiptReview(invoices)}
+        onCancel={() => resolveReceiptReview(null)}
+      />
+
+      <DuplicateResolutionDialog
+        open={showConflicts}
+        conflicts={conflicts}
+        onClose={() => {
+          setShowConflicts(false);
+          setConflicts([]);
+          setUploadStatus({ show: false, files: [] });
+        }}
       />
     </>
   );
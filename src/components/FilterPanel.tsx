@@ -1,7 +1,5 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useMemo } from 'react';
 import { Calendar as CalendarIcon, Search, Filter, X } from 'lucide-react';
-import { format } from 'date-fns';
-import { zhTW } from 'date-fns/locale';
 import { cn } from '@/lib/utils';
 import { Button } from '@/components/ui/button';
 import { Calendar } from '@/components/ui/calendar';
@@ -11,7 +9,22 @@ import {
   PopoverContent,
   PopoverTrigger,
 } from '@/components/ui/popover';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
 import { FilterCriteria } from '@/types';
+import { useDateFormatter } from '@/hooks/useDateFormatter';
+import { useInvoiceStore } from '@/store';
+import { calculateCarrierStatistics } from '@/lib/statisticsService';
+import { getCarrierDisplayName } from '@/lib/carrierRegistry';
+
+// Select values cannot be empty; '' is the key for invoices without a carrier
+const ALL_CARRIERS = '__all__';
+const NO_CARRIER = '__none__';
 
 interface FilterPanelProps {
   onFilterChange: (filters: FilterCriteria) => void;
@@ -20,6 +33,13 @@ interface FilterPanelProps {
 }
 
 export function FilterPanel({ onFilterChange, onReset, className }: FilterPanelProps) {
+  const { formatDate } = useDateFormatter();
+  const invoices = useInvoiceStore(state => state.invoices);
+  const carrierLabels = useInvoiceStore(state => state.carrierLabels);
+  const carriers = useMemo(
+    () => calculateCarrierStatistics(invoices, carrierLabels),
+    [invoices, carrierLabels]
+  );
   const [filters, setFilters] = useState<FilterCriteria>({
     dateRange: {
       start: null,
@@ -30,6 +50,7 @@ export function FilterPanel({ onFilterChange, onReset, className }: FilterPanelP
       min: null,
       max: null,
     },
+    carrierKey: null,
   });
 
   const [startDateOpen, setStartDateOpen] = useState(false);
@@ -74,6 +95,13 @@ export function FilterPanel({ onFilterChange, onReset, className }: FilterPanelP
     }));
   };
 
+  const handleCarrierChange = (value: string) => {
+    setFilters(prev => ({
+      ...prev,
+      carrierKey: value === ALL_CARRIERS ? null : value === NO_CARRIER ? '' : value,
+    }));
+  };
+
   const handleReset = () => {
     const resetFilters: FilterCriteria = {
       dateRange: {
@@ -85,6 +113,7 @@ export function FilterPanel({ onFilterChange, onReset, className }: FilterPanelP
         min: null,
         max: null,
       },
+      carrierKey: null,
     };
     setFilters(resetFilters);
     onReset();
@@ -95,7 +124,8 @@ export function FilterPanel({ onFilterChange, onReset, className }: FilterPanelP
     filters.dateRange.end || 
     filters.merchantName.trim() !== '' || 
     filters.amountRange.min !== null || 
-    filters.amountRange.max !== null;
+    filters.amountRange.max !== null ||
+    filters.carrierKey != null;
 
   return (
     <div className={cn("bg-card border rounded-lg p-4", className)}>
@@ -117,7 +147,7 @@ export function FilterPanel({ onFilterChange, onReset, className }: FilterPanelP
         )}
       </div>
       
-      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
         {/* Date Range Filter */}
         <div className="space-y-2">
           <label className="block text-sm font-medium">日期範圍</label>
@@ -133,7 +163,7 @@ export function FilterPanel({ onFilterChange, onReset, className }: FilterPanelP
                 >
                   <CalendarIcon className="mr-2 h-4 w-4" />
                   {filters.dateRange.start ? (
-                    format(filters.dateRange.start, "yyyy/MM/dd", { locale: zhTW })
+                    formatDate(filters.dateRange.start)
                   ) : (
                     "開始日期"
                   )}
@@ -162,7 +192,7 @@ export function FilterPanel({ onFilterChange, onReset, className }: FilterPanelP
                 >
                   <CalendarIcon className="mr-2 h-4 w-4" />
                   {filters.dateRange.end ? (
-                    format(filters.dateRange.end, "yyyy/MM/dd", { locale: zhTW })
+                    formatDate(filters.dateRange.end)
                   ) : (
                     "結束日期"
                   )}
@@ -220,6 +250,34 @@ export function FilterPanel({ onFilterChange, onReset, className }: FilterPanelP
             />
           </div>
         </div>
+
+        {/* Carrier Filter */}
+        <div className="space-y-2">
+          <label className="block text-sm font-medium">載具</label>
+          <Select
+            value={
+              filters.carrierKey == null
+                ? ALL_CARRIERS
+                : filters.carrierKey || NO_CARRIER
+            }
+            onValueChange={handleCarrierChange}
+          >
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL_CARRIERS}>全部載具</SelectItem>
+              {carriers.map(carrier => (
+                <SelectItem
+                  key={carrier.carrierKey}
+                  value={carrier.carrierKey || NO_CARRIER}
+                >
+                  {carrier.displayName}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
       </div>
       
       {hasActiveFilters && (
@@ -229,12 +287,12 @@ export function FilterPanel({ onFilterChange, onReset, className }: FilterPanelP
             <div className="mt-1 flex flex-wrap gap-2">
               {filters.dateRange.start && (
                 <span className="inline-flex items-center px-2 py-1 bg-primary/10 text-primary rounded text-xs">
-                  開始：{format(filters.dateRange.start, "yyyy/MM/dd", { locale: zhTW })}
+                  開始：{formatDate(filters.dateRange.start)}
                 </span>
               )}
               {filters.dateRange.end && (
                 <span className="inline-flex items-center px-2 py-1 bg-primary/10 text-primary rounded text-xs">
-                  結束：{format(filters.dateRange.end, "yyyy/MM/dd", { locale: zhTW })}
+                  結束：{formatDate(filters.dateRange.end)}
                 </span>
               )}
               {filters.merchantName.trim() && (
@@ -252,6 +310,11 @@ export function FilterPanel({ onFilterChange, onReset, className }: FilterPanelP
                   最大金額：${filters.amountRange.max}
                 </span>
               )}
+              {filters.carrierKey != null && (
+                <span className="inline-flex items-center px-2 py-1 bg-primary/10 text-primary rounded text-xs">
+                  載具：{getCarrierDisplayName(filters.carrierKey, carrierLabels)}
+                </span>
+              )}
             </div>
           </div>
         </div>
@@ -0,0 +1,402 @@
+import { useEffect, useMemo, useState } from 'react';
+import { AlertCircle, FileText } from 'lucide-react';
+import { csvService } from '@/lib/csvService';
+import type { ParseResult } from '@/lib/csvParser';
+import {
+  DEFAULT_COLUMN_MAPPING,
+  M_LINE_FIELD_LABELS,
+  findMappingProfile,
+  suggestFileNamePattern,
+} from '@/lib/columnMapping';
+import { ENCODING_LABELS } from '@/lib/encodingDetector';
+import { generateId } from '@/lib/utils';
+import { useInvoiceStore } from '@/store';
+import { ColumnMapping, DLineLayout, FileEncoding, MLineField } from '@/types';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { useDateFormatter } from '@/hooks/useDateFormatter';
+
+interface ImportPreviewDialogProps {
+  file: File | null;
+  encoding: FileEncoding | 'auto';
+  onConfirm: (mapping: ColumnMapping) => void;
+  onSkip: () => void;
+}
+
+const PREVIEW_INVOICE_LIMIT = 10;
+
+const D_LINE_LAYOUT_LABELS: Record<DLineLayout, string> = {
+  auto: '自動判斷',
+  'amount-first': '金額在前（D,發票號碼,金額,品名）',
+  'name-first': '品名在前（D,發票號碼,品名,金額）',
+};
+
+const DETECTED_LAYOUT_LABELS: Record<string, string> = {
+  'amount-first': '金額在前',
+  'name-first': '品名在前',
+  mixed: '混合',
+  unknown: '無法判斷',
+};
+
+export function ImportPreviewDialog({
+  file,
+  encoding,
+  onConfirm,
+  onSkip,
+}: ImportPreviewDialogProps) {
+  const { formatDate } = useDateFormatter();
+  const { mappingProfiles, saveMappingProfile } = useInvoiceStore();
+  const matchedProfile = useMemo(
+    () => (file ? findMappingProfile(file.name, mappingProfiles) : undefined),
+    [file, mappingProfiles]
+  );
+
+  const [mapping, setMapping] = useState<ColumnMapping>(DEFAULT_COLUMN_MAPPING);
+  const [preview, setPreview] = useState<ParseResult | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [saveProfile, setSaveProfile] = useState(false);
+  const [profileName, setProfileName] = useState('');
+  const [profilePattern, setProfilePattern] = useState('');
+
+  // Reset the form for each new file, or when the profile matching it changes
+  useEffect(() => {
+    if (!file) return;
+    setPreview(null);
+    setMapping(matchedProfile?.mapping ?? DEFAULT_COLUMN_MAPPING);
+    setSaveProfile(false);
+    setProfileName(matchedProfile?.name ?? file.name);
+    setProfilePattern(
+      matchedProfile?.fileNamePattern ?? suggestFileNamePattern(file.name)
+    );
+  }, [file, matchedProfile]);
+
+  // Re-parse whenever the mapping changes
+  useEffect(() => {
+    if (!file) return;
+    const controller = new AbortController();
+    setIsLoading(true);
+
+    csvService
+      .previewFile(file, {
+        encoding,
+        columnMapping: mapping,
+        signal: controller.signal,
+      })
+      .then(result => {
+        if (!controller.signal.aborted) {
+          setPreview(result);
+          setIsLoading(false);
+        }
+      });
+
+    return () => controller.abort();
+  }, [file, encoding, mapping]);
+
+  const columnCount = useMemo(() => {
+    const sampleWidth = Math.max(
+      0,
+      ...(preview?.sampleRows ?? []).map(row => row.length)
+    );
+    return Math.max(sampleWidth, 9);
+  }, [preview]);
+
+  const updateMLineColumn = (field: MLineField, column: number) => {
+    setMapping(prev => ({ ...prev, mLine: { ...prev.mLine, [field]: column } }));
+  };
+
+  const handleConfirm = () => {
+    if (saveProfile && profilePattern.trim()) {
+      saveMappingProfile({
+        id: matchedProfile?.id ?? generateId(),
+        name: profileName.trim() || profilePattern.trim(),
+        fileNamePattern: profilePattern.trim(),
+        mapping,
+      });
+    }
+    onConfirm(mapping);
+  };
+
+  const columnOptions = Array.from({ length: columnCount }, (_, index) => index);
+
+  return (
+    <Dialog open={!!file} onOpenChange={open => !open && onSkip()}>
+      <DialogContent onClose={onSkip} className="max-w-4xl">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <FileText className="h-5 w-5" />
+            匯入預覽：{file?.name}
+          </DialogTitle>
+          <DialogDescription>
+            確認欄位對應與解析結果後再匯入。
+            {matchedProfile && ` 已套用設定檔「${matchedProfile.name}」。`}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="max-h-[65vh] overflow-y-auto space-y-5">
+          {/* Summary */}
+          <div className="flex flex-wrap gap-2 text-sm">
+            {preview?.encoding && (
+              <Badge variant="outline">編碼: {ENCODING_LABELS[preview.encoding]}</Badge>
+            )}
+            <Badge variant="outline">資料列: {preview?.totalRows ?? 0}</Badge>
+            <Badge variant="outline">發票: {preview?.invoices.length ?? 0} 筆</Badge>
+            {preview?.columnLayout && (
+              <Badge variant="outline">
+                D行格式: {DETECTED_LAYOUT_LABELS[preview.columnLayout.dLineLayout]}
+              </Badge>
+            )}
+            <Badge variant={preview && preview.errors.length > 0 ? 'destructive' : 'secondary'}>
+              錯誤: {preview?.errors.length ?? 0} 列
+            </Badge>
+            {preview?.mismatches && preview.mismatches.length > 0 && (
+              <Badge variant="outline" className="border-orange-300 text-orange-700">
+                金額與明細不符: {preview.mismatches.length} 筆
+              </Badge>
+            )}
+            {preview?.warnings && preview.warnings.length > 0 && (
+              <Badge variant="outline" className="border-orange-300 text-orange-700">
+                資料品質警告: {preview.warnings.length} 筆
+              </Badge>
+            )}
+            {isLoading && <span className="text-muted-foreground">解析中...</span>}
+          </div>
+
+          {/* Raw sample rows */}
+          {preview?.sampleRows && preview.sampleRows.length > 0 && (
+            <div className="space-y-2">
+              <Label className="text-base font-medium">原始資料（前 {preview.sampleRows.length} 列）</Label>
+              <div className="overflow-x-auto border rounded-md">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      {columnOptions.map(column => (
+                        <TableHead key={column} className="text-xs whitespace-nowrap">
+                          欄 {column}
+                        </TableHead>
+                      ))}
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {preview.sampleRows.map((row, rowIndex) => (
+                      <TableRow key={rowIndex}>
+                        {columnOptions.map(column => (
+                          <TableCell key={column} className="text-xs whitespace-nowrap py-1">
+                            {row[column] ?? ''}
+                          </TableCell>
+                        ))}
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            </div>
+          )}
+
+          {/* Column mapping */}
+          <div className="space-y-2">
+            <Label className="text-base font-medium">M行欄位對應</Label>
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+              {(Object.keys(M_LINE_FIELD_LABELS) as MLineField[]).map(field => (
+                <div key={field} className="space-y-1">
+                  <Label className="text-xs text-muted-foreground">{M_LINE_FIELD_LABELS[field]}</Label>
+                  <Select
+                    value={String(mapping.mLine[field])}
+                    onValueChange={value => updateMLineColumn(field, Number(value))}
+                  >
+                    <SelectTrigger className="h-8 text-xs">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {columnOptions.map(column => (
+                        <SelectItem key={column} value={String(column)}>
+                          欄 {column}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              ))}
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label className="text-base font-medium">D行欄位對應</Label>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+              <div className="space-y-1">
+                <Label className="text-xs text-muted-foreground">發票號碼</Label>
+                <Select
+                  value={String(mapping.dLine.invoiceNumber)}
+                  onValueChange={value =>
+                    setMapping(prev => ({
+                      ...prev,
+                      dLine: { ...prev.dLine, invoiceNumber: Number(value) },
+                    }))
+                  }
+                >
+                  <SelectTrigger className="h-8 text-xs">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {columnOptions.map(column => (
+                      <SelectItem key={column} value={String(column)}>
+                        欄 {column}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-1">
+                <Label className="text-xs text-muted-foreground">金額與品名順序</Label>
+                <Select
+                  value={mapping.dLine.layout}
+                  onValueChange={(value: DLineLayout) =>
+                    setMapping(prev => ({
+                      ...prev,
+                      dLine: { ...prev.dLine, layout: value },
+                    }))
+                  }
+                >
+                  <SelectTrigger className="h-8 text-xs">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {(Object.keys(D_LINE_LAYOUT_LABELS) as DLineLayout[]).map(layout => (
+                      <SelectItem key={layout} value={layout}>
+                        {D_LINE_LAYOUT_LABELS[layout]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+          </div>
+
+          {/* Parsed invoices */}
+          <div className="space-y-2">
+            <Label className="text-base font-medium">
+              解析結果（前 {Math.min(PREVIEW_INVOICE_LIMIT, preview?.invoices.length ?? 0)} 筆）
+            </Label>
+            <div className="border rounded-md">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>發票號碼</TableHead>
+                    <TableHead>日期</TableHead>
+                    <TableHead>商店</TableHead>
+                    <TableHead className="text-right">金額</TableHead>
+                    <TableHead>明細</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {(preview?.invoices ?? []).slice(0, PREVIEW_INVOICE_LIMIT).map(invoice => (
+                    <TableRow key={invoice.id}>
+                      <TableCell className="text-xs">{invoice.invoiceNumber}</TableCell>
+                      <TableCell className="text-xs">
+                        {formatDate(invoice.invoiceDate)}
+                      </TableCell>
+                      <TableCell className="text-xs">{invoice.merchantName}</TableCell>
+                      <TableCell className="text-xs text-right">
+                        ${invoice.totalAmount.toLocaleString()}
+                      </TableCell>
+                      <TableCell className="text-xs text-muted-foreground">
+                        {invoice.items.map(item => `${item.itemName} $${item.amount}`).join('、') || '-'}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          </div>
+
+          {/* Row errors */}
+          {preview && preview.errors.length > 0 && (
+            <div className="rounded-md border border-red-200 bg-red-50 p-3 text-xs text-red-700 space-y-1">
+              <div className="flex items-center gap-1 font-medium">
+                <AlertCircle className="h-4 w-4" />
+                {preview.errors.length} 列解析失敗
+              </div>
+              {preview.errors.slice(0, 5).map((error, index) => (
+                <p key={index}>{error.message}</p>
+              ))}
+              {preview.errors.length > 5 && <p>...</p>}
+            </div>
+          )}
+
+          {/* Save mapping profile */}
+          <div className="space-y-2 border-t pt-4">
+            <div className="flex items-center space-x-2">
+              <Checkbox
+                id="saveMappingProfile"
+                checked={saveProfile}
+                onCheckedChange={checked => setSaveProfile(checked as boolean)}
+              />
+              <Label htmlFor="saveMappingProfile" className="text-sm">
+                {matchedProfile ? `更新設定檔「${matchedProfile.name}」` : '儲存為欄位對應設定檔'}
+              </Label>
+            </div>
+            {saveProfile && (
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                <div className="space-y-1">
+                  <Label htmlFor="profileName" className="text-xs text-muted-foreground">設定檔名稱</Label>
+                  <Input
+                    id="profileName"
+                    value={profileName}
+                    onChange={e => setProfileName(e.target.value)}
+                  />
+                </div>
+                <div className="space-y-1">
+                  <Label htmlFor="profilePattern" className="text-xs text-muted-foreground">
+                    套用的檔名樣式（* 代表任意字元）
+                  </Label>
+                  <Input
+                    id="profilePattern"
+                    value={profilePattern}
+                    onChange={e => setProfilePattern(e.target.value)}
+                  />
+                </div>
+              </div>
+            )}
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onSkip}>
+            略過此檔案
+          </Button>
+          <Button
+            onClick={handleConfirm}
+            disabled={isLoading || !preview || preview.invoices.length === 0}
+          >
+            確認匯入
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
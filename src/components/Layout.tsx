@@ -1,6 +1,20 @@
 import { ReactNode, useState } from 'react';
 import { Link, useLocation } from 'react-router-dom';
 import { cn } from '@/lib/utils';
+import { DATE_DISPLAY_LABELS } from '@/lib/dateFormat';
+import { useInvoiceStore } from '@/store';
+import { useVault } from '@/hooks/useVault';
+import { VaultSettingsDialog } from '@/components/VaultSettingsDialog';
+import { ProfileManagerDialog } from '@/components/ProfileManagerDialog';
+import { Button } from '@/components/ui/button';
+import { DateDisplayMode } from '@/types';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
 import {
   BarChart3,
   FileText,
@@ -8,6 +22,12 @@ import {
   DollarSign,
   Menu,
   X,
+  CalendarDays,
+  ShieldCheck,
+  Users,
+  UserRound,
+  Tags,
+  Store,
 } from 'lucide-react';
 
 interface LayoutProps {
@@ -39,8 +59,113 @@ const navigation = [
     icon: DollarSign,
     description: '管理個人的資產項目',
   },
+  {
+    name: '家庭總覽',
+    href: '/household',
+    icon: Users,
+    description: '合併檢視成員的消費',
+  },
+  {
+    name: '分類規則',
+    href: '/rules',
+    icon: Tags,
+    description: '自訂品項分類方式',
+  },
+  {
+    name: '商店',
+    href: '/merchants',
+    icon: Store,
+    description: '管理商店名稱與預設分類',
+  },
 ];
 
+function ProfileSelect() {
+  const profiles = useInvoiceStore(state => state.profiles);
+  const activeProfileId = useInvoiceStore(state => state.activeProfileId);
+  const switchProfile = useInvoiceStore(state => state.switchProfile);
+  const [managing, setManaging] = useState(false);
+
+  return (
+    <div className="space-y-1">
+      <div className="flex items-center justify-between">
+        <label className="flex items-center gap-2 text-xs text-muted-foreground">
+          <UserRound className="h-4 w-4" />
+          目前成員
+        </label>
+        <button
+          type="button"
+          className="text-xs text-muted-foreground hover:text-foreground"
+          onClick={() => setManaging(true)}
+        >
+          管理
+        </button>
+      </div>
+      <Select value={activeProfileId} onValueChange={switchProfile}>
+        <SelectTrigger className="h-8 text-xs">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {profiles.map(profile => (
+            <SelectItem key={profile.id} value={profile.id}>
+              {profile.name}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      <ProfileManagerDialog open={managing} onClose={() => setManaging(false)} />
+    </div>
+  );
+}
+
+function DateDisplaySelect() {
+  const dateDisplay = useInvoiceStore(state => state.settings.dateDisplay);
+  const updateSettings = useInvoiceStore(state => state.updateSettings);
+
+  return (
+    <div className="space-y-1">
+      <label className="flex items-center gap-2 text-xs text-muted-foreground">
+        <CalendarDays className="h-4 w-4" />
+        日期顯示
+      </label>
+      <Select
+        value={dateDisplay}
+        onValueChange={(value: DateDisplayMode) => updateSettings({ dateDisplay: value })}
+      >
+        <SelectTrigger className="h-8 text-xs">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {(Object.keys(DATE_DISPLAY_LABELS) as DateDisplayMode[]).map(key => (
+            <SelectItem key={key} value={key}>
+              {DATE_DISPLAY_LABELS[key]}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </div>
+  );
+}
+
+function VaultButton() {
+  const { status } = useVault();
+  const [open, setOpen] = useState(false);
+
+  return (
+    <>
+      <Button
+        variant="outline"
+        size="sm"
+        className="w-full justify-start text-xs"
+        onClick={() => setOpen(true)}
+      >
+        <ShieldCheck className="mr-2 h-4 w-4" />
+        {status === 'disabled' ? '資料保險箱' : '資料保險箱（已啟用）'}
+      </Button>
+      <VaultSettingsDialog open={open} onClose={() => setOpen(false)} />
+    </>
+  );
+}
+
 function Layout({ children }: LayoutProps) {
   const location = useLocation();
   const [sidebarOpen, setSidebarOpen] = useState(false);
@@ -92,6 +217,11 @@ function Layout({ children }: LayoutProps) {
               );
             })}
           </nav>
+          <div className="px-4 space-y-3">
+            <ProfileSelect />
+            <DateDisplaySelect />
+            <VaultButton />
+          </div>
         </div>
       </div>
 
@@ -131,6 +261,11 @@ function Layout({ children }: LayoutProps) {
                   })}
                 </ul>
               </li>
+              <li className="mt-auto pb-6 space-y-3">
+                <ProfileSelect />
+                <DateDisplaySelect />
+                <VaultButton />
+              </li>
             </ul>
           </nav>
         </div>
@@ -19,6 +19,7 @@ import { Checkbox } from '@/components/ui/checkbox';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Alert, AlertDescription } from '@/components/ui/alert';
+import { useDateFormatter } from '@/hooks/useDateFormatter';
 import { 
   FileText, 
   AlertCircle, 
@@ -44,6 +45,7 @@ export function PDFExportDialog({
   title = '匯出統計報告 PDF',
   chartSelectors = []
 }: PDFExportDialogProps) {
+  const { dateDisplay, formatDate } = useDateFormatter();
   const [reportTitle, setReportTitle] = useState('發票統計報告');
   const [includeCharts, setIncludeCharts] = useState(true);
   const [includeDetailedData, setIncludeDetailedData] = useState(false);
@@ -106,7 +108,8 @@ export function PDFExportDialog({
         includeCharts,
         includeDetailedData,
         filename: customFilename.trim() || undefined,
-        chartElements
+        chartElements,
+        dateDisplay
       };
 
       const result = await exportStatisticsToPDF(statistics, invoices, options, progressId);
@@ -158,7 +161,7 @@ export function PDFExportDialog({
             <h4 className="font-medium mb-2">報告摘要</h4>
             <div className="text-sm text-muted-foreground space-y-1">
               <p>發票數量: {invoices.length} 筆</p>
-              <p>統計期間: {statistics.dateRange.start.toLocaleDateString('zh-TW')} - {statistics.dateRange.end.toLocaleDateString('zh-TW')}</p>
+              <p>統計期間: {formatDate(statistics.dateRange.start)} - {formatDate(statistics.dateRange.end)}</p>
               <p>可用圖表: {availableCharts.length} 個</p>
               <p>預估生成時間: {timeEstimate.estimatedSeconds} 秒</p>
               {timeEstimate.warning && (
@@ -0,0 +1,121 @@
+import { useState } from 'react';
+import { Plus, Trash2, Users } from 'lucide-react';
+import { useInvoiceStore } from '@/store';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+
+interface ProfileManagerDialogProps {
+  open: boolean;
+  onClose: () => void;
+}
+
+/**
+ * Add, rename and remove household profiles
+ */
+export function ProfileManagerDialog({ open, onClose }: ProfileManagerDialogProps) {
+  const { profiles, activeProfileId, addProfile, renameProfile, removeProfile } =
+    useInvoiceStore();
+  const [newName, setNewName] = useState('');
+  const [confirmRemoveId, setConfirmRemoveId] = useState<string | null>(null);
+
+  const handleAdd = (event: React.FormEvent) => {
+    event.preventDefault();
+    if (!newName.trim()) return;
+    addProfile(newName);
+    setNewName('');
+  };
+
+  const handleClose = () => {
+    setNewName('');
+    setConfirmRemoveId(null);
+    onClose();
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={isOpen => !isOpen && handleClose()}>
+      <DialogContent onClose={handleClose} className="max-w-md">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Users className="h-5 w-5" />
+            管理成員
+          </DialogTitle>
+          <DialogDescription>
+            每位成員有各自的發票、檔案與資產。在「家庭總覽」可合併檢視多位成員的消費。
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-2">
+          {profiles.map(profile => (
+            <div key={profile.id} className="flex items-center gap-2">
+              <Input
+                aria-label="成員名稱"
+                defaultValue={profile.name}
+                onBlur={event => {
+                  const name = event.target.value.trim();
+                  if (name && name !== profile.name) renameProfile(profile.id, name);
+                }}
+              />
+              {confirmRemoveId === profile.id ? (
+                <Button
+                  variant="destructive"
+                  size="sm"
+                  onClick={() => {
+                    removeProfile(profile.id);
+                    setConfirmRemoveId(null);
+                  }}
+                >
+                  確定刪除
+                </Button>
+              ) : (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  title={
+                    profile.id === activeProfileId
+                      ? '無法刪除目前使用中的成員'
+                      : '刪除成員及其所有資料'
+                  }
+                  disabled={profile.id === activeProfileId}
+                  onClick={() => setConfirmRemoveId(profile.id)}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              )}
+            </div>
+          ))}
+          {confirmRemoveId && (
+            <p className="text-xs text-red-600">
+              刪除成員會一併刪除其發票、檔案與資產，且無法復原。
+            </p>
+          )}
+        </div>
+
+        <form onSubmit={handleAdd} className="flex gap-2">
+          <Input
+            placeholder="新成員名稱"
+            value={newName}
+            onChange={event => setNewName(event.target.value)}
+          />
+          <Button type="submit" variant="outline" disabled={!newName.trim()}>
+            <Plus className="mr-1 h-4 w-4" />
+            新增
+          </Button>
+        </form>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={handleClose}>
+            關閉
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,174 @@
+import { useState } from 'react';
+import { AlertCircle, CheckCircle, QrCode } from 'lucide-react';
+import { csvService } from '@/lib/csvService';
+import {
+  parseInvoiceQRCodes,
+  splitQRPayloads,
+  type QRInvoiceResult,
+  type QRPayload,
+} from '@/lib/qrInvoiceParser';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { useDateFormatter } from '@/hooks/useDateFormatter';
+
+interface QRInvoicePasteDialogProps {
+  open: boolean;
+  onClose: () => void;
+  onImported?: () => void;
+}
+
+interface ParsedEntry {
+  payload: QRPayload;
+  result?: QRInvoiceResult;
+  error?: string;
+  merchantName: string;
+}
+
+export function QRInvoicePasteDialog({ open, onClose, onImported }: QRInvoicePasteDialogProps) {
+  const { formatDate } = useDateFormatter();
+  const [text, setText] = useState('');
+  const [entries, setEntries] = useState<ParsedEntry[]>([]);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const validEntries = entries.filter(entry => entry.result);
+
+  const handleParse = () => {
+    setMessage(null);
+    setEntries(
+      splitQRPayloads(text).map(payload => {
+        try {
+          return { payload, result: parseInvoiceQRCodes(payload), merchantName: '' };
+        } catch (error) {
+          return {
+            payload,
+            error: error instanceof Error ? error.message : '未知錯誤',
+            merchantName: '',
+          };
+        }
+      })
+    );
+  };
+
+  const updateMerchantName = (index: number, merchantName: string) => {
+    setEntries(prev =>
+      prev.map((entry, i) => (i === index ? { ...entry, merchantName } : entry))
+    );
+  };
+
+  const handleImport = () => {
+    const invoices = validEntries.map(entry =>
+      parseInvoiceQRCodes(entry.payload, { merchantName: entry.merchantName }).invoice
+    );
+    const sourceName = `紙本發票 ${new Date().toLocaleString('zh-TW')}`;
+    const { duplicates } = csvService.importSourceInvoices(sourceName, 'paper', invoices);
+
+    setMessage(
+      duplicates
+        ? `已匯入：新增 ${duplicates.newCount} 張、相同 ${duplicates.identicalCount} 張、衝突 ${duplicates.conflictCount} 張`
+        : `已匯入 ${invoices.length} 張發票`
+    );
+    setText('');
+    setEntries([]);
+    onImported?.();
+  };
+
+  const handleClose = () => {
+    setText('');
+    setEntries([]);
+    setMessage(null);
+    onClose();
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={isOpen => !isOpen && handleClose()}>
+      <DialogContent onClose={handleClose} className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <QrCode className="h-5 w-5" />
+            貼上紙本發票 QR 碼內容
+          </DialogTitle>
+          <DialogDescription>
+            每行一個 QR 碼內容：先左側、再右側（以 ** 開頭）。可一次貼上多張發票。
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="max-h-[60vh] overflow-y-auto space-y-4">
+          <textarea
+            className="w-full min-h-[120px] rounded-md border border-input bg-background px-3 py-2 text-xs font-mono focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring"
+            value={text}
+            onChange={e => setText(e.target.value)}
+            placeholder="AB112233441130501123400000064000000690000000012345675...:**********:2:2:1:品名:1:60"
+          />
+
+          {message && (
+            <p className="flex items-center gap-1 text-sm text-green-700">
+              <CheckCircle className="h-4 w-4" />
+              {message}
+            </p>
+          )}
+
+          {entries.map((entry, index) => (
+            <div key={index} className="rounded-md border p-3 text-sm space-y-2">
+              {entry.result ? (
+                <>
+                  <div className="flex items-center justify-between">
+                    <span className="font-medium">{entry.result.invoice.invoiceNumber}</span>
+                    <span>
+                      {formatDate(entry.result.invoice.invoiceDate)}
+                      {' · '}${entry.result.invoice.totalAmount.toLocaleString()}
+                    </span>
+                  </div>
+                  <ul className="text-xs text-muted-foreground list-disc list-inside">
+                    {entry.result.invoice.items.map(item => (
+                      <li key={item.id}>
+                        {item.itemName} ${item.amount.toLocaleString()}
+                      </li>
+                    ))}
+                  </ul>
+                  <div className="space-y-1">
+                    <Label htmlFor={`qr-merchant-${index}`} className="text-xs text-muted-foreground">
+                      商店名稱（賣方統編 {entry.result.sellerId}）
+                    </Label>
+                    <Input
+                      id={`qr-merchant-${index}`}
+                      className="h-8 text-xs"
+                      value={entry.merchantName}
+                      placeholder={entry.result.invoice.merchantName}
+                      onChange={e => updateMerchantName(index, e.target.value)}
+                    />
+                  </div>
+                  {entry.result.warnings.map((warning, i) => (
+                    <p key={i} className="text-xs text-orange-600">{warning}</p>
+                  ))}
+                </>
+              ) : (
+                <p className="flex items-center gap-1 text-xs text-red-600">
+                  <AlertCircle className="h-4 w-4" />
+                  {entry.error}
+                </p>
+              )}
+            </div>
+          ))}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={handleParse} disabled={!text.trim()}>
+            解析
+          </Button>
+          <Button onClick={handleImport} disabled={validEntries.length === 0}>
+            匯入 {validEntries.length} 張發票
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
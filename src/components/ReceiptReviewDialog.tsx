@@ -0,0 +1,213 @@
+import { useEffect, useMemo, useState } from 'react';
+import { AlertCircle, CheckCircle, Camera } from 'lucide-react';
+import type { ReceiptPhotoResult } from '@/lib/qrImageDecoder';
+import { createManualPaperInvoice } from '@/lib/qrInvoiceParser';
+import { Invoice } from '@/types';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { useDateFormatter } from '@/hooks/useDateFormatter';
+
+interface ReceiptReviewDialogProps {
+  results: ReceiptPhotoResult[] | null;
+  onConfirm: (invoices: Invoice[]) => void;
+  onCancel: () => void;
+}
+
+// Per-photo form state; decoded photos only need a merchant name
+interface ReceiptForm {
+  include: boolean;
+  merchantName: string;
+  invoiceNumber: string;
+  invoiceDate: string; // yyyy-MM-dd from <input type="date">
+  totalAmount: string;
+}
+
+const toDateInput = (date: Date) =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+/**
+ * Build the invoice for one reviewed photo, or an error message
+ */
+function buildInvoice(result: ReceiptPhotoResult, form: ReceiptForm): Invoice | string {
+  if (result.result) {
+    const invoice = result.result.invoice;
+    return form.merchantName.trim()
+      ? { ...invoice, merchantName: form.merchantName.trim() }
+      : invoice;
+  }
+
+  try {
+    const [year, month, day] = form.invoiceDate.split('-').map(Number);
+    return createManualPaperInvoice({
+      invoiceNumber: form.invoiceNumber,
+      invoiceDate: new Date(year, month - 1, day),
+      totalAmount: parseFloat(form.totalAmount),
+      merchantName: form.merchantName,
+    });
+  } catch (error) {
+    return error instanceof Error ? error.message : '資料不完整';
+  }
+}
+
+export function ReceiptReviewDialog({ results, onConfirm, onCancel }: ReceiptReviewDialogProps) {
+  const { formatDate } = useDateFormatter();
+  const [forms, setForms] = useState<ReceiptForm[]>([]);
+
+  useEffect(() => {
+    if (!results) return;
+    setForms(
+      results.map(result => ({
+        include: !!result.result,
+        merchantName: '',
+        invoiceNumber: '',
+        invoiceDate: result.result ? toDateInput(result.result.invoice.invoiceDate) : '',
+        totalAmount: '',
+      }))
+    );
+  }, [results]);
+
+  // Thumbnails for the photos under review
+  const previews = useMemo(
+    () => (results ?? []).map(result => URL.createObjectURL(result.file)),
+    [results]
+  );
+  useEffect(() => () => previews.forEach(url => URL.revokeObjectURL(url)), [previews]);
+
+  const built = (results ?? []).map((result, index) =>
+    forms[index] ? buildInvoice(result, forms[index]) : '資料不完整'
+  );
+  const selected = built.filter(
+    (invoice, index): invoice is Invoice => forms[index]?.include && typeof invoice !== 'string'
+  );
+  const decodedCount = (results ?? []).filter(result => result.result).length;
+
+  const updateForm = (index: number, updates: Partial<ReceiptForm>) => {
+    setForms(prev => prev.map((form, i) => (i === index ? { ...form, ...updates } : form)));
+  };
+
+  return (
+    <Dialog open={!!results} onOpenChange={open => !open && onCancel()}>
+      <DialogContent onClose={onCancel} className="max-w-3xl">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Camera className="h-5 w-5" />
+            確認發票照片
+          </DialogTitle>
+          <DialogDescription>
+            已辨識 {decodedCount}/{results?.length ?? 0} 張。無法讀取 QR 碼的照片可手動輸入發票資料，或取消勾選略過。
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="max-h-[65vh] overflow-y-auto space-y-3">
+          {(results ?? []).map((result, index) => {
+            const form = forms[index];
+            if (!form) return null;
+            const invoice = built[index];
+
+            return (
+              <div key={index} className="flex gap-3 rounded-md border p-3 text-sm">
+                <img
+                  src={previews[index]}
+                  alt={result.file.name}
+                  className="h-24 w-24 flex-shrink-0 rounded object-cover"
+                />
+                <div className="flex-1 space-y-2">
+                  <div className="flex items-center gap-2">
+                    <Checkbox
+                      id={`receipt-include-${index}`}
+                      checked={form.include}
+                      onCheckedChange={checked => updateForm(index, { include: checked as boolean })}
+                    />
+                    <Label htmlFor={`receipt-include-${index}`} className="font-medium">
+                      {result.file.name}
+                    </Label>
+                    {result.result ? (
+                      <CheckCircle className="h-4 w-4 text-green-500" />
+                    ) : (
+                      <span className="flex items-center gap-1 text-xs text-red-600">
+                        <AlertCircle className="h-4 w-4" />
+                        {result.error}
+                      </span>
+                    )}
+                  </div>
+
+                  {result.result ? (
+                    <>
+                      <p className="text-xs text-muted-foreground">
+                        {result.result.invoice.invoiceNumber}
+                        {' · '}{formatDate(result.result.invoice.invoiceDate)}
+                        {' · '}${result.result.invoice.totalAmount.toLocaleString()}
+                        {' · '}{result.result.invoice.items.length} 個品項
+                      </p>
+                      {result.result.warnings.map((warning, i) => (
+                        <p key={i} className="text-xs text-orange-600">{warning}</p>
+                      ))}
+                    </>
+                  ) : (
+                    <div className="grid grid-cols-3 gap-2">
+                      <Input
+                        className="h-8 text-xs"
+                        placeholder="發票號碼 AB12345678"
+                        value={form.invoiceNumber}
+                        onChange={e => updateForm(index, { invoiceNumber: e.target.value, include: true })}
+                      />
+                      <Input
+                        className="h-8 text-xs"
+                        type="date"
+                        value={form.invoiceDate}
+                        onChange={e => updateForm(index, { invoiceDate: e.target.value })}
+                      />
+                      <Input
+                        className="h-8 text-xs"
+                        type="number"
+                        min={0}
+                        placeholder="總計金額"
+                        value={form.totalAmount}
+                        onChange={e => updateForm(index, { totalAmount: e.target.value })}
+                      />
+                    </div>
+                  )}
+
+                  <Input
+                    className="h-8 text-xs"
+                    placeholder={
+                      result.result ? `商店名稱（預設 ${result.result.invoice.merchantName}）` : '商店名稱'
+                    }
+                    value={form.merchantName}
+                    onChange={e => updateForm(index, { merchantName: e.target.value })}
+                  />
+
+                  {form.include && typeof invoice === 'string' && (
+                    <p className="text-xs text-red-600">{invoice}</p>
+                  )}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onCancel}>
+            取消
+          </Button>
+          <Button
+            onClick={() => onConfirm(selected)}
+            disabled={selected.length === 0 || selected.length < forms.filter(form => form.include).length}
+          >
+            匯入 {selected.length} 張發票
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,149 @@
+import { useMemo, useState } from 'react';
+import { Scale, ChevronDown, ChevronRight } from 'lucide-react';
+import { useInvoiceStore } from '@/store';
+import { useDateFormatter } from '@/hooks/useDateFormatter';
+import {
+  findAmountMismatches,
+  MISMATCH_REASON_LABELS,
+  type AmountMismatch,
+} from '@/lib/reconciliation';
+import { Invoice } from '@/types';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+
+interface FileMismatches {
+  fileId: string;
+  fileName: string;
+  mismatches: AmountMismatch[];
+  difference: number;
+}
+
+const formatAmount = (value: number) =>
+  `${value < 0 ? '-' : ''}$${Math.abs(value).toLocaleString()}`;
+
+/**
+ * Invoices whose M-line total differs from the sum of their D-line items, per file
+ */
+export function ReconciliationReport() {
+  const { files, invoices, addAdjustmentItems } = useInvoiceStore();
+  const { formatDate } = useDateFormatter();
+  const [expanded, setExpanded] = useState<Record<string, boolean>>({});
+
+  const invoicesById = useMemo(
+    () => new Map<string, Invoice>(invoices.map(invoice => [invoice.id, invoice])),
+    [invoices]
+  );
+
+  const groups = useMemo<FileMismatches[]>(() => {
+    const byFile = new Map<string, AmountMismatch[]>();
+    findAmountMismatches(invoices).forEach(mismatch => {
+      const key = mismatch.sourceFileId ?? '';
+      byFile.set(key, [...(byFile.get(key) ?? []), mismatch]);
+    });
+
+    return Array.from(byFile.entries()).map(([fileId, mismatches]) => ({
+      fileId,
+      fileName: files.find(file => file.id === fileId)?.fileName ?? '未知來源',
+      mismatches,
+      difference: mismatches.reduce((sum, mismatch) => sum + mismatch.difference, 0),
+    }));
+  }, [files, invoices]);
+
+  if (groups.length === 0) {
+    return null;
+  }
+
+  const totalMismatches = groups.reduce((sum, group) => sum + group.mismatches.length, 0);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2 text-lg">
+          <Scale className="h-5 w-5" />
+          金額核對
+          <Badge variant="outline" className="border-orange-300 text-orange-700">
+            {totalMismatches} 張發票不符
+          </Badge>
+        </CardTitle>
+        <p className="text-sm text-muted-foreground">
+          以下發票的總金額與明細加總不同，分類統計會與總額有落差。可補上「未分配金額」或「折扣」品項，讓分類加總等於發票總額。
+        </p>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {groups.map(group => {
+          const isExpanded = expanded[group.fileId] ?? false;
+          return (
+            <div key={group.fileId} className="rounded-md border">
+              <div className="flex items-center justify-between gap-2 p-3">
+                <button
+                  type="button"
+                  className="flex items-center gap-2 text-sm font-medium"
+                  onClick={() => setExpanded(prev => ({ ...prev, [group.fileId]: !isExpanded }))}
+                >
+                  {isExpanded ? <ChevronDown className="h-4 w-4" /> : <ChevronRight className="h-4 w-4" />}
+                  {group.fileName}
+                  <span className="text-muted-foreground font-normal">
+                    {group.mismatches.length} 張，差額合計 {formatAmount(group.difference)}
+                  </span>
+                </button>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => addAdjustmentItems(group.mismatches.map(mismatch => mismatch.invoiceId))}
+                >
+                  全部補上差額品項
+                </Button>
+              </div>
+
+              {isExpanded && (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>發票號碼</TableHead>
+                      <TableHead>日期</TableHead>
+                      <TableHead>商店</TableHead>
+                      <TableHead className="text-right">發票總額</TableHead>
+                      <TableHead className="text-right">明細加總</TableHead>
+                      <TableHead className="text-right">差額</TableHead>
+                      <TableHead>原因</TableHead>
+                      <TableHead />
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {group.mismatches.map(mismatch => {
+                      const invoice = invoicesById.get(mismatch.invoiceId);
+                      return (
+                        <TableRow key={mismatch.invoiceId}>
+                          <TableCell className="font-mono text-xs">{mismatch.invoiceNumber}</TableCell>
+                          <TableCell>{invoice ? formatDate(invoice.invoiceDate) : ''}</TableCell>
+                          <TableCell>{invoice?.merchantName}</TableCell>
+                          <TableCell className="text-right">{formatAmount(mismatch.totalAmount)}</TableCell>
+                          <TableCell className="text-right">{formatAmount(mismatch.itemsTotal)}</TableCell>
+                          <TableCell className="text-right font-medium">
+                            {formatAmount(mismatch.difference)}
+                          </TableCell>
+                          <TableCell className="text-xs">{MISMATCH_REASON_LABELS[mismatch.reason]}</TableCell>
+                          <TableCell>
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => addAdjustmentItems([mismatch.invoiceId])}
+                            >
+                              補上差額
+                            </Button>
+                          </TableCell>
+                        </TableRow>
+                      );
+                    })}
+                  </TableBody>
+                </Table>
+              )}
+            </div>
+          );
+        })}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,396 @@
+import { useEffect, useMemo, useState } from 'react';
+import { AlertCircle, Landmark } from 'lucide-react';
+import { csvService } from '@/lib/csvService';
+import type { ParseResult } from '@/lib/csvParser';
+import { suggestFileNamePattern } from '@/lib/columnMapping';
+import {
+  AMOUNT_CONVENTION_LABELS,
+  STATEMENT_DATE_FORMAT_LABELS,
+  STATEMENT_DELIMITER_LABELS,
+  createStatementProfile,
+} from '@/lib/statementParser';
+import { useInvoiceStore } from '@/store';
+import {
+  FileEncoding,
+  StatementAmountConvention,
+  StatementDateFormat,
+  StatementProfile,
+} from '@/types';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { useDateFormatter } from '@/hooks/useDateFormatter';
+
+interface StatementProfileDialogProps {
+  file: File | null;
+  profile?: StatementProfile;
+  encoding: FileEncoding | 'auto';
+  onConfirm: (profile: StatementProfile) => void;
+  onSkip: () => void;
+}
+
+const PREVIEW_TRANSACTION_LIMIT = 10;
+
+// Select value used for "no column"
+const NO_COLUMN = 'none';
+
+interface ColumnSelectProps {
+  label: string;
+  value: number | undefined;
+  columns: number[];
+  optional?: boolean;
+  onChange: (column: number | undefined) => void;
+}
+
+function ColumnSelect({ label, value, columns, optional, onChange }: ColumnSelectProps) {
+  return (
+    <div className="space-y-1">
+      <Label className="text-xs text-muted-foreground">{label}</Label>
+      <Select
+        value={value === undefined ? NO_COLUMN : String(value)}
+        onValueChange={next => onChange(next === NO_COLUMN ? undefined : Number(next))}
+      >
+        <SelectTrigger className="h-8 text-xs">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {optional && <SelectItem value={NO_COLUMN}>無</SelectItem>}
+          {columns.map(column => (
+            <SelectItem key={column} value={String(column)}>
+              欄 {column}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </div>
+  );
+}
+
+export function StatementProfileDialog({
+  file,
+  profile,
+  encoding,
+  onConfirm,
+  onSkip,
+}: StatementProfileDialogProps) {
+  const { formatDate } = useDateFormatter();
+  const saveStatementProfile = useInvoiceStore(state => state.saveStatementProfile);
+  const [draft, setDraft] = useState<StatementProfile>(() => createStatementProfile());
+  const [preview, setPreview] = useState<ParseResult | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+
+  // Start from the matched profile, or a fresh one named after the file
+  useEffect(() => {
+    if (!file) return;
+    setPreview(null);
+    setDraft(
+      profile ?? {
+        ...createStatementProfile(file.name),
+        fileNamePattern: suggestFileNamePattern(file.name),
+      }
+    );
+    // The caller passes file and profile together, so this runs once per file
+  }, [file, profile]);
+
+  // Re-parse whenever the draft profile changes
+  useEffect(() => {
+    if (!file) return;
+    const controller = new AbortController();
+    setIsLoading(true);
+
+    csvService
+      .previewStatementFile(file, draft, { encoding, signal: controller.signal })
+      .then(result => {
+        if (!controller.signal.aborted) {
+          setPreview(result);
+          setIsLoading(false);
+        }
+      });
+
+    return () => controller.abort();
+  }, [file, encoding, draft]);
+
+  const columnOptions = useMemo(() => {
+    const width = Math.max(
+      3,
+      ...(preview?.sampleRows ?? []).map(row => row.length)
+    );
+    return Array.from({ length: width }, (_, index) => index);
+  }, [preview]);
+
+  const update = (updates: Partial<StatementProfile>) => {
+    setDraft(prev => ({ ...prev, ...updates }));
+  };
+
+  const handleConfirm = () => {
+    const saved: StatementProfile = {
+      ...draft,
+      name: draft.name.trim() || draft.fileNamePattern.trim() || file?.name || '',
+      fileNamePattern: draft.fileNamePattern.trim(),
+    };
+    saveStatementProfile(saved);
+    onConfirm(saved);
+  };
+
+  return (
+    <Dialog open={!!file} onOpenChange={open => !open && onSkip()}>
+      <DialogContent onClose={onSkip} className="max-w-4xl">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Landmark className="h-5 w-5" />
+            對帳單匯入設定：{file?.name}
+          </DialogTitle>
+          <DialogDescription>
+            指定日期、金額與說明所在的欄位。設定檔會依檔名樣式自動套用到之後的對帳單。
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="max-h-[65vh] overflow-y-auto space-y-5">
+          {/* Summary */}
+          <div className="flex flex-wrap gap-2 text-sm">
+            <Badge variant="outline">資料列: {preview?.totalRows ?? 0}</Badge>
+            <Badge variant="outline">支出交易: {preview?.invoices.length ?? 0} 筆</Badge>
+            <Badge variant="outline">略過（存入/退款）: {preview?.skippedRows ?? 0} 筆</Badge>
+            <Badge variant={preview && preview.errors.length > 0 ? 'destructive' : 'secondary'}>
+              錯誤: {preview?.errors.length ?? 0} 列
+            </Badge>
+            {isLoading && <span className="text-muted-foreground">解析中...</span>}
+          </div>
+
+          {/* Raw sample rows */}
+          {preview?.sampleRows && preview.sampleRows.length > 0 && (
+            <div className="space-y-2">
+              <Label className="text-base font-medium">原始資料（前 {preview.sampleRows.length} 列）</Label>
+              <div className="overflow-x-auto border rounded-md">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      {columnOptions.map(column => (
+                        <TableHead key={column} className="text-xs whitespace-nowrap">
+                          欄 {column}
+                        </TableHead>
+                      ))}
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {preview.sampleRows.map((row, rowIndex) => (
+                      <TableRow
+                        key={rowIndex}
+                        className={rowIndex < draft.headerRows ? 'text-muted-foreground' : undefined}
+                      >
+                        {columnOptions.map(column => (
+                          <TableCell key={column} className="text-xs whitespace-nowrap py-1">
+                            {row[column] ?? ''}
+                          </TableCell>
+                        ))}
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            </div>
+          )}
+
+          {/* File format */}
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+            <div className="space-y-1">
+              <Label className="text-xs text-muted-foreground">分隔符號</Label>
+              <Select value={draft.delimiter || 'auto'} onValueChange={value => update({ delimiter: value === 'auto' ? '' : value })}>
+                <SelectTrigger className="h-8 text-xs">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(STATEMENT_DELIMITER_LABELS).map(([delimiter, label]) => (
+                    <SelectItem key={label} value={delimiter || 'auto'}>
+                      {label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="statementHeaderRows" className="text-xs text-muted-foreground">略過開頭列數</Label>
+              <Input
+                id="statementHeaderRows"
+                type="number"
+                min={0}
+                className="h-8 text-xs"
+                value={draft.headerRows}
+                onChange={e => update({ headerRows: Math.max(0, parseInt(e.target.value) || 0) })}
+              />
+            </div>
+            <ColumnSelect
+              label="交易日期"
+              value={draft.dateColumn}
+              columns={columnOptions}
+              onChange={column => update({ dateColumn: column ?? 0 })}
+            />
+            <div className="space-y-1">
+              <Label className="text-xs text-muted-foreground">日期格式</Label>
+              <Select value={draft.dateFormat} onValueChange={(value: StatementDateFormat) => update({ dateFormat: value })}>
+                <SelectTrigger className="h-8 text-xs">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(STATEMENT_DATE_FORMAT_LABELS) as StatementDateFormat[]).map(format => (
+                    <SelectItem key={format} value={format}>
+                      {STATEMENT_DATE_FORMAT_LABELS[format]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          {/* Amount and description */}
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+            <div className="space-y-1 col-span-2">
+              <Label className="text-xs text-muted-foreground">金額正負規則</Label>
+              <Select
+                value={draft.amountConvention}
+                onValueChange={(value: StatementAmountConvention) => update({ amountConvention: value })}
+              >
+                <SelectTrigger className="h-8 text-xs">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(AMOUNT_CONVENTION_LABELS) as StatementAmountConvention[]).map(convention => (
+                    <SelectItem key={convention} value={convention}>
+                      {AMOUNT_CONVENTION_LABELS[convention]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <ColumnSelect
+              label={draft.amountConvention === 'debit-credit' ? '支出金額' : '金額'}
+              value={draft.amountColumn}
+              columns={columnOptions}
+              onChange={column => update({ amountColumn: column ?? 0 })}
+            />
+            <ColumnSelect
+              label="交易說明"
+              value={draft.descriptionColumn}
+              columns={columnOptions}
+              onChange={column => update({ descriptionColumn: column ?? 0 })}
+            />
+            <ColumnSelect
+              label="交易對象"
+              value={draft.counterpartyColumn}
+              columns={columnOptions}
+              optional
+              onChange={column => update({ counterpartyColumn: column })}
+            />
+          </div>
+
+          {/* Parsed transactions */}
+          <div className="space-y-2">
+            <Label className="text-base font-medium">
+              解析結果（前 {Math.min(PREVIEW_TRANSACTION_LIMIT, preview?.invoices.length ?? 0)} 筆）
+            </Label>
+            <div className="border rounded-md">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>日期</TableHead>
+                    <TableHead>交易對象</TableHead>
+                    <TableHead>說明</TableHead>
+                    <TableHead className="text-right">金額</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {(preview?.invoices ?? []).slice(0, PREVIEW_TRANSACTION_LIMIT).map(transaction => (
+                    <TableRow key={transaction.id}>
+                      <TableCell className="text-xs">
+                        {formatDate(transaction.invoiceDate)}
+                      </TableCell>
+                      <TableCell className="text-xs">{transaction.merchantName}</TableCell>
+                      <TableCell className="text-xs text-muted-foreground">
+                        {transaction.items[0]?.itemName}
+                      </TableCell>
+                      <TableCell className="text-xs text-right">
+                        ${transaction.totalAmount.toLocaleString()}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          </div>
+
+          {/* Row errors */}
+          {preview && preview.errors.length > 0 && (
+            <div className="rounded-md border border-red-200 bg-red-50 p-3 text-xs text-red-700 space-y-1">
+              <div className="flex items-center gap-1 font-medium">
+                <AlertCircle className="h-4 w-4" />
+                {preview.errors.length} 列解析失敗
+              </div>
+              {preview.errors.slice(0, 5).map((error, index) => (
+                <p key={index}>第{error.row}行: {error.message}</p>
+              ))}
+              {preview.errors.length > 5 && <p>...</p>}
+            </div>
+          )}
+
+          {/* Profile */}
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-3 border-t pt-4">
+            <div className="space-y-1">
+              <Label htmlFor="statementProfileName" className="text-xs text-muted-foreground">設定檔名稱</Label>
+              <Input
+                id="statementProfileName"
+                value={draft.name}
+                onChange={e => update({ name: e.target.value })}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="statementProfilePattern" className="text-xs text-muted-foreground">
+                套用的檔名樣式（* 代表任意字元）
+              </Label>
+              <Input
+                id="statementProfilePattern"
+                value={draft.fileNamePattern}
+                onChange={e => update({ fileNamePattern: e.target.value })}
+              />
+            </div>
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onSkip}>
+            略過此檔案
+          </Button>
+          <Button
+            onClick={handleConfirm}
+            disabled={isLoading || !preview || preview.invoices.length === 0}
+          >
+            儲存設定並匯入
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,16 +1,24 @@
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { useInvoiceStore } from '@/store';
+import { Invoice, Statistics } from '@/types';
+import { getValidInvoices } from '@/lib/statisticsService';
+import { useDateFormatter } from '@/hooks/useDateFormatter';
 import { StatisticsCardsSkeleton } from './LoadingStates';
 import { BarChart3, FileText, TrendingUp, Calendar } from 'lucide-react';
 import { useMemo, memo, useCallback } from 'react';
 
 interface StatisticsCardsProps {
   className?: string;
+  // Shown instead of the active profile's data, e.g. for the household view
+  data?: { statistics: Statistics | null; invoices: Invoice[] };
 }
 
-export const StatisticsCards = memo(function StatisticsCards({ className }: StatisticsCardsProps) {
-  const { statistics, isLoading, invoices } = useInvoiceStore();
+export const StatisticsCards = memo(function StatisticsCards({ className, data }: StatisticsCardsProps) {
+  const store = useInvoiceStore();
+  const { statistics, invoices } = data ?? store;
+  const { isLoading } = store;
+  const { formatDate } = useDateFormatter();
 
   // Calculate additional metrics
   const additionalMetrics = useMemo(() => {
@@ -22,19 +30,19 @@ export const StatisticsCards = memo(function StatisticsCards({ className }: Stat
       };
     }
 
-    const validInvoices = invoices.filter(inv => inv.status === 'issued');
+    const validInvoices = getValidInvoices(invoices);
     const voidedInvoices = invoices.filter(inv => inv.status === 'voided');
     
     const startDate = statistics.dateRange.start;
     const endDate = statistics.dateRange.end;
-    const dateRangeText = `${startDate.toLocaleDateString('zh-TW')} - ${endDate.toLocaleDateString('zh-TW')}`;
+    const dateRangeText = `${formatDate(startDate)} - ${formatDate(endDate)}`;
 
     return {
       validInvoicesCount: validInvoices.length,
       voidedInvoicesCount: voidedInvoices.length,
       dateRangeText,
     };
-  }, [statistics, invoices]);
+  }, [statistics, invoices, formatDate]);
 
   // Format currency - memoized to avoid recreation on every render
   const formatCurrency = useCallback((amount: number) => {
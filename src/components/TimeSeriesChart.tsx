@@ -17,6 +17,8 @@ import { ChartSkeleton } from './LoadingStates';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { useInvoiceStore } from '@/store';
+import { Statistics } from '@/types';
+import { useDateFormatter } from '@/hooks/useDateFormatter';
 import { TrendingUp, BarChart3 } from 'lucide-react';
 
 // Register Chart.js components
@@ -33,13 +35,18 @@ ChartJS.register(
 
 interface TimeSeriesChartProps {
   className?: string;
+  // Shown instead of the active profile's data, e.g. for the household view
+  data?: { statistics: Statistics | null };
 }
 
 type ChartType = 'daily' | 'monthly';
 
-export const TimeSeriesChart = memo(function TimeSeriesChart({ className }: TimeSeriesChartProps) {
-  const { statistics, isLoading } = useInvoiceStore();
+export const TimeSeriesChart = memo(function TimeSeriesChart({ className, data }: TimeSeriesChartProps) {
+  const store = useInvoiceStore();
+  const { statistics } = data ?? store;
+  const { isLoading } = store;
   const [chartType, setChartType] = useState<ChartType>('daily');
+  const { formatDate } = useDateFormatter();
 
   // Process data for daily trend
   const dailyData = useMemo(() => {
@@ -105,10 +112,7 @@ export const TimeSeriesChart = memo(function TimeSeriesChart({ className }: Time
 
     return {
       labels: sortedMonthly.map(point => 
-        point.date.toLocaleDateString('zh-TW', { 
-          year: 'numeric', 
-          month: 'short' 
-        })
+        formatDate(point.date, 'month')
       ),
       datasets: [
         {
@@ -123,7 +127,7 @@ export const TimeSeriesChart = memo(function TimeSeriesChart({ className }: Time
       ],
       rawData: sortedMonthly,
     };
-  }, [statistics]);
+  }, [statistics, formatDate]);
 
   // Memoized click handlers to prevent unnecessary re-renders
   const handleDailyChartClick = useCallback((_event: any, elements: any[]) => {
@@ -169,12 +173,8 @@ export const TimeSeriesChart = memo(function TimeSeriesChart({ className }: Time
             const dataIndex = context[0].dataIndex;
             const rawData = dailyData?.rawData[dataIndex];
             if (rawData) {
-              return rawData.date.toLocaleDateString('zh-TW', {
-                year: 'numeric',
-                month: 'long',
-                day: 'numeric',
-                weekday: 'short',
-              });
+              const weekday = rawData.date.toLocaleDateString('zh-TW', { weekday: 'short' });
+              return `${formatDate(rawData.date, 'long')} ${weekday}`;
             }
             return '';
           },
@@ -232,7 +232,7 @@ export const TimeSeriesChart = memo(function TimeSeriesChart({ className }: Time
       mode: 'index',
     },
     onClick: handleDailyChartClick,
-  }), [dailyData, handleDailyChartClick]);
+  }), [dailyData, handleDailyChartClick, formatDate]);
 
   // Chart options for bar chart - memoized to prevent recreation
   const barOptions: ChartOptions<'bar'> = useMemo(() => ({
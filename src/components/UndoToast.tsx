@@ -0,0 +1,121 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { Redo2, Undo2 } from 'lucide-react';
+import { useInvoiceStore } from '@/store';
+import type { HistoryEntry } from '@/lib/undoHistory';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent } from '@/components/ui/card';
+
+type UndoToastState = {
+  kind: 'action' | 'undone' | 'redone';
+  entry: HistoryEntry;
+} | null;
+
+const TOAST_DURATION = 8000;
+
+const isTextInput = (target: EventTarget | null) => {
+  const element = target as HTMLElement | null;
+  return (
+    !!element &&
+    (element.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(element.tagName))
+  );
+};
+
+/**
+ * Offers "undo" after destructive store actions and handles the undo/redo
+ * shortcuts (Ctrl/⌘+Z, Ctrl/⌘+Shift+Z, Ctrl+Y)
+ */
+export function UndoToast() {
+  const undo = useInvoiceStore(state => state.undo);
+  const redo = useInvoiceStore(state => state.redo);
+  const [toast, setToast] = useState<UndoToastState>(null);
+  const mountedAt = useRef(Date.now());
+
+  useEffect(
+    () =>
+      useInvoiceStore.subscribe((state, prev) => {
+        const entry = state.undoStack[state.undoStack.length - 1];
+        const isNewAction =
+          entry &&
+          entry !== prev.undoStack[prev.undoStack.length - 1] &&
+          !prev.redoStack.includes(entry) &&
+          // Entries restored from storage on load are not new
+          entry.timestamp >= mountedAt.current;
+        if (isNewAction) {
+          setToast({ kind: 'action', entry });
+        }
+      }),
+    []
+  );
+
+  useEffect(() => {
+    if (!toast) return;
+    const timer = setTimeout(() => setToast(null), TOAST_DURATION);
+    return () => clearTimeout(timer);
+  }, [toast]);
+
+  const handleUndo = useCallback(() => {
+    const entry = undo();
+    if (entry) setToast({ kind: 'undone', entry });
+  }, [undo]);
+
+  const handleRedo = useCallback(() => {
+    const entry = redo();
+    if (entry) setToast({ kind: 'redone', entry });
+  }, [redo]);
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (!(event.ctrlKey || event.metaKey) || isTextInput(event.target)) return;
+
+      const key = event.key.toLowerCase();
+      if (key === 'z' && !event.shiftKey) {
+        event.preventDefault();
+        handleUndo();
+      } else if ((key === 'z' && event.shiftKey) || key === 'y') {
+        event.preventDefault();
+        handleRedo();
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [handleUndo, handleRedo]);
+
+  if (!toast) {
+    return null;
+  }
+
+  const message =
+    toast.kind === 'action'
+      ? toast.entry.label
+      : `${toast.kind === 'undone' ? '已復原' : '已重做'}：${toast.entry.label}`;
+
+  return (
+    <div className="fixed bottom-4 left-1/2 z-50 -translate-x-1/2" role="status">
+      <Card className="shadow-lg">
+        <CardContent className="flex items-center gap-3 p-3">
+          <span className="text-sm">{message}</span>
+          {toast.kind === 'undone' ? (
+            <Button variant="outline" size="sm" onClick={handleRedo}>
+              <Redo2 className="mr-1 h-4 w-4" />
+              重做
+            </Button>
+          ) : (
+            <Button variant="outline" size="sm" onClick={handleUndo}>
+              <Undo2 className="mr-1 h-4 w-4" />
+              復原
+            </Button>
+          )}
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => setToast(null)}
+            className="text-muted-foreground"
+          >
+            ✕
+          </Button>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,206 @@
+import { useState } from 'react';
+import { AlertCircle, Lock, ShieldCheck } from 'lucide-react';
+import { useVault } from '@/hooks/useVault';
+import { DEFAULT_AUTO_LOCK_MINUTES } from '@/lib/vaultService';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+
+interface VaultSettingsDialogProps {
+  open: boolean;
+  onClose: () => void;
+}
+
+const MIN_PASSPHRASE_LENGTH = 8;
+
+const AUTO_LOCK_OPTIONS: Record<string, string> = {
+  '5': '閒置 5 分鐘',
+  '10': '閒置 10 分鐘',
+  '30': '閒置 30 分鐘',
+  '60': '閒置 1 小時',
+  '0': '不自動鎖定',
+};
+
+/**
+ * Turn the passphrase vault on or off and set its auto-lock
+ */
+export function VaultSettingsDialog({ open, onClose }: VaultSettingsDialogProps) {
+  const { status, config, isSupported, enable, disable, lock, setAutoLockMinutes } = useVault();
+  const [passphrase, setPassphrase] = useState('');
+  const [confirmation, setConfirmation] = useState('');
+  const [autoLock, setAutoLock] = useState(String(DEFAULT_AUTO_LOCK_MINUTES));
+  const [error, setError] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const handleClose = () => {
+    setPassphrase('');
+    setConfirmation('');
+    setError(null);
+    onClose();
+  };
+
+  const handleEnable = async () => {
+    if (passphrase.length < MIN_PASSPHRASE_LENGTH) {
+      setError(`密碼至少需要 ${MIN_PASSPHRASE_LENGTH} 個字元`);
+      return;
+    }
+    if (passphrase !== confirmation) {
+      setError('兩次輸入的密碼不一致');
+      return;
+    }
+
+    setIsSaving(true);
+    setError(null);
+    try {
+      await enable(passphrase, Number(autoLock));
+      handleClose();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : '無法啟用資料保險箱');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDisable = async () => {
+    setIsSaving(true);
+    try {
+      await disable();
+      handleClose();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : '無法關閉資料保險箱');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleLock = () => {
+    handleClose();
+    lock();
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={isOpen => !isOpen && handleClose()}>
+      <DialogContent onClose={handleClose} className="max-w-md">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <ShieldCheck className="h-5 w-5" />
+            資料保險箱
+          </DialogTitle>
+          <DialogDescription>
+            以密碼加密儲存在此瀏覽器中的發票、檔案與資產。忘記密碼將無法還原資料，請妥善保管。
+          </DialogDescription>
+        </DialogHeader>
+
+        {!isSupported ? (
+          <p className="text-sm text-muted-foreground">
+            此瀏覽器不支援資料保險箱（需要 WebCrypto 與 IndexedDB）。
+          </p>
+        ) : status === 'disabled' ? (
+          <div className="space-y-3">
+            <div className="space-y-2">
+              <Label htmlFor="vault-new-passphrase">密碼</Label>
+              <Input
+                id="vault-new-passphrase"
+                type="password"
+                autoComplete="new-password"
+                value={passphrase}
+                onChange={event => setPassphrase(event.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="vault-confirm-passphrase">再次輸入密碼</Label>
+              <Input
+                id="vault-confirm-passphrase"
+                type="password"
+                autoComplete="new-password"
+                value={confirmation}
+                onChange={event => setConfirmation(event.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="vault-auto-lock">自動鎖定</Label>
+              <Select value={autoLock} onValueChange={setAutoLock}>
+                <SelectTrigger id="vault-auto-lock">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(AUTO_LOCK_OPTIONS).map(([value, label]) => (
+                    <SelectItem key={value} value={value}>
+                      {label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+        ) : (
+          <div className="space-y-3">
+            <p className="text-sm">資料保險箱已啟用，資料以加密方式儲存。</p>
+            <div className="space-y-2">
+              <Label htmlFor="vault-auto-lock">自動鎖定</Label>
+              <Select
+                value={String(config?.autoLockMinutes ?? DEFAULT_AUTO_LOCK_MINUTES)}
+                onValueChange={value => setAutoLockMinutes(Number(value))}
+              >
+                <SelectTrigger id="vault-auto-lock">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(AUTO_LOCK_OPTIONS).map(([value, label]) => (
+                    <SelectItem key={value} value={value}>
+                      {label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+        )}
+
+        {error && (
+          <p className="flex items-center gap-1 text-sm text-red-600">
+            <AlertCircle className="h-4 w-4" />
+            {error}
+          </p>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={handleClose}>
+            關閉
+          </Button>
+          {isSupported && status === 'disabled' && (
+            <Button onClick={handleEnable} disabled={isSaving || !passphrase}>
+              {isSaving ? '加密中...' : '啟用保險箱'}
+            </Button>
+          )}
+          {status === 'unlocked' && (
+            <>
+              <Button variant="outline" onClick={handleDisable} disabled={isSaving}>
+                關閉保險箱
+              </Button>
+              <Button onClick={handleLock}>
+                <Lock className="mr-1 h-4 w-4" />
+                立即鎖定
+              </Button>
+            </>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,109 @@
+import { useState } from 'react';
+import { AlertCircle, Lock } from 'lucide-react';
+import { useVault } from '@/hooks/useVault';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from '@/components/ui/card';
+
+/**
+ * Shown instead of the app while the vault is locked
+ */
+export function VaultUnlockScreen() {
+  const { unlock, reset } = useVault();
+  const [passphrase, setPassphrase] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [isUnlocking, setIsUnlocking] = useState(false);
+  const [confirmReset, setConfirmReset] = useState(false);
+
+  const handleSubmit = async (event: React.FormEvent) => {
+    event.preventDefault();
+    if (!passphrase) return;
+
+    setIsUnlocking(true);
+    setError(null);
+    try {
+      const unlocked = await unlock(passphrase);
+      if (!unlocked) {
+        setError('密碼錯誤，請再試一次');
+      }
+    } catch {
+      setError('解鎖失敗，請重新整理頁面後再試');
+    } finally {
+      setPassphrase('');
+      setIsUnlocking(false);
+    }
+  };
+
+  return (
+    <div className="flex min-h-screen items-center justify-center bg-background p-4">
+      <Card className="w-full max-w-sm">
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Lock className="h-5 w-5" />
+            資料保險箱已鎖定
+          </CardTitle>
+          <CardDescription>輸入密碼以解鎖發票與資產資料。</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="vault-passphrase">密碼</Label>
+              <Input
+                id="vault-passphrase"
+                type="password"
+                autoComplete="current-password"
+                autoFocus
+                value={passphrase}
+                onChange={event => setPassphrase(event.target.value)}
+              />
+            </div>
+
+            {error && (
+              <p className="flex items-center gap-1 text-sm text-red-600">
+                <AlertCircle className="h-4 w-4" />
+                {error}
+              </p>
+            )}
+
+            <Button type="submit" className="w-full" disabled={!passphrase || isUnlocking}>
+              {isUnlocking ? '解鎖中...' : '解鎖'}
+            </Button>
+          </form>
+
+          <div className="mt-6 border-t pt-4 text-sm">
+            {confirmReset ? (
+              <div className="space-y-2">
+                <p className="text-red-600">
+                  忘記密碼時無法還原已加密的資料。重設會刪除所有資料並關閉保險箱，確定要繼續嗎？
+                </p>
+                <div className="flex gap-2">
+                  <Button variant="outline" size="sm" onClick={() => setConfirmReset(false)}>
+                    取消
+                  </Button>
+                  <Button variant="destructive" size="sm" onClick={() => reset()}>
+                    刪除資料並重設
+                  </Button>
+                </div>
+              </div>
+            ) : (
+              <button
+                type="button"
+                className="text-muted-foreground underline-offset-4 hover:underline"
+                onClick={() => setConfirmReset(true)}
+              >
+                忘記密碼？
+              </button>
+            )}
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
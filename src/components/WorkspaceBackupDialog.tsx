@@ -0,0 +1,384 @@
+import { useMemo, useState } from 'react';
+import { AlertCircle, Archive, CheckCircle, Download, Upload } from 'lucide-react';
+import { useInvoiceStore } from '@/store';
+import { getAllProfileData } from '@/lib/profiles';
+import { originalFileStore } from '@/lib/originalFileStore';
+import { useDateFormatter } from '@/hooks/useDateFormatter';
+import { useVault } from '@/hooks/useVault';
+import {
+  ARCHIVE_ENTITY_LABELS,
+  createWorkspaceArchive,
+  decryptWorkspaceArchive,
+  downloadWorkspaceArchive,
+  encryptWorkspaceArchive,
+  isEncryptedArchive,
+  parseWorkspaceArchive,
+  planArchiveImport,
+  type ArchiveEntity,
+  type ArchiveImportMode,
+  type WorkspaceData,
+} from '@/lib/workspaceArchive';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+
+interface WorkspaceBackupDialogProps {
+  open: boolean;
+  onClose: () => void;
+}
+
+interface LoadedArchive {
+  fileName: string;
+  exportedAt: Date;
+  data: WorkspaceData;
+}
+
+// Encrypted archive waiting for its passphrase
+interface PendingEncryptedArchive {
+  fileName: string;
+  text: string;
+}
+
+const IMPORT_MODE_LABELS: Record<ArchiveImportMode, string> = {
+  merge: '合併到目前資料',
+  replace: '以備份取代目前資料',
+};
+
+/**
+ * Download the whole workspace as one archive file, or restore one
+ */
+export function WorkspaceBackupDialog({ open, onClose }: WorkspaceBackupDialogProps) {
+  const {
+    invoices,
+    files,
+    assets,
+    profiles,
+    activeProfileId,
+    profileData,
+    settings,
+    mappingProfiles,
+    statementProfiles,
+    carrierLabels,
+    categoryRules,
+    merchants,
+    restoreWorkspace,
+  } = useInvoiceStore();
+  const { formatDate } = useDateFormatter();
+  const { status: vaultStatus } = useVault();
+  const [archive, setArchive] = useState<LoadedArchive | null>(null);
+  const [encrypted, setEncrypted] = useState<PendingEncryptedArchive | null>(null);
+  // Backups of a vault-protected workspace are encrypted by default
+  const [encryptExport, setEncryptExport] = useState(vaultStatus !== 'disabled');
+  const [passphrase, setPassphrase] = useState('');
+  const [isBusy, setIsBusy] = useState(false);
+  const [mode, setMode] = useState<ArchiveImportMode>('merge');
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+
+  // The whole household is backed up, not just the active profile
+  const current = useMemo<WorkspaceData>(
+    () => ({
+      ...getAllProfileData({ invoices, files, assets, activeProfileId, profileData }),
+      profiles,
+      settings,
+      mappingProfiles,
+      statementProfiles,
+      carrierLabels,
+      categoryRules,
+      merchants,
+    }),
+    [
+      invoices,
+      files,
+      assets,
+      activeProfileId,
+      profileData,
+      profiles,
+      settings,
+      mappingProfiles,
+      statementProfiles,
+      carrierLabels,
+      categoryRules,
+      merchants,
+    ]
+  );
+  const plan = useMemo(
+    () => (archive ? planArchiveImport(current, archive.data, mode) : null),
+    [archive, mode, current]
+  );
+
+  const handleExport = async () => {
+    setError(null);
+    setMessage(null);
+    setIsBusy(true);
+    const workspaceArchive = createWorkspaceArchive({
+      ...current,
+      files: await originalFileStore.inlineOriginals(current.files),
+    });
+    if (!encryptExport) {
+      downloadWorkspaceArchive(workspaceArchive);
+      setIsBusy(false);
+      setMessage('已下載工作區備份');
+      return;
+    }
+
+    try {
+      downloadWorkspaceArchive(await encryptWorkspaceArchive(workspaceArchive, passphrase));
+      setPassphrase('');
+      setMessage('已下載加密的工作區備份，匯入時需要輸入相同密碼');
+    } catch {
+      setError('無法加密備份檔');
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const loadArchive = (fileName: string, text: string) => {
+    const { exportedAt, data } = parseWorkspaceArchive(text);
+    setArchive({ fileName, exportedAt, data });
+  };
+
+  const handleFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    setError(null);
+    setMessage(null);
+    setArchive(null);
+    setEncrypted(null);
+    try {
+      const text = await file.text();
+      if (isEncryptedArchive(text)) {
+        setEncrypted({ fileName: file.name, text });
+        setPassphrase('');
+        return;
+      }
+      loadArchive(file.name, text);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : '無法讀取備份檔');
+    }
+  };
+
+  const handleDecrypt = async () => {
+    if (!encrypted) return;
+
+    setIsBusy(true);
+    setError(null);
+    try {
+      loadArchive(encrypted.fileName, await decryptWorkspaceArchive(encrypted.text, passphrase));
+      setEncrypted(null);
+      setPassphrase('');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : '無法讀取備份檔');
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleImport = async () => {
+    if (!plan) return;
+    setIsBusy(true);
+    restoreWorkspace({
+      ...plan.data,
+      files: await originalFileStore.storeInlineOriginals(plan.data.files),
+    });
+    setIsBusy(false);
+    setArchive(null);
+    setMessage(`已${IMPORT_MODE_LABELS[mode]}，可按「復原」還原`);
+  };
+
+  const handleClose = () => {
+    setArchive(null);
+    setEncrypted(null);
+    setPassphrase('');
+    setError(null);
+    setMessage(null);
+    onClose();
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={isOpen => !isOpen && handleClose()}>
+      <DialogContent onClose={handleClose} className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Archive className="h-5 w-5" />
+            工作區備份
+          </DialogTitle>
+          <DialogDescription>
+            將發票、檔案（含原始檔）、資產與設定存成單一備份檔，可在其他瀏覽器或電腦匯入。
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="max-h-[60vh] overflow-y-auto space-y-4">
+          <div className="flex items-center justify-between rounded-md border p-3 text-sm">
+            <span>
+              目前資料：成員 {current.profiles.length} 位、發票 {current.invoices.length} 張、檔案{' '}
+              {current.files.length} 個、資產 {current.assets.length} 筆
+            </span>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={handleExport}
+              disabled={isBusy || (encryptExport && !passphrase)}
+            >
+              <Download className="mr-1 h-4 w-4" />
+              下載備份檔
+            </Button>
+          </div>
+
+          <div className="space-y-2">
+            <div className="flex items-center space-x-2">
+              <Checkbox
+                id="workspace-encrypt-export"
+                checked={encryptExport}
+                onCheckedChange={checked => setEncryptExport(checked as boolean)}
+              />
+              <Label htmlFor="workspace-encrypt-export" className="text-sm">
+                以密碼加密備份檔
+              </Label>
+            </div>
+            {encryptExport && !encrypted && (
+              <Input
+                type="password"
+                autoComplete="new-password"
+                placeholder="備份檔密碼"
+                value={passphrase}
+                onChange={event => setPassphrase(event.target.value)}
+              />
+            )}
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="workspace-archive-file">匯入備份檔</Label>
+            <input
+              id="workspace-archive-file"
+              type="file"
+              accept=".json,application/json"
+              className="block w-full text-sm"
+              onChange={handleFileChange}
+            />
+          </div>
+
+          {encrypted && (
+            <div className="space-y-2 rounded-md border p-3">
+              <Label htmlFor="workspace-archive-passphrase">
+                {encrypted.fileName} 已加密，請輸入備份檔密碼
+              </Label>
+              <div className="flex gap-2">
+                <Input
+                  id="workspace-archive-passphrase"
+                  type="password"
+                  autoComplete="off"
+                  value={passphrase}
+                  onChange={event => setPassphrase(event.target.value)}
+                />
+                <Button size="sm" onClick={handleDecrypt} disabled={isBusy || !passphrase}>
+                  解密
+                </Button>
+              </div>
+            </div>
+          )}
+
+          {error && (
+            <p className="flex items-center gap-1 text-sm text-red-600">
+              <AlertCircle className="h-4 w-4" />
+              {error}
+            </p>
+          )}
+
+          {message && (
+            <p className="flex items-center gap-1 text-sm text-green-700">
+              <CheckCircle className="h-4 w-4" />
+              {message}
+            </p>
+          )}
+
+          {archive && plan && (
+            <div className="space-y-3 rounded-md border p-3">
+              <p className="text-sm">
+                {archive.fileName}（備份於 {formatDate(archive.exportedAt, 'datetime')}）
+              </p>
+              <div className="flex items-center gap-2">
+                <Label htmlFor="workspace-import-mode">匯入方式</Label>
+                <Select value={mode} onValueChange={(value: ArchiveImportMode) => setMode(value)}>
+                  <SelectTrigger id="workspace-import-mode" className="w-48">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {(Object.keys(IMPORT_MODE_LABELS) as ArchiveImportMode[]).map(key => (
+                      <SelectItem key={key} value={key}>
+                        {IMPORT_MODE_LABELS[key]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>項目</TableHead>
+                    <TableHead className="text-right">新增</TableHead>
+                    <TableHead className="text-right">更新</TableHead>
+                    <TableHead className="text-right">移除</TableHead>
+                    <TableHead className="text-right">不變</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {(Object.keys(plan.changes) as ArchiveEntity[]).map(entity => {
+                    const counts = plan.changes[entity];
+                    return (
+                      <TableRow key={entity}>
+                        <TableCell>{ARCHIVE_ENTITY_LABELS[entity]}</TableCell>
+                        <TableCell className="text-right">{counts.added}</TableCell>
+                        <TableCell className="text-right">{counts.updated}</TableCell>
+                        <TableCell
+                          className={`text-right ${counts.removed > 0 ? 'font-medium text-red-600' : ''}`}
+                        >
+                          {counts.removed}
+                        </TableCell>
+                        <TableCell className="text-right">{counts.unchanged}</TableCell>
+                      </TableRow>
+                    );
+                  })}
+                </TableBody>
+              </Table>
+
+              {plan.settingsChanged && (
+                <p className="text-xs text-muted-foreground">設定或載具名稱也會一併更新。</p>
+              )}
+            </div>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={handleClose}>
+            關閉
+          </Button>
+          <Button onClick={handleImport} disabled={!plan || isBusy}>
+            <Upload className="mr-1 h-4 w-4" />
+            {IMPORT_MODE_LABELS[mode]}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -172,4 +172,36 @@ describe('AdvancedCategoryChart', () => {
     const percentageBadges = screen.getAllByText(/\d+\.\d+%/);
     expect(percentageBadges.length).toBeGreaterThan(0);
   });
-});
\ No newline at end of file
+
+  it('should drill from a parent category into its subcategories', () => {
+    const nestedInvoices: Invoice[] = [
+      {
+        ...mockInvoices[1],
+        items: [
+          { id: 'item4', invoiceNumber: 'CD87654321', itemName: '捷運', amount: 30, category: '交通/捷運' },
+          { id: 'item5', invoiceNumber: 'CD87654321', itemName: '汽油', amount: 220, category: '交通/加油' },
+        ],
+      },
+    ];
+    render(<AdvancedCategoryChart invoices={nestedInvoices} />);
+
+    expect(screen.getByText('Labels: 交通')).toBeInTheDocument();
+
+    fireEvent.click(screen.getByText('交通'));
+
+    expect(screen.getByText('Labels: 加油, 捷運')).toBeInTheDocument();
+    expect(screen.getByText('返回上層')).toBeInTheDocument();
+
+    fireEvent.click(screen.getByText('返回上層'));
+
+    expect(screen.getByText('Labels: 交通')).toBeInTheDocument();
+  });
+
+  it('should leave excluded invoices out of the categories', () => {
+    render(
+      <AdvancedCategoryChart invoices={[mockInvoices[0], { ...mockInvoices[1], excluded: true }]} />
+    );
+
+    expect(screen.getByText('Labels: 餐飲, 飲料')).toBeInTheDocument();
+  });
+});
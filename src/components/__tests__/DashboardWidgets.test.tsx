@@ -0,0 +1,51 @@
+import { describe, it, expect, vi } from 'vitest';
+import { render, screen, fireEvent, within } from '@testing-library/react';
+import { StatisticsCards } from '../StatisticsCards';
+import { CategoryChart } from '../CategoryChart';
+import { calculateBasicStatistics, getValidInvoices } from '@/lib/statisticsService';
+import { Invoice } from '@/types';
+
+vi.mock('react-chartjs-2', () => ({
+  Bar: ({ data }: any) => <div data-testid="bar-chart">Labels: {data.labels?.join(', ')}</div>,
+  Doughnut: ({ data }: any) => (
+    <div data-testid="doughnut-chart">Labels: {data.labels?.join(', ')}</div>
+  ),
+}));
+
+const createInvoice = (invoiceNumber: string, itemName: string, excluded = false): Invoice => ({
+  id: invoiceNumber,
+  carrierType: 'mobile',
+  carrierNumber: '/ABC123',
+  invoiceDate: new Date('2024-01-15'),
+  merchantId: '12345678',
+  merchantName: '7-ELEVEN',
+  invoiceNumber,
+  totalAmount: 100,
+  status: 'issued',
+  excluded,
+  items: [{ id: `${invoiceNumber}-1`, invoiceNumber, itemName, amount: 100, category: '餐飲' }],
+});
+
+const invoices = [
+  createInvoice('AB00000001', '便當'),
+  createInvoice('AB00000002', '代墊午餐', true),
+];
+const data = { invoices, statistics: calculateBasicStatistics(getValidInvoices(invoices)) };
+
+describe('dashboard widgets', () => {
+  it('leaves excluded invoices out of the valid invoice count', () => {
+    render(<StatisticsCards data={data} />);
+
+    const content = screen.getByText('有效發票數').parentElement!.nextElementSibling as HTMLElement;
+    expect(within(content).getByText('1')).toBeInTheDocument();
+  });
+
+  it('leaves excluded invoices out of the purchase frequency chart', () => {
+    render(<CategoryChart data={data} />);
+
+    fireEvent.click(screen.getByText('購買頻率'));
+    const chart = screen.getByTestId('bar-chart');
+    expect(chart).toHaveTextContent('便當');
+    expect(chart).not.toHaveTextContent('代墊午餐');
+  });
+});
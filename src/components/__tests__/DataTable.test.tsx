@@ -1,6 +1,7 @@
 import { describe, it, expect } from 'vitest';
-import { render, screen, fireEvent } from '@testing-library/react';
+import { render, screen, fireEvent, within } from '@testing-library/react';
 import { DataTable } from '../DataTable';
+import { useInvoiceStore } from '@/store';
 import { Invoice } from '@/types';
 
 // Mock invoice data for testing
@@ -187,3 +188,60 @@ describe('DataTable', () => {
     expect(screen.getByText('關東煮')).toBeInTheDocument();
   });
 });
+
+describe('DataTable editing', () => {
+  // Edits go through the store, so the table shows the store's invoices
+  const renderWithStore = () => {
+    useInvoiceStore.getState().clearAllData?.();
+    useInvoiceStore.getState().setInvoices(mockInvoices);
+    const view = render(<DataTable invoices={useInvoiceStore.getState().invoices} />);
+    const rerender = () =>
+      view.rerender(<DataTable invoices={useInvoiceStore.getState().invoices} />);
+    return { rerender };
+  };
+
+  it('edits notes and item categories inline', () => {
+    const { rerender } = renderWithStore();
+
+    const row = screen.getByText('AB12345678').closest('tr') as HTMLElement;
+    fireEvent.click(within(row).getByTitle('編輯備註'));
+    const notes = screen.getByLabelText('備註');
+    fireEvent.change(notes, { target: { value: '加班晚餐' } });
+    fireEvent.keyDown(notes, { key: 'Enter' });
+
+    fireEvent.click(screen.getByTitle('編輯便當 的分類'));
+    const category = screen.getByLabelText('便當 的分類');
+    fireEvent.change(category, { target: { value: '餐食/晚餐' } });
+    fireEvent.blur(category);
+
+    const invoice = useInvoiceStore.getState().invoices.find(item => item.id === '1');
+    expect(invoice?.notes).toBe('加班晚餐');
+    expect(invoice?.items[1]).toMatchObject({ category: '餐食/晚餐', manualCategory: true });
+
+    rerender();
+    expect(screen.getByText('加班晚餐')).toBeInTheDocument();
+    expect(screen.getByText('餐食 › 晚餐')).toBeInTheDocument();
+  });
+
+  it('tags and excludes selected rows in bulk', () => {
+    const { rerender } = renderWithStore();
+
+    fireEvent.click(screen.getByLabelText('選取發票 CD87654321'));
+    expect(screen.getByText('已選取 1 筆')).toBeInTheDocument();
+
+    fireEvent.change(screen.getByLabelText('批次加上標籤'), { target: { value: '公務, 報帳' } });
+    fireEvent.click(screen.getByText('加上標籤'));
+    fireEvent.click(screen.getByText('排除統計'));
+
+    const state = useInvoiceStore.getState();
+    expect(state.invoices.find(item => item.id === '2')).toMatchObject({
+      tags: ['公務', '報帳'],
+      excluded: true,
+    });
+    expect(state.statistics?.totalAmount).toBe(150);
+
+    rerender();
+    expect(screen.getByText('不計入統計')).toBeInTheDocument();
+    expect(screen.getAllByRole('row')).toHaveLength(3);
+  });
+});
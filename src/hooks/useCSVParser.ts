@@ -1,15 +1,26 @@
-import { useState, useCallback } from 'react';
-import { csvService } from '@/lib/csvService';
-import { FileInfo } from '@/types';
-import { type ParseOptions } from '@/lib/csvParser';
+import { useState, useCallback, useRef } from 'react';
+import {
+  csvService,
+  type ProcessFileResult,
+  type ProcessOptions,
+} from '@/lib/csvService';
+import { decodeReceiptPhotos, type ReceiptPhotoResult } from '@/lib/qrImageDecoder';
+import { StatementProfile } from '@/types';
 
 interface UseCSVParserReturn {
   isProcessing: boolean;
   progress: number;
   progressMessage: string;
-  processFile: (file: File, options?: ParseOptions) => Promise<{ success: boolean; fileInfo: FileInfo; invoices: any[]; errors?: string[] }>;
-  processFiles: (files: File[], options?: ParseOptions) => Promise<Array<{ success: boolean; fileInfo: FileInfo; invoices: any[]; errors?: string[] }>>;
+  processFile: (file: File, options?: ProcessOptions) => Promise<ProcessFileResult>;
+  processFiles: (files: File[], options?: ProcessOptions) => Promise<ProcessFileResult[]>;
+  processStatementFile: (
+    file: File,
+    profile: StatementProfile,
+    options?: ProcessOptions
+  ) => Promise<ProcessFileResult>;
+  decodePhotos: (files: File[]) => Promise<{ results: ReceiptPhotoResult[]; cancelled: boolean }>;
   removeFile: (fileId: string) => void;
+  cancel: () => void;
   getStats: () => {
     totalFiles: number;
     completedFiles: number;
@@ -23,15 +34,26 @@ export function useCSVParser(): UseCSVParserReturn {
   const [isProcessing, setIsProcessing] = useState(false);
   const [progress, setProgress] = useState(0);
   const [progressMessage, setProgressMessage] = useState('');
+  const abortControllerRef = useRef<AbortController | null>(null);
 
-  const processFile = useCallback(async (file: File, options: ParseOptions = {}) => {
+  // Each run gets its own controller so cancel() only affects the active parse
+  const startRun = useCallback(() => {
+    abortControllerRef.current?.abort();
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+    return controller;
+  }, []);
+
+  const processFile = useCallback(async (file: File, options: ProcessOptions = {}) => {
     setIsProcessing(true);
     setProgress(0);
     setProgressMessage('準備處理檔案...');
+    const controller = startRun();
 
     try {
       const result = await csvService.processFile(file, {
         ...options,
+        signal: controller.signal,
         onProgress: (prog, message) => {
           setProgress(prog);
           setProgressMessage(message);
@@ -41,20 +63,25 @@ export function useCSVParser(): UseCSVParserReturn {
 
       return result;
     } finally {
+      if (abortControllerRef.current === controller) {
+        abortControllerRef.current = null;
+      }
       setIsProcessing(false);
       setProgress(100);
       setProgressMessage('處理完成');
     }
-  }, []);
+  }, [startRun]);
 
-  const processFiles = useCallback(async (files: File[], options: ParseOptions = {}) => {
+  const processFiles = useCallback(async (files: File[], options: ProcessOptions = {}) => {
     setIsProcessing(true);
     setProgress(0);
     setProgressMessage('準備處理多個檔案...');
+    const controller = startRun();
 
     try {
       const results = await csvService.processFiles(files, {
         ...options,
+        signal: controller.signal,
         onProgress: (prog, message) => {
           setProgress(prog);
           setProgressMessage(message);
@@ -64,16 +91,78 @@ export function useCSVParser(): UseCSVParserReturn {
 
       return results;
     } finally {
+      if (abortControllerRef.current === controller) {
+        abortControllerRef.current = null;
+      }
       setIsProcessing(false);
       setProgress(100);
       setProgressMessage('所有檔案處理完成');
     }
-  }, []);
+  }, [startRun]);
+
+  const processStatementFile = useCallback(async (
+    file: File,
+    profile: StatementProfile,
+    options: ProcessOptions = {}
+  ) => {
+    setIsProcessing(true);
+    setProgress(0);
+    setProgressMessage('準備處理對帳單...');
+    const controller = startRun();
+
+    try {
+      return await csvService.processStatementFile(file, profile, {
+        ...options,
+        signal: controller.signal,
+        onProgress: (prog, message) => {
+          setProgress(prog);
+          setProgressMessage(message);
+          options.onProgress?.(prog, message);
+        },
+      });
+    } finally {
+      if (abortControllerRef.current === controller) {
+        abortControllerRef.current = null;
+      }
+      setIsProcessing(false);
+      setProgress(100);
+      setProgressMessage('處理完成');
+    }
+  }, [startRun]);
+
+  const decodePhotos = useCallback(async (files: File[]) => {
+    setIsProcessing(true);
+    setProgress(0);
+    setProgressMessage('準備辨識照片...');
+    const controller = startRun();
+
+    try {
+      return await decodeReceiptPhotos(files, {
+        signal: controller.signal,
+        onProgress: (prog, message) => {
+          setProgress(prog);
+          setProgressMessage(message);
+        },
+      });
+    } finally {
+      if (abortControllerRef.current === controller) {
+        abortControllerRef.current = null;
+      }
+      setIsProcessing(false);
+      setProgress(100);
+      setProgressMessage('照片辨識完成');
+    }
+  }, [startRun]);
 
   const removeFile = useCallback((fileId: string) => {
     csvService.removeFile(fileId);
   }, []);
 
+  const cancel = useCallback(() => {
+    abortControllerRef.current?.abort();
+    setProgressMessage('正在取消...');
+  }, []);
+
   const getStats = useCallback(() => {
     return csvService.getProcessingStats();
   }, []);
@@ -84,7 +173,10 @@ export function useCSVParser(): UseCSVParserReturn {
     progressMessage,
     processFile,
     processFiles,
+    processStatementFile,
+    decodePhotos,
     removeFile,
+    cancel,
     getStats,
   };
 }
\ No newline at end of file
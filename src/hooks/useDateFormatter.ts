@@ -0,0 +1,23 @@
+import { useCallback } from 'react';
+import { useInvoiceStore } from '@/store';
+import { formatDisplayDate, type DateDisplayStyle } from '@/lib/dateFormat';
+import { DateDisplayMode } from '@/types';
+
+interface UseDateFormatterReturn {
+  dateDisplay: DateDisplayMode;
+  formatDate: (date: Date, style?: DateDisplayStyle) => string;
+}
+
+/**
+ * Format dates in the calendar chosen in the app settings
+ */
+export function useDateFormatter(): UseDateFormatterReturn {
+  const dateDisplay = useInvoiceStore(state => state.settings.dateDisplay);
+
+  const formatDate = useCallback(
+    (date: Date, style?: DateDisplayStyle) => formatDisplayDate(date, dateDisplay, style),
+    [dateDisplay]
+  );
+
+  return { dateDisplay, formatDate };
+}
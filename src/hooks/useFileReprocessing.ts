@@ -1,9 +1,14 @@
-import { useCallback, useState } from 'react';
+import { useCallback, useEffect, useState } from 'react';
 import { useInvoiceStore } from '@/store';
 import { csvService } from '@/lib/csvService';
+import { hasOriginalFile } from '@/lib/originalFileStore';
+import { FileEncoding } from '@/types';
 
 interface UseFileReprocessingReturn {
-  reprocessFile: (fileId: string) => Promise<boolean>;
+  reprocessFile: (
+    fileId: string,
+    encoding?: FileEncoding | 'auto'
+  ) => Promise<boolean>;
   isReprocessing: boolean;
   reprocessingFileId: string | null;
   getReprocessingSuggestions: (fileId: string) => string[];
@@ -14,7 +19,10 @@ export function useFileReprocessing(): UseFileReprocessingReturn {
   const [isReprocessing, setIsReprocessing] = useState(false);
   const [reprocessingFileId, setReprocessingFileId] = useState<string | null>(null);
 
-  const reprocessFile = useCallback(async (fileId: string): Promise<boolean> => {
+  const reprocessFile = useCallback(async (
+    fileId: string,
+    encoding: FileEncoding | 'auto' = 'auto'
+  ): Promise<boolean> => {
     const fileInfo = files.find(f => f.id === fileId);
     if (!fileInfo) {
       console.error('File not found:', fileId);
@@ -27,6 +35,7 @@ export function useFileReprocessing(): UseFileReprocessingReturn {
     try {
       const result = await csvService.reprocessFile(fileId, {
         skipErrors: true,
+        encoding,
         onProgress: (progress, message) => {
           console.log(`Reprocessing progress: ${progress}% - ${message}`);
         }
@@ -56,7 +65,7 @@ export function useFileReprocessing(): UseFileReprocessingReturn {
     const suggestions: string[] = [];
 
     if (fileInfo.status === 'error') {
-      if (!fileInfo.originalFileData) {
+      if (!hasOriginalFile(fileInfo)) {
         suggestions.push('原始檔案資料未保存，建議刪除後重新上傳檔案');
         suggestions.push('確保檔案格式正確（CSV格式，包含M行和D行資料）');
       } else {
@@ -92,4 +101,15 @@ export function useFileReprocessing(): UseFileReprocessingReturn {
     reprocessingFileId,
     getReprocessingSuggestions
   };
-}
\ No newline at end of file
+}
+
+/**
+ * Delete the stored originals of removed files once the data has loaded
+ */
+export function useOriginalFileCleanup(hydrated: boolean): void {
+  useEffect(() => {
+    if (hydrated) {
+      void csvService.pruneOriginalFiles();
+    }
+  }, [hydrated]);
+}
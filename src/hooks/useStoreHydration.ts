@@ -0,0 +1,28 @@
+import { useEffect, useState } from 'react';
+import { useInvoiceStore } from '@/store';
+import { vaultService } from '@/lib/vaultService';
+
+/**
+ * Whether persisted data has been loaded; IndexedDB reads are asynchronous, so
+ * only the layout renders until this turns true. Loading is not lazy: every
+ * record is read before the pages show
+ */
+export function useStoreHydration(): boolean {
+  const [hydrated, setHydrated] = useState(() => useInvoiceStore.persist.hasHydrated());
+
+  useEffect(() => {
+    // Locking empties the store until the data is loaded again on unlock;
+    // reloads after other tabs' changes keep the pages on screen
+    const unsubscribeVault = vaultService.subscribe(status => {
+      if (status === 'locked') setHydrated(false);
+    });
+    const unsubscribeFinish = useInvoiceStore.persist.onFinishHydration(() => setHydrated(true));
+    setHydrated(useInvoiceStore.persist.hasHydrated());
+    return () => {
+      unsubscribeVault();
+      unsubscribeFinish();
+    };
+  }, []);
+
+  return hydrated;
+}
@@ -0,0 +1,40 @@
+import { useEffect } from 'react';
+import { STORE_NAME, clearLockedState, reloadPersistedState, storeChannel } from '@/store';
+import { VAULT_CONFIG_KEY, vaultService } from '@/lib/vaultService';
+
+// Writes come in bursts (e.g. one per imported file), so reload once they settle
+const RELOAD_DELAY_MS = 100;
+
+/**
+ * Keep this tab's store in step with changes saved by other open tabs
+ */
+export function useTabSync(): void {
+  useEffect(() => {
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const scheduleReload = () => {
+      clearTimeout(timer);
+      timer = setTimeout(() => void reloadPersistedState(), RELOAD_DELAY_MS);
+    };
+
+    const unsubscribe = storeChannel.subscribe(message => {
+      if (message.type === 'store-updated') scheduleReload();
+    });
+
+    const handleStorage = (event: StorageEvent) => {
+      if (event.key === STORE_NAME) {
+        // Without IndexedDB the store itself lives in localStorage
+        scheduleReload();
+      } else if (event.key === VAULT_CONFIG_KEY) {
+        vaultService.syncConfig();
+        if (vaultService.isLocked()) clearLockedState();
+      }
+    };
+    window.addEventListener('storage', handleStorage);
+
+    return () => {
+      clearTimeout(timer);
+      unsubscribe();
+      window.removeEventListener('storage', handleStorage);
+    };
+  }, []);
+}
@@ -0,0 +1,110 @@
+import { useCallback, useEffect, useState } from 'react';
+import { clearLockedState, rewritePersistedState, useInvoiceStore } from '@/store';
+import { vaultService, type VaultConfig, type VaultStatus } from '@/lib/vaultService';
+import { originalFileStore } from '@/lib/originalFileStore';
+
+interface UseVaultReturn {
+  status: VaultStatus;
+  config: VaultConfig | null;
+  isSupported: boolean;
+  unlock: (passphrase: string) => Promise<boolean>;
+  lock: () => void;
+  enable: (passphrase: string, autoLockMinutes: number) => Promise<void>;
+  disable: () => Promise<void>;
+  reset: () => Promise<void>;
+  setAutoLockMinutes: (minutes: number) => void;
+}
+
+const ACTIVITY_EVENTS = ['pointerdown', 'keydown', 'wheel', 'touchstart'] as const;
+
+/**
+ * Vault state and the store work that goes with locking, unlocking and
+ * turning the vault on or off
+ */
+export function useVault(): UseVaultReturn {
+  const [status, setStatus] = useState<VaultStatus>(() => vaultService.getStatus());
+
+  useEffect(() => {
+    const unsubscribe = vaultService.subscribe(setStatus);
+    setStatus(vaultService.getStatus());
+    return unsubscribe;
+  }, []);
+
+  const unlock = useCallback(async (passphrase: string) => {
+    const unlocked = await vaultService.unlock(passphrase);
+    if (unlocked) {
+      await useInvoiceStore.persist.rehydrate();
+    }
+    return unlocked;
+  }, []);
+
+  const lock = useCallback(() => {
+    vaultService.lock();
+    clearLockedState();
+  }, []);
+
+  const enable = useCallback(async (passphrase: string, autoLockMinutes: number) => {
+    await vaultService.enable(passphrase, autoLockMinutes);
+    rewritePersistedState();
+    if (originalFileStore.isAvailable()) {
+      await originalFileStore.reencode(null, vaultService.getBinaryCodec());
+    }
+  }, []);
+
+  const disable = useCallback(async () => {
+    // The key is gone once disabled, so keep a codec to decrypt the originals
+    const codec = vaultService.getBinaryCodec();
+    vaultService.disable();
+    rewritePersistedState();
+    if (originalFileStore.isAvailable()) {
+      await originalFileStore.reencode(codec, null);
+    }
+  }, []);
+
+  // Forgotten passphrase: the encrypted data cannot be recovered, start over
+  const reset = useCallback(async () => {
+    vaultService.reset();
+    useInvoiceStore.getState().clearAllData?.();
+    useInvoiceStore.persist.clearStorage();
+    if (originalFileStore.isAvailable()) {
+      await originalFileStore.clear();
+    }
+    await useInvoiceStore.persist.rehydrate();
+  }, []);
+
+  return {
+    status,
+    config: vaultService.getConfig(),
+    isSupported: vaultService.isSupported(),
+    unlock,
+    lock,
+    enable,
+    disable,
+    reset,
+    setAutoLockMinutes: minutes => vaultService.setAutoLockMinutes(minutes),
+  };
+}
+
+/**
+ * Lock the vault after the configured minutes without user activity
+ */
+export function useVaultAutoLock(): void {
+  const { status, config, lock } = useVault();
+  const minutes = status === 'unlocked' ? config?.autoLockMinutes ?? 0 : 0;
+
+  useEffect(() => {
+    if (minutes <= 0) return;
+
+    let timer = setTimeout(lock, minutes * 60 * 1000);
+    const resetTimer = () => {
+      clearTimeout(timer);
+      timer = setTimeout(lock, minutes * 60 * 1000);
+    };
+
+    ACTIVITY_EVENTS.forEach(event => window.addEventListener(event, resetTimer, { passive: true }));
+    return () => {
+      clearTimeout(timer);
+      ACTIVITY_EVENTS.forEach(event => window.removeEventListener(event, resetTimer));
+    };
+  }, [minutes, lock]);
+}
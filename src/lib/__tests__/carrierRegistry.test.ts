@@ -0,0 +1,62 @@
+import { describe, expect, it } from 'vitest';
+
+import {
+  getCarrierDisplayName,
+  getCarrierKey,
+  getCarrierTypeInfo,
+} from '@/lib/carrierRegistry';
+import { calculateCarrierStatistics } from '@/lib/statisticsService';
+import { applyFilters, createEmptyFilters } from '@/lib/filterService';
+import { Invoice } from '@/types';
+
+const createInvoice = (id: string, carrierType: string, carrierNumber: string, totalAmount: number): Invoice => ({
+  id,
+  carrierType,
+  carrierNumber,
+  invoiceDate: new Date(2024, 4, 1),
+  merchantId: '',
+  merchantName: '測試商店',
+  invoiceNumber: `AB0000000${id}`,
+  totalAmount,
+  status: 'issued',
+  items: [],
+});
+
+describe('carrierRegistry', () => {
+  it('decodes carrier type codes and names', () => {
+    expect(getCarrierTypeInfo('3J0002')).toEqual({ kind: 'mobile', name: '手機條碼' });
+    expect(getCarrierTypeInfo('cq0001').kind).toBe('citizen');
+    expect(getCarrierTypeInfo('手機條碼').kind).toBe('mobile');
+    expect(getCarrierTypeInfo('全聯會員卡').kind).toBe('member');
+    expect(getCarrierTypeInfo('ZZ9999')).toEqual({ kind: 'other', name: '載具 ZZ9999' });
+    expect(getCarrierTypeInfo('').kind).toBe('none');
+  });
+
+  it('names carriers by user label, then type and masked number', () => {
+    const key = getCarrierKey({ carrierType: 'EK0002', carrierNumber: '4311123412341234' });
+
+    expect(getCarrierDisplayName(key)).toBe('信用卡 …1234');
+    expect(getCarrierDisplayName(key, { [key]: '公司卡' })).toBe('公司卡');
+    expect(getCarrierDisplayName('')).toBe('無載具');
+  });
+
+  it('breaks spending down per carrier and filters by carrier', () => {
+    const invoices = [
+      createInvoice('1', '3J0002', '/ABC123', 100),
+      createInvoice('2', '3J0002', '/ABC123', 50),
+      createInvoice('3', 'EK0002', '43111234', 300),
+      createInvoice('4', '', '', 20),
+    ];
+
+    const stats = calculateCarrierStatistics(invoices, { '3J0002|/ABC123': '我的手機' });
+    expect(stats.map(({ displayName, totalAmount, invoiceCount }) => ({ displayName, totalAmount, invoiceCount }))).toEqual([
+      { displayName: '信用卡 43111234', totalAmount: 300, invoiceCount: 1 },
+      { displayName: '我的手機', totalAmount: 150, invoiceCount: 2 },
+      { displayName: '無載具', totalAmount: 20, invoiceCount: 1 },
+    ]);
+
+    const filtered = applyFilters(invoices, { ...createEmptyFilters(), carrierKey: '3J0002|/ABC123' });
+    expect(filtered.map(invoice => invoice.id)).toEqual(['1', '2']);
+    expect(applyFilters(invoices, { ...createEmptyFilters(), carrierKey: '' })).toHaveLength(1);
+  });
+});
@@ -0,0 +1,103 @@
+import { describe, expect, it } from 'vitest';
+
+import {
+  createEmptyModel,
+  extractFeatures,
+  getTrainingExamples,
+  predictCategory,
+  suggestCategories,
+  trainModel,
+} from '@/lib/categoryClassifier';
+import { applyManualCategories } from '@/lib/categoryRules';
+import { Invoice } from '@/types';
+
+const examples = [
+  { itemName: '95無鉛汽油', merchantName: '台灣中油', category: '交通/加油' },
+  { itemName: '98無鉛', merchantName: '台塑石油', category: '交通/加油' },
+  { itemName: '普拿疼膜衣錠', merchantName: '大樹藥局', category: '保健用品' },
+  { itemName: '綜合維他命', merchantName: '大樹藥局', category: '保健用品' },
+];
+
+const invoice = (items: Invoice['items'], merchantName = '台灣中油'): Invoice => ({
+  id: 'inv1',
+  carrierType: '',
+  carrierNumber: '',
+  invoiceDate: new Date(2024, 0, 1),
+  merchantId: '',
+  merchantName,
+  invoiceNumber: 'AB00000001',
+  totalAmount: items.reduce((sum, item) => sum + item.amount, 0),
+  status: 'issued',
+  items,
+});
+
+describe('categoryClassifier', () => {
+  it('extracts character n-grams of item and merchant names', () => {
+    expect(extractFeatures('無鉛 汽油', '中油')).toEqual([
+      '無', '鉛', '汽', '油', '無鉛', '鉛汽', '汽油', 'm:中油',
+    ]);
+  });
+
+  it('predicts the category of names like the corrected ones', () => {
+    const model = trainModel(examples);
+
+    const fuel = predictCategory(model, '92無鉛', '台灣中油');
+    expect(fuel?.category).toBe('交通/加油');
+    expect(fuel?.confidence).toBeGreaterThan(0.9);
+    expect(predictCategory(model, '維他命C錠', '大樹藥局')?.category).toBe('保健用品');
+  });
+
+  it('makes no guess without evidence', () => {
+    expect(predictCategory(createEmptyModel(), '無鉛汽油')).toBeNull();
+    expect(predictCategory(trainModel(examples.slice(0, 2)), '無鉛汽油')).toBeNull();
+    expect(predictCategory(trainModel(examples), 'ABC')).toBeNull();
+  });
+
+  it('suggests categories only for items left uncategorized', () => {
+    const invoices = [
+      invoice([
+        { id: 'a', invoiceNumber: 'AB00000001', itemName: '95無鉛', amount: 900, category: '其他' },
+        { id: 'b', invoiceNumber: 'AB00000001', itemName: '礦泉水', amount: 20, category: '飲料' },
+        { id: 'c', invoiceNumber: 'AB00000001', itemName: '洗車', amount: 200, category: '其他', manualCategory: true },
+      ]),
+      // Neither the name nor the merchant is known to the model
+      { ...invoice([{ id: 'd', invoiceNumber: 'AB00000002', itemName: 'XYZ', amount: 10 }], '小吃店'), id: 'inv2' },
+    ];
+
+    const suggestions = suggestCategories(trainModel(examples), invoices);
+    expect(suggestions.map(({ item }) => item.id)).toEqual(['a', 'd']);
+    expect(suggestions[0].suggestion?.category).toBe('交通/加油');
+    expect(suggestions[1].suggestion).toBeNull();
+    expect(getTrainingExamples(invoices)).toEqual([
+      { itemName: '洗車', merchantName: '台灣中油', category: '其他' },
+    ]);
+  });
+
+  it('learns from typed categories but not from accepted suggestions', () => {
+    const [categorized] = applyManualCategories(
+      [
+        invoice([
+          { id: 'a', invoiceNumber: 'AB00000001', itemName: '95無鉛', amount: 900 },
+          { id: 'b', invoiceNumber: 'AB00000001', itemName: '洗車', amount: 200 },
+        ]),
+      ],
+      [
+        { invoiceId: 'inv1', itemId: 'a', category: '交通/加油', acceptedSuggestion: true },
+        { invoiceId: 'inv1', itemId: 'b', category: '交通/保養' },
+      ]
+    );
+
+    expect(categorized.items[0]).toMatchObject({ manualCategory: true, acceptedSuggestion: true });
+    expect(getTrainingExamples([categorized])).toEqual([
+      { itemName: '洗車', merchantName: '台灣中油', category: '交通/保養' },
+    ]);
+
+    // Typing over an accepted suggestion makes it a correction
+    const [corrected] = applyManualCategories(
+      [categorized],
+      [{ invoiceId: 'inv1', itemId: 'a', category: '交通/停車' }]
+    );
+    expect(corrected.items[0].acceptedSuggestion).toBeUndefined();
+    expect(getTrainingExamples([corrected])).toHaveLength(2);
+  });
+});
@@ -0,0 +1,104 @@
+import { describe, expect, it } from 'vitest';
+
+import {
+  DEFAULT_CATEGORY,
+  DEFAULT_CATEGORY_RULES,
+  applyCategoryRules,
+  applyManualCategories,
+  categorizeItem,
+  createCategorizer,
+  createCategoryRule,
+  findRuleMatches,
+  validateCategoryRule,
+} from '@/lib/categoryRules';
+import { Invoice } from '@/types';
+
+const invoice = (merchantName: string, items: Array<[string, number]>): Invoice => ({
+  id: merchantName,
+  carrierType: '',
+  carrierNumber: '',
+  invoiceDate: new Date(2024, 0, 1),
+  merchantId: '',
+  merchantName,
+  invoiceNumber: 'AB00000001',
+  totalAmount: items.reduce((sum, [, amount]) => sum + amount, 0),
+  status: 'issued',
+  items: items.map(([itemName, amount], index) => ({
+    id: `${merchantName}-${index}`,
+    invoiceNumber: 'AB00000001',
+    itemName,
+    amount,
+  })),
+});
+
+describe('categoryRules', () => {
+  it('keeps bills apart from drinks in the default rules', () => {
+    expect(categorizeItem('台水水費')).toBe('帳單繳費');
+    expect(categorizeItem('礦泉水')).toBe('飲料');
+    expect(categorizeItem('醬油')).toBe(DEFAULT_CATEGORY);
+  });
+
+  it('uses the first enabled rule that matches', () => {
+    const categorize = createCategorizer([
+      createCategoryRule({ match: 'merchant', pattern: '星巴克', category: '咖啡', enabled: false }),
+      createCategoryRule({ match: 'regex', pattern: '^(大|中)杯', category: '手搖飲' }),
+      createCategoryRule({ match: 'amount', minAmount: 1000, category: '大額消費' }),
+      createCategoryRule({ match: 'merchant', pattern: '星巴克, 路易莎', category: '咖啡' }),
+    ]);
+
+    expect(categorize({ itemName: '中杯紅茶', amount: 40, merchantName: '星巴克' })).toBe('手搖飲');
+    expect(categorize({ itemName: '咖啡豆', amount: 1200, merchantName: '星巴克' })).toBe('大額消費');
+    expect(categorize({ itemName: '拿鐵', amount: 120, merchantName: '路易莎咖啡' })).toBe('咖啡');
+    expect(categorize({ itemName: '拿鐵', amount: 120, merchantName: '超商' })).toBe(DEFAULT_CATEGORY);
+  });
+
+  it("falls back to the merchant's default category when no rule matches", () => {
+    const merchants = [{ id: '12345678', merchantName: '中油', defaultCategory: '交通/加油', tags: [] }];
+    const [updated] = applyCategoryRules(
+      [{ ...invoice('中油', [['95無鉛', 900], ['礦泉水', 20]]), merchantId: '12345678' }],
+      DEFAULT_CATEGORY_RULES,
+      merchants
+    );
+
+    expect(updated.items.map(item => item.category)).toEqual(['交通/加油', '飲料']);
+  });
+
+  it('leaves items categorized by hand to the user', () => {
+    const [corrected] = applyManualCategories(
+      [invoice('超商', [['拿鐵', 60], ['集點卡', 0]])],
+      [{ invoiceId: '超商', itemId: '超商-1', category: ' 其他 / 集點 ' }]
+    );
+    expect(corrected.items[1]).toMatchObject({ category: '其他/集點', manualCategory: true });
+
+    const [updated] = applyCategoryRules([corrected], [
+      createCategoryRule({ pattern: '卡', category: '禮券' }),
+    ]);
+    expect(updated.items[1].category).toBe('其他/集點');
+  });
+
+  it('re-categorizes items but leaves adjustments and unchanged invoices alone', () => {
+    const rules = [createCategoryRule({ pattern: '便當', category: '午餐' })];
+    const lunch = invoice('便當店', [['排骨便當', 90]]);
+    lunch.items.push({ id: 'adj', invoiceNumber: 'AB00000001', itemName: '折扣', amount: -10, category: '折扣', adjustment: true });
+    const other = { ...invoice('書店', [['小說', 300]]), items: [] };
+
+    const [updatedLunch, updatedOther] = applyCategoryRules([lunch, other], rules);
+
+    expect(updatedLunch.items.map(item => item.category)).toEqual(['午餐', '折扣']);
+    expect(updatedOther).toBe(other);
+    const unchanged = [updatedLunch, updatedOther];
+    expect(applyCategoryRules(unchanged, rules)).toBe(unchanged);
+  });
+
+  it('previews what a rule matches and validates it', () => {
+    const rule = createCategoryRule({ match: 'amount', maxAmount: 50, category: '小額' });
+    const matches = findRuleMatches(rule, [invoice('超商', [['口香糖', 30], ['便當', 80]])]);
+
+    expect(matches.map(match => match.item.itemName)).toEqual(['口香糖']);
+    expect(validateCategoryRule(rule)).toBeNull();
+    expect(validateCategoryRule(createCategoryRule({ match: 'regex', pattern: '(', category: 'x' }))).toBe(
+      '正規表示式格式錯誤'
+    );
+    expect(validateCategoryRule({ ...rule, minAmount: 100 })).toBe('金額下限不可大於上限');
+  });
+});
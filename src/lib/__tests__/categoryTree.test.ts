@@ -0,0 +1,60 @@
+import { describe, expect, it } from 'vitest';
+
+import {
+  buildCategoryTree,
+  formatCategoryPath,
+  getCategoryLabel,
+  getCategoryLevel,
+  isCategoryWithin,
+  normalizeCategoryPath,
+} from '@/lib/categoryTree';
+
+describe('categoryTree', () => {
+  it('normalizes and formats category paths', () => {
+    expect(normalizeCategoryPath(' 餐食 / 午餐/ ')).toBe('餐食/午餐');
+    expect(formatCategoryPath('交通/捷運')).toBe('交通 › 捷運');
+    expect(getCategoryLabel('交通/捷運')).toBe('捷運');
+    expect(getCategoryLabel('交通', '交通')).toBe('未細分');
+  });
+
+  it('matches a category and its subcategories only', () => {
+    expect(isCategoryWithin('餐食/午餐', '餐食')).toBe(true);
+    expect(isCategoryWithin('餐食', '餐食')).toBe(true);
+    expect(isCategoryWithin('餐食類', '餐食')).toBe(false);
+    expect(isCategoryWithin('餐食', '餐食/午餐')).toBe(false);
+  });
+
+  it('rolls subcategories up into their parents', () => {
+    const tree = buildCategoryTree([
+      { category: '餐食/早餐', amount: 100, count: 2 },
+      { category: '餐食/午餐', amount: 200, count: 1 },
+      { category: '餐食', amount: 50, count: 1 },
+      { category: '交通', amount: 150, count: 3 },
+    ]);
+
+    expect(tree.map(stat => stat.category)).toEqual(['餐食', '交通']);
+    expect(tree[0]).toMatchObject({ amount: 350, count: 4, percentage: 70 });
+    expect(tree[0].children?.map(stat => stat.category)).toEqual([
+      '餐食/午餐',
+      '餐食/早餐',
+      '餐食',
+    ]);
+    expect(tree[0].children?.[0].percentage).toBe(40);
+    expect(tree[1].children).toBeUndefined();
+  });
+
+  it('finds the children of a nested category', () => {
+    const tree = buildCategoryTree([
+      { category: '交通/大眾運輸/捷運', amount: 30, count: 1 },
+      { category: '交通/大眾運輸/公車', amount: 15, count: 1 },
+      { category: '交通/加油', amount: 500, count: 1 },
+    ]);
+
+    expect(getCategoryLevel(tree, null)).toBe(tree);
+    expect(getCategoryLevel(tree, '交通/大眾運輸').map(stat => stat.category)).toEqual([
+      '交通/大眾運輸/捷運',
+      '交通/大眾運輸/公車',
+    ]);
+    expect(getCategoryLevel(tree, '交通/加油')).toEqual([]);
+  });
+});
@@ -0,0 +1,39 @@
+import { describe, expect, it } from 'vitest';
+
+import {
+  DEFAULT_COLUMN_MAPPING,
+  findMappingProfile,
+  getRequiredMLineColumns,
+  matchesFileNamePattern,
+  suggestFileNamePattern,
+} from '@/lib/columnMapping';
+import { ColumnMappingProfile } from '@/types';
+
+describe('columnMapping', () => {
+  it('requires every M-line column except status', () => {
+    expect(getRequiredMLineColumns(DEFAULT_COLUMN_MAPPING)).toBe(8);
+  });
+
+  it('matches file names against glob patterns case-insensitively', () => {
+    expect(matchesFileNamePattern('Invoice_202405.CSV', 'invoice_*.csv')).toBe(true);
+    expect(matchesFileNamePattern('invoice_1.csv', 'invoice_?.csv')).toBe(true);
+    expect(matchesFileNamePattern('invoice(1).csv', 'invoice(?).csv')).toBe(true);
+    expect(matchesFileNamePattern('statement.csv', 'invoice_*.csv')).toBe(false);
+    expect(matchesFileNamePattern('invoice.csv', '  ')).toBe(false);
+  });
+
+  it('finds the first profile whose pattern matches', () => {
+    const profiles: ColumnMappingProfile[] = [
+      { id: 'a', name: 'A', fileNamePattern: 'bank_*.csv', mapping: DEFAULT_COLUMN_MAPPING },
+      { id: 'b', name: 'B', fileNamePattern: 'invoice_*.csv', mapping: DEFAULT_COLUMN_MAPPING },
+    ];
+
+    expect(findMappingProfile('invoice_2024.csv', profiles)?.id).toBe('b');
+    expect(findMappingProfile('other.csv', profiles)).toBeUndefined();
+  });
+
+  it('suggests a pattern by wildcarding digit runs', () => {
+    expect(suggestFileNamePattern('invoice_20240501.csv')).toBe('invoice_*.csv');
+    expect(suggestFileNamePattern('2024-05-01.csv')).toBe('*-*-*.csv');
+  });
+});
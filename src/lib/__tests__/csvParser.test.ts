@@ -1,5 +1,6 @@
 import { describe, expect, it } from 'vitest';
 
+import { DEFAULT_COLUMN_MAPPING } from '@/lib/columnMapping';
 import { parseInvoiceCSV } from '@/lib/csvParser';
 
 const createCsvFile = (content: string) => {
@@ -44,3 +45,145 @@ describe('csvParser - D line formats', () => {
     });
   });
 });
+
+describe('csvParser - amount reconciliation', () => {
+  it('flags invoices whose D-lines do not add up to the M-line total', async () => {
+    const csvContent = [
+      'M,手機條碼,/TEST,2024-09-01,12345678,測試商店,AB12345678,137,開立',
+      'D,AB12345678,100,測試商品',
+      'M,手機條碼,/TEST,2024-09-01,12345678,測試商店,AB12345679,50,開立',
+      'D,AB12345679,50,測試商品',
+    ].join('\n');
+
+    const result = await parseInvoiceCSV(createCsvFile(csvContent));
+
+    expect(result.mismatches).toEqual([
+      expect.objectContaining({
+        invoiceNumber: 'AB12345678',
+        totalAmount: 137,
+        itemsTotal: 100,
+        difference: 37,
+      }),
+    ]);
+  });
+});
+
+describe('csvParser - data-quality warnings', () => {
+  it('imports invoices with suspicious fields and reports warnings', async () => {
+    const csvContent = [
+      'M,手機條碼,/TEST,2024-09-01,22099131,測試商店,AB12345678,100,開立',
+      'D,AB12345678,100,測試商品',
+      'M,手機條碼,/TEST,2024-09-01,測試商店,22099131,AB1234567,100,開立',
+      'D,AB1234567,100,測試商品',
+    ].join('\n');
+
+    const result = await parseInvoiceCSV(createCsvFile(csvContent));
+
+    expect(result.invoices).toHaveLength(2);
+    expect(result.warnings?.map(({ row, code }) => ({ row, code }))).toEqual([
+      { row: 3, code: 'invoice-number' },
+      { row: 3, code: 'merchant-id' },
+    ]);
+  });
+});
+
+describe('csvParser - ROC dates', () => {
+  it.each(['1130901', '113/09/01', '113-9-1'])('reads the ROC date %s', async date => {
+    const csvContent = [
+      `M,手機條碼,/TEST,${date},12345678,測試商店,AB12345678,137,開立`,
+      'D,AB12345678,137,測試商品',
+    ].join('\n');
+
+    const result = await parseInvoiceCSV(createCsvFile(csvContent));
+
+    expect(result.errors).toEqual([]);
+    expect(result.invoices[0].invoiceDate).toEqual(new Date(2024, 8, 1));
+  });
+});
+
+describe('csvParser - encoding detection', () => {
+  // 中文 encoded as Big5/CP950
+  const big5Merchant = [0xa4, 0xa4, 0xa4, 0xe5];
+  const ascii = (text: string) => Array.from(text, char => char.charCodeAt(0));
+
+  const createBig5File = () => {
+    const bytes = new Uint8Array([
+      ...ascii('M,3J0002,/TEST,20240901,12345678,'),
+      ...big5Merchant,
+      ...ascii(',AB12345670,100,\nD,AB12345670,100,'),
+      ...big5Merchant,
+    ]);
+    return new File([bytes], 'big5.csv', { type: 'text/csv' });
+  };
+
+  it('auto-detects Big5 exports and reports the encoding', async () => {
+    const result = await parseInvoiceCSV(createBig5File());
+
+    expect(result.encoding).toBe('big5');
+    expect(result.invoices[0].merchantName).toBe('中文');
+    expect(result.invoices[0].items[0].itemName).toBe('中文');
+  });
+
+  it('honours an explicit encoding override', async () => {
+    const result = await parseInvoiceCSV(createBig5File(), { encoding: 'utf-8' });
+
+    expect(result.encoding).toBe('utf-8');
+    expect(result.invoices[0].merchantName).not.toBe('中文');
+  });
+
+  it('reports UTF-8 for UTF-8 files', async () => {
+    const csvContent = 'M,手機條碼,/TEST,2024-09-01,12345678,測試商店,AB12345671,50,開立';
+    const result = await parseInvoiceCSV(createCsvFile(csvContent));
+
+    expect(result.encoding).toBe('utf-8');
+    expect(result.invoices[0].merchantName).toBe('測試商店');
+  });
+});
+
+describe('csvParser - column mapping', () => {
+  it('detects the D-line layout and returns sample rows', async () => {
+    const csvContent = [
+      'M,手機條碼,/TEST,2024-09-01,12345678,測試商店,AB12345672,80,開立',
+      'D,AB12345672,80,咖啡',
+    ].join('\n');
+
+    const result = await parseInvoiceCSV(createCsvFile(csvContent));
+
+    expect(result.columnLayout?.dLineLayout).toBe('amount-first');
+    expect(result.sampleRows).toHaveLength(2);
+    expect(result.sampleRows?.[1]).toEqual(['D', 'AB12345672', '80', '咖啡']);
+  });
+
+  it('uses a fixed D-line layout from the mapping', async () => {
+    const csvContent = [
+      'M,手機條碼,/TEST,2024-09-01,12345678,測試商店,AB12345673,10,開立',
+      'D,AB12345673,10,2024',
+    ].join('\n');
+
+    const result = await parseInvoiceCSV(createCsvFile(csvContent), {
+      columnMapping: {
+        ...DEFAULT_COLUMN_MAPPING,
+        dLine: { invoiceNumber: 1, layout: 'name-first' },
+      },
+    });
+
+    expect(result.invoices[0].items[0]).toMatchObject({ itemName: '10', amount: 2024 });
+  });
+
+  it('reads M-line fields from remapped columns', async () => {
+    const csvContent =
+      'M,手機條碼,/TEST,2024-09-01,12345678,AB12345674,測試商店,60,開立';
+
+    const result = await parseInvoiceCSV(createCsvFile(csvContent), {
+      columnMapping: {
+        ...DEFAULT_COLUMN_MAPPING,
+        mLine: { ...DEFAULT_COLUMN_MAPPING.mLine, merchantName: 6, invoiceNumber: 5 },
+      },
+    });
+
+    expect(result.invoices[0]).toMatchObject({
+      invoiceNumber: 'AB12345674',
+      merchantName: '測試商店',
+    });
+  });
+});
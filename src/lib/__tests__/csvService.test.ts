@@ -0,0 +1,45 @@
+import { IDBFactory } from 'fake-indexeddb';
+import { Blob as NodeBlob, File as NodeFile } from 'node:buffer';
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest';
+
+import { csvService } from '@/lib/csvService';
+import { hasOriginalFile, originalFileStore } from '@/lib/originalFileStore';
+import { useInvoiceStore } from '@/store';
+
+const sampleCSV = [
+  'M,手機條碼,/ABC123,2024/01/15,12345678,測試便利商店,AB12345678,150,開立',
+  'D,AB12345678,咖啡,80',
+  'D,AB12345678,蛋糕,70',
+].join('\n');
+
+describe('csvService', () => {
+  beforeAll(() => {
+    // jsdom's Blob cannot be stored in IndexedDB
+    vi.stubGlobal('Blob', NodeBlob);
+    vi.stubGlobal('File', NodeFile);
+    vi.stubGlobal('indexedDB', new IDBFactory());
+    useInvoiceStore.getState().clearAllData?.();
+  });
+
+  afterAll(async () => {
+    await originalFileStore.clear();
+    vi.unstubAllGlobals();
+  });
+
+  it('keeps the original of a deleted file that undo can bring back', async () => {
+    const file = new File([sampleCSV], 'sample.csv', { type: 'text/csv' });
+    await csvService.processFile(file as unknown as globalThis.File);
+    const [fileInfo] = useInvoiceStore.getState().files;
+    expect(fileInfo.originalFileHash).toBeDefined();
+
+    useInvoiceStore.getState().removeFile(fileInfo.id);
+    await csvService.pruneOriginalFiles();
+    useInvoiceStore.getState().undo();
+
+    const restored = useInvoiceStore.getState().files.find(item => item.id === fileInfo.id)!;
+    expect(hasOriginalFile(restored)).toBe(true);
+    const result = await csvService.reprocessFile(fileInfo.id);
+    expect(result.success).toBe(true);
+    expect(result.invoices.length).toBeGreaterThan(0);
+  });
+});
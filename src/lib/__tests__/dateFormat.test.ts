@@ -0,0 +1,49 @@
+import { describe, expect, it } from 'vitest';
+
+import {
+  formatDisplayDate,
+  parseFlexibleDate,
+  parseROCDate,
+} from '@/lib/dateFormat';
+
+describe('dateFormat - parsing', () => {
+  it('parses compact and separated ROC dates', () => {
+    const expected = new Date(2024, 4, 1);
+    expect(parseROCDate('1130501')).toEqual(expected);
+    expect(parseROCDate('113/05/01')).toEqual(expected);
+    expect(parseROCDate('113.5.1')).toEqual(expected);
+    expect(parseROCDate('民國113年5月1日')).toEqual(expected);
+    expect(parseROCDate('99/12/31')).toEqual(new Date(2010, 11, 31));
+  });
+
+  it('rejects impossible ROC dates', () => {
+    expect(parseROCDate('1130230')).toBeNull();
+    expect(parseROCDate('113/13/01')).toBeNull();
+    expect(parseROCDate('20240501')).toBeNull();
+  });
+
+  it('tells Gregorian and ROC dates apart by the year length', () => {
+    expect(parseFlexibleDate('2024/05/01')).toEqual(new Date(2024, 4, 1));
+    expect(parseFlexibleDate('20240501')).toEqual(new Date(2024, 4, 1));
+    expect(parseFlexibleDate('1130501')).toEqual(new Date(2024, 4, 1));
+    expect(parseFlexibleDate('113/05/01 12:30')).toEqual(new Date(2024, 4, 1));
+    expect(parseFlexibleDate('not a date')).toBeNull();
+  });
+});
+
+describe('dateFormat - display', () => {
+  const date = new Date(2024, 4, 1, 9, 5);
+
+  it('formats dates in the Gregorian calendar', () => {
+    expect(formatDisplayDate(date, 'gregorian')).toBe('2024/05/01');
+    expect(formatDisplayDate(date, 'gregorian', 'month')).toBe('2024/05');
+    expect(formatDisplayDate(date, 'gregorian', 'long')).toBe('2024年05月01日');
+  });
+
+  it('formats dates in the ROC calendar', () => {
+    expect(formatDisplayDate(date, 'roc')).toBe('113/05/01');
+    expect(formatDisplayDate(date, 'roc', 'month')).toBe('113/05');
+    expect(formatDisplayDate(date, 'roc', 'short')).toBe('05/01');
+    expect(formatDisplayDate(date, 'roc', 'datetime')).toBe('民國113年05月01日 09:05');
+  });
+});
@@ -0,0 +1,114 @@
+import { describe, it, expect } from 'vitest';
+import {
+  applyDuplicatePolicy,
+  detectDuplicates,
+  summarizeDuplicates,
+} from '../duplicateService';
+import { Invoice } from '@/types';
+
+const createInvoice = (
+  id: string,
+  invoiceNumber: string,
+  totalAmount: number,
+  overrides: Partial<Invoice> = {}
+): Invoice => ({
+  id,
+  carrierType: '3J0002',
+  carrierNumber: '/ABC123',
+  invoiceDate: new Date(2024, 0, 15),
+  merchantId: '12345678',
+  merchantName: '7-ELEVEN',
+  invoiceNumber,
+  totalAmount,
+  status: 'issued',
+  items: [
+    {
+      id: `${id}-item`,
+      invoiceNumber,
+      itemName: '咖啡',
+      amount: totalAmount,
+    },
+  ],
+  ...overrides,
+});
+
+describe('duplicateService', () => {
+  const existing = [
+    createInvoice('old-1', 'AB00000001', 100),
+    createInvoice('old-2', 'AB00000002', 200),
+  ];
+  const incoming = [
+    createInvoice('new-1', 'AB00000001', 100), // identical
+    createInvoice('new-2', 'AB00000002', 250), // conflicting amount
+    createInvoice('new-3', 'AB00000003', 300), // new
+  ];
+
+  it('classifies incoming invoices as new, identical or conflicting', () => {
+    const report = detectDuplicates(incoming, existing);
+
+    expect(report.newInvoices.map(i => i.id)).toEqual(['new-3']);
+    expect(report.identical.map(p => p.existing.id)).toEqual(['old-1']);
+    expect(report.conflicts.map(p => p.existing.id)).toEqual(['old-2']);
+  });
+
+  it('does not match the same invoice number on a different date', () => {
+    const report = detectDuplicates(
+      [
+        createInvoice('new-1', 'AB00000001', 100, {
+          invoiceDate: new Date(2026, 0, 15),
+        }),
+      ],
+      existing
+    );
+
+    expect(report.newInvoices).toHaveLength(1);
+  });
+
+  it('skip keeps only new invoices', () => {
+    const result = applyDuplicatePolicy(
+      detectDuplicates(incoming, existing),
+      'skip'
+    );
+
+    expect(result.invoices.map(i => i.id)).toEqual(['new-3']);
+    expect(result.removedIds).toEqual([]);
+  });
+
+  it('replace swaps existing duplicates for incoming ones', () => {
+    const result = applyDuplicatePolicy(
+      detectDuplicates(incoming, existing),
+      'replace'
+    );
+
+    expect(result.invoices.map(i => i.id).sort()).toEqual([
+      'new-1',
+      'new-2',
+      'new-3',
+    ]);
+    expect(result.removedIds.sort()).toEqual(['old-1', 'old-2']);
+  });
+
+  it('keep-both adds every incoming invoice', () => {
+    const result = applyDuplicatePolicy(
+      detectDuplicates(incoming, existing),
+      'keep-both'
+    );
+
+    expect(result.invoices).toHaveLength(3);
+    expect(result.removedIds).toEqual([]);
+  });
+
+  it('summarizes counts for the upload result', () => {
+    const summary = summarizeDuplicates(
+      detectDuplicates(incoming, existing),
+      'skip'
+    );
+
+    expect(summary).toMatchObject({
+      policy: 'skip',
+      newCount: 1,
+      identicalCount: 1,
+      conflictCount: 1,
+    });
+  });
+});
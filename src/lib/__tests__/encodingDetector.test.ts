@@ -0,0 +1,43 @@
+import { describe, expect, it } from 'vitest';
+
+import { decodeBytes, detectEncoding } from '@/lib/encodingDetector';
+
+// 中文 encoded as Big5/CP950
+const BIG5_CHINESE = [0xa4, 0xa4, 0xa4, 0xe5];
+
+const ascii = (text: string) => Array.from(text, char => char.charCodeAt(0));
+
+describe('encodingDetector', () => {
+  it('detects UTF-8 by BOM', () => {
+    const bytes = new Uint8Array([0xef, 0xbb, 0xbf, ...ascii('M,A')]);
+    expect(detectEncoding(bytes)).toMatchObject({
+      encoding: 'utf-8',
+      hasBOM: true,
+    });
+  });
+
+  it('detects valid multi-byte UTF-8 without BOM', () => {
+    const bytes = new TextEncoder().encode('M,手機條碼,測試商店');
+    const result = detectEncoding(bytes);
+    expect(result.encoding).toBe('utf-8');
+    expect(result.confidence).toBeGreaterThan(0.9);
+  });
+
+  it('detects Big5 when bytes are not valid UTF-8', () => {
+    const bytes = new Uint8Array([...ascii('M,'), ...BIG5_CHINESE]);
+    expect(detectEncoding(bytes).encoding).toBe('big5');
+  });
+
+  it('treats pure ASCII as UTF-8 with low confidence', () => {
+    const result = detectEncoding(new Uint8Array(ascii('M,AB12345678,100')));
+    expect(result.encoding).toBe('utf-8');
+    expect(result.confidence).toBeLessThan(0.9);
+  });
+
+  it('decodes Big5 bytes and strips the UTF-8 BOM', () => {
+    expect(decodeBytes(new Uint8Array(BIG5_CHINESE), 'big5')).toBe('中文');
+    expect(
+      decodeBytes(new Uint8Array([0xef, 0xbb, 0xbf, ...ascii('M')]), 'utf-8')
+    ).toBe('M');
+  });
+});
@@ -0,0 +1,264 @@
+import { IDBFactory } from 'fake-indexeddb';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+import { createIndexedDBStorage, readStoredBackups } from '@/lib/indexedDBStorage';
+
+interface TestState {
+  invoices: Array<{ id: string; amount: number; date: Date }>;
+  settings: { theme: string };
+}
+
+const createStorage = () =>
+  createIndexedDBStorage<TestState>({ entities: ['invoices'] })!;
+
+const invoice = (id: string, amount: number) => ({
+  id,
+  amount,
+  date: new Date(2024, 4, 1),
+});
+
+// Records as stored, without going through the adapter
+const readRawRecords = async (name: string, storeName: string) => {
+  const request = indexedDB.open(name);
+  const db = await new Promise<IDBDatabase>(resolve => {
+    request.onsuccess = () => resolve(request.result);
+  });
+  const getAll = db.transaction(storeName).objectStore(storeName).getAll();
+  return new Promise<unknown[]>(resolve => {
+    getAll.onsuccess = () => resolve(getAll.result);
+  });
+};
+
+describe('createIndexedDBStorage', () => {
+  beforeEach(() => {
+    vi.stubGlobal('indexedDB', new IDBFactory());
+    localStorage.clear();
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('round-trips state keeping record order and dates', async () => {
+    const storage = createStorage();
+    const state: TestState = {
+      invoices: [invoice('b', 20), invoice('a', 10)],
+      settings: { theme: 'dark' },
+    };
+
+    await storage.getItem('test-store');
+    await storage.setItem('test-store', { state, version: 2 });
+
+    const restored = await createStorage().getItem('test-store');
+    expect(restored?.version).toBe(2);
+    expect(restored?.state.invoices.map(item => item.id)).toEqual(['b', 'a']);
+    expect(restored?.state.invoices[0].date).toBeInstanceOf(Date);
+    expect(restored?.state.settings).toEqual({ theme: 'dark' });
+  });
+
+  it('writes only changed records and deletes removed ones', async () => {
+    const storage = createStorage();
+    const first = invoice('a', 10);
+    const second = invoice('b', 20);
+
+    await storage.getItem('test-store');
+    await storage.setItem('test-store', {
+      state: { invoices: [first, second], settings: { theme: 'light' } },
+      version: 0,
+    });
+    await storage.setItem('test-store', {
+      state: { invoices: [{ ...second, amount: 25 }], settings: { theme: 'light' } },
+      version: 0,
+    });
+
+    const restored = await createStorage().getItem('test-store');
+    expect(restored?.state.invoices).toEqual([{ ...second, amount: 25 }]);
+  });
+
+  it('migrates existing localStorage data once and removes the old key', async () => {
+    localStorage.setItem(
+      'test-store',
+      JSON.stringify({
+        state: { invoices: [{ id: 'a', amount: 10 }], settings: { theme: 'dark' } },
+        version: 1,
+      })
+    );
+
+    const migrated = await createStorage().getItem('test-store');
+    expect(migrated?.state.invoices).toEqual([{ id: 'a', amount: 10 }]);
+    expect(localStorage.getItem('test-store')).toBeNull();
+
+    const restored = await createStorage().getItem('test-store');
+    expect(restored?.state.settings).toEqual({ theme: 'dark' });
+    expect(restored?.version).toBe(1);
+  });
+
+  it('stores encoded values and writes nothing while locked', async () => {
+    let locked = false;
+    const codec = {
+      // Records keep their id, the object store key
+      encode: async (value: unknown) => ({
+        id: (value as { id?: string }).id,
+        wrapped: JSON.stringify(value),
+      }),
+      decode: async (value: unknown) => JSON.parse((value as { wrapped: string }).wrapped),
+    };
+    const createEncodedStorage = () =>
+      createIndexedDBStorage<TestState>({
+        entities: ['invoices'],
+        getCodec: () => codec,
+        isLocked: () => locked,
+      })!;
+    const storage = createEncodedStorage();
+
+    await storage.getItem('test-store');
+    await storage.setItem('test-store', {
+      state: { invoices: [{ id: 'a', amount: 10 }] as never, settings: { theme: 'dark' } },
+      version: 0,
+    });
+    locked = true;
+    await storage.setItem('test-store', {
+      state: { invoices: [], settings: { theme: 'dark' } },
+      version: 0,
+    });
+
+    const [stored] = await readRawRecords('test-store', 'invoices');
+    expect(stored).toEqual({ id: 'a', wrapped: JSON.stringify({ id: 'a', amount: 10 }) });
+    locked = false;
+    const restored = await createEncodedStorage().getItem('test-store');
+    expect(restored?.state.invoices).toEqual([{ id: 'a', amount: 10 }]);
+  });
+
+  it('clears every object store on removeItem', async () => {
+    const storage = createStorage();
+    await storage.getItem('test-store');
+    await storage.setItem('test-store', {
+      state: { invoices: [invoice('a', 10)], settings: { theme: 'dark' } },
+      version: 0,
+    });
+    await storage.removeItem('test-store');
+
+    expect(await createStorage().getItem('test-store')).toBeNull();
+  });
+
+  it('reports writes that stored changes', async () => {
+    const onWrite = vi.fn();
+    const storage = createIndexedDBStorage<TestState>({ entities: ['invoices'], onWrite })!;
+    const value = {
+      state: { invoices: [invoice('a', 10)], settings: { theme: 'dark' } },
+      version: 0,
+    };
+
+    await storage.getItem('test-store');
+    await storage.setItem('test-store', value);
+    await storage.setItem('test-store', value);
+    await storage.flush?.();
+
+    expect(onWrite).toHaveBeenCalledTimes(1);
+  });
+
+  it('writes nothing for loaded records copied without changes', async () => {
+    const storage = createStorage();
+    await storage.getItem('test-store');
+    await storage.setItem('test-store', {
+      state: { invoices: [invoice('a', 10)], settings: { theme: 'dark' } },
+      version: 0,
+    });
+
+    const onWrite = vi.fn();
+    const reloaded = createIndexedDBStorage<TestState>({ entities: ['invoices'], onWrite })!;
+    const loaded = await reloaded.getItem('test-store');
+    // As the store's merge does: new objects, dates as they were
+    const copied = {
+      state: {
+        invoices: loaded!.state.invoices.map(item => ({ ...item, date: new Date(item.date) })),
+        settings: { ...loaded!.state.settings },
+      },
+      version: 0,
+    };
+    await reloaded.setItem('test-store', copied);
+    expect(onWrite).not.toHaveBeenCalled();
+
+    await reloaded.setItem('test-store', {
+      ...copied,
+      state: { ...copied.state, invoices: [{ ...copied.state.invoices[0], amount: 15 }] },
+    });
+    expect(onWrite).toHaveBeenCalledTimes(1);
+  });
+
+  it('backs up stored data as it is and writes nothing until the copy is stored', async () => {
+    const storage = createStorage();
+    const value = {
+      state: { invoices: [invoice('a', 10)], settings: { theme: 'dark' } },
+      version: 3,
+    };
+    await storage.getItem('test-store');
+    await storage.setItem('test-store', value);
+
+    const backedUp = storage.backup!('test-store', '無法載入');
+    await storage.setItem('test-store', { ...value, state: { ...value.state, invoices: [] } });
+    expect(await backedUp).toBe(true);
+
+    expect(await readRawRecords('test-store', 'invoices')).toHaveLength(1);
+    const [backup] = await readStoredBackups('test-store');
+    expect(backup.reason).toBe('無法載入');
+    expect(backup.records.invoices).toEqual([invoice('a', 10)]);
+    expect(backup.meta).toContainEqual(['version', 3]);
+  });
+
+  it('stays read-only when the backup fails', async () => {
+    const storage = createStorage();
+    const value = {
+      state: { invoices: [invoice('a', 10)], settings: { theme: 'dark' } },
+      version: 0,
+    };
+    await storage.getItem('test-store');
+    await storage.setItem('test-store', value);
+
+    const open = indexedDB.open.bind(indexedDB);
+    vi.spyOn(indexedDB, 'open').mockImplementation((name, version) => {
+      if (name === 'test-store-backup') throw new Error('QuotaExceededError');
+      return open(name, version);
+    });
+    expect(await storage.backup!('test-store', '無法載入')).toBe(false);
+
+    await storage.setItem('test-store', { ...value, state: { ...value.state, invoices: [] } });
+    expect(await readRawRecords('test-store', 'invoices')).toHaveLength(1);
+  });
+
+  it('keeps encoded values encoded in backups and never falls back to plaintext', async () => {
+    const codec = {
+      encode: async (value: unknown) => ({
+        id: (value as { id?: string }).id,
+        wrapped: JSON.stringify(value),
+      }),
+      decode: async (value: unknown) => JSON.parse((value as { wrapped: string }).wrapped),
+    };
+    const storage = createIndexedDBStorage<TestState>({
+      entities: ['invoices'],
+      getCodec: () => codec,
+    })!;
+    await storage.getItem('test-store');
+    await storage.setItem('test-store', {
+      state: { invoices: [{ id: 'a', amount: 10 }] as never, settings: { theme: 'dark' } },
+      version: 0,
+    });
+    await storage.backup!('test-store', '無法載入');
+
+    const [backup] = await readStoredBackups('test-store');
+    expect(backup.records.invoices).toEqual([
+      { id: 'a', wrapped: JSON.stringify({ id: 'a', amount: 10 }) },
+    ]);
+
+    vi.stubGlobal('indexedDB', undefined);
+    const fallback = createIndexedDBStorage<TestState>({
+      entities: ['invoices'],
+      getCodec: () => codec,
+    })!;
+    await fallback.setItem('test-store', {
+      state: { invoices: [invoice('a', 10)], settings: { theme: 'dark' } },
+      version: 0,
+    });
+    expect(localStorage.getItem('test-store')).toBeNull();
+  });
+});
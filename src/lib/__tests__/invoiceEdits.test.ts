@@ -0,0 +1,62 @@
+import { describe, expect, it } from 'vitest';
+
+import { applyInvoiceEdit, carryOverEdits, hasInvoiceEdits } from '@/lib/invoiceEdits';
+import { Invoice } from '@/types';
+
+const invoice = (id: string, invoiceNumber = 'AB00000001'): Invoice => ({
+  id,
+  carrierType: '',
+  carrierNumber: '',
+  invoiceDate: new Date(2024, 0, 1),
+  merchantId: '12345678',
+  merchantName: '測試商店',
+  invoiceNumber,
+  totalAmount: 150,
+  status: 'issued',
+  items: [
+    { id: `${id}-1`, invoiceNumber, itemName: '可樂', amount: 25, category: '其他' },
+    { id: `${id}-2`, invoiceNumber, itemName: '便當', amount: 125, category: '其他' },
+  ],
+});
+
+describe('invoiceEdits', () => {
+  it('applies edits to the given invoices and drops empty values', () => {
+    const invoices = [invoice('a'), invoice('b', 'AB00000002')];
+
+    const edited = applyInvoiceEdit(invoices, ['a'], {
+      notes: '  公司聚餐 ',
+      tags: ['公務', ' 公務', ''],
+      excluded: true,
+    });
+    expect(edited[0]).toMatchObject({ notes: '公司聚餐', tags: ['公務'], excluded: true });
+    expect(edited[1]).toBe(invoices[1]);
+
+    const cleared = applyInvoiceEdit(edited, ['a'], current => ({
+      notes: '',
+      tags: current.tags?.filter(tag => tag !== '公務'),
+      excluded: false,
+    }));
+    expect(cleared[0]).not.toHaveProperty('notes');
+    expect(cleared[0]).not.toHaveProperty('tags');
+    expect(cleared[0]).not.toHaveProperty('excluded');
+    expect(hasInvoiceEdits(cleared[0])).toBe(false);
+  });
+
+  it('carries edits over to the reparsed invoices', () => {
+    const [edited] = applyInvoiceEdit([invoice('old')], ['old'], { tags: ['公務'], excluded: true });
+    edited.items[1] = { ...edited.items[1], category: '餐食/午餐', manualCategory: true };
+
+    const [carried, untouched] = carryOverEdits(
+      [edited],
+      [invoice('new'), invoice('other', 'AB00000002')]
+    );
+    expect(carried).toMatchObject({ id: 'new', tags: ['公務'], excluded: true });
+    expect(carried.items[0]).toMatchObject({ id: 'new-1', category: '其他' });
+    expect(carried.items[1]).toMatchObject({
+      id: 'new-2',
+      category: '餐食/午餐',
+      manualCategory: true,
+    });
+    expect(hasInvoiceEdits(untouched)).toBe(false);
+  });
+});
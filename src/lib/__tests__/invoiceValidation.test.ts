@@ -0,0 +1,53 @@
+import { describe, expect, it } from 'vitest';
+
+import {
+  formatInvoicePeriod,
+  getInvoicePeriod,
+  isValidBusinessId,
+  isValidInvoiceNumber,
+  validateInvoiceFields,
+} from '@/lib/invoiceValidation';
+
+describe('invoiceValidation', () => {
+  it('checks the invoice number format', () => {
+    expect(isValidInvoiceNumber('AB12345678')).toBe(true);
+    expect(isValidInvoiceNumber('ab12345678')).toBe(false);
+    expect(isValidInvoiceNumber('AB1234567')).toBe(false);
+    expect(isValidInvoiceNumber('測試商店')).toBe(false);
+  });
+
+  it('applies the 統一編號 checksum, including the 7th-digit-7 rule', () => {
+    expect(isValidBusinessId('22099131')).toBe(true);
+    expect(isValidBusinessId('10458575')).toBe(true);
+    expect(isValidBusinessId('10458574')).toBe(true);
+    expect(isValidBusinessId('22099132')).toBe(false);
+    expect(isValidBusinessId('2209913')).toBe(false);
+  });
+
+  it('derives the bi-monthly period from the date', () => {
+    expect(getInvoicePeriod(new Date(2024, 0, 31))).toBe('11302');
+    expect(getInvoicePeriod(new Date(2024, 4, 1))).toBe('11306');
+    expect(getInvoicePeriod(new Date(2024, 11, 31))).toBe('11312');
+    expect(formatInvoicePeriod('11306')).toBe('113年05-06月');
+  });
+
+  it('reports problems as warnings', () => {
+    const today = new Date(2024, 5, 1);
+    const warnings = validateInvoiceFields(
+      { invoiceNumber: '7-ELEVEN', merchantId: '22099132', invoiceDate: new Date(2024, 6, 1) },
+      today
+    );
+
+    expect(warnings.map(warning => warning.code)).toEqual([
+      'invoice-number',
+      'merchant-id',
+      'future-date',
+    ]);
+    expect(
+      validateInvoiceFields(
+        { invoiceNumber: 'AB12345678', merchantId: '', invoiceDate: today },
+        today
+      )
+    ).toEqual([]);
+  });
+});
@@ -0,0 +1,124 @@
+import { IDBFactory } from 'fake-indexeddb';
+import { Blob as NodeBlob, File as NodeFile } from 'node:buffer';
+import { afterEach, beforeAll, describe, expect, it, vi } from 'vitest';
+
+import { errorService } from '@/lib/errorService';
+import {
+  getAvailableStorage,
+  originalFileStore,
+  type BinaryCodec,
+} from '@/lib/originalFileStore';
+import { openBytes, sealBytes } from '@/lib/vaultCrypto';
+
+const csv = (text: string, name = 'invoices.csv') => new File([text], name, { type: 'text/csv' });
+
+const readText = async (file: File | null) =>
+  file ? new TextDecoder().decode(await file.arrayBuffer()) : null;
+
+const createCodec = async (): Promise<BinaryCodec> => {
+  const key = await crypto.subtle.generateKey({ name: 'AES-GCM', length: 256 }, false, [
+    'encrypt',
+    'decrypt',
+  ]);
+  return {
+    encode: bytes => sealBytes(key, bytes),
+    decode: (iv, data) => openBytes(key, iv, data),
+  };
+};
+
+describe('originalFileStore', () => {
+  beforeAll(() => {
+    // jsdom's Blob cannot be stored in IndexedDB
+    vi.stubGlobal('Blob', NodeBlob);
+    vi.stubGlobal('File', NodeFile);
+    vi.stubGlobal('indexedDB', new IDBFactory());
+  });
+
+  afterEach(async () => {
+    await originalFileStore.clear();
+  });
+
+  it('stores identical uploads once and reads them back', async () => {
+    const text = 'M|1|AB12345678\n'.repeat(500);
+    const hash = await originalFileStore.save(csv(text));
+
+    expect(hash).toMatch(/^[0-9a-f]{64}$/);
+    expect(await originalFileStore.save(csv(text, 'copy.csv'))).toBe(hash);
+
+    const file = await originalFileStore.load(hash!, 'invoices.csv');
+    expect(file?.name).toBe('invoices.csv');
+    expect(file?.type).toBe('text/csv');
+    expect(await readText(file)).toBe(text);
+    expect(await originalFileStore.load('missing', 'x.csv')).toBeNull();
+  });
+
+  it('deletes uploads no file refers to', async () => {
+    const kept = await originalFileStore.save(csv('kept'));
+    const removed = await originalFileStore.save(csv('removed'));
+
+    await originalFileStore.prune([kept!]);
+
+    expect(await readText(await originalFileStore.load(kept!, 'a.csv'))).toBe('kept');
+    expect(await originalFileStore.load(removed!, 'b.csv')).toBeNull();
+  });
+
+  it('re-encodes uploads when the vault is turned on and off', async () => {
+    const codec = await createCodec();
+    const hash = await originalFileStore.save(csv('secret'));
+
+    await originalFileStore.reencode(null, codec);
+    // Without the vault key the encrypted upload cannot be read
+    expect(await originalFileStore.load(hash!, 'a.csv')).toBeNull();
+
+    await originalFileStore.reencode(codec, null);
+    expect(await readText(await originalFileStore.load(hash!, 'a.csv'))).toBe('secret');
+  });
+
+  it('moves uploads in and out of base64 for archives', async () => {
+    const hash = await originalFileStore.save(csv('archived'));
+    const fileInfo = {
+      id: 'f1',
+      fileName: 'a.csv',
+      uploadDate: new Date(),
+      fileSize: 8,
+      status: 'completed' as const,
+      invoiceCount: 0,
+      originalFileHash: hash,
+    };
+
+    const [inlined] = await originalFileStore.inlineOriginals([fileInfo]);
+    expect(inlined.originalFileData).toBe(btoa('archived'));
+
+    await originalFileStore.clear();
+    const [stored] = await originalFileStore.storeInlineOriginals([inlined]);
+    expect(stored.originalFileData).toBeUndefined();
+    expect(await readText(await originalFileStore.load(stored.originalFileHash!, 'a.csv'))).toBe(
+      'archived'
+    );
+  });
+
+  it('tells the user when an upload is not kept because storage is full', async () => {
+    errorService.clearErrors();
+    const file = csv('too big');
+    vi.spyOn(file, 'arrayBuffer').mockRejectedValue(
+      Object.assign(new Error('Quota exceeded'), { name: 'QuotaExceededError' })
+    );
+
+    expect(await originalFileStore.save(file)).toBeUndefined();
+    expect(errorService.getRecentErrors()[0]).toMatchObject({
+      type: 'storage-error',
+      message: '儲存空間已滿，未能保留原始檔案，之後需重新上傳才能重新處理',
+    });
+  });
+
+  it('reads the storage left from the browser estimate', async () => {
+    const { navigator } = globalThis;
+    expect(await getAvailableStorage()).toBeNull();
+
+    vi.stubGlobal('navigator', {
+      storage: { estimate: async () => ({ quota: 1000, usage: 400 }) },
+    });
+    expect(await getAvailableStorage()).toBe(600);
+    vi.stubGlobal('navigator', navigator);
+  });
+});
@@ -0,0 +1,103 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+
+import { parseInvoiceFile } from '@/lib/parseWorkerClient';
+import type { ParseResult } from '@/lib/csvParser';
+
+const createCsvFile = (content: string) =>
+  new File([content], 'test.csv', { type: 'text/csv' });
+
+const workerResult: ParseResult = {
+  success: true,
+  invoices: [],
+  errors: [],
+  totalRows: 1,
+  processedRows: 1,
+  encoding: 'utf-8',
+};
+
+// Minimal Worker stand-in that answers every request with progress + result
+class FakeWorker {
+  static instances: FakeWorker[] = [];
+  onmessage: ((event: MessageEvent) => void) | null = null;
+  onerror: ((event: ErrorEvent) => void) | null = null;
+  terminated = false;
+  respond = true;
+
+  constructor() {
+    FakeWorker.instances.push(this);
+  }
+
+  postMessage() {
+    if (!this.respond) return;
+    queueMicrotask(() => {
+      this.onmessage?.({
+        data: { type: 'progress', progress: 50, message: '解析中' },
+      } as MessageEvent);
+      this.onmessage?.({
+        data: { type: 'result', result: workerResult },
+      } as MessageEvent);
+    });
+  }
+
+  terminate() {
+    this.terminated = true;
+  }
+}
+
+describe('parseWorkerClient', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    FakeWorker.instances = [];
+  });
+
+  it('falls back to main-thread parsing when workers are unavailable', async () => {
+    const result = await parseInvoiceFile(
+      createCsvFile('M,手機條碼,/TEST,2024-09-01,12345678,測試商店,AB12345678,137,開立')
+    );
+
+    expect(result.success).toBe(true);
+    expect(result.invoices).toHaveLength(1);
+  });
+
+  it('streams worker progress and resolves with the worker result', async () => {
+    vi.stubGlobal('Worker', FakeWorker);
+    const onProgress = vi.fn();
+
+    const result = await parseInvoiceFile(createCsvFile('M'), { onProgress });
+
+    expect(onProgress).toHaveBeenCalledWith(50, '解析中');
+    expect(result).toEqual(workerResult);
+    expect(FakeWorker.instances[0].terminated).toBe(true);
+  });
+
+  it('terminates the worker and resolves as cancelled on abort', async () => {
+    vi.stubGlobal(
+      'Worker',
+      class extends FakeWorker {
+        respond = false;
+      }
+    );
+    const controller = new AbortController();
+
+    const pending = parseInvoiceFile(createCsvFile('M'), {
+      signal: controller.signal,
+    });
+    controller.abort();
+    const result = await pending;
+
+    expect(result.cancelled).toBe(true);
+    expect(result.success).toBe(false);
+    expect(FakeWorker.instances[0].terminated).toBe(true);
+  });
+
+  it('returns a cancelled result for an already aborted signal', async () => {
+    const controller = new AbortController();
+    controller.abort();
+
+    const result = await parseInvoiceFile(createCsvFile('M'), {
+      signal: controller.signal,
+    });
+
+    expect(result.cancelled).toBe(true);
+  });
+});
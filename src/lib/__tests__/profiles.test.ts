@@ -0,0 +1,84 @@
+import { describe, expect, it } from 'vitest';
+
+import {
+  claimRecords,
+  splitProfileData,
+  summarizeHousehold,
+  type ProfileState,
+} from '@/lib/profiles';
+import { Invoice, UserProfile } from '@/types';
+
+const createInvoice = (id: string, totalAmount: number, profileId?: string): Invoice => ({
+  id,
+  carrierType: '',
+  carrierNumber: '',
+  invoiceDate: new Date(2024, 4, 1),
+  merchantId: '12345678',
+  merchantName: '測試商店',
+  invoiceNumber: `AB${id.padStart(8, '0')}`,
+  totalAmount,
+  status: 'issued',
+  items: [],
+  profileId,
+});
+
+const profile = (id: string, name: string): UserProfile => ({
+  id,
+  name,
+  createdAt: new Date(2024, 0, 1),
+});
+
+describe('profiles', () => {
+  it('claims only records without an owner', () => {
+    const owned = [createInvoice('1', 100, 'a')];
+    expect(claimRecords(owned, 'b')).toBe(owned);
+
+    const claimed = claimRecords([owned[0], createInvoice('2', 200)], 'b');
+    expect(claimed[0]).toBe(owned[0]);
+    expect(claimed[1].profileId).toBe('b');
+  });
+
+  it('splits stored records by profile, giving unknown owners to the active one', () => {
+    const { active, profileData } = splitProfileData(
+      {
+        invoices: [
+          createInvoice('1', 100, 'a'),
+          createInvoice('2', 200, 'b'),
+          createInvoice('3', 300, 'gone'),
+        ],
+        files: [],
+        assets: [],
+      },
+      ['a', 'b'],
+      'a'
+    );
+
+    expect(active.invoices.map(invoice => invoice.id)).toEqual(['1', '3']);
+    expect(Object.keys(profileData)).toEqual(['b']);
+    expect(profileData.b.invoices.map(invoice => invoice.id)).toEqual(['2']);
+  });
+
+  it('summarizes the selected profiles with a per-person breakdown', () => {
+    const state: ProfileState = {
+      invoices: [createInvoice('1', 300, 'a')],
+      files: [],
+      assets: [{ id: 'x', name: '存款', type: 'cash', value: 1000, currency: 'TWD' }],
+      activeProfileId: 'a',
+      profileData: {
+        b: {
+          invoices: [createInvoice('2', 100, 'b'), { ...createInvoice('3', 900, 'b'), status: 'voided' }],
+          files: [],
+          assets: [],
+        },
+      },
+    };
+
+    const summary = summarizeHousehold(state, [profile('a', '我'), profile('b', '伴侶')]);
+    expect(summary.statistics?.totalAmount).toBe(400);
+    expect(summary.members.map(member => member.share)).toEqual([0.75, 0.25]);
+    expect(summary.members[0].assetValue).toBe(1000);
+    expect(summary.members[1].invoiceCount).toBe(1);
+
+    expect(summarizeHousehold(state, [profile('b', '伴侶')]).statistics?.totalAmount).toBe(100);
+  });
+});
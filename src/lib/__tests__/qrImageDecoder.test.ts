@@ -0,0 +1,78 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import jsQR from 'jsqr';
+
+import { assembleQRPayload, findQRCodes } from '@/lib/qrImageDecoder';
+
+vi.mock('jsqr', () => ({ default: vi.fn() }));
+
+const mockedJsQR = vi.mocked(jsQR);
+
+const createImage = (width: number, height: number) =>
+  ({ data: new Uint8ClampedArray(width * height * 4), width, height }) as ImageData;
+
+// Pretend a code is drawn wherever the image still has black pixels at (x, y)
+const codeAt = (text: string, x: number, y: number, size = 10) => ({
+  data: text,
+  binaryData: Array.from(new TextEncoder().encode(text)),
+  location: {
+    topLeftCorner: { x, y },
+    topRightCorner: { x: x + size, y },
+    bottomLeftCorner: { x, y: y + size },
+    bottomRightCorner: { x: x + size, y: y + size },
+  },
+});
+
+const isBlank = (data: Uint8ClampedArray, width: number, x: number, y: number) =>
+  data[(y * width + x) * 4] === 255;
+
+describe('qrImageDecoder', () => {
+  beforeEach(() => {
+    mockedJsQR.mockReset();
+  });
+
+  it('masks each found code so both codes on the proof are decoded', () => {
+    mockedJsQR.mockImplementation(((data: Uint8ClampedArray, width: number) => {
+      if (!isBlank(data, width, 5, 5)) return codeAt('LEFT', 2, 2);
+      if (!isBlank(data, width, 45, 5)) return codeAt('**RIGHT', 42, 2);
+      return null;
+    }) as typeof jsQR);
+
+    const codes = findQRCodes(createImage(60, 20));
+
+    expect(codes.map(code => code.text)).toEqual(['LEFT', '**RIGHT']);
+  });
+
+  it('falls back to scanning each half of the photo', () => {
+    mockedJsQR.mockImplementation(((_data: Uint8ClampedArray, width: number) =>
+      width === 60 ? null : width === 30 ? codeAt(`HALF`, 1, 1) : null) as typeof jsQR);
+
+    const codes = findQRCodes(createImage(60, 20));
+
+    // Both halves report the same text; duplicates are dropped
+    expect(codes.map(code => code.text)).toEqual(['HALF']);
+    expect(mockedJsQR).toHaveBeenCalledTimes(3);
+  });
+
+  it('orders codes into left and right payloads', () => {
+    const encode = (text: string) => ({ text, bytes: new TextEncoder().encode(text) });
+
+    expect(assembleQRPayload([encode('**items'), encode('left')])).toEqual({
+      left: 'left',
+      right: '**items',
+    });
+    expect(assembleQRPayload([encode('**items')])).toBeNull();
+  });
+
+  it('re-decodes Big5 item text from the raw bytes', () => {
+    const header = 'A'.repeat(77) + ':**********:1:1:0:';
+    // 中文 in Big5
+    const bytes = new Uint8Array([
+      ...Array.from(header, char => char.charCodeAt(0)),
+      0xa4, 0xa4, 0xa4, 0xe5,
+    ]);
+
+    const payload = assembleQRPayload([{ text: `${header}??`, bytes }]);
+
+    expect(payload?.left).toBe(`${header}中文`);
+  });
+});
@@ -0,0 +1,83 @@
+import { describe, expect, it } from 'vitest';
+
+import { parseInvoiceQRCodes, splitQRPayloads } from '@/lib/qrInvoiceParser';
+
+// 發票號碼, 民國日期, 隨機碼, 銷售額 100, 總計 105, 無買方, 賣方統編, 加密驗證
+const HEADER =
+  'AB11223344' + '1130501' + '1234' + '00000064' + '00000069' + '00000000' + '12345675' +
+  'ABCDEFGHIJKLMNOPQRSTUVWX';
+
+const toBase64 = (text: string) =>
+  btoa(String.fromCharCode(...new TextEncoder().encode(text)));
+
+describe('qrInvoiceParser', () => {
+  it('decodes the invoice header and plain-text items', () => {
+    const result = parseInvoiceQRCodes({
+      left: `${HEADER}:**********:2:2:1:咖啡:1:60:蛋糕:1:45`,
+    });
+
+    expect(result.invoice).toMatchObject({
+      invoiceNumber: 'AB11223344',
+      invoiceDate: new Date(2024, 4, 1),
+      totalAmount: 105,
+      merchantId: '12345675',
+      merchantName: '統編 12345675',
+      sourceType: 'paper',
+    });
+    expect(result.salesAmount).toBe(100);
+    expect(result.randomCode).toBe('1234');
+    expect(result.buyerId).toBe('');
+    expect(result.invoice.items.map(item => [item.itemName, item.amount])).toEqual([
+      ['咖啡', 60],
+      ['蛋糕', 45],
+    ]);
+    expect(result.warnings).toEqual([]);
+  });
+
+  it('continues the item list from the right code', () => {
+    const result = parseInvoiceQRCodes(
+      { left: `${HEADER}:**********:1:2:1:咖啡:1:60`, right: '**蛋糕:3:15' },
+      { merchantName: '測試咖啡館' }
+    );
+
+    expect(result.invoice.merchantName).toBe('測試咖啡館');
+    expect(result.invoice.items.map(item => item.amount)).toEqual([60, 45]);
+    expect(result.warnings).toEqual([]);
+  });
+
+  it('decodes Base64 item lists split across both codes', () => {
+    const encoded = toBase64('咖啡:1:60:蛋糕:1:45');
+    const result = parseInvoiceQRCodes({
+      left: `${HEADER}:**********:2:2:2:${encoded.slice(0, 10)}`,
+      right: `**${encoded.slice(10)}`,
+    });
+
+    expect(result.invoice.items.map(item => item.itemName)).toEqual(['咖啡', '蛋糕']);
+  });
+
+  it('adds an unallocated item and a warning when items are missing', () => {
+    const result = parseInvoiceQRCodes({
+      left: `${HEADER}:**********:1:2:1:咖啡:1:60`,
+    });
+
+    expect(result.invoice.items.map(item => [item.itemName, item.amount])).toEqual([
+      ['咖啡', 60],
+      ['未列明品項', 45],
+    ]);
+    expect(result.warnings[0]).toContain('1/2');
+  });
+
+  it('rejects malformed left codes', () => {
+    expect(() => parseInvoiceQRCodes({ left: 'AB11223344' })).toThrow('長度不足');
+    expect(() =>
+      parseInvoiceQRCodes({ left: HEADER.replace('1130501', '1131301') })
+    ).toThrow('無效的發票日期');
+  });
+
+  it('pairs scanner lines into left/right payloads', () => {
+    expect(splitQRPayloads(`${HEADER}:a\n**b\n\n${HEADER}:c\n`)).toEqual([
+      { left: `${HEADER}:a`, right: '**b' },
+      { left: `${HEADER}:c` },
+    ]);
+  });
+});
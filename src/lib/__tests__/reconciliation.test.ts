@@ -0,0 +1,68 @@
+import { describe, expect, it } from 'vitest';
+
+import {
+  addAdjustmentItem,
+  findAmountMismatches,
+  reconcileInvoice,
+} from '@/lib/reconciliation';
+import { calculateCategoryBreakdown } from '@/lib/statisticsService';
+import { Invoice } from '@/types';
+
+const createInvoice = (totalAmount: number, itemAmounts: number[]): Invoice => ({
+  id: `inv-${totalAmount}-${itemAmounts.join('-')}`,
+  carrierType: '',
+  carrierNumber: '',
+  invoiceDate: new Date(2024, 4, 1),
+  merchantId: '12345678',
+  merchantName: '測試商店',
+  invoiceNumber: 'AB12345678',
+  totalAmount,
+  status: 'issued',
+  items: itemAmounts.map((amount, index) => ({
+    id: `item-${index}`,
+    invoiceNumber: 'AB12345678',
+    itemName: `品項${index}`,
+    amount,
+    category: '餐飲',
+  })),
+});
+
+describe('reconciliation', () => {
+  it('accepts invoices whose items add up to the total', () => {
+    expect(reconcileInvoice(createInvoice(100, [60, 40]))).toBeNull();
+    expect(reconcileInvoice(createInvoice(0.3, [0.1, 0.2]))).toBeNull();
+  });
+
+  it('reports the difference and its likely cause', () => {
+    const mismatches = findAmountMismatches([
+      createInvoice(100, []),
+      createInvoice(100, [60]),
+      createInvoice(100, [80, 40]),
+      createInvoice(50, [50]),
+    ]);
+
+    expect(mismatches.map(({ difference, reason }) => ({ difference, reason }))).toEqual([
+      { difference: 100, reason: 'missing-items' },
+      { difference: 40, reason: 'items-short' },
+      { difference: -20, reason: 'items-over' },
+    ]);
+  });
+
+  it('adds unallocated and discount items so category totals match the invoice total', () => {
+    const short = addAdjustmentItem(createInvoice(100, [60]));
+    const discounted = addAdjustmentItem(createInvoice(100, [80, 40]));
+
+    expect(short.items.at(-1)).toMatchObject({ amount: 40, category: '未分配', adjustment: true });
+    expect(discounted.items.at(-1)).toMatchObject({ amount: -20, category: '折扣', adjustment: true });
+    expect(findAmountMismatches([short, discounted])).toEqual([]);
+
+    const breakdownTotal = calculateCategoryBreakdown([short, discounted])
+      .reduce((sum, category) => sum + category.amount, 0);
+    expect(breakdownTotal).toBe(200);
+  });
+
+  it('leaves balanced invoices untouched', () => {
+    const invoice = createInvoice(100, [100]);
+    expect(addAdjustmentItem(invoice)).toBe(invoice);
+  });
+});
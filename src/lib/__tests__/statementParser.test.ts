@@ -0,0 +1,116 @@
+import { describe, expect, it } from 'vitest';
+
+import {
+  createStatementProfile,
+  findStatementProfile,
+  parseStatementAmount,
+  parseStatementCSV,
+  parseStatementDate,
+} from '@/lib/statementParser';
+import { StatementProfile } from '@/types';
+
+const createFile = (content: string, name = 'statement.csv') =>
+  new File([content], name, { type: 'text/csv' });
+
+const bankProfile: StatementProfile = {
+  ...createStatementProfile('bank'),
+  headerRows: 1,
+  dateColumn: 0,
+  dateFormat: 'YYYY/MM/DD',
+  descriptionColumn: 1,
+  amountColumn: 2,
+  counterpartyColumn: 3,
+  amountConvention: 'negative-expense',
+};
+
+describe('statementParser - helpers', () => {
+  it('parses dates in the configured format', () => {
+    expect(parseStatementDate('2024/05/01', 'YYYY/MM/DD')).toEqual(new Date(2024, 4, 1));
+    expect(parseStatementDate('20240501', 'YYYYMMDD')).toEqual(new Date(2024, 4, 1));
+    expect(parseStatementDate('05/01/2024', 'MM/DD/YYYY')).toEqual(new Date(2024, 4, 1));
+    expect(parseStatementDate('01/05/2024 10:30', 'DD/MM/YYYY')).toEqual(new Date(2024, 4, 1));
+    expect(parseStatementDate('113/05/01', 'ROC')).toEqual(new Date(2024, 4, 1));
+    expect(parseStatementDate('2024/02/30', 'YYYY/MM/DD')).toBeNull();
+    expect(parseStatementDate('2024-05-01', 'MM/DD/YYYY')).toBeNull();
+  });
+
+  it('parses signed amounts in common notations', () => {
+    expect(parseStatementAmount('1,234')).toBe(1234);
+    expect(parseStatementAmount('-500')).toBe(-500);
+    expect(parseStatementAmount('(500)')).toBe(-500);
+    expect(parseStatementAmount('500-')).toBe(-500);
+    expect(parseStatementAmount('NT$ 1,200')).toBe(1200);
+    expect(parseStatementAmount('')).toBeNull();
+  });
+
+  it('finds a profile by file-name pattern', () => {
+    const profile = { ...bankProfile, fileNamePattern: 'bank_*.csv' };
+    expect(findStatementProfile('BANK_202405.csv', [profile])?.id).toBe(profile.id);
+    expect(findStatementProfile('card_202405.csv', [profile])).toBeUndefined();
+  });
+});
+
+describe('statementParser - parseStatementCSV', () => {
+  it('imports withdrawals as statement transactions and skips deposits', async () => {
+    const content = [
+      '日期,摘要,金額,對象',
+      '2024/05/01,房租,"-15,000",房東',
+      '2024/05/02,薪資,50000,公司',
+      '2024/05/03,轉帳,-300,',
+    ].join('\n');
+
+    const result = await parseStatementCSV(createFile(content), bankProfile);
+
+    expect(result.success).toBe(true);
+    expect(result.skippedRows).toBe(1);
+    expect(result.invoices).toHaveLength(2);
+    expect(result.invoices[0]).toMatchObject({
+      merchantName: '房東',
+      totalAmount: 15000,
+      sourceType: 'statement',
+      sourceRow: 2,
+    });
+    expect(result.invoices[0].items[0]).toMatchObject({ itemName: '房租', amount: 15000 });
+    expect(result.invoices[1].merchantName).toBe('轉帳');
+  });
+
+  it('treats positive amounts as spending for card statements', async () => {
+    const content = ['2024-05-01;咖啡;120', '2024-05-02;退款;-120'].join('\n');
+    const profile: StatementProfile = {
+      ...bankProfile,
+      headerRows: 0,
+      delimiter: ';',
+      dateFormat: 'YYYY-MM-DD',
+      counterpartyColumn: undefined,
+      amountConvention: 'positive-expense',
+    };
+
+    const result = await parseStatementCSV(createFile(content), profile);
+
+    expect(result.invoices.map(invoice => invoice.totalAmount)).toEqual([120]);
+    expect(result.skippedRows).toBe(1);
+  });
+
+  it('builds the same keys for overlapping statements and separates same-day repeats', async () => {
+    const rows = ['2024/05/01,咖啡,-80,', '2024/05/01,咖啡,-80,'];
+    const first = await parseStatementCSV(createFile(['header', ...rows].join('\n')), bankProfile);
+    const second = await parseStatementCSV(
+      createFile(['header', rows[0], '2024/05/04,午餐,-150,'].join('\n')),
+      bankProfile
+    );
+
+    expect(first.invoices[0].invoiceNumber).not.toBe(first.invoices[1].invoiceNumber);
+    expect(second.invoices[0].invoiceNumber).toBe(first.invoices[0].invoiceNumber);
+  });
+
+  it('reports rows with invalid dates as errors', async () => {
+    const content = ['header', '2024/05/01,咖啡,-80,', 'not-a-date,午餐,-150,'].join('\n');
+
+    const result = await parseStatementCSV(createFile(content), bankProfile);
+
+    expect(result.invoices).toHaveLength(1);
+    expect(result.errors).toEqual([
+      expect.objectContaining({ row: 3, message: expect.stringContaining('無效的日期格式') }),
+    ]);
+  });
+});
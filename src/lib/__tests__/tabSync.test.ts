@@ -0,0 +1,75 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+
+import { TAB_ID, createTabChannel, leaseKey, messageKey, runExclusive } from '@/lib/tabSync';
+
+const holdLease = (name: string, expires: number) =>
+  localStorage.setItem(leaseKey(name), JSON.stringify({ owner: 'other-tab', expires }));
+
+describe('tabSync', () => {
+  afterEach(() => {
+    localStorage.clear();
+    vi.unstubAllGlobals();
+  });
+
+  it('runs tasks of one tab one after another', async () => {
+    const order: string[] = [];
+    const task = (label: string) => async (waited: boolean) => {
+      order.push(`${label} start ${waited}`);
+      await new Promise(resolve => setTimeout(resolve, 10));
+      order.push(`${label} end`);
+    };
+
+    await Promise.all([runExclusive('test-lock', task('a')), runExclusive('test-lock', task('b'))]);
+
+    expect(order).toEqual(['a start false', 'a end', 'b start false', 'b end']);
+    expect(localStorage.getItem(leaseKey('test-lock'))).toBeNull();
+  });
+
+  it('waits for a lease held by another tab', async () => {
+    holdLease('test-lock', Date.now() + 60000);
+    const onWait = vi.fn();
+    const running = runExclusive('test-lock', async waited => waited, onWait);
+
+    await new Promise(resolve => setTimeout(resolve, 50));
+    expect(onWait).toHaveBeenCalledTimes(1);
+
+    localStorage.removeItem(leaseKey('test-lock'));
+    await expect(running).resolves.toBe(true);
+  });
+
+  it('takes over an expired lease', async () => {
+    holdLease('test-lock', Date.now() - 1);
+    const onWait = vi.fn();
+
+    await expect(runExclusive('test-lock', async waited => waited, onWait)).resolves.toBe(false);
+    expect(onWait).not.toHaveBeenCalled();
+  });
+
+  it('passes messages through storage events without BroadcastChannel', () => {
+    vi.stubGlobal('BroadcastChannel', undefined);
+    const channel = createTabChannel('test-channel');
+    const listener = vi.fn();
+    const unsubscribe = channel.subscribe(listener);
+
+    const send = (sender: string) =>
+      window.dispatchEvent(
+        new StorageEvent('storage', {
+          key: messageKey('test-channel'),
+          newValue: JSON.stringify({ type: 'store-updated', sender, nonce: sender }),
+        })
+      );
+    send(TAB_ID);
+    send('other-tab');
+    unsubscribe();
+    send('other-tab');
+
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(listener).toHaveBeenCalledWith({ type: 'store-updated' });
+
+    channel.post({ type: 'store-updated' });
+    expect(JSON.parse(localStorage.getItem(messageKey('test-channel'))!)).toMatchObject({
+      type: 'store-updated',
+      sender: TAB_ID,
+    });
+  });
+});
@@ -0,0 +1,63 @@
+import { describe, expect, it } from 'vitest';
+
+import {
+  HISTORY_LIMIT,
+  createHistoryEntry,
+  diffRecords,
+  pushHistory,
+  redoEntry,
+  undoEntry,
+  type HistoryData,
+} from '@/lib/undoHistory';
+
+const record = (id: string) => ({ id }) as never;
+
+const data = (invoiceIds: string[]): HistoryData => ({
+  invoices: invoiceIds.map(record),
+  files: [],
+  assets: [],
+});
+
+describe('undoHistory', () => {
+  it('records only the records that changed', () => {
+    const before = data(['a', 'b', 'c']);
+    const replaced = { id: 'c' } as never;
+    const change = diffRecords(before.invoices, [before.invoices[0], replaced]);
+
+    expect(change?.before.map(({ index }) => index)).toEqual([1, 2]);
+    expect(change?.after).toEqual([{ index: 1, record: replaced }]);
+    expect(diffRecords(before.invoices, before.invoices)).toBeNull();
+  });
+
+  it('restores removed records at their original positions', () => {
+    const before = data(['a', 'b', 'c', 'd']);
+    const after = { invoices: [before.invoices[0], before.invoices[3]] };
+    const entry = createHistoryEntry('刪除檔案', before, after)!;
+
+    const undone = undoEntry({ ...before, ...after }, entry);
+    expect(undone.invoices).toEqual(before.invoices);
+    expect(undone.files).toBeUndefined();
+
+    const redone = redoEntry({ ...before, invoices: undone.invoices! }, entry);
+    expect(redone.invoices).toEqual(after.invoices);
+  });
+
+  it('keeps records added after the action when undoing', () => {
+    const before = data(['a', 'b']);
+    const entry = createHistoryEntry('刪除檔案', before, { invoices: [before.invoices[0]] })!;
+
+    const undone = undoEntry(data(['a', 'x']), entry);
+    expect(undone.invoices!.map(invoice => invoice.id)).toEqual(['a', 'b', 'x']);
+  });
+
+  it('bounds the history', () => {
+    const entry = createHistoryEntry('清除', data(['a']), { invoices: [] });
+    let stack = pushHistory([], entry);
+    for (let i = 0; i < HISTORY_LIMIT + 5; i++) {
+      stack = pushHistory(stack, entry);
+    }
+
+    expect(stack).toHaveLength(HISTORY_LIMIT);
+    expect(pushHistory(stack, null)).toBe(stack);
+  });
+});
@@ -0,0 +1,31 @@
+import { describe, expect, it } from 'vitest';
+
+import { deriveKey, fromBase64, openJSON, sealJSON, toBase64 } from '@/lib/vaultCrypto';
+
+// Few iterations keep the tests fast; the format is the same
+const derivation = { salt: toBase64(new Uint8Array(16).fill(7)), iterations: 1000 };
+
+describe('vaultCrypto', () => {
+  it('round-trips JSON values through seal and open', async () => {
+    const key = await deriveKey('correct horse', derivation);
+    const sealed = await sealJSON(key, { id: 'a', totalAmount: 120 });
+
+    expect(sealed.data).not.toContain('totalAmount');
+    expect(await openJSON(key, sealed)).toEqual({ id: 'a', totalAmount: 120 });
+  });
+
+  it('rejects a key derived from another passphrase', async () => {
+    const sealed = await sealJSON(await deriveKey('correct horse', derivation), 'secret');
+    const wrongKey = await deriveKey('wrong horse', derivation);
+
+    await expect(openJSON(wrongKey, sealed)).rejects.toThrow();
+  });
+
+  it('uses a fresh IV for every value', async () => {
+    const key = await deriveKey('correct horse', derivation);
+    const [a, b] = await Promise.all([sealJSON(key, 1), sealJSON(key, 1)]);
+
+    expect(a.iv).not.toBe(b.iv);
+    expect(fromBase64(a.iv)).toHaveLength(12);
+  });
+});
@@ -0,0 +1,108 @@
+import { describe, expect, it } from 'vitest';
+
+import {
+  createWorkspaceArchive,
+  decryptWorkspaceArchive,
+  encryptWorkspaceArchive,
+  isEncryptedArchive,
+  parseWorkspaceArchive,
+  planArchiveImport,
+  type WorkspaceData,
+} from '@/lib/workspaceArchive';
+import { DEFAULT_SETTINGS } from '@/store';
+import { Invoice } from '@/types';
+
+const createInvoice = (id: string, totalAmount: number): Invoice => ({
+  id,
+  carrierType: '',
+  carrierNumber: '',
+  invoiceDate: new Date(2024, 4, 1),
+  merchantId: '12345678',
+  merchantName: '測試商店',
+  invoiceNumber: `AB${id.padStart(8, '0')}`,
+  totalAmount,
+  status: 'issued',
+  items: [],
+});
+
+const workspace = (invoices: Invoice[], carrierLabels: Record<string, string> = {}): WorkspaceData => ({
+  invoices,
+  files: [
+    {
+      id: 'file-a',
+      fileName: 'a.csv',
+      uploadDate: new Date(2024, 4, 2),
+      fileSize: 10,
+      status: 'completed',
+      invoiceCount: invoices.length,
+      originalFileData: 'TSwx',
+    },
+  ],
+  assets: [],
+  profiles: [{ id: 'default', name: '我', createdAt: new Date(2024, 0, 1) }],
+  settings: DEFAULT_SETTINGS,
+  mappingProfiles: [],
+  statementProfiles: [],
+  carrierLabels,
+  categoryRules: [],
+  merchants: [],
+});
+
+const roundTrip = (data: WorkspaceData) =>
+  parseWorkspaceArchive(JSON.stringify(createWorkspaceArchive(data))).data;
+
+describe('workspaceArchive', () => {
+  it('round-trips the workspace including original file data', () => {
+    const data = roundTrip(workspace([createInvoice('1', 100)]));
+
+    expect(data.invoices).toHaveLength(1);
+    expect(data.files[0].originalFileData).toBe('TSwx');
+    expect(data.settings).toEqual(DEFAULT_SETTINGS);
+  });
+
+  it('rejects files that are not workspace archives', () => {
+    expect(() => parseWorkspaceArchive('not json')).toThrow('JSON');
+    expect(() => parseWorkspaceArchive('{"format":"other"}')).toThrow('備份檔');
+    expect(() =>
+      parseWorkspaceArchive(
+        JSON.stringify({ ...createWorkspaceArchive(workspace([])), archiveVersion: 99 })
+      )
+    ).toThrow('較新版本');
+  });
+
+  it('restores an encrypted archive only with its passphrase', async () => {
+    const archive = createWorkspaceArchive(workspace([createInvoice('1', 100)]));
+    const text = JSON.stringify(await encryptWorkspaceArchive(archive, 'backup-pass'));
+
+    expect(isEncryptedArchive(text)).toBe(true);
+    expect(text).not.toContain('測試商店');
+    await expect(decryptWorkspaceArchive(text, 'other-pass')).rejects.toThrow('密碼錯誤');
+
+    const data = parseWorkspaceArchive(await decryptWorkspaceArchive(text, 'backup-pass')).data;
+    expect(data.invoices[0].totalAmount).toBe(100);
+  });
+
+  it('previews a merge without removing current records', () => {
+    const current = workspace([createInvoice('1', 100), createInvoice('2', 200)], { a: '公司卡' });
+    const incoming = roundTrip(
+      workspace([createInvoice('2', 250), createInvoice('3', 300)], { a: '舊名稱', b: '家用卡' })
+    );
+
+    const plan = planArchiveImport(current, incoming, 'merge');
+    expect(plan.changes.invoices).toEqual({ added: 1, updated: 1, removed: 0, unchanged: 0 });
+    expect(plan.data.invoices.map(invoice => invoice.totalAmount)).toEqual([100, 250, 300]);
+    expect(plan.data.carrierLabels).toEqual({ a: '公司卡', b: '家用卡' });
+    // Unchanged records keep the current objects
+    expect(plan.changes.files.unchanged).toBe(1);
+    expect(plan.data.files[0]).toBe(current.files[0]);
+  });
+
+  it('previews a replace including removed records', () => {
+    const current = workspace([createInvoice('1', 100), createInvoice('2', 200)]);
+    const incoming = roundTrip(workspace([createInvoice('2', 200)]));
+
+    const plan = planArchiveImport(current, incoming, 'replace');
+    expect(plan.changes.invoices).toEqual({ added: 0, updated: 0, removed: 1, unchanged: 1 });
+    expect(plan.data.invoices).toEqual([current.invoices[1]]);
+  });
+});
@@ -0,0 +1,109 @@
+import { Invoice } from '@/types';
+
+/**
+ * Registry of e-invoice carrier (載具) type codes
+ * Exports carry either the MoF type code (e.g. 3J0002) or its Chinese name;
+ * both resolve to the same entry. Users can label individual carrier numbers
+ * (e.g. "公司卡"), keyed by getCarrierKey.
+ */
+
+export type CarrierKind =
+  | 'mobile'
+  | 'citizen'
+  | 'e-ticket'
+  | 'credit-card'
+  | 'member'
+  | 'none'
+  | 'other';
+
+export interface CarrierTypeInfo {
+  kind: CarrierKind;
+  name: string;
+}
+
+export const CARRIER_KIND_LABELS: Record<CarrierKind, string> = {
+  mobile: '手機條碼',
+  citizen: '自然人憑證',
+  'e-ticket': '電子票證',
+  'credit-card': '信用卡',
+  member: '會員卡',
+  none: '無載具',
+  other: '其他載具',
+};
+
+// MoF carrier type codes
+export const CARRIER_TYPE_CODES: Record<string, CarrierTypeInfo> = {
+  '3J0002': { kind: 'mobile', name: '手機條碼' },
+  CQ0001: { kind: 'citizen', name: '自然人憑證條碼' },
+  '1K0001': { kind: 'e-ticket', name: '悠遊卡' },
+  '1H0001': { kind: 'e-ticket', name: '一卡通' },
+  '2G0001': { kind: 'e-ticket', name: 'icash' },
+  EK0002: { kind: 'credit-card', name: '信用卡' },
+};
+
+// Chinese carrier names seen in exports, checked in order
+const CARRIER_NAME_PATTERNS: Array<[RegExp, CarrierKind]> = [
+  [/手機/, 'mobile'],
+  [/自然人|憑證/, 'citizen'],
+  [/悠遊|一卡通|icash|票證/i, 'e-ticket'],
+  [/信用卡|金融卡/, 'credit-card'],
+  [/會員|點數|卡/, 'member'],
+];
+
+/**
+ * Resolve a raw carrier type (code or name) to a kind and display name
+ */
+export function getCarrierTypeInfo(carrierType: string): CarrierTypeInfo {
+  const value = carrierType.trim();
+  if (!value) {
+    return { kind: 'none', name: CARRIER_KIND_LABELS.none };
+  }
+
+  const known = CARRIER_TYPE_CODES[value.toUpperCase()];
+  if (known) {
+    return known;
+  }
+
+  const match = CARRIER_NAME_PATTERNS.find(([pattern]) => pattern.test(value));
+  if (match) {
+    return { kind: match[1], name: value };
+  }
+
+  // Vendor member cards use their own codes; keep the raw code visible
+  return { kind: 'other', name: `載具 ${value}` };
+}
+
+/**
+ * Key identifying one carrier (type + number); '' for invoices without a carrier
+ */
+export function getCarrierKey(invoice: Pick<Invoice, 'carrierType' | 'carrierNumber'>): string {
+  const type = invoice.carrierType.trim();
+  const number = invoice.carrierNumber.trim();
+  return type || number ? `${type}|${number}` : '';
+}
+
+/**
+ * Shorten long carrier numbers such as card numbers to their last four characters
+ */
+export function maskCarrierNumber(carrierNumber: string): string {
+  return carrierNumber.length > 8 ? `…${carrierNumber.slice(-4)}` : carrierNumber;
+}
+
+/**
+ * Display name of a carrier: the user's label, or type name and number
+ */
+export function getCarrierDisplayName(
+  carrierKey: string,
+  labels: Record<string, string> = {}
+): string {
+  if (!carrierKey) {
+    return CARRIER_KIND_LABELS.none;
+  }
+  if (labels[carrierKey]) {
+    return labels[carrierKey];
+  }
+
+  const [type, number = ''] = carrierKey.split('|');
+  const { name } = getCarrierTypeInfo(type);
+  return number ? `${name} ${maskCarrierNumber(number)}` : name;
+}
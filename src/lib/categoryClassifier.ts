@@ -0,0 +1,174 @@
+import { Invoice, InvoiceItem } from '@/types';
+import { DEFAULT_CATEGORY } from './categoryRules';
+
+/**
+ * Offline category classifier
+ * A multinomial naive Bayes model over character n-grams of the item name and
+ * of the merchant name. It learns only from items the user categorized by
+ * hand (`manualCategory`) and suggests categories for items that ended up in
+ * DEFAULT_CATEGORY. Training is cheap, so the model is always rebuilt from the
+ * current corrections rather than updated example by example.
+ */
+
+// Additive smoothing for unseen token/category pairs
+const SMOOTHING = 1;
+const MERCHANT_PREFIX = 'm:';
+
+interface CategoryCounts {
+  examples: number;
+  tokenTotal: number;
+  tokens: Record<string, number>;
+}
+
+export interface CategoryModel {
+  categories: Record<string, CategoryCounts>;
+  vocabularySize: number;
+  exampleCount: number;
+  trainedAt: string | null;
+}
+
+export interface TrainingExample {
+  itemName: string;
+  merchantName?: string;
+  category: string;
+}
+
+export interface CategoryPrediction {
+  category: string;
+  confidence: number; // Posterior probability of the category, 0-1
+}
+
+export interface CategorySuggestion {
+  invoice: Invoice;
+  item: InvoiceItem;
+  suggestion: CategoryPrediction | null; // Null when the model knows nothing of the name
+}
+
+export function createEmptyModel(): CategoryModel {
+  return { categories: {}, vocabularySize: 0, exampleCount: 0, trainedAt: null };
+}
+
+// Spaces, punctuation and symbols say nothing about the category
+const normalizeText = (text: string) =>
+  text.normalize('NFKC').toLowerCase().replace(/[\s\p{P}\p{S}]+/gu, '');
+
+// By code point, so characters outside the BMP stay whole
+const ngrams = (text: string, size: number): string[] => {
+  const chars = Array.from(text);
+  return Array.from({ length: Math.max(chars.length - size + 1, 0) }, (_, index) =>
+    chars.slice(index, index + size).join('')
+  );
+};
+
+/**
+ * Character unigrams and bigrams of the item name plus bigrams of the merchant
+ * name (a one-character name is its own token), the latter prefixed so they
+ * never mix with item tokens
+ */
+export function extractFeatures(itemName: string, merchantName = ''): string[] {
+  const item = normalizeText(itemName);
+  const merchant = normalizeText(merchantName);
+  const merchantBigrams = ngrams(merchant, 2);
+  const merchantTokens = merchantBigrams.length > 0 ? merchantBigrams : ngrams(merchant, 1);
+  return [
+    ...ngrams(item, 1),
+    ...ngrams(item, 2),
+    ...merchantTokens.map(token => MERCHANT_PREFIX + token),
+  ];
+}
+
+export function trainModel(examples: TrainingExample[], now: Date = new Date()): CategoryModel {
+  const categories: Record<string, CategoryCounts> = {};
+  const vocabulary = new Set<string>();
+
+  examples.forEach(({ itemName, merchantName, category }) => {
+    const counts = (categories[category] ??= { examples: 0, tokenTotal: 0, tokens: {} });
+    counts.examples += 1;
+    extractFeatures(itemName, merchantName).forEach(token => {
+      counts.tokens[token] = (counts.tokens[token] ?? 0) + 1;
+      counts.tokenTotal += 1;
+      vocabulary.add(token);
+    });
+  });
+
+  return {
+    categories,
+    vocabularySize: vocabulary.size,
+    exampleCount: examples.length,
+    trainedAt: now.toISOString(),
+  };
+}
+
+/**
+ * Most likely category of an item, or null when the model has fewer than two
+ * categories or none of the item's tokens
+ */
+export function predictCategory(
+  model: CategoryModel,
+  itemName: string,
+  merchantName?: string
+): CategoryPrediction | null {
+  const entries = Object.entries(model.categories);
+  if (entries.length < 2) return null;
+
+  // Tokens the model never saw carry no evidence for any category
+  const tokens = extractFeatures(itemName, merchantName).filter(token =>
+    entries.some(([, counts]) => token in counts.tokens)
+  );
+  if (tokens.length === 0) return null;
+
+  const scores = entries.map(([category, counts]) => {
+    const prior = Math.log(
+      (counts.examples + SMOOTHING) / (model.exampleCount + SMOOTHING * entries.length)
+    );
+    const denominator = Math.log(counts.tokenTotal + SMOOTHING * model.vocabularySize);
+    const likelihood = tokens.reduce(
+      (sum, token) => sum + Math.log((counts.tokens[token] ?? 0) + SMOOTHING) - denominator,
+      0
+    );
+    return { category, score: prior + likelihood };
+  });
+
+  // Softmax over the log scores, shifted by the best one to avoid underflow
+  const best = scores.reduce((top, entry) => (entry.score > top.score ? entry : top));
+  const total = scores.reduce((sum, entry) => sum + Math.exp(entry.score - best.score), 0);
+  return { category: best.category, confidence: 1 / total };
+}
+
+/**
+ * The user's corrections across the given invoices; accepted suggestions are
+ * the model's own guesses, so learning from them would only repeat its mistakes
+ */
+export function getTrainingExamples(invoices: Invoice[]): TrainingExample[] {
+  return invoices.flatMap(invoice =>
+    invoice.items
+      .filter(item => item.manualCategory && !item.acceptedSuggestion && item.category)
+      .map(item => ({
+        itemName: item.itemName,
+        merchantName: invoice.merchantName,
+        category: item.category as string,
+      }))
+  );
+}
+
+/**
+ * Items left in DEFAULT_CATEGORY with the model's guess, most confident first
+ */
+export function suggestCategories(model: CategoryModel, invoices: Invoice[]): CategorySuggestion[] {
+  return invoices
+    .flatMap(invoice =>
+      invoice.items
+        .filter(
+          item =>
+            !item.adjustment &&
+            !item.manualCategory &&
+            (!item.category || item.category === DEFAULT_CATEGORY)
+        )
+        .map(item => ({
+          invoice,
+          item,
+          suggestion: predictCategory(model, item.itemName, invoice.merchantName),
+        }))
+    )
+    .sort((a, b) => (b.suggestion?.confidence ?? -1) - (a.suggestion?.confidence ?? -1));
+}
@@ -0,0 +1,286 @@
+import { CategoryRule, CategoryRuleMatch, Invoice, InvoiceItem, Merchant } from '@/types';
+import { normalizeCategoryPath } from './categoryTree';
+import { getMerchantCategories, getMerchantKey } from './merchantDirectory';
+import { generateId } from './utils';
+
+/**
+ * Rules engine for item categories
+ * Rules are tried in order and the first enabled rule that matches decides
+ * the category; items no rule matches take their merchant's default category
+ * from the merchant directory, or fall into DEFAULT_CATEGORY. The default
+ * rules are an ordinary, editable rule list. Adjustment items keep the
+ * category reconciliation gave them, and items the user categorized by hand
+ * keep theirs.
+ */
+
+export const DEFAULT_CATEGORY = '其他';
+
+export const CATEGORY_RULE_MATCH_LABELS: Record<CategoryRuleMatch, string> = {
+  contains: '品名包含',
+  regex: '品名符合正規表示式',
+  merchant: '商店名稱包含',
+  amount: '品項金額介於',
+};
+
+// Where a rule is matched: an item and the invoice it is on
+export interface CategoryTarget {
+  itemName: string;
+  amount: number;
+  merchantName?: string;
+  merchantKey?: string; // See getMerchantKey
+}
+
+export interface CategoryRuleMatchResult {
+  invoice: Invoice;
+  item: InvoiceItem;
+  category: string; // The category the item has now
+}
+
+const keywordRule = (category: string, keywords: string): CategoryRule => ({
+  id: `default-${category}`,
+  match: 'contains',
+  pattern: keywords,
+  category,
+  enabled: true,
+});
+
+// Bills first, so e.g. 水電費 is not taken for a drink
+export const DEFAULT_CATEGORY_RULES: CategoryRule[] = [
+  keywordRule('帳單繳費', '水電, 水費, 電費, 瓦斯費, 電信費, 網路費'),
+  keywordRule('飲料', '飲料, 咖啡, 茶, 果汁, 汽水, 可樂, 奶茶, 豆漿, 礦泉水, 純水, 飲用水, 氣泡水'),
+  keywordRule('點心零食', '麵包, 蛋糕, 餅乾, 糖果, 巧克力, 冰淇淋, 零食, 洋芋片'),
+  keywordRule(
+    '餐食',
+    '便當, 飯, 麵, 湯, 雞腿, 排骨, 魚, 肉, 蛋, 菜, 炒, 燉, 餐'
+  ),
+  keywordRule('生鮮食品', '蔬菜, 水果, 肉類, 海鮮, 牛奶, 雞蛋, 豆腐, 青菜'),
+  keywordRule('日用品', '衛生紙, 洗髮, 沐浴, 牙膏, 牙刷, 洗衣, 清潔, 毛巾, 肥皂'),
+  keywordRule('保健用品', '藥, 維他命, 保健, 營養, 膠囊, 錠'),
+  keywordRule('交通', '汽油, 柴油, 加油, 停車, 過路費, 捷運, 公車, 計程車, 機車'),
+  keywordRule('服飾', '衣, 褲, 鞋, 襪, 帽, 包'),
+  keywordRule('3C電子', '手機, 電腦, 充電, 耳機, 電池, 3C'),
+  keywordRule('文具書籍', '書, 筆, 紙, 文具, 雜誌, 報紙'),
+];
+
+export function createCategoryRule(overrides: Partial<CategoryRule> = {}): CategoryRule {
+  return {
+    id: generateId(),
+    match: 'contains',
+    pattern: '',
+    category: '',
+    enabled: true,
+    ...overrides,
+  };
+}
+
+export const parseKeywords = (pattern: string): string[] =>
+  pattern
+    .split(/[,，、\n]/)
+    .map(keyword => keyword.trim().toLowerCase())
+    .filter(Boolean);
+
+/**
+ * Why a rule cannot be saved, or null when it is valid
+ */
+export function validateCategoryRule(rule: CategoryRule): string | null {
+  if (!normalizeCategoryPath(rule.category)) {
+    return '請輸入分類名稱';
+  }
+
+  switch (rule.match) {
+    case 'contains':
+    case 'merchant':
+      return parseKeywords(rule.pattern).length > 0 ? null : '請輸入至少一個關鍵字';
+    case 'regex':
+      if (!rule.pattern) return '請輸入正規表示式';
+      try {
+        new RegExp(rule.pattern, 'i');
+        return null;
+      } catch {
+        return '正規表示式格式錯誤';
+      }
+    case 'amount':
+      if (rule.minAmount === undefined && rule.maxAmount === undefined) {
+        return '請輸入金額下限或上限';
+      }
+      if (
+        rule.minAmount !== undefined &&
+        rule.maxAmount !== undefined &&
+        rule.minAmount > rule.maxAmount
+      ) {
+        return '金額下限不可大於上限';
+      }
+      return null;
+  }
+}
+
+type Matcher = (target: CategoryTarget) => boolean;
+
+const compileRule = (rule: CategoryRule): Matcher => {
+  switch (rule.match) {
+    case 'contains': {
+      const keywords = parseKeywords(rule.pattern);
+      return ({ itemName }) => {
+        const name = itemName.toLowerCase();
+        return keywords.some(keyword => name.includes(keyword));
+      };
+    }
+    case 'merchant': {
+      const keywords = parseKeywords(rule.pattern);
+      return ({ merchantName = '' }) => {
+        const name = merchantName.toLowerCase();
+        return keywords.some(keyword => name.includes(keyword));
+      };
+    }
+    case 'regex': {
+      let regex: RegExp;
+      try {
+        regex = new RegExp(rule.pattern, 'i');
+      } catch {
+        return () => false;
+      }
+      return ({ itemName }) => regex.test(itemName);
+    }
+    case 'amount':
+      return ({ amount }) =>
+        (rule.minAmount === undefined || amount >= rule.minAmount) &&
+        (rule.maxAmount === undefined || amount <= rule.maxAmount);
+  }
+};
+
+/**
+ * Compile the enabled rules once into a categorizer
+ */
+export function createCategorizer(
+  rules: CategoryRule[] = DEFAULT_CATEGORY_RULES,
+  merchants: Merchant[] = []
+): (target: CategoryTarget) => string {
+  const compiled = rules
+    .filter(rule => rule.enabled)
+    .map(rule => ({ category: rule.category, matches: compileRule(rule) }));
+  const merchantCategories = getMerchantCategories(merchants);
+
+  return target =>
+    compiled.find(rule => rule.matches(target))?.category ??
+    merchantCategories.get(target.merchantKey ?? '') ??
+    DEFAULT_CATEGORY;
+}
+
+const getTarget = (invoice: Invoice, item: InvoiceItem): CategoryTarget => ({
+  itemName: item.itemName,
+  amount: item.amount,
+  merchantName: invoice.merchantName,
+  merchantKey: getMerchantKey(invoice),
+});
+
+const defaultCategorizer = createCategorizer();
+
+/**
+ * Category of an item under the default rules, e.g. while parsing a file;
+ * the store applies the user's rules when the items are imported
+ */
+export function categorizeItem(itemName: string, amount = 0): string {
+  return defaultCategorizer({ itemName, amount });
+}
+
+/**
+ * Categorize every item again; unchanged invoices, and the list when nothing
+ * changed, keep their objects
+ */
+export function applyCategoryRules(
+  invoices: Invoice[],
+  rules: CategoryRule[],
+  merchants: Merchant[] = []
+): Invoice[] {
+  const categorize = createCategorizer(rules, merchants);
+  let changed = false;
+
+  const updated = invoices.map(invoice => {
+    let invoiceChanged = false;
+    const items = invoice.items.map(item => {
+      if (item.adjustment || item.manualCategory) return item;
+      const category = categorize(getTarget(invoice, item));
+      if (category === item.category) return item;
+      invoiceChanged = true;
+      return { ...item, category };
+    });
+
+    if (!invoiceChanged) return invoice;
+    changed = true;
+    return { ...invoice, items };
+  });
+
+  return changed ? updated : invoices;
+}
+
+export interface ItemCategoryChange {
+  invoiceId: string;
+  itemId: string;
+  category: string;
+  acceptedSuggestion?: boolean; // The classifier's suggestion, accepted unchanged
+}
+
+/**
+ * Set categories by hand; the items are marked so rules no longer change them.
+ * Unchanged invoices keep their objects.
+ */
+export function applyManualCategories(invoices: Invoice[], changes: ItemCategoryChange[]): Invoice[] {
+  type ItemEdit = Pick<InvoiceItem, 'category' | 'acceptedSuggestion'>;
+  const byInvoice = new Map<string, Map<string, ItemEdit>>();
+  changes.forEach(({ invoiceId, itemId, category, acceptedSuggestion }) => {
+    const normalized = normalizeCategoryPath(category);
+    if (!normalized) return;
+    const items = byInvoice.get(invoiceId) ?? new Map<string, ItemEdit>();
+    items.set(itemId, { category: normalized, acceptedSuggestion: acceptedSuggestion || undefined });
+    byInvoice.set(invoiceId, items);
+  });
+
+  return invoices.map(invoice => {
+    const itemChanges = byInvoice.get(invoice.id);
+    if (!itemChanges) return invoice;
+    return {
+      ...invoice,
+      items: invoice.items.map(item =>
+        itemChanges.has(item.id)
+          ? { ...item, ...itemChanges.get(item.id), manualCategory: true }
+          : item
+      ),
+    };
+  });
+}
+
+/**
+ * Items a single rule matches, for previewing it against existing data
+ */
+export function findRuleMatches(rule: CategoryRule, invoices: Invoice[]): CategoryRuleMatchResult[] {
+  const matches = compileRule(rule);
+  return invoices.flatMap(invoice =>
+    invoice.items
+      .filter(
+        item => !item.adjustment && !item.manualCategory && matches(getTarget(invoice, item))
+      )
+      .map(item => ({ invoice, item, category: item.category ?? DEFAULT_CATEGORY }))
+  );
+}
+
+/**
+ * How many items would get another category under the rules
+ */
+export function countRecategorizedItems(
+  invoices: Invoice[],
+  rules: CategoryRule[],
+  merchants: Merchant[] = []
+): number {
+  const categorize = createCategorizer(rules, merchants);
+  return invoices.reduce(
+    (count, invoice) =>
+      count +
+      invoice.items.filter(
+        item =>
+          !item.adjustment &&
+          !item.manualCategory &&
+          categorize(getTarget(invoice, item)) !== item.category
+      ).length,
+    0
+  );
+}
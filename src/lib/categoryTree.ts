@@ -0,0 +1,160 @@
+import { CategoryStat } from '@/types';
+
+/**
+ * Hierarchical categories
+ * A category is a path of names joined by CATEGORY_SEPARATOR, e.g.
+ * '餐食/午餐'. Items are assigned to the leaf; every parent on the path
+ * rolls up the amounts of its descendants.
+ */
+
+export const CATEGORY_SEPARATOR = '/';
+
+// Label for a parent's own items when it also has subcategories
+export const UNSPECIFIED_SUBCATEGORY = '未細分';
+
+export interface CategoryTotal {
+  category: string;
+  amount: number;
+  count: number;
+}
+
+export function splitCategoryPath(category: string): string[] {
+  return category
+    .split(CATEGORY_SEPARATOR)
+    .map(segment => segment.trim())
+    .filter(Boolean);
+}
+
+/**
+ * Trim each level and drop empty ones: ' 餐食 / 午餐/' becomes '餐食/午餐'
+ */
+export function normalizeCategoryPath(category: string): string {
+  return splitCategoryPath(category).join(CATEGORY_SEPARATOR);
+}
+
+export function getTopLevelCategory(category: string): string {
+  return splitCategoryPath(category)[0] ?? '';
+}
+
+export function getParentCategory(category: string): string | null {
+  const segments = splitCategoryPath(category);
+  return segments.length > 1 ? segments.slice(0, -1).join(CATEGORY_SEPARATOR) : null;
+}
+
+/**
+ * Every ancestor of a category followed by the category itself
+ */
+export function getCategoryAncestors(category: string): string[] {
+  const segments = splitCategoryPath(category);
+  return segments.map((_, index) => segments.slice(0, index + 1).join(CATEGORY_SEPARATOR));
+}
+
+/**
+ * Name shown for a node of the tree; a parent's own items are shown as
+ * UNSPECIFIED_SUBCATEGORY when listed among its children
+ */
+export function getCategoryLabel(category: string, parent?: string | null): string {
+  const normalized = normalizeCategoryPath(category);
+  if (parent && normalized === normalizeCategoryPath(parent)) {
+    return UNSPECIFIED_SUBCATEGORY;
+  }
+  const segments = splitCategoryPath(normalized);
+  return segments[segments.length - 1] ?? '';
+}
+
+export function formatCategoryPath(category: string): string {
+  return splitCategoryPath(category).join(' › ');
+}
+
+/**
+ * Whether a category is the ancestor itself or one of its subcategories
+ */
+export function isCategoryWithin(category: string, ancestor: string): boolean {
+  const path = normalizeCategoryPath(category);
+  const root = normalizeCategoryPath(ancestor);
+  return path === root || path.startsWith(root + CATEGORY_SEPARATOR);
+}
+
+interface TreeNode {
+  amount: number;
+  count: number;
+  own: { amount: number; count: number } | null;
+  children: Map<string, TreeNode>;
+}
+
+const createNode = (): TreeNode => ({ amount: 0, count: 0, own: null, children: new Map() });
+
+/**
+ * Roll leaf totals up into a tree of CategoryStat, largest first at each
+ * level. Percentages are of the grand total. A parent that has items of its
+ * own as well as subcategories lists them as a child with its own path.
+ */
+export function buildCategoryTree(totals: CategoryTotal[]): CategoryStat[] {
+  const root = createNode();
+  let grandTotal = 0;
+
+  totals.forEach(({ category, amount, count }) => {
+    let node = root;
+    splitCategoryPath(category).forEach(segment => {
+      let child = node.children.get(segment);
+      if (!child) {
+        child = createNode();
+        node.children.set(segment, child);
+      }
+      child.amount += amount;
+      child.count += count;
+      node = child;
+    });
+    node.own = {
+      amount: (node.own?.amount ?? 0) + amount,
+      count: (node.own?.count ?? 0) + count,
+    };
+    grandTotal += amount;
+  });
+
+  const percentageOf = (amount: number) => (grandTotal > 0 ? (amount / grandTotal) * 100 : 0);
+  const byAmount = (a: CategoryStat, b: CategoryStat) => b.amount - a.amount;
+
+  const toStats = (node: TreeNode, prefix: string): CategoryStat[] =>
+    Array.from(node.children.entries())
+      .map(([segment, child]) => {
+        const category = prefix ? prefix + CATEGORY_SEPARATOR + segment : segment;
+        const stat: CategoryStat = {
+          category,
+          amount: child.amount,
+          count: child.count,
+          percentage: percentageOf(child.amount),
+        };
+        if (child.children.size > 0) {
+          const children = toStats(child, category);
+          if (child.own) {
+            children.push({
+              category,
+              amount: child.own.amount,
+              count: child.own.count,
+              percentage: percentageOf(child.own.amount),
+            });
+            children.sort(byAmount);
+          }
+          stat.children = children;
+        }
+        return stat;
+      })
+      .sort(byAmount);
+
+  return toStats(root, '');
+}
+
+/**
+ * The children of a node found by path, or the top level when no path is given
+ */
+export function getCategoryLevel(tree: CategoryStat[], path: string | null): CategoryStat[] {
+  if (!path) return tree;
+  let level = tree;
+  for (const ancestor of getCategoryAncestors(path)) {
+    const node = level.find(stat => stat.category === ancestor && stat.children);
+    if (!node?.children) return [];
+    level = node.children;
+  }
+  return level;
+}
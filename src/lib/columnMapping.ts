@@ -0,0 +1,89 @@
+import { ColumnMapping, ColumnMappingProfile, MLineField } from '@/types';
+
+/**
+ * Column mapping helpers for the invoice CSV importer
+ * The default mapping follows the MoF carrier export:
+ * M,載具類型,載具號碼,發票日期,商店統編,商店名稱,發票號碼,總金額,狀態
+ * D,發票號碼,小計金額,品項名稱 (or the legacy D,發票號碼,品項名稱,小計金額)
+ */
+
+export const DEFAULT_COLUMN_MAPPING: ColumnMapping = {
+  mLine: {
+    carrierType: 1,
+    carrierNumber: 2,
+    invoiceDate: 3,
+    merchantId: 4,
+    merchantName: 5,
+    invoiceNumber: 6,
+    totalAmount: 7,
+    status: 8,
+  },
+  dLine: {
+    invoiceNumber: 1,
+    layout: 'auto',
+  },
+};
+
+export const M_LINE_FIELD_LABELS: Record<MLineField, string> = {
+  carrierType: '載具類型',
+  carrierNumber: '載具號碼',
+  invoiceDate: '發票日期',
+  merchantId: '商店統編',
+  merchantName: '商店名稱',
+  invoiceNumber: '發票號碼',
+  totalAmount: '總金額',
+  status: '狀態',
+};
+
+// Fields that may be missing from a row without failing it
+const OPTIONAL_M_LINE_FIELDS: MLineField[] = ['status'];
+
+/**
+ * Minimum number of columns an M-line needs under the given mapping
+ */
+export function getRequiredMLineColumns(mapping: ColumnMapping): number {
+  const required = (Object.keys(mapping.mLine) as MLineField[])
+    .filter(field => !OPTIONAL_M_LINE_FIELDS.includes(field))
+    .map(field => mapping.mLine[field]);
+  return Math.max(...required) + 1;
+}
+
+/**
+ * Convert a file-name glob (* and ?) to a case-insensitive RegExp
+ */
+function globToRegExp(pattern: string): RegExp {
+  const escaped = pattern
+    .trim()
+    .replace(/[.+^${}()|[\]\\]/g, '\\$&')
+    .replace(/\*/g, '.*')
+    .replace(/\?/g, '.');
+  return new RegExp(`^${escaped}$`, 'i');
+}
+
+/**
+ * Check whether a file name matches a profile's pattern
+ */
+export function matchesFileNamePattern(fileName: string, pattern: string): boolean {
+  if (!pattern.trim()) return false;
+  return globToRegExp(pattern).test(fileName);
+}
+
+/**
+ * Find the first saved profile whose pattern matches the file name
+ */
+export function findMappingProfile(
+  fileName: string,
+  profiles: ColumnMappingProfile[]
+): ColumnMappingProfile | undefined {
+  return profiles.find(profile =>
+    matchesFileNamePattern(fileName, profile.fileNamePattern)
+  );
+}
+
+/**
+ * Suggest a reusable pattern for a file name by wildcarding digit runs,
+ * e.g. "invoice_20240501.csv" -> "invoice_*.csv"
+ */
+export function suggestFileNamePattern(fileName: string): string {
+  return fileName.replace(/\d+/g, '*').replace(/\*+/g, '*');
+}
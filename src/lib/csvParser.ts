@@ -1,7 +1,23 @@
 import Papa from 'papaparse';
-import { Invoice, InvoiceItem, FileInfo } from '@/types';
-import { categorizeItem, generateId } from './utils';
+import {
+  Invoice,
+  InvoiceItem,
+  FileInfo,
+  FileEncoding,
+  ColumnMapping,
+  ValidationWarningCode,
+} from '@/types';
+import { generateId } from './utils';
+import { categorizeItem } from './categoryRules';
 import { memoryOptimizer } from './memoryOptimizer';
+import { decodeBytes, detectEncoding, readFileBytes } from './encodingDetector';
+import { DEFAULT_COLUMN_MAPPING, getRequiredMLineColumns } from './columnMapping';
+import { parseFlexibleDate } from './dateFormat';
+import { findAmountMismatches, type AmountMismatch } from './reconciliation';
+import { summarizeDataQuality, validateInvoiceFields } from './invoiceValidation';
+
+// Number of raw rows kept on the result for the import preview
+const SAMPLE_ROW_LIMIT = 10;
 
 // CSV parsing result interface
 export interface ParseResult {
@@ -10,6 +26,20 @@ export interface ParseResult {
   errors: ParseError[];
   totalRows: number;
   processedRows: number;
+  encoding?: FileEncoding;
+  cancelled?: boolean;
+  columnLayout?: ColumnLayout;
+  sampleRows?: string[][];
+  skippedRows?: number; // Rows intentionally not imported (e.g. statement deposits)
+  mismatches?: AmountMismatch[]; // Invoices whose items do not sum to the M-line total
+  warnings?: ParseWarning[]; // Data-quality problems that did not stop the import
+}
+
+// Column layout observed while parsing, shown in the import preview
+export interface ColumnLayout {
+  mLineColumns: number;
+  dLineColumns: number;
+  dLineLayout: 'amount-first' | 'name-first' | 'mixed' | 'unknown';
 }
 
 export interface ParseError {
@@ -19,6 +49,13 @@ export interface ParseError {
   data?: any;
 }
 
+export interface ParseWarning {
+  row: number;
+  field: string;
+  code: ValidationWarningCode;
+  message: string;
+}
+
 // Progress callback type
 export type ProgressCallback = (progress: number, message: string) => void;
 
@@ -27,6 +64,27 @@ export interface ParseOptions {
   onProgress?: ProgressCallback;
   skipErrors?: boolean;
   maxErrors?: number;
+  // Text encoding of the file; 'auto' (default) sniffs the byte stream
+  encoding?: FileEncoding | 'auto';
+  // Aborting stops parsing and resolves with a cancelled result
+  signal?: AbortSignal;
+  // Column positions for M/D lines; defaults to the MoF export layout
+  columnMapping?: ColumnMapping;
+}
+
+/**
+ * Result returned when parsing is aborted through ParseOptions.signal
+ */
+export function createCancelledResult(encoding?: FileEncoding): ParseResult {
+  return {
+    success: false,
+    cancelled: true,
+    invoices: [],
+    errors: [{ row: -1, message: '已取消解析' }],
+    totalRows: 0,
+    processedRows: 0,
+    encoding,
+  };
 }
 
 /**
@@ -37,40 +95,102 @@ export async function parseInvoiceCSV(
   file: File,
   options: ParseOptions = {}
 ): Promise<ParseResult> {
-  const { onProgress, skipErrors = true, maxErrors = 100 } = options;
-  
+  const {
+    onProgress,
+    skipErrors = true,
+    maxErrors = 100,
+    encoding: requestedEncoding = 'auto',
+    signal,
+    columnMapping = DEFAULT_COLUMN_MAPPING,
+  } = options;
+
+  if (signal?.aborted) {
+    return createCancelledResult();
+  }
+
+  // Decode the file ourselves so Big5/CP950 exports are not read as UTF-8
+  let text: string;
+  let encoding: FileEncoding;
+  try {
+    const bytes = await readFileBytes(file);
+    encoding =
+      requestedEncoding === 'auto'
+        ? detectEncoding(bytes).encoding
+        : requestedEncoding;
+    text = decodeBytes(bytes, encoding);
+  } catch (error) {
+    return {
+      success: false,
+      invoices: [],
+      errors: [{
+        row: -1,
+        message: `檔案讀取失敗: ${error instanceof Error ? error.message : '未知錯誤'}`,
+      }],
+      totalRows: 0,
+      processedRows: 0,
+    };
+  }
+
   return new Promise((resolve) => {
     const errors: ParseError[] = [];
+    const warnings: ParseWarning[] = [];
     const invoiceMap = new Map<string, Partial<Invoice>>();
     const itemsMap = new Map<string, InvoiceItem[]>();
     let totalRows = 0;
     let processedRows = 0;
+    const sampleRows: string[][] = [];
+    const layoutCounts = { 'amount-first': 0, 'name-first': 0 };
+    let mLineColumns = 0;
+    let dLineColumns = 0;
 
     // Report initial progress
     onProgress?.(0, '開始解析檔案...');
 
-    Papa.parse(file, {
+    Papa.parse(text, {
       header: false,
       skipEmptyLines: true,
-      encoding: 'UTF-8',
-      chunk: (results) => {
+      chunk: (results: Papa.ParseResult<unknown>, parser: Papa.Parser) => {
+        if (signal?.aborted) {
+          parser.abort();
+          return;
+        }
+
         totalRows += results.data.length;
         
         results.data.forEach((row: any, index: number) => {
           try {
             const rowData = Array.isArray(row) ? row : Object.values(row);
             const lineType = rowData[0]?.toString().trim();
+
+            if (sampleRows.length < SAMPLE_ROW_LIMIT) {
+              sampleRows.push(rowData.map((cell: unknown) => String(cell ?? '')));
+            }
             
             if (lineType === 'M') {
+              mLineColumns = Math.max(mLineColumns, rowData.length);
+
               // Parse main invoice data (M-line)
-              const invoice = parseMLine(rowData, totalRows - results.data.length + index + 1);
+              const invoice = parseMLine(rowData, totalRows - results.data.length + index + 1, columnMapping);
               if (invoice) {
                 invoiceMap.set(invoice.invoiceNumber!, invoice);
                 processedRows++;
+                validateInvoiceFields(invoice as Invoice).forEach(warning => {
+                  warnings.push({ row: invoice.sourceRow!, ...warning });
+                });
               }
             } else if (lineType === 'D') {
+              dLineColumns = Math.max(dLineColumns, rowData.length);
+              const valueColumn = columnMapping.dLine.invoiceNumber + 1;
+              const detected = detectDLineLayout(
+                rowData[valueColumn]?.toString().trim() ?? '',
+                rowData[valueColumn + 1]?.toString().trim() ?? ''
+              );
+              if (detected) {
+                layoutCounts[detected]++;
+              }
+
               // Parse detail item data (D-line)
-              const item = parseDLine(rowData, totalRows - results.data.length + index + 1);
+              const item = parseDLine(rowData, totalRows - results.data.length + index + 1, columnMapping);
               if (item) {
                 const items = itemsMap.get(item.invoiceNumber) || [];
                 items.push(item);
@@ -97,6 +217,11 @@ export async function parseInvoiceCSV(
         onProgress?.(progress, `已處理 ${processedRows} 筆資料...`);
       },
       complete: async () => {
+        if (signal?.aborted) {
+          resolve(createCancelledResult(encoding));
+          return;
+        }
+
         onProgress?.(85, '整合發票資料...');
         
         try {
@@ -106,6 +231,10 @@ export async function parseInvoiceCSV(
           const invoices = await memoryOptimizer.processInChunks(
             invoiceEntries,
             async (chunk) => {
+              if (signal?.aborted) {
+                throw new Error('已取消解析');
+              }
+
               const chunkInvoices: Invoice[] = [];
               
               for (const [invoiceNumber, invoiceData] of chunk) {
@@ -133,6 +262,7 @@ export async function parseInvoiceCSV(
                     totalAmount: invoiceData.totalAmount || 0,
                     status: invoiceData.status || 'issued',
                     items: items,
+                    sourceRow: invoiceData.sourceRow,
                   };
 
                   chunkInvoices.push(invoice);
@@ -164,8 +294,22 @@ export async function parseInvoiceCSV(
             errors,
             totalRows,
             processedRows: optimizedInvoices.length,
+            encoding,
+            columnLayout: {
+              mLineColumns,
+              dLineColumns,
+              dLineLayout: summarizeDLineLayout(layoutCounts),
+            },
+            sampleRows,
+            mismatches: findAmountMismatches(optimizedInvoices),
+            warnings,
           });
         } catch (error) {
+          if (signal?.aborted) {
+            resolve(createCancelledResult(encoding));
+            return;
+          }
+
           resolve({
             success: false,
             invoices: [],
@@ -175,10 +319,11 @@ export async function parseInvoiceCSV(
             }],
             totalRows,
             processedRows: 0,
+            encoding,
           });
         }
       },
-      error: (error) => {
+      error: (error: Error) => {
         resolve({
           success: false,
           invoices: [],
@@ -188,6 +333,7 @@ export async function parseInvoiceCSV(
           }],
           totalRows: 0,
           processedRows: 0,
+          encoding,
         });
       },
     });
@@ -198,13 +344,26 @@ export async function parseInvoiceCSV(
  * Parse M-line (main invoice data)
  * Format: M,載具類型,載具號碼,發票日期,商店統編,商店名稱,發票號碼,總金額,狀態
  */
-function parseMLine(row: any[], rowNumber: number): Partial<Invoice> | null {
+function parseMLine(
+  row: any[],
+  rowNumber: number,
+  mapping: ColumnMapping = DEFAULT_COLUMN_MAPPING
+): Partial<Invoice> | null {
   try {
-    if (row.length < 8) {
-      throw new Error(`M行資料欄位不足，需要至少8個欄位，實際只有${row.length}個`);
+    const requiredColumns = getRequiredMLineColumns(mapping);
+    if (row.length < requiredColumns) {
+      throw new Error(`M行資料欄位不足，需要至少${requiredColumns}個欄位，實際只有${row.length}個`);
     }
 
-    const [, carrierType, carrierNumber, invoiceDateStr, merchantId, merchantName, invoiceNumber, totalAmountStr, statusStr] = row;
+    const columns = mapping.mLine;
+    const carrierType = row[columns.carrierType];
+    const carrierNumber = row[columns.carrierNumber];
+    const invoiceDateStr = row[columns.invoiceDate];
+    const merchantId = row[columns.merchantId];
+    const merchantName = row[columns.merchantName];
+    const invoiceNumber = row[columns.invoiceNumber];
+    const totalAmountStr = row[columns.totalAmount];
+    const statusStr = row[columns.status];
 
     // Parse and validate date
     const invoiceDate = parseInvoiceDate(invoiceDateStr?.toString().trim());
@@ -230,6 +389,7 @@ function parseMLine(row: any[], rowNumber: number): Partial<Invoice> | null {
       invoiceNumber: invoiceNumber?.toString().trim() || '',
       totalAmount,
       status,
+      sourceRow: rowNumber,
     };
   } catch (error) {
     throw new Error(`第${rowNumber}行M行解析錯誤: ${error instanceof Error ? error.message : '未知錯誤'}`);
@@ -240,39 +400,33 @@ function parseMLine(row: any[], rowNumber: number): Partial<Invoice> | null {
  * Parse D-line (detail item data)
  * Format usually follows: D,發票號碼,小計金額,品項名稱
  * Some exports use the legacy order D,發票號碼,品項名稱,小計金額 – we support both.
+ * The order is sniffed per row unless the column mapping fixes the layout.
  */
-function parseDLine(row: any[], rowNumber: number): InvoiceItem | null {
+function parseDLine(
+  row: any[],
+  rowNumber: number,
+  mapping: ColumnMapping = DEFAULT_COLUMN_MAPPING
+): InvoiceItem | null {
   try {
-    if (row.length < 4) {
-      throw new Error(`D行資料欄位不足，需要至少4個欄位，實際只有${row.length}個`);
+    // Amount and item name occupy the two columns after the invoice number
+    const invoiceColumn = mapping.dLine.invoiceNumber;
+    const requiredColumns = invoiceColumn + 3;
+    if (row.length < requiredColumns) {
+      throw new Error(`D行資料欄位不足，需要至少${requiredColumns}個欄位，實際只有${row.length}個`);
     }
 
-    const [, rawInvoiceNumber, thirdValue, fourthValue] = row;
-
-    const invoiceNumber = rawInvoiceNumber?.toString().trim();
-    const third = thirdValue?.toString().trim() ?? '';
-    const fourth = fourthValue?.toString().trim() ?? '';
-
-    const numericPattern = /^-?\d+(?:\.\d+)?$/;
-    const thirdLooksAmount = numericPattern.test(third.replace(/,/g, ''));
-    const fourthLooksAmount = numericPattern.test(fourth.replace(/,/g, ''));
-
-    let itemName = third;
-    let amountStr = fourth;
-
-    if (thirdLooksAmount && !fourthLooksAmount) {
-      // New format: amount comes before item name
-      itemName = fourth;
-      amountStr = third;
-    } else if (!thirdLooksAmount && fourthLooksAmount) {
-      // Legacy format: item name comes before amount
-      itemName = third;
-      amountStr = fourth;
-    } else if (thirdLooksAmount && fourthLooksAmount) {
-      // Both fields look numeric – fall back to assuming original order to keep validation errors meaningful
-      itemName = third;
-      amountStr = fourth;
-    }
+    const invoiceNumber = row[invoiceColumn]?.toString().trim();
+    const first = row[invoiceColumn + 1]?.toString().trim() ?? '';
+    const second = row[invoiceColumn + 2]?.toString().trim() ?? '';
+
+    // Both fields numeric or neither – fall back to the original order to keep validation errors meaningful
+    const layout =
+      mapping.dLine.layout === 'auto'
+        ? detectDLineLayout(first, second) ?? 'name-first'
+        : mapping.dLine.layout;
+
+    const itemName = layout === 'amount-first' ? second : first;
+    const amountStr = layout === 'amount-first' ? first : second;
 
     // Validate required fields
     if (!invoiceNumber) {
@@ -296,45 +450,57 @@ function parseDLine(row: any[], rowNumber: number): InvoiceItem | null {
       invoiceNumber: invoiceNumber.toString().trim(),
       itemName: cleanItemName,
       amount,
-      category: categorizeItem(cleanItemName),
+      category: categorizeItem(cleanItemName, amount),
+      sourceRow: rowNumber,
     };
   } catch (error) {
     throw new Error(`第${rowNumber}行D行解析錯誤: ${error instanceof Error ? error.message : '未知錯誤'}`);
   }
 }
 
+/**
+ * Detect whether a D-line has the amount before the item name
+ * Returns null when the row does not tell (both or neither look numeric)
+ */
+function detectDLineLayout(first: string, second: string): 'amount-first' | 'name-first' | null {
+  const numericPattern = /^-?\d+(?:\.\d+)?$/;
+  const firstLooksAmount = numericPattern.test(first.replace(/,/g, ''));
+  const secondLooksAmount = numericPattern.test(second.replace(/,/g, ''));
+
+  if (firstLooksAmount && !secondLooksAmount) {
+    // New format: amount comes before item name
+    return 'amount-first';
+  }
+  if (!firstLooksAmount && secondLooksAmount) {
+    // Legacy format: item name comes before amount
+    return 'name-first';
+  }
+  return null;
+}
+
+/**
+ * Summarize per-row D-line layouts into the file's layout
+ */
+function summarizeDLineLayout(
+  counts: Record<'amount-first' | 'name-first', number>
+): ColumnLayout['dLineLayout'] {
+  const amountFirst = counts['amount-first'];
+  const nameFirst = counts['name-first'];
+  if (amountFirst === 0 && nameFirst === 0) return 'unknown';
+  if (amountFirst > 0 && nameFirst > 0) return 'mixed';
+  return amountFirst > 0 ? 'amount-first' : 'name-first';
+}
+
 /**
  * Parse invoice date from various formats
- * Supports: YYYY/MM/DD, YYYY-MM-DD, YYYYMMDD
+ * Supports: YYYY/MM/DD, YYYY-MM-DD, YYYYMMDD and ROC dates (yyyMMdd, yyy/MM/dd)
  */
 function parseInvoiceDate(dateStr: string): Date | null {
   if (!dateStr) return null;
 
-  // Remove any non-digit characters except / and -
-  const cleanDate = dateStr.replace(/[^\d\/-]/g, '');
-  
-  // Try different date formats
-  const formats = [
-    /^(\d{4})[\/\-](\d{1,2})[\/\-](\d{1,2})$/, // YYYY/MM/DD or YYYY-MM-DD
-    /^(\d{4})(\d{2})(\d{2})$/, // YYYYMMDD
-  ];
-
-  for (const format of formats) {
-    const match = cleanDate.match(format);
-    if (match) {
-      const [, year, month, day] = match;
-      const date = new Date(parseInt(year), parseInt(month) - 1, parseInt(day));
-      
-      // Validate the date
-      if (date.getFullYear() == parseInt(year) && 
-          date.getMonth() == parseInt(month) - 1 && 
-          date.getDate() == parseInt(day)) {
-        return date;
-      }
-    }
-  }
-
-  return null;
+  // Drop quotes and other stray characters around the date
+  const cleanDate = dateStr.replace(/[^\d\/.\-年月日民國]/g, '');
+  return parseFlexibleDate(cleanDate);
 }
 
 /**
@@ -360,12 +526,6 @@ export function validateCSVFile(file: File): { valid: boolean; error?: string }
     return { valid: false, error: '請選擇CSV格式的檔案' };
   }
 
-  // Check file size (max 50MB)
-  const maxSize = 50 * 1024 * 1024; // 50MB
-  if (file.size > maxSize) {
-    return { valid: false, error: '檔案大小不能超過50MB' };
-  }
-
   // Check if file is empty
   if (file.size === 0) {
     return { valid: false, error: '檔案不能為空' };
@@ -388,5 +548,9 @@ export function createFileInfo(file: File, parseResult: ParseResult): FileInfo {
     errorMessage: parseResult.errors.length > 0 
       ? `發現 ${parseResult.errors.length} 個錯誤` 
       : undefined,
+    encoding: parseResult.encoding,
+    dataQuality: parseResult.warnings
+      ? summarizeDataQuality(parseResult.invoices, parseResult.warnings)
+      : undefined,
   };
 }
\ No newline at end of file
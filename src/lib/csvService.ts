@@ -1,7 +1,50 @@
-import { parseInvoiceCSV, validateCSVFile, createFileInfo, type ParseOptions } from './csvParser';
-import { useInvoiceStore } from '@/store';
+import { validateCSVFile, createFileInfo, type ParseOptions, type ParseResult } from './csvParser';
+import { findMappingProfile } from './columnMapping';
+import { parseInvoiceFile } from './parseWorkerClient';
+import { parseStatementCSV, validateStatementFile } from './statementParser';
+import {
+  flushPersistedState,
+  getHistoryData,
+  reloadPersistedState,
+  useInvoiceStore,
+} from '@/store';
+import { runExclusive } from './tabSync';
+import { originalFileStore, reportUnsavedOriginal } from './originalFileStore';
+import { fromBase64, toBase64 } from './vaultCrypto';
+import { getAllProfileData } from './profiles';
+import { getHistoryRecords } from './undoHistory';
+import { vaultService } from './vaultService';
 import { errorService } from './errorService';
-import { FileInfo } from '@/types';
+import {
+  applyDuplicatePolicy,
+  detectDuplicates,
+  summarizeDuplicates,
+  type DuplicateSummary,
+} from './duplicateService';
+import {
+  DuplicatePolicy,
+  FileInfo,
+  Invoice,
+  InvoiceSourceType,
+  StatementProfile,
+} from '@/types';
+
+export interface ProcessOptions extends ParseOptions {
+  // How invoices already in the store are handled; defaults to the app setting
+  duplicatePolicy?: DuplicatePolicy;
+}
+
+export interface ProcessFileResult {
+  success: boolean;
+  fileInfo: FileInfo;
+  invoices: Invoice[];
+  errors?: string[];
+  duplicates?: DuplicateSummary;
+  cancelled?: boolean;
+}
+
+// Held while a file is parsed into the store, so tabs do not overwrite each other
+const PROCESSING_LOCK = 'invoice-processing';
 
 /**
  * CSV parsing service that integrates with the store
@@ -16,14 +59,46 @@ export class CSVService {
     return CSVService.instance;
   }
 
+  /**
+   * Run a task that changes the store while no other tab processes a file
+   * Waiting means the other tab may have saved new data, so it is loaded
+   * first; the result is saved before the next tab may start.
+   */
+  private withProcessingLock<T>(options: ProcessOptions, task: () => Promise<T>): Promise<T> {
+    return runExclusive(
+      PROCESSING_LOCK,
+      async waited => {
+        if (waited) {
+          await reloadPersistedState();
+        }
+        try {
+          return await task();
+        } finally {
+          await flushPersistedState();
+        }
+      },
+      () => options.onProgress?.(0, '其他分頁正在處理檔案，請稍候...')
+    );
+  }
+
   /**
    * Process a CSV file and update the store
    */
   async processFile(
-    file: File, 
-    options: ParseOptions = {},
+    file: File,
+    options: ProcessOptions = {},
     storeOriginalFile: boolean = true
-  ): Promise<{ success: boolean; fileInfo: FileInfo; invoices: any[]; errors?: string[] }> {
+  ): Promise<ProcessFileResult> {
+    return this.withProcessingLock(options, () =>
+      this.importFile(file, options, storeOriginalFile)
+    );
+  }
+
+  private async importFile(
+    file: File, 
+    options: ProcessOptions,
+    storeOriginalFile: boolean
+  ): Promise<ProcessFileResult> {
     const store = useInvoiceStore.getState();
     
     try {
@@ -38,16 +113,7 @@ export class CSVService {
       }
 
       // Store original file data if requested (for reprocessing)
-      let originalFileData: string | undefined;
-      if (storeOriginalFile && file.size <= 5 * 1024 * 1024) { // Only store files <= 5MB
-        try {
-          const arrayBuffer = await file.arrayBuffer();
-          const uint8Array = new Uint8Array(arrayBuffer);
-          originalFileData = btoa(String.fromCharCode(...uint8Array));
-        } catch (error) {
-          console.warn('Failed to store original file data:', error);
-        }
-      }
+      const original = storeOriginalFile ? await this.saveOriginalFile(file) : {};
 
       // Create initial file info
       const initialFileInfo: FileInfo = {
@@ -57,16 +123,22 @@ export class CSVService {
         fileSize: file.size,
         status: 'processing',
         invoiceCount: 0,
-        originalFileData,
+        ...original,
         lastProcessedDate: new Date(),
       };
 
       // Add file to store
       store.addFile(initialFileInfo);
 
-      // Parse the CSV file
-      const parseResult = await parseInvoiceCSV(file, {
+      // Explicit mapping from the preview wins over a saved profile for this file name
+      const columnMapping =
+        options.columnMapping ??
+        findMappingProfile(file.name, store.mappingProfiles)?.mapping;
+
+      // Parse the CSV file (in a worker when available)
+      const parseResult = await parseInvoiceFile(file, {
         ...options,
+        columnMapping,
         onProgress: (progress, message) => {
           // Update file status during processing
           store.updateFile(initialFileInfo.id, {
@@ -78,21 +150,45 @@ export class CSVService {
         },
       });
 
+      if (parseResult.cancelled) {
+        // Drop the placeholder entry; nothing was imported
+        store.removeFile(initialFileInfo.id);
+        return {
+          success: false,
+          cancelled: true,
+          fileInfo: { ...initialFileInfo, status: 'error', errorMessage: '已取消解析' },
+          invoices: [],
+          errors: ['已取消解析'],
+        };
+      }
+
       // Create final file info
       const finalFileInfo = createFileInfo(file, parseResult);
       finalFileInfo.id = initialFileInfo.id; // Keep the same ID
+      finalFileInfo.columnMapping = columnMapping; // Reused when reprocessing
 
       // Update file info in store
       store.updateFile(initialFileInfo.id, finalFileInfo);
 
       if (parseResult.success && parseResult.invoices.length > 0) {
-        // Add invoices to store
-        store.addInvoices(parseResult.invoices);
+        // Stamp the source file so removeFile/reprocessFile can find these invoices
+        const invoices = parseResult.invoices.map(invoice => ({
+          ...invoice,
+          sourceFileId: initialFileInfo.id,
+        }));
+
+        // Add invoices to store, resolving duplicates of invoices already imported
+        const duplicates = this.importInvoices(
+          initialFileInfo.id,
+          invoices,
+          options.duplicatePolicy
+        );
         
         return {
           success: true,
           fileInfo: finalFileInfo,
-          invoices: parseResult.invoices,
+          invoices,
+          duplicates,
         };
       } else {
         // Handle parsing errors
@@ -147,19 +243,242 @@ export class CSVService {
     }
   }
 
+  /**
+   * Process a bank or credit-card statement with a statement profile
+   */
+  async processStatementFile(
+    file: File,
+    profile: StatementProfile,
+    options: ProcessOptions = {}
+  ): Promise<ProcessFileResult> {
+    return this.withProcessingLock(options, () =>
+      this.importStatementFile(file, profile, options)
+    );
+  }
+
+  private async importStatementFile(
+    file: File,
+    profile: StatementProfile,
+    options: ProcessOptions
+  ): Promise<ProcessFileResult> {
+    const store = useInvoiceStore.getState();
+    let fileInfo: FileInfo | undefined;
+
+    try {
+      store.setLoading(true);
+      store.setError(null);
+
+      const validation = validateStatementFile(file);
+      if (!validation.valid) {
+        throw new Error(validation.error);
+      }
+
+      fileInfo = {
+        id: crypto.randomUUID ? crypto.randomUUID() : Math.random().toString(36),
+        fileName: file.name,
+        uploadDate: new Date(),
+        fileSize: file.size,
+        status: 'processing',
+        invoiceCount: 0,
+        ...(await this.saveOriginalFile(file)),
+        lastProcessedDate: new Date(),
+        sourceType: 'statement',
+        statementProfileId: profile.id,
+      };
+      store.addFile(fileInfo);
+
+      const parseResult = await parseStatementCSV(file, profile, options);
+
+      if (parseResult.cancelled) {
+        store.removeFile(fileInfo.id);
+        return {
+          success: false,
+          cancelled: true,
+          fileInfo: { ...fileInfo, status: 'error', errorMessage: '已取消解析' },
+          invoices: [],
+          errors: ['已取消解析'],
+        };
+      }
+
+      return this.commitParseResult(fileInfo, file, parseResult, options);
+    } catch (error) {
+      const appError = errorService.handleFileError(error, file.name);
+      store.setError(appError.message);
+
+      if (fileInfo) {
+        store.updateFile(fileInfo.id, {
+          status: 'error',
+          errorMessage: appError.message,
+        });
+      }
+
+      return {
+        success: false,
+        fileInfo: {
+          ...(fileInfo ?? {
+            id: crypto.randomUUID ? crypto.randomUUID() : Math.random().toString(36),
+            fileName: file.name,
+            uploadDate: new Date(),
+            fileSize: file.size,
+            invoiceCount: 0,
+            sourceType: 'statement' as const,
+          }),
+          status: 'error',
+          errorMessage: appError.message,
+        },
+        invoices: [],
+        errors: [appError.message],
+      };
+    } finally {
+      store.setLoading(false);
+    }
+  }
+
+  /**
+   * Update a statement file's entry and import its transactions
+   */
+  private commitParseResult(
+    fileInfo: FileInfo,
+    file: File,
+    parseResult: ParseResult,
+    options: ProcessOptions
+  ): ProcessFileResult {
+    const store = useInvoiceStore.getState();
+    const finalFileInfo: FileInfo = {
+      ...createFileInfo(file, parseResult),
+      id: fileInfo.id,
+      uploadDate: fileInfo.uploadDate,
+      originalFileHash: fileInfo.originalFileHash,
+      originalFileData: fileInfo.originalFileData,
+      lastProcessedDate: new Date(),
+      sourceType: fileInfo.sourceType,
+      statementProfileId: fileInfo.statementProfileId,
+    };
+    store.updateFile(fileInfo.id, finalFileInfo);
+
+    if (parseResult.success && parseResult.invoices.length > 0) {
+      const invoices = parseResult.invoices.map(invoice => ({
+        ...invoice,
+        sourceFileId: fileInfo.id,
+      }));
+      const duplicates = this.importInvoices(
+        fileInfo.id,
+        invoices,
+        options.duplicatePolicy
+      );
+
+      return { success: true, fileInfo: finalFileInfo, invoices, duplicates };
+    }
+
+    const errorMessages = parseResult.errors.length > 0
+      ? parseResult.errors.map(error => `第${error.row}行: ${error.message}`)
+      : ['檔案中沒有可匯入的支出交易'];
+    store.setError(
+      errorService.createError(
+        'parse-error',
+        `對帳單解析失敗: ${errorMessages.slice(0, 5).join(', ')}${errorMessages.length > 5 ? '...' : ''}`,
+        `檔案: ${file.name}`
+      ).message
+    );
+
+    return {
+      success: false,
+      fileInfo: finalFileInfo,
+      invoices: [],
+      errors: errorMessages,
+    };
+  }
+
+  /**
+   * Import invoices that were not read from an uploaded file (e.g. paper
+   * invoice QR codes) under a new FileInfo entry so they can be listed and removed
+   */
+  importSourceInvoices(
+    sourceName: string,
+    sourceType: InvoiceSourceType,
+    invoices: Invoice[],
+    options: Pick<ProcessOptions, 'duplicatePolicy'> = {}
+  ): ProcessFileResult {
+    const store = useInvoiceStore.getState();
+    const fileInfo: FileInfo = {
+      id: crypto.randomUUID ? crypto.randomUUID() : Math.random().toString(36),
+      fileName: sourceName,
+      uploadDate: new Date(),
+      fileSize: 0,
+      status: 'completed',
+      invoiceCount: invoices.length,
+      lastProcessedDate: new Date(),
+      sourceType,
+    };
+    store.addFile(fileInfo);
+
+    const stamped = invoices.map(invoice => ({
+      ...invoice,
+      sourceType,
+      sourceFileId: fileInfo.id,
+    }));
+    const duplicates = this.importInvoices(
+      fileInfo.id,
+      stamped,
+      options.duplicatePolicy
+    );
+
+    return { success: true, fileInfo, invoices: stamped, duplicates };
+  }
+
+  /**
+   * Parse a file without committing anything to the store (import preview)
+   */
+  async previewFile(file: File, options: ParseOptions = {}): Promise<ParseResult> {
+    const validation = validateCSVFile(file);
+    if (!validation.valid) {
+      return {
+        success: false,
+        invoices: [],
+        errors: [{ row: -1, message: validation.error || '檔案驗證失敗' }],
+        totalRows: 0,
+        processedRows: 0,
+      };
+    }
+
+    return parseInvoiceFile(file, options);
+  }
+
+  /**
+   * Parse a statement with a (draft) profile without touching the store
+   */
+  async previewStatementFile(
+    file: File,
+    profile: StatementProfile,
+    options: ParseOptions = {}
+  ): Promise<ParseResult> {
+    const validation = validateStatementFile(file);
+    if (!validation.valid) {
+      return {
+        success: false,
+        invoices: [],
+        errors: [{ row: -1, message: validation.error || '檔案驗證失敗' }],
+        totalRows: 0,
+        processedRows: 0,
+      };
+    }
+
+    return parseStatementCSV(file, profile, options);
+  }
+
   /**
    * Process multiple files
    */
   async processFiles(
     files: File[], 
-    options: ParseOptions = {}
-  ): Promise<Array<{ success: boolean; fileInfo: FileInfo; invoices: any[]; errors?: string[] }>> {
+    options: ProcessOptions = {}
+  ): Promise<ProcessFileResult[]> {
     const results = [];
     
     for (let i = 0; i < files.length; i++) {
       const file = files[i];
       
-      const fileOptions: ParseOptions = {
+      const fileOptions: ProcessOptions = {
         ...options,
         onProgress: (progress, message) => {
           const overallProgress = ((i / files.length) * 100) + (progress / files.length);
@@ -170,6 +489,11 @@ export class CSVService {
       
       const result = await this.processFile(file, fileOptions);
       results.push(result);
+
+      // Stop the batch once the user cancels
+      if (result.cancelled || options.signal?.aborted) {
+        break;
+      }
       
       // If processing fails and user doesn't want to skip errors, stop
       if (!result.success && !options.skipErrors) {
@@ -181,23 +505,45 @@ export class CSVService {
   }
 
   /**
-   * Reprocess an existing file
+   * Reprocess an existing file; a successful run can be undone
    */
   async reprocessFile(
-    fileId: string, 
-    options: ParseOptions = {}
-  ): Promise<{ success: boolean; fileInfo: FileInfo; invoices: any[]; errors?: string[] }> {
+    fileId: string,
+    options: ProcessOptions = {}
+  ): Promise<ProcessFileResult> {
+    return this.withProcessingLock(options, async () => {
+      const before = getHistoryData(useInvoiceStore.getState());
+      const result = await this.reprocessStoredFile(fileId, options);
+      if (result.success) {
+        useInvoiceStore
+          .getState()
+          .captureHistory(`重新處理 ${result.fileInfo.fileName}`, before);
+      }
+      return result;
+    });
+  }
+
+  private async reprocessStoredFile(
+    fileId: string,
+    options: ProcessOptions
+  ): Promise<ProcessFileResult> {
     const store = useInvoiceStore.getState();
-    const fileInfo = store.files.find(f => f.id === fileId);
+    const storedFileInfo = store.files.find(f => f.id === fileId);
     
-    if (!fileInfo) {
+    if (!storedFileInfo) {
       throw new Error('找不到指定的檔案');
     }
 
-    if (!fileInfo.originalFileData) {
+    const fileInfo = await this.moveInlineOriginal(storedFileInfo);
+    const file = await this.loadOriginalFile(fileInfo);
+    if (!file) {
       throw new Error('無法重新處理：原始檔案資料未保存，請重新上傳檔案');
     }
 
+    if (fileInfo.sourceType === 'statement') {
+      return this.reprocessStatementFile(fileInfo, file, options);
+    }
+
     try {
       // Set processing state
       store.setLoading(true);
@@ -210,26 +556,15 @@ export class CSVService {
         lastProcessedDate: new Date(),
       });
 
-      // Convert base64 back to File object
-      const binaryString = atob(fileInfo.originalFileData);
-      const bytes = new Uint8Array(binaryString.length);
-      for (let i = 0; i < binaryString.length; i++) {
-        bytes[i] = binaryString.charCodeAt(i);
-      }
-      const blob = new Blob([bytes], { type: 'text/csv' });
-      const file = new File([blob], fileInfo.fileName, { type: 'text/csv' });
-
-      // Remove old invoices associated with this file
-      const remainingInvoices = store.invoices.filter(invoice => 
-        !invoice.id.startsWith(`${fileInfo.fileName}_`)
-      );
-      
-      // Update store with remaining invoices
-      store.setInvoices(remainingInvoices);
+      const columnMapping =
+        options.columnMapping ??
+        fileInfo.columnMapping ??
+        findMappingProfile(fileInfo.fileName, store.mappingProfiles)?.mapping;
 
       // Parse the file again
-      const parseResult = await parseInvoiceCSV(file, {
+      const parseResult = await parseInvoiceFile(file, {
         ...options,
+        columnMapping,
         onProgress: (progress, message) => {
           // Update file status during processing
           store.updateFile(fileId, {
@@ -241,24 +576,50 @@ export class CSVService {
         },
       });
 
+      if (parseResult.cancelled) {
+        // Restore the previous state; the stored invoices are untouched
+        store.updateFile(fileId, {
+          status: fileInfo.status,
+          errorMessage: fileInfo.errorMessage,
+        });
+        return {
+          success: false,
+          cancelled: true,
+          fileInfo,
+          invoices: [],
+          errors: ['已取消解析'],
+        };
+      }
+
       // Create updated file info
       const updatedFileInfo = createFileInfo(file, parseResult);
       updatedFileInfo.id = fileId; // Keep the same ID
-      updatedFileInfo.originalFileData = fileInfo.originalFileData; // Keep original data
+      updatedFileInfo.originalFileHash = fileInfo.originalFileHash; // Keep original data
+      updatedFileInfo.originalFileData = fileInfo.originalFileData;
       updatedFileInfo.uploadDate = fileInfo.uploadDate; // Keep original upload date
       updatedFileInfo.lastProcessedDate = new Date(); // Update processing date
+      updatedFileInfo.columnMapping = columnMapping;
 
       // Update file info in store
       store.updateFile(fileId, updatedFileInfo);
 
       if (parseResult.success && parseResult.invoices.length > 0) {
-        // Add new invoices to store
-        store.addInvoices(parseResult.invoices);
+        // Replace this file's old invoices with the newly parsed ones
+        const invoices = parseResult.invoices.map(invoice => ({
+          ...invoice,
+          sourceFileId: fileId,
+        }));
+        const duplicates = this.importInvoices(
+          fileId,
+          invoices,
+          options.duplicatePolicy
+        );
         
         return {
           success: true,
           fileInfo: updatedFileInfo,
-          invoices: parseResult.invoices,
+          invoices,
+          duplicates,
         };
       } else {
         // Handle parsing errors
@@ -302,6 +663,170 @@ export class CSVService {
     }
   }
 
+  /**
+   * Reprocess a statement file with its (possibly edited) profile
+   */
+  private async reprocessStatementFile(
+    fileInfo: FileInfo,
+    file: File,
+    options: ProcessOptions
+  ): Promise<ProcessFileResult> {
+    const store = useInvoiceStore.getState();
+    const profile = store.statementProfiles.find(
+      p => p.id === fileInfo.statementProfileId
+    );
+    if (!profile) {
+      throw new Error('無法重新處理：找不到此對帳單使用的匯入設定檔');
+    }
+
+    try {
+      store.setLoading(true);
+      store.setError(null);
+      store.updateFile(fileInfo.id, {
+        status: 'processing',
+        errorMessage: undefined,
+        lastProcessedDate: new Date(),
+      });
+
+      const parseResult = await parseStatementCSV(file, profile, options);
+
+      if (parseResult.cancelled) {
+        store.updateFile(fileInfo.id, {
+          status: fileInfo.status,
+          errorMessage: fileInfo.errorMessage,
+        });
+        return {
+          success: false,
+          cancelled: true,
+          fileInfo,
+          invoices: [],
+          errors: ['已取消解析'],
+        };
+      }
+
+      return this.commitParseResult(fileInfo, file, parseResult, options);
+    } catch (error) {
+      const appError = errorService.handleFileError(error, fileInfo.fileName);
+      store.setError(appError.message);
+      store.updateFile(fileInfo.id, {
+        status: 'error',
+        errorMessage: appError.message,
+        lastProcessedDate: new Date(),
+      });
+
+      return {
+        success: false,
+        fileInfo,
+        invoices: [],
+        errors: [appError.message],
+      };
+    } finally {
+      store.setLoading(false);
+    }
+  }
+
+  /**
+   * Keep the upload for reprocessing: as a Blob in the original file store,
+   * or inline as base64 where IndexedDB is unavailable
+   */
+  private async saveOriginalFile(
+    file: File
+  ): Promise<Pick<FileInfo, 'originalFileHash' | 'originalFileData'>> {
+    if (originalFileStore.isAvailable()) {
+      return { originalFileHash: await originalFileStore.save(file) };
+    }
+
+    try {
+      return { originalFileData: toBase64(new Uint8Array(await file.arrayBuffer())) };
+    } catch (error) {
+      reportUnsavedOriginal(error);
+      return {};
+    }
+  }
+
+  private async loadOriginalFile(fileInfo: FileInfo): Promise<File | null> {
+    if (fileInfo.originalFileHash) {
+      return originalFileStore.load(fileInfo.originalFileHash, fileInfo.fileName);
+    }
+    return fileInfo.originalFileData
+      ? this.decodeOriginalFile(fileInfo.originalFileData, fileInfo.fileName)
+      : null;
+  }
+
+  /**
+   * Files imported before originals were stored as Blobs carry them as
+   * base64; move them to the original file store when they are reprocessed
+   */
+  private async moveInlineOriginal(fileInfo: FileInfo): Promise<FileInfo> {
+    if (!fileInfo.originalFileData || !originalFileStore.isAvailable()) {
+      return fileInfo;
+    }
+
+    const originalFileHash = await originalFileStore.save(
+      this.decodeOriginalFile(fileInfo.originalFileData, fileInfo.fileName)
+    );
+    if (!originalFileHash) {
+      return fileInfo;
+    }
+    const updates = { originalFileHash, originalFileData: undefined };
+    useInvoiceStore.getState().updateFile(fileInfo.id, updates);
+    return { ...fileInfo, ...updates };
+  }
+
+  /**
+   * Delete stored originals that no profile's file refers to any more, nor a
+   * file that undo or redo would bring back; runs under the processing lock,
+   * with other tabs' latest files loaded first
+   */
+  async pruneOriginalFiles(): Promise<void> {
+    if (!originalFileStore.isAvailable() || vaultService.isLocked()) return;
+
+    await runExclusive(PROCESSING_LOCK, async () => {
+      await reloadPersistedState();
+      const state = useInvoiceStore.getState();
+      const files = [
+        ...getAllProfileData(state).files,
+        ...getHistoryRecords([...state.undoStack, ...state.redoStack], 'files'),
+      ];
+      const hashes = files.flatMap(file => (file.originalFileHash ? [file.originalFileHash] : []));
+      try {
+        await originalFileStore.prune(hashes);
+      } catch (error) {
+        console.warn('Failed to prune original file data:', error);
+      }
+    });
+  }
+
+  private decodeOriginalFile(data: string, fileName: string): File {
+    const blob = new Blob([fromBase64(data)], { type: 'text/csv' });
+    return new File([blob], fileName, { type: 'text/csv' });
+  }
+
+  /**
+   * Replace a file's invoices in the store, checking them against invoices
+   * imported from other files and applying the duplicate policy
+   */
+  private importInvoices(
+    fileId: string,
+    invoices: Invoice[],
+    policy?: DuplicatePolicy
+  ): DuplicateSummary {
+    const store = useInvoiceStore.getState();
+    const duplicatePolicy = policy ?? store.settings.duplicatePolicy;
+    const otherInvoices = store.invoices.filter(
+      invoice => invoice.sourceFileId !== fileId
+    );
+
+    const report = detectDuplicates(invoices, otherInvoices);
+    const { invoices: accepted, removedIds } = applyDuplicatePolicy(
+      report,
+      duplicatePolicy
+    );
+    store.replaceFileInvoices(fileId, accepted, removedIds);
+
+    return summarizeDuplicates(report, duplicatePolicy);
+  }
+
   /**
    * Remove a file and its associated invoices
    */
@@ -0,0 +1,108 @@
+import { DateDisplayMode } from '@/types';
+
+/**
+ * Date parsing and display helpers shared by importers, tables, charts and exports
+ * ROC (民國) years are Gregorian years minus 1911, e.g. 113/05/01 = 2024/05/01.
+ */
+
+const ROC_YEAR_OFFSET = 1911;
+
+export const DATE_DISPLAY_LABELS: Record<DateDisplayMode, string> = {
+  gregorian: '西元（2024/05/01）',
+  roc: '民國（113/05/01）',
+};
+
+export type DateDisplayStyle = 'date' | 'month' | 'short' | 'long' | 'datetime';
+
+/**
+ * Build a date only if the year/month/day combination actually exists
+ */
+function createValidDate(year: number, month: number, day: number): Date | null {
+  const date = new Date(year, month - 1, day);
+  if (date.getFullYear() !== year || date.getMonth() !== month - 1 || date.getDate() !== day) {
+    return null;
+  }
+  return date;
+}
+
+/**
+ * Parse an ROC date such as 1130501, 113/05/01, 113-5-1, 113.05.01 or 民國113年5月1日
+ */
+export function parseROCDate(value: string): Date | null {
+  const text = value.trim().replace(/^民國\s*/, '');
+
+  const match =
+    text.match(/^(\d{3})(\d{2})(\d{2})$/) ??
+    text.match(/^(\d{2,3})[/.-](\d{1,2})[/.-](\d{1,2})$/) ??
+    text.match(/^(\d{2,3})\s*年\s*(\d{1,2})\s*月\s*(\d{1,2})\s*日?$/);
+  if (!match) return null;
+
+  const rocYear = parseInt(match[1]);
+  if (rocYear < 1) return null;
+  return createValidDate(rocYear + ROC_YEAR_OFFSET, parseInt(match[2]), parseInt(match[3]));
+}
+
+/**
+ * Parse a Gregorian date such as 2024/05/01, 2024-5-1, 20240501 or 2024年5月1日
+ */
+export function parseGregorianDate(value: string): Date | null {
+  const text = value.trim().split(/[\sT]/)[0];
+
+  const match =
+    text.match(/^(\d{4})(\d{2})(\d{2})$/) ??
+    text.match(/^(\d{4})[/.-](\d{1,2})[/.-](\d{1,2})$/) ??
+    text.match(/^(\d{4})年(\d{1,2})月(\d{1,2})日?$/);
+  if (!match) return null;
+
+  return createValidDate(parseInt(match[1]), parseInt(match[2]), parseInt(match[3]));
+}
+
+/**
+ * Parse a date written in either calendar
+ * Four-digit years are Gregorian; 7-digit compact dates and 2–3 digit years are ROC.
+ */
+export function parseFlexibleDate(value: string): Date | null {
+  if (!value) return null;
+  return parseGregorianDate(value) ?? parseROCDate(value.trim().split(/[\sT]/)[0]);
+}
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+/**
+ * Year as shown in the chosen calendar
+ */
+export function getDisplayYear(date: Date, mode: DateDisplayMode): number {
+  return mode === 'roc' ? date.getFullYear() - ROC_YEAR_OFFSET : date.getFullYear();
+}
+
+/**
+ * Format a date for display in the chosen calendar
+ *   date:     2024/05/01 | 113/05/01
+ *   month:    2024/05    | 113/05
+ *   short:    05/01 (same in both calendars)
+ *   long:     2024年05月01日 | 民國113年05月01日
+ *   datetime: long plus HH:mm
+ */
+export function formatDisplayDate(
+  date: Date,
+  mode: DateDisplayMode = 'gregorian',
+  style: DateDisplayStyle = 'date'
+): string {
+  const year = getDisplayYear(date, mode);
+  const month = pad(date.getMonth() + 1);
+  const day = pad(date.getDate());
+
+  switch (style) {
+    case 'month':
+      return `${year}/${month}`;
+    case 'short':
+      return `${month}/${day}`;
+    case 'long':
+    case 'datetime': {
+      const long = `${mode === 'roc' ? '民國' : ''}${year}年${month}月${day}日`;
+      return style === 'long' ? long : `${long} ${pad(date.getHours())}:${pad(date.getMinutes())}`;
+    }
+    default:
+      return `${year}/${month}/${day}`;
+  }
+}
@@ -0,0 +1,147 @@
+import { DuplicatePolicy, Invoice } from '@/types';
+
+/**
+ * Duplicate invoice detection for imports
+ * Overlapping exports (e.g. two monthly downloads sharing a few days) contain
+ * the same invoices; these are matched against the store before adding them.
+ */
+
+export interface DuplicatePair {
+  existing: Invoice;
+  incoming: Invoice;
+}
+
+export interface DuplicateReport {
+  newInvoices: Invoice[];
+  identical: DuplicatePair[];
+  conflicts: DuplicatePair[];
+}
+
+export interface DuplicateSummary {
+  policy: DuplicatePolicy;
+  newCount: number;
+  identicalCount: number;
+  conflictCount: number;
+  conflicts: DuplicatePair[];
+}
+
+export type DuplicateResolution = 'existing' | 'incoming' | 'both';
+
+export const DUPLICATE_POLICY_LABELS: Record<DuplicatePolicy, string> = {
+  skip: '略過重複',
+  replace: '以新檔案取代',
+  'keep-both': '全部保留',
+};
+
+const toDateKey = (date: Date): string =>
+  `${date.getFullYear()}-${date.getMonth() + 1}-${date.getDate()}`;
+
+/**
+ * Identity of an invoice: invoice number plus date and merchant, since
+ * invoice numbers are reused across periods
+ */
+export function getInvoiceKey(invoice: Invoice): string {
+  const merchant = invoice.merchantId || invoice.merchantName;
+  return `${invoice.invoiceNumber}|${toDateKey(invoice.invoiceDate)}|${merchant}`;
+}
+
+/**
+ * Compare the content of two invoices with the same identity
+ */
+export function isSameInvoiceContent(a: Invoice, b: Invoice): boolean {
+  if (
+    a.totalAmount !== b.totalAmount ||
+    a.status !== b.status ||
+    a.merchantName !== b.merchantName ||
+    a.items.length !== b.items.length
+  ) {
+    return false;
+  }
+
+  const itemKey = (item: Invoice['items'][number]) =>
+    `${item.itemName}|${item.amount}`;
+  const aItems = a.items.map(itemKey).sort();
+  const bItems = b.items.map(itemKey).sort();
+  return aItems.every((key, index) => key === bItems[index]);
+}
+
+/**
+ * Split incoming invoices into new, identical and conflicting ones
+ */
+export function detectDuplicates(
+  incoming: Invoice[],
+  existing: Invoice[]
+): DuplicateReport {
+  const existingByKey = new Map<string, Invoice>();
+  existing.forEach(invoice => {
+    existingByKey.set(getInvoiceKey(invoice), invoice);
+  });
+
+  const report: DuplicateReport = {
+    newInvoices: [],
+    identical: [],
+    conflicts: [],
+  };
+
+  incoming.forEach(invoice => {
+    const match = existingByKey.get(getInvoiceKey(invoice));
+    if (!match) {
+      report.newInvoices.push(invoice);
+    } else if (isSameInvoiceContent(match, invoice)) {
+      report.identical.push({ existing: match, incoming: invoice });
+    } else {
+      report.conflicts.push({ existing: match, incoming: invoice });
+    }
+  });
+
+  return report;
+}
+
+/**
+ * Decide which invoices to add and which existing ones to drop
+ * Identical duplicates are only added again under 'keep-both'.
+ */
+export function applyDuplicatePolicy(
+  report: DuplicateReport,
+  policy: DuplicatePolicy
+): { invoices: Invoice[]; removedIds: string[] } {
+  const duplicates = [...report.identical, ...report.conflicts];
+
+  switch (policy) {
+    case 'replace':
+      return {
+        invoices: [
+          ...report.newInvoices,
+          ...duplicates.map(pair => pair.incoming),
+        ],
+        removedIds: duplicates.map(pair => pair.existing.id),
+      };
+    case 'keep-both':
+      return {
+        invoices: [
+          ...report.newInvoices,
+          ...duplicates.map(pair => pair.incoming),
+        ],
+        removedIds: [],
+      };
+    case 'skip':
+    default:
+      return { invoices: report.newInvoices, removedIds: [] };
+  }
+}
+
+/**
+ * Summarize a report for the upload result
+ */
+export function summarizeDuplicates(
+  report: DuplicateReport,
+  policy: DuplicatePolicy
+): DuplicateSummary {
+  return {
+    policy,
+    newCount: report.newInvoices.length,
+    identicalCount: report.identical.length,
+    conflictCount: report.conflicts.length,
+    conflicts: report.conflicts,
+  };
+}
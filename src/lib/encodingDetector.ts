@@ -0,0 +1,177 @@
+import { FileEncoding } from '@/types';
+
+/**
+ * Encoding detection for uploaded invoice files
+ * Taiwan e-invoice exports are either UTF-8 or Big5/CP950 (Excel on
+ * Traditional Chinese Windows re-saves CSV files as CP950).
+ */
+
+export interface EncodingDetectionResult {
+  encoding: FileEncoding;
+  confidence: number; // 0 - 1
+  hasBOM: boolean;
+}
+
+// Only the beginning of the file is inspected; 256KB covers thousands of rows
+const SAMPLE_SIZE = 256 * 1024;
+
+const UTF8_BOM = [0xef, 0xbb, 0xbf];
+
+/**
+ * Human readable labels for the supported encodings
+ */
+export const ENCODING_LABELS: Record<FileEncoding, string> = {
+  'utf-8': 'UTF-8',
+  big5: 'Big5 (CP950)',
+};
+
+/**
+ * Read the raw bytes of a File/Blob
+ * Falls back to FileReader where Blob.arrayBuffer is unavailable (jsdom)
+ */
+export async function readFileBytes(file: Blob): Promise<Uint8Array> {
+  if (typeof file.arrayBuffer === 'function') {
+    return new Uint8Array(await file.arrayBuffer());
+  }
+
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(new Uint8Array(reader.result as ArrayBuffer));
+    reader.onerror = () => reject(reader.error ?? new Error('檔案讀取失敗'));
+    reader.readAsArrayBuffer(file);
+  });
+}
+
+/**
+ * Check whether the byte sample starts with a UTF-8 BOM
+ */
+function hasUtf8BOM(bytes: Uint8Array): boolean {
+  return UTF8_BOM.every((byte, index) => bytes[index] === byte);
+}
+
+/**
+ * Scan the sample as UTF-8
+ * Returns the number of multi-byte sequences, or -1 if the sample is invalid.
+ * A sequence cut off by the end of the sample is not treated as invalid.
+ */
+function scanUtf8(bytes: Uint8Array, truncated: boolean): number {
+  let multiByteSequences = 0;
+  let i = 0;
+
+  while (i < bytes.length) {
+    const byte = bytes[i];
+
+    if (byte < 0x80) {
+      i++;
+      continue;
+    }
+
+    let length: number;
+    if (byte >= 0xc2 && byte <= 0xdf) {
+      length = 2;
+    } else if (byte >= 0xe0 && byte <= 0xef) {
+      length = 3;
+    } else if (byte >= 0xf0 && byte <= 0xf4) {
+      length = 4;
+    } else {
+      return -1;
+    }
+
+    if (i + length > bytes.length) {
+      return truncated ? multiByteSequences : -1;
+    }
+
+    for (let j = 1; j < length; j++) {
+      if ((bytes[i + j] & 0xc0) !== 0x80) {
+        return -1;
+      }
+    }
+
+    multiByteSequences++;
+    i += length;
+  }
+
+  return multiByteSequences;
+}
+
+/**
+ * Scan the sample as Big5/CP950 (lead 0x81-0xFE, trail 0x40-0x7E or 0xA1-0xFE)
+ * Returns the ratio of valid double-byte pairs among all non-ASCII sequences.
+ */
+function scanBig5(bytes: Uint8Array): { ratio: number; pairs: number } {
+  let validPairs = 0;
+  let invalidSequences = 0;
+  let i = 0;
+
+  while (i < bytes.length) {
+    const byte = bytes[i];
+
+    if (byte < 0x80) {
+      i++;
+      continue;
+    }
+
+    const trail = bytes[i + 1];
+    if (trail === undefined) {
+      break;
+    }
+
+    const validLead = byte >= 0x81 && byte <= 0xfe;
+    const validTrail =
+      (trail >= 0x40 && trail <= 0x7e) || (trail >= 0xa1 && trail <= 0xfe);
+
+    if (validLead && validTrail) {
+      validPairs++;
+      i += 2;
+    } else {
+      invalidSequences++;
+      i++;
+    }
+  }
+
+  const total = validPairs + invalidSequences;
+  return { ratio: total > 0 ? validPairs / total : 0, pairs: validPairs };
+}
+
+/**
+ * Detect the text encoding of an invoice file from its bytes
+ * Order of evidence: BOM, UTF-8 validity, Big5 lead/trail byte heuristics.
+ */
+export function detectEncoding(bytes: Uint8Array): EncodingDetectionResult {
+  if (hasUtf8BOM(bytes)) {
+    return { encoding: 'utf-8', confidence: 1, hasBOM: true };
+  }
+
+  const truncated = bytes.length > SAMPLE_SIZE;
+  const sample = truncated ? bytes.subarray(0, SAMPLE_SIZE) : bytes;
+
+  const utf8Sequences = scanUtf8(sample, truncated);
+  if (utf8Sequences > 0) {
+    return { encoding: 'utf-8', confidence: 0.99, hasBOM: false };
+  }
+  if (utf8Sequences === 0) {
+    // Pure ASCII decodes identically in both encodings
+    return { encoding: 'utf-8', confidence: 0.5, hasBOM: false };
+  }
+
+  const big5 = scanBig5(sample);
+  if (big5.pairs > 0 && big5.ratio >= 0.95) {
+    return { encoding: 'big5', confidence: big5.ratio, hasBOM: false };
+  }
+
+  // Neither encoding fits cleanly; UTF-8 keeps the replacement characters visible
+  return { encoding: 'utf-8', confidence: 0.1, hasBOM: false };
+}
+
+/**
+ * Decode bytes with the given encoding (a UTF-8 BOM is stripped)
+ */
+export function decodeBytes(bytes: Uint8Array, encoding: FileEncoding): string {
+  try {
+    return new TextDecoder(encoding).decode(bytes);
+  } catch (error) {
+    throw new Error(
+      `檔案編碼 ${ENCODING_LABELS[encoding]} 無法解碼: ${error instanceof Error ? error.message : '未知錯誤'}`
+    );
+  }
+}
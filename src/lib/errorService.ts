@@ -88,10 +88,14 @@ class ErrorService {
   // Handle storage errors
   handleStorageError(error: unknown): AppError {
     const errorMessage = error instanceof Error ? error.message : String(error);
-    
+    const isQuotaExceeded =
+      error instanceof Error && error.name === 'QuotaExceededError';
+
     return this.createError(
       'storage-error',
-      '資料儲存發生問題',
+      isQuotaExceeded
+        ? '儲存空間已滿，最近的變更未能保存。請刪除不需要的檔案後再試'
+        : '資料儲存發生問題',
       errorMessage,
       error instanceof Error ? error : undefined
     );
@@ -1,11 +1,12 @@
-import { Invoice } from '@/types';
+import { DateDisplayMode, Invoice } from '@/types';
 import Papa from 'papaparse';
+import { formatDisplayDate } from './dateFormat';
 
 // Export field configuration
 export interface ExportField {
   key: string;
   label: string;
-  getValue: (invoice: Invoice) => string | number;
+  getValue: (invoice: Invoice, dateDisplay?: DateDisplayMode) => string | number;
   category: 'invoice' | 'merchant' | 'amount' | 'date';
 }
 
@@ -20,7 +21,7 @@ export const EXPORT_FIELDS: ExportField[] = [
   {
     key: 'invoiceDate',
     label: '發票日期',
-    getValue: (invoice) => invoice.invoiceDate.toLocaleDateString('zh-TW'),
+    getValue: (invoice, dateDisplay) => formatDisplayDate(invoice.invoiceDate, dateDisplay),
     category: 'date'
   },
   {
@@ -80,6 +81,7 @@ export interface ExportOptions {
   selectedFields: string[];
   includeItems: boolean;
   filename?: string;
+  dateDisplay?: DateDisplayMode;
 }
 
 /**
@@ -91,7 +93,7 @@ export async function exportInvoicesToCSV(
   progressId?: string
 ): Promise<{ success: boolean; error?: string; filename?: string }> {
   try {
-    const { selectedFields, includeItems, filename } = options;
+    const { selectedFields, includeItems, filename, dateDisplay } = options;
     
     // Update progress if tracking
     if (progressId) {
@@ -117,10 +119,10 @@ export async function exportInvoicesToCSV(
     
     if (includeItems) {
       // Export with item details (one row per item)
-      csvData = generateItemDetailCSV(invoices, validFields);
+      csvData = generateItemDetailCSV(invoices, validFields, dateDisplay);
     } else {
       // Export invoice summary (one row per invoice)
-      csvData = generateInvoiceSummaryCSV(invoices, validFields);
+      csvData = generateInvoiceSummaryCSV(invoices, validFields, dateDisplay);
     }
 
     if (progressId) {
@@ -155,11 +157,15 @@ export async function exportInvoicesToCSV(
 /**
  * Generate CSV data for invoice summary (one row per invoice)
  */
-function generateInvoiceSummaryCSV(invoices: Invoice[], fields: ExportField[]): any[] {
+function generateInvoiceSummaryCSV(
+  invoices: Invoice[],
+  fields: ExportField[],
+  dateDisplay?: DateDisplayMode
+): any[] {
   return invoices.map(invoice => {
     const row: any = {};
     fields.forEach(field => {
-      row[field.label] = field.getValue(invoice);
+      row[field.label] = field.getValue(invoice, dateDisplay);
     });
     return row;
   });
@@ -168,7 +174,11 @@ function generateInvoiceSummaryCSV(invoices: Invoice[], fields: ExportField[]):
 /**
  * Generate CSV data with item details (one row per item)
  */
-function generateItemDetailCSV(invoices: Invoice[], fields: ExportField[]): any[] {
+function generateItemDetailCSV(
+  invoices: Invoice[],
+  fields: ExportField[],
+  dateDisplay?: DateDisplayMode
+): any[] {
   const rows: any[] = [];
   
   invoices.forEach(invoice => {
@@ -176,7 +186,7 @@ function generateItemDetailCSV(invoices: Invoice[], fields: ExportField[]): any[
       // If no items, create one row for the invoice
       const row: any = {};
       fields.forEach(field => {
-        row[field.label] = field.getValue(invoice);
+        row[field.label] = field.getValue(invoice, dateDisplay);
       });
       // Add empty item fields
       row['品項名稱'] = '';
@@ -188,7 +198,7 @@ function generateItemDetailCSV(invoices: Invoice[], fields: ExportField[]): any[
       invoice.items.forEach(item => {
         const row: any = {};
         fields.forEach(field => {
-          row[field.label] = field.getValue(invoice);
+          row[field.label] = field.getValue(invoice, dateDisplay);
         });
         // Add item fields
         row['品項名稱'] = item.itemName;
@@ -1,5 +1,7 @@
-import { Invoice, FilterCriteria, FilteredData } from '@/types';
-import { calculateBasicStatistics } from './statisticsService';
+import { Invoice, FilterCriteria, FilteredData, DateDisplayMode } from '@/types';
+import { formatDisplayDate } from './dateFormat';
+import { calculateBasicStatistics, getValidInvoices } from './statisticsService';
+import { getCarrierDisplayName, getCarrierKey } from './carrierRegistry';
 
 /**
  * Apply filters to invoices based on the given criteria
@@ -41,6 +43,11 @@ export function applyFilters(invoices: Invoice[], filters: FilterCriteria): Invo
       }
     }
 
+    // Carrier filter ('' selects invoices without a carrier)
+    if (filters.carrierKey != null && getCarrierKey(invoice) !== filters.carrierKey) {
+      return false;
+    }
+
     // Amount range filter
     if (filters.amountRange.min !== null || filters.amountRange.max !== null) {
       const amount = invoice.totalAmount;
@@ -63,7 +70,8 @@ export function applyFilters(invoices: Invoice[], filters: FilterCriteria): Invo
  */
 export function getFilteredData(invoices: Invoice[], filters: FilterCriteria): FilteredData {
   const filteredInvoices = applyFilters(invoices, filters);
-  const statistics = calculateBasicStatistics(filteredInvoices);
+  // Excluded invoices stay listed but are not counted
+  const statistics = calculateBasicStatistics(getValidInvoices(filteredInvoices));
   
   return {
     invoices: filteredInvoices,
@@ -80,28 +88,37 @@ export function hasActiveFilters(filters: FilterCriteria): boolean {
     filters.dateRange.end ||
     filters.merchantName.trim() ||
     filters.amountRange.min !== null ||
-    filters.amountRange.max !== null
+    filters.amountRange.max !== null ||
+    filters.carrierKey != null
   );
 }
 
 /**
  * Get a summary of active filters for display
  */
-export function getFilterSummary(filters: FilterCriteria): string[] {
+export function getFilterSummary(
+  filters: FilterCriteria,
+  dateDisplay: DateDisplayMode = 'gregorian',
+  carrierLabels: Record<string, string> = {}
+): string[] {
   const summary: string[] = [];
   
   if (filters.dateRange.start) {
-    summary.push(`開始日期: ${filters.dateRange.start.toLocaleDateString('zh-TW')}`);
+    summary.push(`開始日期: ${formatDisplayDate(filters.dateRange.start, dateDisplay)}`);
   }
   
   if (filters.dateRange.end) {
-    summary.push(`結束日期: ${filters.dateRange.end.toLocaleDateString('zh-TW')}`);
+    summary.push(`結束日期: ${formatDisplayDate(filters.dateRange.end, dateDisplay)}`);
   }
   
   if (filters.merchantName.trim()) {
     summary.push(`商店: ${filters.merchantName}`);
   }
   
+  if (filters.carrierKey != null) {
+    summary.push(`載具: ${getCarrierDisplayName(filters.carrierKey, carrierLabels)}`);
+  }
+  
   if (filters.amountRange.min !== null) {
     summary.push(`最小金額: $${filters.amountRange.min}`);
   }
@@ -127,6 +144,7 @@ export function createEmptyFilters(): FilterCriteria {
       min: null,
       max: null,
     },
+    carrierKey: null,
   };
 }
 
@@ -0,0 +1,490 @@
+import {
+  createJSONStorage,
+  type PersistStorage,
+  type StorageValue,
+} from 'zustand/middleware';
+import { errorService } from './errorService';
+
+/**
+ * IndexedDB storage adapter for the zustand persist middleware
+ * Each entity array (invoices, files, ...) gets its own object store keyed by
+ * id, so a change only rewrites the records that changed instead of
+ * serializing the whole state. Everything else lives in a `meta` store.
+ * Data left in localStorage under the persist name is migrated on first load.
+ * Stored data the app cannot load is copied, still encoded, to a separate
+ * `<name>-backup` database before anything may overwrite it.
+ */
+
+export interface IndexedDBStorageOptions<S> {
+  // State keys holding arrays of `{ id: string }` records
+  entities: Array<keyof S & string>;
+  // Bump when the entity list changes so the object stores are created
+  dbVersion?: number;
+  // Transforms each stored value (e.g. encryption); null stores values as they are
+  getCodec?: () => StorageCodec | null;
+  // While locked nothing is written, so an emptied store cannot overwrite data
+  isLocked?: () => boolean;
+  // Called after a write that stored changes, e.g. to tell other tabs
+  onWrite?: () => void;
+}
+
+export interface StorageCodec {
+  encode: (value: unknown) => Promise<unknown>;
+  decode: (value: unknown) => Promise<unknown>;
+}
+
+export type IndexedDBStorage<S> = PersistStorage<S> & {
+  // Forget what was written so the next write stores every record again,
+  // e.g. after the codec changed
+  invalidate?: () => void;
+  // Resolves once every queued write is stored
+  flush?: () => Promise<void>;
+  // Copy the stored data as it is to the backup; nothing is written until the
+  // copy is stored. Resolves to whether it was.
+  backup?: (name: string, reason: string) => Promise<boolean>;
+};
+
+export interface StoredBackup {
+  savedAt: string;
+  reason: string;
+  // Values as stored, so encrypted data stays encrypted
+  meta: Array<[IDBValidKey, unknown]>;
+  records: Record<string, unknown[]>;
+}
+
+type EntityRecord = { id: string };
+
+const META_STORE = 'meta';
+const BACKUP_STORE = 'backups';
+const VERSION_KEY = 'version';
+const stateKey = (key: string) => `state.${key}`;
+const orderKey = (entity: string) => `order.${entity}`;
+
+// Database holding backups, or the localStorage key where IndexedDB is missing
+export const backupName = (name: string) => `${name}-backup`;
+
+// Arrays rebuilt by partialize (e.g. a slice) count as unchanged when their items are
+const isSameReference = (a: unknown, b: unknown) =>
+  a === b ||
+  (Array.isArray(a) &&
+    Array.isArray(b) &&
+    a.length === b.length &&
+    a.every((item, index) => item === b[index]));
+
+/**
+ * Copies with the same content count as unchanged too: the store deserializes
+ * every loaded record into a new object, which would otherwise rewrite (and
+ * re-encrypt) the whole database on the first write after each load. Dates
+ * compare equal to the strings a codec may have turned them into.
+ */
+const isSameValue = (a: unknown, b: unknown) =>
+  isSameReference(a, b) ||
+  (a !== undefined && b !== undefined && JSON.stringify(a) === JSON.stringify(b));
+
+export const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+export const transactionDone = (transaction: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () =>
+      reject(transaction.error ?? new Error('IndexedDB transaction aborted'));
+  });
+
+const openDatabase = (
+  name: string,
+  version: number,
+  entities: string[]
+): Promise<IDBDatabase> =>
+  new Promise((resolve, reject) => {
+    const request = indexedDB.open(name, version);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      [META_STORE, ...entities].forEach(storeName => {
+        if (!db.objectStoreNames.contains(storeName)) {
+          db.createObjectStore(
+            storeName,
+            storeName === META_STORE ? undefined : { keyPath: 'id' }
+          );
+        }
+      });
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+    request.onblocked = () =>
+      reject(new Error('資料庫升級被其他分頁阻擋，請關閉其他分頁後重新整理'));
+  });
+
+const openBackupDatabase = (name: string): Promise<IDBDatabase> =>
+  new Promise((resolve, reject) => {
+    const request = indexedDB.open(backupName(name), 1);
+    request.onupgradeneeded = () => request.result.createObjectStore(BACKUP_STORE);
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+/**
+ * Backups of stored data, keyed by when they were taken
+ */
+export async function readStoredBackups(name: string): Promise<StoredBackup[]> {
+  const db = await openBackupDatabase(name);
+  try {
+    return await requestToPromise(
+      db.transaction(BACKUP_STORE, 'readonly').objectStore(BACKUP_STORE).getAll()
+    );
+  } finally {
+    db.close();
+  }
+}
+
+/**
+ * Create the persist storage; falls back to localStorage where IndexedDB is
+ * unavailable (older browsers, some private modes, jsdom)
+ */
+export function createIndexedDBStorage<S>(
+  options: IndexedDBStorageOptions<S>
+): IndexedDBStorage<S> | undefined {
+  const localFallback = createJSONStorage<S>(() => localStorage);
+  if (typeof indexedDB === 'undefined' && !localFallback) {
+    return undefined;
+  }
+
+  const entities: string[] = options.entities;
+  const dbVersion = options.dbVersion ?? 1;
+  const getCodec = options.getCodec ?? (() => null);
+  const isLocked = options.isLocked ?? (() => false);
+  let dbPromise: Promise<IDBDatabase> | null = null;
+  let useFallback = typeof indexedDB === 'undefined';
+  // Set when stored data could not be read; writing then could lose it
+  let readOnly = false;
+  let reportedUnencodedFallback = false;
+
+  // What was last written or read; the latest equal copy replaces an entry, so
+  // later writes mostly compare by reference
+  let writtenRecords = new Map<string, Map<string, unknown>>();
+  let writtenMeta = new Map<string, unknown>();
+
+  // Writes are coalesced: only the latest value queued while a write runs is stored
+  let pendingValue: StorageValue<S> | null = null;
+  let writeQueue: Promise<void> = Promise.resolve();
+
+  const getDatabase = (name: string) => {
+    if (!dbPromise) {
+      dbPromise = openDatabase(name, dbVersion, entities);
+    }
+    return dbPromise;
+  };
+
+  const resetSnapshot = () => {
+    writtenRecords = new Map();
+    writtenMeta = new Map();
+  };
+
+  const decodeValue = (codec: StorageCodec | null, value: unknown) =>
+    codec ? codec.decode(value) : Promise.resolve(value);
+
+  // Values as stored, before decoding
+  const readStored = async (db: IDBDatabase) => {
+    const transaction = db.transaction([META_STORE, ...entities], 'readonly');
+    const metaStore = transaction.objectStore(META_STORE);
+    const [metaKeys, metaValues, ...entityRecords] = await Promise.all([
+      requestToPromise(metaStore.getAllKeys()),
+      requestToPromise(metaStore.getAll()),
+      ...entities.map(entity => requestToPromise(transaction.objectStore(entity).getAll())),
+    ]);
+    return { metaKeys, metaValues, entityRecords: entityRecords as unknown[][] };
+  };
+
+  const readAll = async (db: IDBDatabase): Promise<StorageValue<S> | null> => {
+    const {
+      metaKeys,
+      metaValues: rawMetaValues,
+      entityRecords: rawEntityRecords,
+    } = await readStored(db);
+
+    const codec = getCodec();
+    const metaValues = await Promise.all(
+      rawMetaValues.map(value => decodeValue(codec, value))
+    );
+    const entityRecords = await Promise.all(
+      rawEntityRecords.map(records =>
+        Promise.all(
+          records.map(
+            record => decodeValue(codec, record) as Promise<EntityRecord>
+          )
+        )
+      )
+    );
+
+    const meta = new Map<string, unknown>(
+      metaKeys.map((key, index) => [String(key), metaValues[index]])
+    );
+    if (!meta.has(VERSION_KEY)) {
+      return null;
+    }
+
+    const state: Record<string, unknown> = {};
+    meta.forEach((value, key) => {
+      if (key.startsWith('state.')) {
+        state[key.slice('state.'.length)] = value;
+      }
+    });
+
+    entities.forEach((entity, index) => {
+      const records = entityRecords[index];
+      const byId = new Map(records.map(record => [record.id, record]));
+      const order = (meta.get(orderKey(entity)) as string[] | undefined) ?? [];
+      const ordered = order
+        .map(id => byId.get(id))
+        .filter((record): record is EntityRecord => record !== undefined);
+      // Records missing from the order list (e.g. an interrupted write) go last
+      const orderedIds = new Set(order);
+      records.forEach(record => {
+        if (!orderedIds.has(record.id)) ordered.push(record);
+      });
+
+      state[entity] = ordered;
+      writtenRecords.set(entity, new Map(ordered.map(record => [record.id, record])));
+    });
+    writtenMeta = meta;
+
+    return { state: state as S, version: meta.get(VERSION_KEY) as number };
+  };
+
+  // Resolves to whether anything had changed
+  const write = async (db: IDBDatabase, value: StorageValue<S>): Promise<boolean> => {
+    const state = value.state as Record<string, unknown>;
+    const nextRecords = new Map<string, Map<string, unknown>>();
+    const nextMeta = new Map(writtenMeta);
+    const recordPuts: Array<[string, EntityRecord]> = [];
+    const recordDeletes: Array<[string, string]> = [];
+    const metaPuts: Array<[string, unknown]> = [];
+
+    const putMeta = (key: string, metaValue: unknown) => {
+      if (!isSameValue(writtenMeta.get(key), metaValue)) {
+        metaPuts.push([key, metaValue]);
+      }
+      nextMeta.set(key, metaValue);
+    };
+
+    entities.forEach(entity => {
+      const previous = writtenRecords.get(entity) ?? new Map<string, unknown>();
+      const records = (state[entity] as EntityRecord[] | undefined) ?? [];
+      const current = new Map<string, unknown>();
+
+      records.forEach(record => {
+        current.set(record.id, record);
+        if (!isSameValue(previous.get(record.id), record)) {
+          recordPuts.push([entity, record]);
+        }
+      });
+      previous.forEach((_, id) => {
+        if (!current.has(id)) recordDeletes.push([entity, id]);
+      });
+
+      putMeta(
+        orderKey(entity),
+        records.map(record => record.id)
+      );
+      nextRecords.set(entity, current);
+    });
+
+    Object.keys(state)
+      .filter(key => !entities.includes(key))
+      .forEach(key => putMeta(stateKey(key), state[key]));
+    putMeta(VERSION_KEY, value.version ?? 0);
+
+    if (recordPuts.length === 0 && recordDeletes.length === 0 && metaPuts.length === 0) {
+      // Equal copies: remember them so the next write compares by reference
+      writtenRecords = nextRecords;
+      writtenMeta = nextMeta;
+      return false;
+    }
+
+    // Encode before the transaction opens: it commits once its requests are
+    // done and cannot wait for other promises
+    const codec = getCodec();
+    const encode = (item: unknown) => (codec ? codec.encode(item) : Promise.resolve(item));
+    const encodedRecords = await Promise.all(recordPuts.map(([, record]) => encode(record)));
+    const encodedMeta = await Promise.all(metaPuts.map(([, metaValue]) => encode(metaValue)));
+
+    const transaction = db.transaction([META_STORE, ...entities], 'readwrite');
+    recordPuts.forEach(([entity], index) =>
+      transaction.objectStore(entity).put(encodedRecords[index])
+    );
+    recordDeletes.forEach(([entity, id]) => transaction.objectStore(entity).delete(id));
+    const metaStore = transaction.objectStore(META_STORE);
+    metaPuts.forEach(([key], index) => metaStore.put(encodedMeta[index], key));
+
+    await transactionDone(transaction);
+    writtenRecords = nextRecords;
+    writtenMeta = nextMeta;
+    return true;
+  };
+
+  const flush = async (name: string) => {
+    const value = pendingValue;
+    pendingValue = null;
+    if (!value || isLocked() || readOnly) return;
+
+    try {
+      if (await write(await getDatabase(name), value)) {
+        options.onWrite?.();
+      }
+    } catch (error) {
+      // Quota exceeded or aborted transaction: the next write starts from scratch
+      resetSnapshot();
+      errorService.handleStorageError(error);
+    }
+  };
+
+  const migrateLegacyData = async (
+    name: string,
+    db: IDBDatabase
+  ): Promise<StorageValue<S> | null> => {
+    const legacyValue = await localFallback?.getItem(name) ?? null;
+    if (!legacyValue) {
+      return null;
+    }
+
+    try {
+      await write(db, legacyValue);
+      localStorage.removeItem(name);
+    } catch (error) {
+      // Keep the localStorage copy so the migration is retried next time
+      resetSnapshot();
+      errorService.handleStorageError(error);
+    }
+    return legacyValue;
+  };
+
+  return {
+    getItem: async name => {
+      if (useFallback) {
+        return localFallback?.getItem(name) ?? null;
+      }
+
+      let db: IDBDatabase;
+      try {
+        db = await getDatabase(name);
+      } catch (error) {
+        errorService.handleStorageError(error);
+        useFallback = true;
+        return localFallback?.getItem(name) ?? null;
+      }
+
+      // Hydration is eager: every entity store is read and decoded here. The
+      // store's merge splits all profiles' records at once and writes are
+      // diffed against what was read, so records cannot arrive later
+      try {
+        resetSnapshot();
+        const value = (await readAll(db)) ?? (await migrateLegacyData(name, db));
+        readOnly = false;
+        return value;
+      } catch (error) {
+        // Start empty but leave the stored data alone
+        readOnly = true;
+        errorService.handleStorageError(error);
+        return null;
+      }
+    },
+
+    setItem: (name, value) => {
+      if (useFallback) {
+        if (readOnly) return;
+        // localStorage cannot hold encoded values; refuse rather than store plaintext
+        if (getCodec() || isLocked()) {
+          if (!reportedUnencodedFallback) {
+            reportedUnencodedFallback = true;
+            errorService.createError(
+              'storage-error',
+              '無法使用 IndexedDB，資料保險箱啟用時不會改存為未加密的資料，變更將不會儲存'
+            );
+          }
+          return;
+        }
+        return localFallback?.setItem(name, value);
+      }
+
+      const isQueued = pendingValue !== null;
+      pendingValue = value;
+      if (!isQueued) {
+        writeQueue = writeQueue.then(() => flush(name));
+      }
+      return writeQueue;
+    },
+
+    removeItem: async name => {
+      if (useFallback) {
+        return localFallback?.removeItem(name);
+      }
+
+      pendingValue = null;
+      await writeQueue;
+      try {
+        const db = await getDatabase(name);
+        const transaction = db.transaction([META_STORE, ...entities], 'readwrite');
+        [META_STORE, ...entities].forEach(storeName =>
+          transaction.objectStore(storeName).clear()
+        );
+        await transactionDone(transaction);
+        resetSnapshot();
+        readOnly = false;
+        options.onWrite?.();
+      } catch (error) {
+        errorService.handleStorageError(error);
+      }
+    },
+
+    backup: async (name, reason) => {
+      // Set before anything is awaited, so no queued write runs first
+      readOnly = true;
+      pendingValue = null;
+      const savedAt = new Date().toISOString();
+
+      try {
+        if (useFallback) {
+          localStorage.setItem(
+            backupName(name),
+            JSON.stringify({ savedAt, reason, state: localStorage.getItem(name) })
+          );
+        } else {
+          await writeQueue;
+          const { metaKeys, metaValues, entityRecords } = await readStored(
+            await getDatabase(name)
+          );
+          const backup: StoredBackup = {
+            savedAt,
+            reason,
+            meta: metaKeys.map((key, index) => [key, metaValues[index]]),
+            records: Object.fromEntries(
+              entities.map((entity, index) => [entity, entityRecords[index]])
+            ),
+          };
+
+          const backupDb = await openBackupDatabase(name);
+          try {
+            const transaction = backupDb.transaction(BACKUP_STORE, 'readwrite');
+            transaction.objectStore(BACKUP_STORE).put(backup, savedAt);
+            await transactionDone(transaction);
+          } finally {
+            backupDb.close();
+          }
+        }
+        readOnly = false;
+        return true;
+      } catch (error) {
+        errorService.handleStorageError(error);
+        return false;
+      }
+    },
+
+    invalidate: resetSnapshot,
+
+    flush: () => writeQueue,
+  };
+}
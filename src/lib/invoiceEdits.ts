@@ -0,0 +1,98 @@
+import { Invoice, InvoiceItem } from '@/types';
+import { getInvoiceKey } from './duplicateService';
+
+/**
+ * User edits of imported invoices
+ * Notes, tags, the excluded flag and hand-set item categories belong to the
+ * user, not to the source file. Reprocessing a file parses its invoices anew
+ * with new ids, so the edits are carried over by invoice identity
+ * (getInvoiceKey) and, for items, by name and amount.
+ */
+
+export type InvoiceEdit = Partial<Pick<Invoice, 'notes' | 'tags' | 'excluded'>>;
+
+export function hasInvoiceEdits(invoice: Invoice): boolean {
+  return Boolean(
+    invoice.notes ||
+      invoice.tags?.length ||
+      invoice.excluded ||
+      invoice.items.some(item => item.manualCategory)
+  );
+}
+
+// Empty values are dropped rather than stored
+const applyEdit = (invoice: Invoice, edit: InvoiceEdit): Invoice => {
+  const { notes, tags, excluded, ...rest } = { ...invoice, ...edit };
+  const trimmedNotes = notes?.trim();
+  const uniqueTags = Array.from(new Set((tags ?? []).map(tag => tag.trim()).filter(Boolean)));
+  return {
+    ...rest,
+    ...(trimmedNotes && { notes: trimmedNotes }),
+    ...(uniqueTags.length > 0 && { tags: uniqueTags }),
+    ...(excluded && { excluded: true }),
+  };
+};
+
+/**
+ * Apply an edit to the given invoices; an edit function gets each invoice, so
+ * e.g. tags can be added to the ones it already has
+ */
+export function applyInvoiceEdit(
+  invoices: Invoice[],
+  invoiceIds: string[],
+  edit: InvoiceEdit | ((invoice: Invoice) => InvoiceEdit)
+): Invoice[] {
+  const ids = new Set(invoiceIds);
+  return invoices.map(invoice =>
+    ids.has(invoice.id)
+      ? applyEdit(invoice, typeof edit === 'function' ? edit(invoice) : edit)
+      : invoice
+  );
+}
+
+// Name and amount, numbered among equal items, identify an item across parses
+const getItemKeys = (items: InvoiceItem[]): string[] => {
+  const seen = new Map<string, number>();
+  return items.map(item => {
+    const base = `${item.itemName}|${item.amount}`;
+    const occurrence = seen.get(base) ?? 0;
+    seen.set(base, occurrence + 1);
+    return `${base}|${occurrence}`;
+  });
+};
+
+/**
+ * Give freshly parsed invoices the edits of the invoices they replace
+ */
+export function carryOverEdits(previous: Invoice[], incoming: Invoice[]): Invoice[] {
+  const editedByKey = new Map(
+    previous.filter(hasInvoiceEdits).map(invoice => [getInvoiceKey(invoice), invoice])
+  );
+  if (editedByKey.size === 0) return incoming;
+
+  return incoming.map(invoice => {
+    const edited = editedByKey.get(getInvoiceKey(invoice));
+    if (!edited) return invoice;
+
+    const oldKeys = getItemKeys(edited.items);
+    const manualCategories = new Map(
+      edited.items
+        .map((item, index) => [oldKeys[index], item] as const)
+        .filter(([, item]) => item.manualCategory)
+        .map(([key, item]) => [key, item.category])
+    );
+    const newKeys = getItemKeys(invoice.items);
+
+    return {
+      ...invoice,
+      ...(edited.notes && { notes: edited.notes }),
+      ...(edited.tags && { tags: edited.tags }),
+      ...(edited.excluded && { excluded: true }),
+      items: invoice.items.map((item, index) =>
+        manualCategories.has(newKeys[index])
+          ? { ...item, category: manualCategories.get(newKeys[index]), manualCategory: true }
+          : item
+      ),
+    };
+  });
+}
@@ -0,0 +1,25 @@
+/**
+ * Invoice parsing worker
+ * Runs CSV decoding, invoice assembly and optimization off the main thread
+ * and streams progress back to parseWorkerClient.
+ */
+
+import { parseInvoiceCSV } from './csvParser';
+import type { WorkerRequest, WorkerResponse } from './parseWorkerClient';
+
+const ctx = self as unknown as Worker;
+
+const post = (message: WorkerResponse) => ctx.postMessage(message);
+
+ctx.addEventListener('message', async (event: MessageEvent<WorkerRequest>) => {
+  const { file, options } = event.data;
+
+  const result = await parseInvoiceCSV(file, {
+    ...options,
+    onProgress: (progress, message) => {
+      post({ type: 'progress', progress, message });
+    },
+  });
+
+  post({ type: 'result', result });
+});
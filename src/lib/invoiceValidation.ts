@@ -0,0 +1,128 @@
+import { DataQualitySummary, Invoice, ValidationWarningCode } from '@/types';
+
+/**
+ * Data-quality checks for imported invoices
+ * Problems found here are reported as warnings; the invoice is still imported.
+ */
+
+export interface ValidationWarning {
+  code: ValidationWarningCode;
+  field: keyof Invoice;
+  message: string;
+}
+
+export const VALIDATION_WARNING_LABELS: Record<ValidationWarningCode, string> = {
+  'invoice-number': '發票號碼格式錯誤',
+  'merchant-id': '統一編號檢查碼錯誤',
+  'future-date': '發票日期晚於今天',
+};
+
+const INVOICE_NUMBER_PATTERN = /^[A-Z]{2}\d{8}$/;
+const BUSINESS_ID_WEIGHTS = [1, 2, 1, 2, 1, 2, 4, 1];
+
+/**
+ * Two-letter track (字軌) followed by eight digits, e.g. AB12345678
+ */
+export function isValidInvoiceNumber(value: string): boolean {
+  return INVOICE_NUMBER_PATTERN.test(value);
+}
+
+/**
+ * Check a 統一編號 against the official checksum
+ * Each digit is multiplied by its weight and the digits of the products are
+ * summed; the total must be divisible by 5 (the pre-2023 rule of 10 is a
+ * subset). When the 7th digit is 7 its product 28 may count as 1 or 0.
+ */
+export function isValidBusinessId(value: string): boolean {
+  if (!/^\d{8}$/.test(value)) return false;
+
+  const digitSum = (n: number) => Math.floor(n / 10) + (n % 10);
+  const sum = BUSINESS_ID_WEIGHTS.reduce(
+    (total, weight, index) => total + digitSum(Number(value[index]) * weight),
+    0
+  );
+
+  if (sum % 5 === 0) return true;
+  return value[6] === '7' && (sum + 1) % 5 === 0;
+}
+
+/**
+ * Bi-monthly invoice period (期別) a date falls in, as the ROC year and the
+ * period's even end month, e.g. 2024-05-01 → 11306 (113年05-06月)
+ */
+export function getInvoicePeriod(date: Date): string {
+  const rocYear = date.getFullYear() - 1911;
+  const endMonth = Math.floor(date.getMonth() / 2) * 2 + 2;
+  return `${rocYear}${String(endMonth).padStart(2, '0')}`;
+}
+
+/**
+ * Display label for a period code, e.g. 11306 → 113年05-06月
+ */
+export function formatInvoicePeriod(period: string): string {
+  const endMonth = Number(period.slice(-2));
+  const startMonth = String(endMonth - 1).padStart(2, '0');
+  return `${period.slice(0, -2)}年${startMonth}-${period.slice(-2)}月`;
+}
+
+/**
+ * Check the identifying fields of an e-invoice
+ */
+export function validateInvoiceFields(
+  invoice: Pick<Invoice, 'invoiceNumber' | 'merchantId' | 'invoiceDate'>,
+  today: Date = new Date()
+): ValidationWarning[] {
+  const warnings: ValidationWarning[] = [];
+
+  if (!isValidInvoiceNumber(invoice.invoiceNumber)) {
+    warnings.push({
+      code: 'invoice-number',
+      field: 'invoiceNumber',
+      message: `發票號碼格式錯誤（應為2碼英文字軌加8碼數字）: ${invoice.invoiceNumber}`,
+    });
+  }
+
+  // Not every export carries the seller's 統一編號
+  if (invoice.merchantId && !isValidBusinessId(invoice.merchantId)) {
+    warnings.push({
+      code: 'merchant-id',
+      field: 'merchantId',
+      message: `統一編號檢查碼錯誤: ${invoice.merchantId}`,
+    });
+  }
+
+  const endOfToday = new Date(today.getFullYear(), today.getMonth(), today.getDate() + 1);
+  if (invoice.invoiceDate >= endOfToday) {
+    warnings.push({
+      code: 'future-date',
+      field: 'invoiceDate',
+      message: `發票日期晚於今天，可能欄位錯位: ${invoice.invoiceDate.toLocaleDateString('zh-TW')}`,
+    });
+  }
+
+  return warnings;
+}
+
+/**
+ * Summarize warnings and covered periods for one imported file
+ */
+export function summarizeDataQuality(
+  invoices: Invoice[],
+  warnings: Array<{ code: ValidationWarningCode }>
+): DataQualitySummary {
+  const warningCounts: Partial<Record<ValidationWarningCode, number>> = {};
+  warnings.forEach(warning => {
+    warningCounts[warning.code] = (warningCounts[warning.code] ?? 0) + 1;
+  });
+
+  const periods = Array.from(
+    new Set(invoices.map(invoice => getInvoicePeriod(invoice.invoiceDate)))
+  ).sort();
+
+  return {
+    checkedInvoices: invoices.length,
+    warningCount: warnings.length,
+    warningCounts,
+    periods,
+  };
+}
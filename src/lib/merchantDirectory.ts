@@ -0,0 +1,67 @@
+import { Invoice, Merchant } from '@/types';
+import { normalizeCategoryPath } from './categoryTree';
+
+/**
+ * Merchant directory
+ * Entries are keyed by the merchant's tax ID, or by its name on invoices that
+ * have none (e.g. card statements). Only merchants the user has edited have an
+ * entry; the Merchants page lists every merchant found on the invoices.
+ */
+
+export function getMerchantKey(invoice: Pick<Invoice, 'merchantId' | 'merchantName'>): string {
+  return (invoice.merchantId || '').trim() || (invoice.merchantName || '').trim();
+}
+
+export function createMerchant(id: string, merchantName: string): Merchant {
+  return { id, merchantName, tags: [] };
+}
+
+export const parseTags = (text: string): string[] =>
+  Array.from(
+    new Set(
+      text
+        .split(/[,，、\n]/)
+        .map(tag => tag.trim())
+        .filter(Boolean)
+    )
+  );
+
+/**
+ * Trim the user's input; empty fields are dropped
+ */
+export function normalizeMerchant(merchant: Merchant): Merchant {
+  const displayName = merchant.displayName?.trim();
+  const defaultCategory = normalizeCategoryPath(merchant.defaultCategory ?? '');
+  const notes = merchant.notes?.trim();
+  return {
+    id: merchant.id,
+    merchantName: merchant.merchantName,
+    ...(displayName && { displayName }),
+    ...(defaultCategory && { defaultCategory }),
+    tags: parseTags(merchant.tags.join(',')),
+    ...(notes && { notes }),
+  };
+}
+
+// An entry without any of the user's details is not worth keeping
+export const isEmptyMerchant = (merchant: Merchant): boolean =>
+  !merchant.displayName && !merchant.defaultCategory && merchant.tags.length === 0 && !merchant.notes;
+
+export function getMerchantDisplayName(
+  invoice: Pick<Invoice, 'merchantId' | 'merchantName'>,
+  merchants: Merchant[]
+): string {
+  const key = getMerchantKey(invoice);
+  return merchants.find(merchant => merchant.id === key)?.displayName || invoice.merchantName;
+}
+
+/**
+ * Default category per merchant key, for the categorizer
+ */
+export function getMerchantCategories(merchants: Merchant[]): Map<string, string> {
+  return new Map(
+    merchants
+      .filter(merchant => merchant.defaultCategory)
+      .map(merchant => [merchant.id, merchant.defaultCategory as string])
+  );
+}
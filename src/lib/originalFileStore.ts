@@ -0,0 +1,277 @@
+import { FileInfo } from '@/types';
+import { errorService } from './errorService';
+import { requestToPromise, transactionDone } from './indexedDBStorage';
+import { fromBase64, isWebCryptoAvailable, toBase64 } from './vaultCrypto';
+import { vaultService } from './vaultService';
+import { generateId } from './utils';
+
+/**
+ * Original uploads kept for reprocessing
+ * Files are stored as Blobs in their own IndexedDB database, keyed by the
+ * SHA-256 of their content so identical uploads are stored once. Data is
+ * gzip-compressed where that makes it smaller, and encrypted with the vault
+ * key while the vault is enabled.
+ */
+
+const DB_NAME = 'invoice-originals';
+const STORE_NAME = 'originals';
+
+export interface BinaryCodec {
+  encode: (bytes: ArrayBuffer) => Promise<{ iv: string; data: ArrayBuffer }>;
+  decode: (iv: string, data: ArrayBuffer) => Promise<ArrayBuffer>;
+}
+
+interface StoredOriginal {
+  hash: string;
+  type: string;
+  size: number; // Of the original file
+  compressed: boolean; // gzip
+  iv?: string; // Set when encrypted with the vault key
+  data: Blob;
+}
+
+/**
+ * Whether the file can be reprocessed without uploading it again
+ */
+export const hasOriginalFile = (file: FileInfo) =>
+  !!(file.originalFileHash || file.originalFileData);
+
+const pipeBytes = (bytes: ArrayBuffer, transform: GenericTransformStream) =>
+  new Response(new Blob([bytes]).stream().pipeThrough(transform)).arrayBuffer();
+
+/**
+ * Bytes left in this site's storage quota, or null where the browser does not
+ * say; uploads are limited by this rather than by a fixed size
+ */
+export async function getAvailableStorage(): Promise<number | null> {
+  if (typeof navigator === 'undefined' || !navigator.storage?.estimate) return null;
+  try {
+    const { quota, usage = 0 } = await navigator.storage.estimate();
+    return quota === undefined ? null : Math.max(0, quota - usage);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Tell the user an upload was not kept, so it has to be uploaded again to be
+ * reprocessed
+ */
+export function reportUnsavedOriginal(error: unknown): void {
+  if (error instanceof Error && error.name === 'QuotaExceededError') {
+    errorService.createError(
+      'storage-error',
+      '儲存空間已滿，未能保留原始檔案，之後需重新上傳才能重新處理',
+      error.message,
+      error
+    );
+  } else {
+    errorService.handleStorageError(error);
+  }
+}
+
+async function hashBytes(bytes: ArrayBuffer): Promise<string> {
+  if (!isWebCryptoAvailable()) {
+    // Insecure context: no deduplication
+    return generateId();
+  }
+  const digest = new Uint8Array(await crypto.subtle.digest('SHA-256', bytes));
+  return Array.from(digest, byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+class OriginalFileStore {
+  private dbPromise: Promise<IDBDatabase> | null = null;
+
+  isAvailable(): boolean {
+    return typeof indexedDB !== 'undefined';
+  }
+
+  private getDatabase(): Promise<IDBDatabase> {
+    if (!this.dbPromise) {
+      this.dbPromise = new Promise((resolve, reject) => {
+        const request = indexedDB.open(DB_NAME, 1);
+        request.onupgradeneeded = () => {
+          request.result.createObjectStore(STORE_NAME, { keyPath: 'hash' });
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+        request.onblocked = () =>
+          reject(new Error('資料庫升級被其他分頁阻擋，請關閉其他分頁後重新整理'));
+      });
+    }
+    return this.dbPromise;
+  }
+
+  private async encode(
+    hash: string,
+    type: string,
+    bytes: ArrayBuffer,
+    codec: BinaryCodec | null
+  ): Promise<StoredOriginal> {
+    let data = bytes;
+    let compressed = false;
+    if (typeof CompressionStream !== 'undefined') {
+      const gzipped = await pipeBytes(bytes, new CompressionStream('gzip'));
+      if (gzipped.byteLength < bytes.byteLength) {
+        data = gzipped;
+        compressed = true;
+      }
+    }
+
+    let iv: string | undefined;
+    if (codec) {
+      ({ iv, data } = await codec.encode(data));
+    }
+    return { hash, type, size: bytes.byteLength, compressed, iv, data: new Blob([data]) };
+  }
+
+  private async decode(record: StoredOriginal, codec: BinaryCodec | null): Promise<ArrayBuffer> {
+    let data = await record.data.arrayBuffer();
+    if (record.iv) {
+      if (!codec) throw new Error('原始檔案已加密，請先解鎖資料保險箱');
+      data = await codec.decode(record.iv, data);
+    }
+    return record.compressed ? pipeBytes(data, new DecompressionStream('gzip')) : data;
+  }
+
+  /**
+   * Store an upload; resolves to its hash, or undefined when it could not be
+   * stored (e.g. quota exceeded), in which case it must be uploaded again to
+   * be reprocessed
+   */
+  async save(file: Blob): Promise<string | undefined> {
+    if (vaultService.isLocked()) return undefined;
+
+    try {
+      const bytes = await file.arrayBuffer();
+      const hash = await hashBytes(bytes);
+      const db = await this.getDatabase();
+      const existing = await requestToPromise<StoredOriginal | undefined>(
+        db.transaction(STORE_NAME).objectStore(STORE_NAME).get(hash)
+      );
+      if (existing) return hash;
+
+      const record = await this.encode(hash, file.type, bytes, vaultService.getBinaryCodec());
+      const transaction = db.transaction(STORE_NAME, 'readwrite');
+      transaction.objectStore(STORE_NAME).put(record);
+      await transactionDone(transaction);
+      return hash;
+    } catch (error) {
+      reportUnsavedOriginal(error);
+      return undefined;
+    }
+  }
+
+  /**
+   * The stored upload as a File, or null when it is missing or unreadable
+   */
+  async load(hash: string, fileName: string): Promise<File | null> {
+    try {
+      const db = await this.getDatabase();
+      const record = await requestToPromise<StoredOriginal | undefined>(
+        db.transaction(STORE_NAME).objectStore(STORE_NAME).get(hash)
+      );
+      if (!record) return null;
+      const bytes = await this.decode(record, vaultService.getBinaryCodec());
+      return new File([bytes], fileName, { type: record.type });
+    } catch (error) {
+      console.warn('Failed to read original file data:', error);
+      return null;
+    }
+  }
+
+  private async getAll(): Promise<StoredOriginal[]> {
+    const db = await this.getDatabase();
+    return requestToPromise<StoredOriginal[]>(
+      db.transaction(STORE_NAME).objectStore(STORE_NAME).getAll()
+    );
+  }
+
+  /**
+   * Delete stored uploads that no file refers to any more
+   */
+  async prune(keepHashes: Iterable<string>): Promise<void> {
+    const keep = new Set(keepHashes);
+    const db = await this.getDatabase();
+    const keys = await requestToPromise(
+      db.transaction(STORE_NAME).objectStore(STORE_NAME).getAllKeys()
+    );
+    const unused = keys.filter(key => !keep.has(String(key)));
+    if (unused.length === 0) return;
+
+    const transaction = db.transaction(STORE_NAME, 'readwrite');
+    unused.forEach(key => transaction.objectStore(STORE_NAME).delete(key));
+    await transactionDone(transaction);
+  }
+
+  async clear(): Promise<void> {
+    const db = await this.getDatabase();
+    const transaction = db.transaction(STORE_NAME, 'readwrite');
+    transaction.objectStore(STORE_NAME).clear();
+    await transactionDone(transaction);
+  }
+
+  /**
+   * Store every upload again with another codec, e.g. after the vault was
+   * turned on or off; uploads that cannot be decoded are left as they are
+   */
+  async reencode(from: BinaryCodec | null, to: BinaryCodec | null): Promise<void> {
+    try {
+      const updated: StoredOriginal[] = [];
+      for (const record of await this.getAll()) {
+        try {
+          updated.push(await this.encode(record.hash, record.type, await this.decode(record, from), to));
+        } catch (error) {
+          console.warn('Failed to re-encode original file data:', error);
+        }
+      }
+      if (updated.length === 0) return;
+
+      const db = await this.getDatabase();
+      const transaction = db.transaction(STORE_NAME, 'readwrite');
+      updated.forEach(record => transaction.objectStore(STORE_NAME).put(record));
+      await transactionDone(transaction);
+    } catch (error) {
+      errorService.handleStorageError(error);
+    }
+  }
+
+  /**
+   * Copy stored uploads into the files as base64, e.g. for a workspace archive
+   */
+  async inlineOriginals(files: FileInfo[]): Promise<FileInfo[]> {
+    if (!this.isAvailable()) return files;
+
+    const inlined: FileInfo[] = [];
+    for (const file of files) {
+      const original =
+        file.originalFileHash && !file.originalFileData
+          ? await this.load(file.originalFileHash, file.fileName)
+          : null;
+      inlined.push(
+        original
+          ? { ...file, originalFileData: toBase64(new Uint8Array(await original.arrayBuffer())) }
+          : file
+      );
+    }
+    return inlined;
+  }
+
+  /**
+   * Move base64 originals out of the files into the store
+   */
+  async storeInlineOriginals(files: FileInfo[]): Promise<FileInfo[]> {
+    if (!this.isAvailable()) return files;
+
+    const stored: FileInfo[] = [];
+    for (const file of files) {
+      const hash = file.originalFileData
+        ? await this.save(new Blob([fromBase64(file.originalFileData)], { type: 'text/csv' }))
+        : undefined;
+      stored.push(hash ? { ...file, originalFileHash: hash, originalFileData: undefined } : file);
+    }
+    return stored;
+  }
+}
+
+export const originalFileStore = new OriginalFileStore();
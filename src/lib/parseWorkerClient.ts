@@ -0,0 +1,100 @@
+import {
+  parseInvoiceCSV,
+  createCancelledResult,
+  type ParseOptions,
+  type ParseResult,
+} from './csvParser';
+
+/**
+ * Dispatches invoice parsing to a dedicated Web Worker
+ * Falls back to parsing on the main thread where workers are unavailable
+ * (e.g. jsdom under vitest) or the worker fails to start.
+ */
+
+// Callbacks and signals cannot be cloned into the worker
+export type WorkerParseOptions = Omit<ParseOptions, 'onProgress' | 'signal'>;
+
+export interface WorkerRequest {
+  file: File;
+  options: WorkerParseOptions;
+}
+
+export type WorkerResponse =
+  | { type: 'progress'; progress: number; message: string }
+  | { type: 'result'; result: ParseResult };
+
+/**
+ * Check whether Web Workers can be used in this environment
+ */
+export function isWorkerSupported(): boolean {
+  return typeof Worker !== 'undefined';
+}
+
+function createParserWorker(): Worker | null {
+  if (!isWorkerSupported()) {
+    return null;
+  }
+
+  try {
+    return new Worker(new URL('./invoiceParser.worker.ts', import.meta.url), {
+      type: 'module',
+    });
+  } catch (error) {
+    console.warn('Failed to start parser worker, parsing on main thread:', error);
+    return null;
+  }
+}
+
+/**
+ * Parse an invoice CSV file, in a worker when possible
+ * Aborting options.signal terminates the worker and resolves with a
+ * cancelled result.
+ */
+export async function parseInvoiceFile(
+  file: File,
+  options: ParseOptions = {}
+): Promise<ParseResult> {
+  const { onProgress, signal, ...workerOptions } = options;
+
+  if (signal?.aborted) {
+    return createCancelledResult();
+  }
+
+  const worker = createParserWorker();
+  if (!worker) {
+    return parseInvoiceCSV(file, options);
+  }
+
+  return new Promise(resolve => {
+    let settled = false;
+
+    const settle = (result: ParseResult | Promise<ParseResult>) => {
+      if (settled) return;
+      settled = true;
+      signal?.removeEventListener('abort', handleAbort);
+      worker.terminate();
+      resolve(result);
+    };
+
+    const handleAbort = () => settle(createCancelledResult());
+    signal?.addEventListener('abort', handleAbort);
+
+    worker.onmessage = (event: MessageEvent<WorkerResponse>) => {
+      const message = event.data;
+      if (message.type === 'progress') {
+        onProgress?.(message.progress, message.message);
+      } else {
+        settle(message.result);
+      }
+    };
+
+    worker.onerror = event => {
+      event.preventDefault();
+      console.warn('Parser worker failed, parsing on main thread:', event.message);
+      settle(parseInvoiceCSV(file, options));
+    };
+
+    const request: WorkerRequest = { file, options: workerOptions };
+    worker.postMessage(request);
+  });
+}
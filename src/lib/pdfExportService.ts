@@ -1,8 +1,9 @@
 import jsPDF from 'jspdf';
 import html2canvas from 'html2canvas';
-import { Statistics, Invoice } from '@/types';
+import { Statistics, Invoice, DateDisplayMode } from '@/types';
 import { format } from 'date-fns';
 import { zhTW } from 'date-fns/locale';
+import { formatDisplayDate } from './dateFormat';
 
 export interface PDFExportOptions {
   title?: string;
@@ -10,6 +11,7 @@ export interface PDFExportOptions {
   includeDetailedData?: boolean;
   filename?: string;
   chartElements?: HTMLElement[];
+  dateDisplay?: DateDisplayMode;
 }
 
 export interface PDFExportResult {
@@ -33,7 +35,8 @@ export async function exportStatisticsToPDF(
       includeCharts = true,
       includeDetailedData = false,
       filename,
-      chartElements = []
+      chartElements = [],
+      dateDisplay = 'gregorian'
     } = options;
 
     // Update progress if tracking
@@ -59,7 +62,7 @@ export async function exportStatisticsToPDF(
     // Add generation date
     pdf.setFontSize(10);
     const now = new Date();
-    const dateStr = format(now, 'yyyy年MM月dd日 HH:mm', { locale: zhTW });
+    const dateStr = formatDisplayDate(now, dateDisplay, 'datetime');
     pdf.text(`生成時間: ${dateStr}`, 20, currentY);
     currentY += 10;
 
@@ -69,7 +72,7 @@ export async function exportStatisticsToPDF(
     }
 
     // Add statistics summary
-    currentY = await addStatisticsSummary(pdf, statistics, currentY);
+    currentY = await addStatisticsSummary(pdf, statistics, currentY, dateDisplay);
 
     // Add charts if requested
     if (includeCharts && chartElements.length > 0) {
@@ -119,7 +122,8 @@ export async function exportStatisticsToPDF(
 async function addStatisticsSummary(
   pdf: jsPDF,
   statistics: Statistics,
-  startY: number
+  startY: number,
+  dateDisplay: DateDisplayMode
 ): Promise<number> {
   let currentY = startY + 10;
 
@@ -134,7 +138,7 @@ async function addStatisticsSummary(
     ['總消費金額', `NT$ ${statistics.totalAmount.toLocaleString()}`],
     ['發票總數', `${statistics.totalInvoices} 張`],
     ['平均消費金額', `NT$ ${statistics.averageAmount.toLocaleString()}`],
-    ['資料期間', `${format(statistics.dateRange.start, 'yyyy/MM/dd', { locale: zhTW })} - ${format(statistics.dateRange.end, 'yyyy/MM/dd', { locale: zhTW })}`]
+    ['資料期間', `${formatDisplayDate(statistics.dateRange.start, dateDisplay)} - ${formatDisplayDate(statistics.dateRange.end, dateDisplay)}`]
   ];
 
   summaryData.forEach(([label, value]) => {
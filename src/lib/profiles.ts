@@ -0,0 +1,139 @@
+import { Asset, FileInfo, Invoice, Statistics, UserProfile } from '@/types';
+import { calculateBasicStatistics, getValidInvoices } from './statisticsService';
+
+/**
+ * Household profiles
+ * The store keeps the active profile's records in `invoices`, `files` and
+ * `assets` and every other profile's records in `profileData`, so the rest of
+ * the app only ever sees one person's data. Records carry their profileId;
+ * all profiles are persisted together and split again on load.
+ */
+
+export const DEFAULT_PROFILE_ID = 'default';
+export const DEFAULT_PROFILE_NAME = '我';
+
+export interface ProfileData {
+  invoices: Invoice[];
+  files: FileInfo[];
+  assets: Asset[];
+}
+
+export const EMPTY_PROFILE_DATA: ProfileData = { invoices: [], files: [], assets: [] };
+
+// The store fields needed to look up any profile's records
+export interface ProfileState extends ProfileData {
+  activeProfileId: string;
+  profileData: Record<string, ProfileData>;
+}
+
+export interface ProfileSummary {
+  profile: UserProfile;
+  invoiceCount: number; // Issued invoices only
+  totalAmount: number;
+  averageAmount: number;
+  share: number; // Of the selected profiles' spending, 0-1
+  assetValue: number; // TWD assets
+}
+
+export interface HouseholdSummary {
+  invoices: Invoice[]; // All selected profiles
+  statistics: Statistics | null;
+  members: ProfileSummary[];
+}
+
+type OwnedRecord = { profileId?: string };
+
+/**
+ * Records without an owner join the profile; owned records keep their object
+ */
+export function claimRecords<T extends OwnedRecord>(records: T[], profileId: string): T[] {
+  if (records.every(record => record.profileId)) {
+    return records;
+  }
+  return records.map(record => (record.profileId ? record : { ...record, profileId }));
+}
+
+export function getProfileData(state: ProfileState, profileId: string): ProfileData {
+  if (profileId === state.activeProfileId) {
+    return { invoices: state.invoices, files: state.files, assets: state.assets };
+  }
+  return state.profileData[profileId] ?? EMPTY_PROFILE_DATA;
+}
+
+/**
+ * Every profile's records in one list per entity, active profile first
+ */
+export function getAllProfileData(state: ProfileState): ProfileData {
+  const parts = [getProfileData(state, state.activeProfileId), ...Object.values(state.profileData)];
+  return {
+    invoices: parts.flatMap(part => part.invoices),
+    files: parts.flatMap(part => part.files),
+    assets: parts.flatMap(part => part.assets),
+  };
+}
+
+/**
+ * Split stored records back into the active profile's and everyone else's
+ * Records of unknown profiles are given to the active profile so nothing is
+ * hidden.
+ */
+export function splitProfileData(
+  data: ProfileData,
+  profileIds: string[],
+  activeProfileId: string
+): { active: ProfileData; profileData: Record<string, ProfileData> } {
+  const known = new Set(profileIds);
+  const ownerOf = (record: OwnedRecord) =>
+    record.profileId && known.has(record.profileId) ? record.profileId : activeProfileId;
+
+  const byProfile: Record<string, ProfileData> = {};
+  const bucket = (profileId: string) =>
+    (byProfile[profileId] ??= { invoices: [], files: [], assets: [] });
+
+  data.invoices.forEach(invoice => bucket(ownerOf(invoice)).invoices.push(invoice));
+  data.files.forEach(file => bucket(ownerOf(file)).files.push(file));
+  data.assets.forEach(asset => bucket(ownerOf(asset)).assets.push(asset));
+
+  const { [activeProfileId]: active = { invoices: [], files: [], assets: [] }, ...profileData } =
+    byProfile;
+  return { active, profileData };
+}
+
+/**
+ * Combined statistics and a per-person breakdown for the selected profiles
+ */
+export function summarizeHousehold(
+  state: ProfileState,
+  profiles: UserProfile[]
+): HouseholdSummary {
+  const members = profiles.map(profile => {
+    const data = getProfileData(state, profile.id);
+    const validInvoices = getValidInvoices(data.invoices);
+    const totalAmount = validInvoices.reduce((sum, invoice) => sum + invoice.totalAmount, 0);
+    return {
+      data,
+      summary: {
+        profile,
+        invoiceCount: validInvoices.length,
+        totalAmount,
+        averageAmount: validInvoices.length > 0 ? totalAmount / validInvoices.length : 0,
+        share: 0,
+        assetValue: data.assets
+          .filter(asset => asset.currency === 'TWD')
+          .reduce((sum, asset) => sum + (asset.value || 0), 0),
+      },
+    };
+  });
+
+  const invoices = members.flatMap(({ data }) => data.invoices);
+  const householdTotal = members.reduce((sum, { summary }) => sum + summary.totalAmount, 0);
+
+  return {
+    invoices,
+    statistics: invoices.length > 0 ? calculateBasicStatistics(getValidInvoices(invoices)) : null,
+    members: members.map(({ summary }) => ({
+      ...summary,
+      share: householdTotal > 0 ? summary.totalAmount / householdTotal : 0,
+    })),
+  };
+}
@@ -0,0 +1,255 @@
+import jsQR from 'jsqr';
+import {
+  parseInvoiceQRCodes,
+  type QRInvoiceResult,
+  type QRPayload,
+} from './qrInvoiceParser';
+import type { ProgressCallback } from './csvParser';
+
+/**
+ * Locate and decode the QR codes on photos of paper e-invoices, fully in the browser
+ * jsQR finds one code per pass, so each found code is masked out and the
+ * image is scanned again; the image halves are tried as a fallback.
+ */
+
+export interface DecodedQRCode {
+  text: string;
+  bytes: Uint8Array;
+}
+
+export interface ReceiptPhotoResult {
+  file: File;
+  codes: string[];
+  payload?: QRPayload;
+  result?: QRInvoiceResult;
+  error?: string;
+}
+
+export interface DecodePhotoOptions {
+  onProgress?: ProgressCallback;
+  signal?: AbortSignal;
+}
+
+// Photos are scanned at these sizes (longest side, px) until both codes are found
+const SCAN_SIZES = [1280, 2000];
+const MAX_CODES = 2;
+const MASK_PADDING = 0.15;
+
+/**
+ * Validate a receipt photo before decoding
+ */
+export function validateReceiptPhoto(file: File): { valid: boolean; error?: string } {
+  if (!file.type.startsWith('image/') && !/\.(jpe?g|png|webp|bmp)$/i.test(file.name)) {
+    return { valid: false, error: '請選擇圖片檔案（JPG、PNG、WebP）' };
+  }
+  if (file.size === 0) {
+    return { valid: false, error: '檔案不能為空' };
+  }
+  return { valid: true };
+}
+
+/**
+ * Draw a photo onto a canvas no larger than maxSize and return its pixels
+ */
+async function loadImageData(file: File, maxSize: number): Promise<ImageData> {
+  let source: CanvasImageSource;
+  let bitmap: ImageBitmap | undefined;
+  let width: number;
+  let height: number;
+
+  if (typeof createImageBitmap === 'function') {
+    bitmap = await createImageBitmap(file);
+    source = bitmap;
+    width = bitmap.width;
+    height = bitmap.height;
+  } else {
+    const url = URL.createObjectURL(file);
+    try {
+      const image = new Image();
+      await new Promise<void>((resolve, reject) => {
+        image.onload = () => resolve();
+        image.onerror = () => reject(new Error('無法讀取圖片'));
+        image.src = url;
+      });
+      source = image;
+      width = image.naturalWidth;
+      height = image.naturalHeight;
+    } finally {
+      URL.revokeObjectURL(url);
+    }
+  }
+
+  const scale = Math.min(1, maxSize / Math.max(width, height));
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.round(width * scale);
+  canvas.height = Math.round(height * scale);
+  const context = canvas.getContext('2d');
+  if (!context) {
+    throw new Error('瀏覽器不支援圖片處理');
+  }
+  context.drawImage(source, 0, 0, canvas.width, canvas.height);
+  bitmap?.close();
+  return context.getImageData(0, 0, canvas.width, canvas.height);
+}
+
+/**
+ * Copy a rectangular region of an image
+ */
+function cropImageData(
+  image: ImageData,
+  x: number,
+  y: number,
+  width: number,
+  height: number
+): ImageData {
+  const data = new Uint8ClampedArray(width * height * 4);
+  for (let row = 0; row < height; row++) {
+    const start = ((y + row) * image.width + x) * 4;
+    data.set(image.data.subarray(start, start + width * 4), row * width * 4);
+  }
+  return { data, width, height, colorSpace: 'srgb' } as ImageData;
+}
+
+/**
+ * Paint a found code's bounding box white so the next pass finds the other code
+ */
+function maskRegion(image: ImageData, corners: Array<{ x: number; y: number }>): void {
+  const xs = corners.map(point => point.x);
+  const ys = corners.map(point => point.y);
+  const padX = (Math.max(...xs) - Math.min(...xs)) * MASK_PADDING;
+  const padY = (Math.max(...ys) - Math.min(...ys)) * MASK_PADDING;
+  const left = Math.max(0, Math.floor(Math.min(...xs) - padX));
+  const right = Math.min(image.width, Math.ceil(Math.max(...xs) + padX));
+  const top = Math.max(0, Math.floor(Math.min(...ys) - padY));
+  const bottom = Math.min(image.height, Math.ceil(Math.max(...ys) + padY));
+
+  for (let y = top; y < bottom; y++) {
+    image.data.fill(255, (y * image.width + left) * 4, (y * image.width + right) * 4);
+  }
+}
+
+/**
+ * Find up to maxCodes QR codes in an image
+ */
+export function findQRCodes(image: ImageData, maxCodes = MAX_CODES): DecodedQRCode[] {
+  const codes: DecodedQRCode[] = [];
+  const seen = new Set<string>();
+  const add = (code: ReturnType<typeof jsQR>) => {
+    if (!code || !code.data || seen.has(code.data)) return false;
+    seen.add(code.data);
+    codes.push({ text: code.data, bytes: Uint8Array.from(code.binaryData) });
+    return true;
+  };
+
+  // Full image, masking each code after it is found
+  const working = cropImageData(image, 0, 0, image.width, image.height);
+  while (codes.length < maxCodes) {
+    const code = jsQR(working.data, working.width, working.height, {
+      inversionAttempts: 'dontInvert',
+    });
+    if (!add(code)) break;
+    const { topLeftCorner, topRightCorner, bottomLeftCorner, bottomRightCorner } = code!.location;
+    maskRegion(working, [topLeftCorner, topRightCorner, bottomLeftCorner, bottomRightCorner]);
+  }
+
+  // The two codes sit side by side on the proof; scan each half on its own
+  if (codes.length < maxCodes) {
+    const half = Math.floor(image.width / 2);
+    const halves = [
+      cropImageData(image, 0, 0, half, image.height),
+      cropImageData(image, half, 0, image.width - half, image.height),
+    ];
+    for (const region of halves) {
+      if (codes.length >= maxCodes) break;
+      add(jsQR(region.data, region.width, region.height, { inversionAttempts: 'attemptBoth' }));
+    }
+  }
+
+  return codes;
+}
+
+/**
+ * Order decoded codes into left/right payloads
+ * The right code starts with "**"; Big5 item text (encoding parameter 0) is
+ * re-decoded from the raw bytes since jsQR reads it as UTF-8/Latin-1.
+ */
+export function assembleQRPayload(codes: DecodedQRCode[]): QRPayload | null {
+  const left = codes.find(code => !code.text.startsWith('**'));
+  if (!left) return null;
+  const right = codes.find(code => code !== left && code.text.startsWith('**'));
+
+  const encodingParam = left.text.slice(77).split(':')[4];
+  const decode = (code: DecodedQRCode) =>
+    encodingParam === '0' ? new TextDecoder('big5').decode(code.bytes) : code.text;
+
+  return {
+    left: decode(left),
+    right: right ? decode(right) : undefined,
+  };
+}
+
+/**
+ * Decode a single receipt photo into an invoice
+ */
+export async function decodeReceiptPhoto(file: File): Promise<ReceiptPhotoResult> {
+  const validation = validateReceiptPhoto(file);
+  if (!validation.valid) {
+    return { file, codes: [], error: validation.error };
+  }
+
+  let codes: DecodedQRCode[] = [];
+  try {
+    for (const size of SCAN_SIZES) {
+      const found = findQRCodes(await loadImageData(file, size));
+      if (found.length > codes.length) codes = found;
+      if (codes.length >= MAX_CODES) break;
+    }
+
+    const payload = assembleQRPayload(codes);
+    if (!payload) {
+      return {
+        file,
+        codes: codes.map(code => code.text),
+        error: codes.length === 0 ? '找不到 QR 碼' : '找不到左側 QR 碼',
+      };
+    }
+
+    return {
+      file,
+      codes: codes.map(code => code.text),
+      payload,
+      result: parseInvoiceQRCodes(payload),
+    };
+  } catch (error) {
+    return {
+      file,
+      codes: codes.map(code => code.text),
+      error: error instanceof Error ? error.message : '圖片解析失敗',
+    };
+  }
+}
+
+/**
+ * Decode a batch of receipt photos one at a time with progress reporting
+ */
+export async function decodeReceiptPhotos(
+  files: File[],
+  options: DecodePhotoOptions = {}
+): Promise<{ results: ReceiptPhotoResult[]; cancelled: boolean }> {
+  const results: ReceiptPhotoResult[] = [];
+
+  for (let i = 0; i < files.length; i++) {
+    if (options.signal?.aborted) {
+      return { results, cancelled: true };
+    }
+
+    options.onProgress?.((i / files.length) * 100, `辨識照片 ${i + 1}/${files.length}: ${files[i].name}`);
+    results.push(await decodeReceiptPhoto(files[i]));
+
+    // Let the UI repaint between photos
+    await new Promise(resolve => setTimeout(resolve, 0));
+  }
+
+  options.onProgress?.(100, '照片辨識完成');
+  return { results, cancelled: false };
+}
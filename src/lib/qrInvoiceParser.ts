@@ -0,0 +1,259 @@
+import { Invoice, InvoiceItem } from '@/types';
+import { generateId } from './utils';
+import { categorizeItem } from './categoryRules';
+import { parseROCDate } from './dateFormat';
+
+/**
+ * Parser for the two QR codes printed on paper e-invoice proofs (電子發票證明聯)
+ *
+ * Left code (fixed 77 characters, then item data):
+ *   發票字軌(10) 開立日期 民國yyyMMdd(7) 隨機碼(4) 銷售額 hex(8) 總計額 hex(8)
+ *   買方統編(8) 賣方統編(8) 加密驗證資訊(24)
+ *   :營業人自行使用區(10):二維條碼記載完整品目筆數:交易品目總筆數:中文編碼參數:品名:數量:單價:...
+ * Right code starts with "**" and continues the item list.
+ * Encoding parameter 0 = Big5, 1 = UTF-8, 2 = Base64 (of UTF-8 text).
+ */
+
+export interface QRPayload {
+  left: string;
+  right?: string;
+}
+
+export interface QRInvoiceResult {
+  invoice: Invoice;
+  randomCode: string;
+  salesAmount: number; // 銷售額 (before tax)
+  buyerId: string; // Empty for consumers (00000000)
+  sellerId: string;
+  warnings: string[];
+}
+
+export interface QRInvoiceOptions {
+  // The QR codes carry no store name; defaults to the seller's 統一編號
+  merchantName?: string;
+}
+
+const LEFT_CODE_HEADER_LENGTH = 77;
+const RIGHT_CODE_PREFIX = '**';
+const NO_BUYER_ID = '00000000';
+
+/**
+ * Parse an 8-character hexadecimal amount field
+ */
+function parseHexAmount(value: string, field: string): number {
+  if (!/^[0-9A-Fa-f]{8}$/.test(value)) {
+    throw new Error(`無效的${field}: ${value}`);
+  }
+  return parseInt(value, 16);
+}
+
+/**
+ * Decode Base64 item data as UTF-8 text
+ */
+function decodeBase64Text(value: string): string {
+  const binary = atob(value.replace(/\s/g, ''));
+  const bytes = Uint8Array.from(binary, char => char.charCodeAt(0));
+  return new TextDecoder('utf-8').decode(bytes);
+}
+
+/**
+ * Turn name:quantity:unitPrice triples into invoice items
+ */
+function parseItemFields(
+  fields: string[],
+  invoiceNumber: string,
+  warnings: string[]
+): InvoiceItem[] {
+  const items: InvoiceItem[] = [];
+
+  for (let i = 0; i + 2 < fields.length; i += 3) {
+    const itemName = fields[i].trim();
+    const quantity = parseFloat(fields[i + 1]);
+    const unitPrice = parseFloat(fields[i + 2]);
+
+    if (!itemName || isNaN(quantity) || isNaN(unitPrice)) {
+      warnings.push(`無法解析第 ${items.length + 1} 個品項: ${fields.slice(i, i + 3).join(':')}`);
+      continue;
+    }
+
+    items.push({
+      id: generateId(),
+      invoiceNumber,
+      itemName,
+      amount: Math.round(quantity * unitPrice * 100) / 100,
+      category: categorizeItem(itemName),
+    });
+  }
+
+  if (fields.length % 3 !== 0) {
+    warnings.push('品項資料被截斷，最後一個品項已略過');
+  }
+
+  return items;
+}
+
+/**
+ * Parse the left (and optional right) QR code payloads of a paper e-invoice
+ */
+export function parseInvoiceQRCodes(
+  payload: QRPayload,
+  options: QRInvoiceOptions = {}
+): QRInvoiceResult {
+  const left = payload.left.trim();
+  if (left.length < LEFT_CODE_HEADER_LENGTH) {
+    throw new Error(`左側QR碼內容長度不足（${left.length}/${LEFT_CODE_HEADER_LENGTH}）`);
+  }
+
+  const invoiceNumber = left.slice(0, 10).toUpperCase();
+  if (!/^[A-Z]{2}\d{8}$/.test(invoiceNumber)) {
+    throw new Error(`無效的發票號碼: ${invoiceNumber}`);
+  }
+
+  const invoiceDate = parseROCDate(left.slice(10, 17));
+  if (!invoiceDate) {
+    throw new Error(`無效的發票日期: ${left.slice(10, 17)}`);
+  }
+
+  const randomCode = left.slice(17, 21);
+  const salesAmount = parseHexAmount(left.slice(21, 29), '銷售額');
+  const totalAmount = parseHexAmount(left.slice(29, 37), '總計額');
+  const buyerId = left.slice(37, 45);
+  const sellerId = left.slice(45, 53);
+
+  const warnings: string[] = [];
+
+  // ":custom:encodedCount:totalCount:encoding:items..."
+  const [, , encodedCount = '', totalCount = '', encodingParam = '1', ...leftItems] =
+    left.slice(LEFT_CODE_HEADER_LENGTH).split(':');
+
+  let right = payload.right?.trim() ?? '';
+  if (right.startsWith(RIGHT_CODE_PREFIX)) {
+    right = right.slice(RIGHT_CODE_PREFIX.length);
+  } else if (right) {
+    warnings.push('右側QR碼不是以 ** 開頭，仍嘗試解析品項');
+  }
+
+  let itemFields: string[];
+  if (encodingParam === '2') {
+    try {
+      itemFields = decodeBase64Text(leftItems.join(':') + right).split(':');
+    } catch {
+      warnings.push('品項資料 Base64 解碼失敗');
+      itemFields = [];
+    }
+  } else {
+    // Plain-text codes break between fields; Base64 above may break anywhere
+    const rightFields = right ? right.replace(/^:/, '').split(':') : [];
+    itemFields = [...leftItems, ...rightFields];
+  }
+  // A trailing ':' leaves an empty field behind
+  while (itemFields.length > 0 && itemFields[itemFields.length - 1] === '') {
+    itemFields.pop();
+  }
+
+  const items = parseItemFields(itemFields, invoiceNumber, warnings);
+
+  const expectedItems = parseInt(totalCount) || parseInt(encodedCount) || 0;
+  if (expectedItems > items.length) {
+    warnings.push(`QR碼僅記載 ${items.length}/${expectedItems} 個品項${payload.right ? '' : '，請一併提供右側QR碼'}`);
+  }
+
+  // Keep category breakdowns summing to the invoice total when details are missing
+  const itemsTotal = items.reduce((sum, item) => sum + item.amount, 0);
+  if (items.length === 0 || (expectedItems > items.length && totalAmount > itemsTotal)) {
+    items.push({
+      id: generateId(),
+      invoiceNumber,
+      itemName: '未列明品項',
+      amount: totalAmount - itemsTotal,
+      category: '其他',
+    });
+  }
+
+  return {
+    invoice: {
+      id: generateId(),
+      carrierType: '',
+      carrierNumber: '',
+      invoiceDate,
+      merchantId: sellerId,
+      merchantName: options.merchantName?.trim() || `統編 ${sellerId}`,
+      invoiceNumber,
+      totalAmount,
+      status: 'issued',
+      items,
+      sourceType: 'paper',
+    },
+    randomCode,
+    salesAmount,
+    buyerId: buyerId === NO_BUYER_ID ? '' : buyerId,
+    sellerId,
+    warnings,
+  };
+}
+
+/**
+ * Build a paper invoice from details typed in by hand (when the QR codes are unreadable)
+ */
+export function createManualPaperInvoice(details: {
+  invoiceNumber: string;
+  invoiceDate: Date;
+  totalAmount: number;
+  merchantName: string;
+}): Invoice {
+  const invoiceNumber = details.invoiceNumber.trim().toUpperCase();
+  if (!/^[A-Z]{2}\d{8}$/.test(invoiceNumber)) {
+    throw new Error(`無效的發票號碼: ${details.invoiceNumber}`);
+  }
+  if (Number.isNaN(details.invoiceDate.getTime())) {
+    throw new Error('請輸入發票日期');
+  }
+  if (!(details.totalAmount > 0)) {
+    throw new Error('請輸入發票金額');
+  }
+
+  return {
+    id: generateId(),
+    carrierType: '',
+    carrierNumber: '',
+    invoiceDate: details.invoiceDate,
+    merchantId: '',
+    merchantName: details.merchantName.trim() || '紙本發票',
+    invoiceNumber,
+    totalAmount: details.totalAmount,
+    status: 'issued',
+    items: [{
+      id: generateId(),
+      invoiceNumber,
+      itemName: '未列明品項',
+      amount: details.totalAmount,
+      category: '其他',
+    }],
+    sourceType: 'paper',
+  };
+}
+
+/**
+ * Split scanner output into left/right payload pairs
+ * Each line is one QR code; a line starting with "**" continues the previous left code.
+ */
+export function splitQRPayloads(text: string): QRPayload[] {
+  const payloads: QRPayload[] = [];
+
+  text
+    .split(/\r?\n/)
+    .map(line => line.trim())
+    .filter(Boolean)
+    .forEach(line => {
+      const last = payloads[payloads.length - 1];
+      if (line.startsWith(RIGHT_CODE_PREFIX)) {
+        if (last && last.right === undefined) {
+          last.right = line;
+        }
+        return;
+      }
+      payloads.push({ left: line });
+    });
+
+  return payloads;
+}
@@ -0,0 +1,99 @@
+import { Invoice, InvoiceItem } from '@/types';
+import { generateId } from './utils';
+
+/**
+ * Reconcile invoice totals (M-line) against the sum of their items (D-lines)
+ * Missing D-lines, discount lines and truncated exports leave the two apart,
+ * which skews category breakdowns against the totals.
+ */
+
+export type MismatchReason = 'missing-items' | 'items-short' | 'items-over';
+
+export interface AmountMismatch {
+  invoiceId: string;
+  invoiceNumber: string;
+  sourceFileId?: string;
+  totalAmount: number;
+  itemsTotal: number;
+  difference: number; // totalAmount - itemsTotal
+  reason: MismatchReason;
+}
+
+export const MISMATCH_REASON_LABELS: Record<MismatchReason, string> = {
+  'missing-items': '缺少明細',
+  'items-short': '明細少於總額',
+  'items-over': '明細多於總額（可能有折扣）',
+};
+
+export const UNALLOCATED_CATEGORY = '未分配';
+export const DISCOUNT_CATEGORY = '折扣';
+
+// Differences below half a cent are rounding noise
+const TOLERANCE = 0.005;
+
+const roundCents = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * Sum of an invoice's item amounts
+ */
+export function getItemsTotal(invoice: Invoice): number {
+  return roundCents(invoice.items.reduce((sum, item) => sum + item.amount, 0));
+}
+
+/**
+ * Compare an invoice total with its items; null when they agree
+ */
+export function reconcileInvoice(invoice: Invoice): AmountMismatch | null {
+  const itemsTotal = getItemsTotal(invoice);
+  const difference = roundCents(invoice.totalAmount - itemsTotal);
+  if (Math.abs(difference) < TOLERANCE) {
+    return null;
+  }
+
+  return {
+    invoiceId: invoice.id,
+    invoiceNumber: invoice.invoiceNumber,
+    sourceFileId: invoice.sourceFileId,
+    totalAmount: invoice.totalAmount,
+    itemsTotal,
+    difference,
+    reason:
+      invoice.items.length === 0
+        ? 'missing-items'
+        : difference > 0
+          ? 'items-short'
+          : 'items-over',
+  };
+}
+
+/**
+ * All invoices whose items do not add up to the invoice total
+ */
+export function findAmountMismatches(invoices: Invoice[]): AmountMismatch[] {
+  return invoices
+    .map(reconcileInvoice)
+    .filter((mismatch): mismatch is AmountMismatch => mismatch !== null);
+}
+
+/**
+ * Append an explicit unallocated (positive) or discount (negative) item so the
+ * items sum to the invoice total; balanced invoices are returned unchanged
+ */
+export function addAdjustmentItem(invoice: Invoice): Invoice {
+  const mismatch = reconcileInvoice(invoice);
+  if (!mismatch) {
+    return invoice;
+  }
+
+  const isDiscount = mismatch.difference < 0;
+  const item: InvoiceItem = {
+    id: generateId(),
+    invoiceNumber: invoice.invoiceNumber,
+    itemName: isDiscount ? '折扣' : '未分配金額',
+    amount: mismatch.difference,
+    category: isDiscount ? DISCOUNT_CATEGORY : UNALLOCATED_CATEGORY,
+    adjustment: true,
+  };
+
+  return { ...invoice, items: [...invoice.items, item] };
+}
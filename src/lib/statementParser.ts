@@ -0,0 +1,350 @@
+import Papa from 'papaparse';
+import {
+  FileEncoding,
+  Invoice,
+  StatementAmountConvention,
+  StatementDateFormat,
+  StatementProfile,
+} from '@/types';
+import { generateId } from './utils';
+import { categorizeItem } from './categoryRules';
+import { decodeBytes, detectEncoding, readFileBytes } from './encodingDetector';
+import {
+  createCancelledResult,
+  type ParseError,
+  type ParseOptions,
+  type ParseResult,
+} from './csvParser';
+import { matchesFileNamePattern } from './columnMapping';
+import { parseROCDate } from './dateFormat';
+
+/**
+ * Importer for bank and credit-card statements
+ * Statements have no fixed layout, so every file is read through a
+ * StatementProfile. Each spending row becomes a single-item Invoice with
+ * sourceType 'statement' so it flows into the same store and statistics.
+ */
+
+const SAMPLE_ROW_LIMIT = 10;
+
+export const STATEMENT_DATE_FORMAT_LABELS: Record<StatementDateFormat, string> = {
+  'YYYY-MM-DD': 'YYYY-MM-DD',
+  'YYYY/MM/DD': 'YYYY/MM/DD',
+  YYYYMMDD: 'YYYYMMDD',
+  'MM/DD/YYYY': 'MM/DD/YYYY',
+  'DD/MM/YYYY': 'DD/MM/YYYY',
+  ROC: '民國 yyy/MM/dd',
+};
+
+export const AMOUNT_CONVENTION_LABELS: Record<StatementAmountConvention, string> = {
+  'negative-expense': '單一金額欄，支出為負數（銀行帳戶）',
+  'positive-expense': '單一金額欄，消費為正數（信用卡）',
+  'debit-credit': '支出、存入分開兩欄',
+};
+
+export const STATEMENT_DELIMITER_LABELS: Record<string, string> = {
+  '': '自動判斷',
+  ',': '逗號 (,)',
+  ';': '分號 (;)',
+  '\t': 'Tab',
+  '|': '直線 (|)',
+};
+
+/**
+ * Starting point for a new profile: date, description, amount in the first columns
+ */
+export function createStatementProfile(fileName = ''): StatementProfile {
+  return {
+    id: generateId(),
+    name: fileName,
+    fileNamePattern: '',
+    delimiter: '',
+    headerRows: 1,
+    dateColumn: 0,
+    dateFormat: 'YYYY/MM/DD',
+    amountColumn: 2,
+    amountConvention: 'negative-expense',
+    descriptionColumn: 1,
+  };
+}
+
+/**
+ * Find the first statement profile whose pattern matches the file name
+ */
+export function findStatementProfile(
+  fileName: string,
+  profiles: StatementProfile[]
+): StatementProfile | undefined {
+  return profiles.find(profile =>
+    matchesFileNamePattern(fileName, profile.fileNamePattern)
+  );
+}
+
+/**
+ * Validate a statement file before parsing
+ * Banks export .csv, .tsv or plain .txt files
+ */
+export function validateStatementFile(file: File): { valid: boolean; error?: string } {
+  if (!/\.(csv|tsv|txt)$/i.test(file.name) && !file.type.includes('csv')) {
+    return { valid: false, error: '請選擇CSV、TSV或TXT格式的對帳單' };
+  }
+
+  if (file.size === 0) {
+    return { valid: false, error: '檔案不能為空' };
+  }
+
+  return { valid: true };
+}
+
+/**
+ * Parse a statement date in the profile's format
+ */
+export function parseStatementDate(value: string, format: StatementDateFormat): Date | null {
+  const digits = value.trim().split(/[\s T]/)[0];
+  let parts: RegExpMatchArray | null = null;
+  let year: number, month: number, day: number;
+
+  switch (format) {
+    case 'YYYYMMDD':
+      parts = digits.match(/^(\d{4})(\d{2})(\d{2})$/);
+      if (!parts) return null;
+      [year, month, day] = [parts[1], parts[2], parts[3]].map(Number);
+      break;
+    case 'YYYY-MM-DD':
+    case 'YYYY/MM/DD':
+      parts = digits.match(/^(\d{4})[/.-](\d{1,2})[/.-](\d{1,2})$/);
+      if (!parts) return null;
+      [year, month, day] = [parts[1], parts[2], parts[3]].map(Number);
+      break;
+    case 'MM/DD/YYYY':
+      parts = digits.match(/^(\d{1,2})[/.-](\d{1,2})[/.-](\d{4})$/);
+      if (!parts) return null;
+      [month, day, year] = [parts[1], parts[2], parts[3]].map(Number);
+      break;
+    case 'DD/MM/YYYY':
+      parts = digits.match(/^(\d{1,2})[/.-](\d{1,2})[/.-](\d{4})$/);
+      if (!parts) return null;
+      [day, month, year] = [parts[1], parts[2], parts[3]].map(Number);
+      break;
+    case 'ROC':
+      return parseROCDate(digits);
+  }
+
+  const date = new Date(year, month - 1, day);
+  if (date.getFullYear() !== year || date.getMonth() !== month - 1 || date.getDate() !== day) {
+    return null;
+  }
+  return date;
+}
+
+/**
+ * Parse a statement amount such as "1,234", "-500", "(500)", "500-" or "NT$ 1,200"
+ * Returns null for empty cells
+ */
+export function parseStatementAmount(value: string | undefined): number | null {
+  let text = (value ?? '').trim();
+  if (!text) return null;
+
+  let negative = false;
+  if (/^\(.*\)$/.test(text)) {
+    negative = true;
+    text = text.slice(1, -1);
+  }
+  if (text.endsWith('-')) {
+    negative = true;
+    text = text.slice(0, -1);
+  }
+
+  const cleaned = text.replace(/[^\d.-]/g, '');
+  if (!cleaned || cleaned === '-') return null;
+
+  const amount = parseFloat(cleaned);
+  if (isNaN(amount)) {
+    throw new Error(`無效的金額格式: ${value}`);
+  }
+  return negative ? -Math.abs(amount) : amount;
+}
+
+/**
+ * Spending amount of a row (positive), or null for deposits, refunds and empty rows
+ */
+function getExpenseAmount(row: string[], profile: StatementProfile): number | null {
+  const amount = parseStatementAmount(row[profile.amountColumn]);
+
+  switch (profile.amountConvention) {
+    case 'negative-expense':
+      return amount !== null && amount < 0 ? -amount : null;
+    case 'positive-expense':
+      return amount !== null && amount > 0 ? amount : null;
+    case 'debit-credit':
+      return amount !== null && amount !== 0 ? Math.abs(amount) : null;
+  }
+}
+
+/**
+ * Short stable hash used to build transaction keys
+ */
+function hashString(value: string): string {
+  let hash = 5381;
+  for (let i = 0; i < value.length; i++) {
+    hash = ((hash << 5) + hash + value.charCodeAt(i)) | 0;
+  }
+  return (hash >>> 0).toString(36).toUpperCase();
+}
+
+/**
+ * Build a stable key for a transaction so overlapping statements are
+ * recognised as duplicates on import; identical rows on the same day are
+ * told apart by their occurrence within the file
+ */
+function createTransactionKey(
+  date: Date,
+  amount: number,
+  description: string,
+  occurrence: number
+): string {
+  const y = date.getFullYear();
+  const m = String(date.getMonth() + 1).padStart(2, '0');
+  const d = String(date.getDate()).padStart(2, '0');
+  return `TX${y}${m}${d}-${hashString(`${amount}|${description}|${occurrence}`)}`;
+}
+
+/**
+ * Parse a bank or credit-card statement with the given profile
+ */
+export async function parseStatementCSV(
+  file: File,
+  profile: StatementProfile,
+  options: ParseOptions = {}
+): Promise<ParseResult> {
+  const { onProgress, skipErrors = true, maxErrors = 100, signal } = options;
+  const requestedEncoding = options.encoding ?? 'auto';
+
+  if (signal?.aborted) {
+    return createCancelledResult();
+  }
+
+  let text: string;
+  let encoding: FileEncoding;
+  try {
+    const bytes = await readFileBytes(file);
+    encoding =
+      requestedEncoding === 'auto'
+        ? detectEncoding(bytes).encoding
+        : requestedEncoding;
+    text = decodeBytes(bytes, encoding);
+  } catch (error) {
+    return {
+      success: false,
+      invoices: [],
+      errors: [{
+        row: -1,
+        message: `檔案讀取失敗: ${error instanceof Error ? error.message : '未知錯誤'}`,
+      }],
+      totalRows: 0,
+      processedRows: 0,
+    };
+  }
+
+  onProgress?.(0, '開始解析對帳單...');
+
+  const parsed = Papa.parse<string[]>(text, {
+    header: false,
+    delimiter: profile.delimiter,
+    skipEmptyLines: 'greedy',
+  });
+
+  if (signal?.aborted) {
+    return createCancelledResult(encoding);
+  }
+
+  const rows = parsed.data;
+  const errors: ParseError[] = [];
+  const invoices: Invoice[] = [];
+  const occurrences = new Map<string, number>();
+  let skippedRows = 0;
+
+  rows.slice(profile.headerRows).forEach((row, index) => {
+    if (errors.length >= maxErrors || (!skipErrors && errors.length > 0)) {
+      return;
+    }
+
+    const rowNumber = profile.headerRows + index + 1;
+    try {
+      const dateValue = row[profile.dateColumn]?.trim() ?? '';
+      const invoiceDate = parseStatementDate(dateValue, profile.dateFormat);
+      if (!invoiceDate) {
+        throw new Error(`無效的日期格式: ${dateValue}`);
+      }
+
+      const amount = getExpenseAmount(row, profile);
+      if (amount === null) {
+        // Deposits, refunds and balance-only rows are not spending
+        skippedRows++;
+        return;
+      }
+
+      const description = row[profile.descriptionColumn]?.trim() ?? '';
+      const counterparty =
+        profile.counterpartyColumn !== undefined
+          ? row[profile.counterpartyColumn]?.trim() ?? ''
+          : '';
+      const label = description || counterparty;
+      if (!label) {
+        throw new Error('交易說明不能為空');
+      }
+
+      const identity = `${invoiceDate.getTime()}|${amount}|${description}|${counterparty}`;
+      const occurrence = (occurrences.get(identity) ?? 0) + 1;
+      occurrences.set(identity, occurrence);
+
+      const invoiceNumber = createTransactionKey(
+        invoiceDate,
+        amount,
+        `${description}|${counterparty}`,
+        occurrence
+      );
+
+      invoices.push({
+        id: generateId(),
+        carrierType: '',
+        carrierNumber: '',
+        invoiceDate,
+        merchantId: '',
+        merchantName: counterparty || description,
+        invoiceNumber,
+        totalAmount: amount,
+        status: 'issued',
+        items: [{
+          id: generateId(),
+          invoiceNumber,
+          itemName: label,
+          amount,
+          category: categorizeItem(label, amount),
+          sourceRow: rowNumber,
+        }],
+        sourceRow: rowNumber,
+        sourceType: 'statement',
+      });
+    } catch (error) {
+      errors.push({
+        row: rowNumber,
+        message: error instanceof Error ? error.message : '未知錯誤',
+        data: row,
+      });
+    }
+  });
+
+  onProgress?.(100, '解析完成');
+
+  return {
+    success: errors.length === 0 || (skipErrors && invoices.length > 0),
+    invoices,
+    errors,
+    totalRows: rows.length,
+    processedRows: invoices.length,
+    skippedRows,
+    encoding,
+    sampleRows: rows.slice(0, SAMPLE_ROW_LIMIT),
+  };
+}
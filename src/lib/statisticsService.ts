@@ -1,4 +1,13 @@
 import { Invoice, Statistics, CategoryStat, TimeSeriesPoint } from '@/types';
+import {
+  getCarrierDisplayName,
+  getCarrierKey,
+  getCarrierTypeInfo,
+  type CarrierKind,
+} from './carrierRegistry';
+import { categorizeItem } from './categoryRules';
+import { buildCategoryTree, isCategoryWithin, normalizeCategoryPath } from './categoryTree';
+import { getMerchantKey } from './merchantDirectory';
 
 /**
  * Advanced statistics service for invoice data processing
@@ -9,6 +18,7 @@ import { Invoice, Statistics, CategoryStat, TimeSeriesPoint } from '@/types';
 export interface ExtendedStatistics extends Statistics {
   monthlyData: MonthlyStatistics[];
   topMerchants: MerchantStatistics[];
+  carrierBreakdown: CarrierStatistics[];
   itemFrequency: ItemFrequencyStats[];
   voidedInvoicesStats: VoidedInvoiceStats;
 }
@@ -30,6 +40,25 @@ export interface MerchantStatistics {
   percentage: number;
 }
 
+// Per merchant of the directory rather than per name
+export interface MerchantVisitStatistics extends MerchantStatistics {
+  merchantKey: string; // See getMerchantKey
+  // merchantName is the name on the latest invoice
+  firstVisit: Date;
+  lastVisit: Date;
+}
+
+export interface CarrierStatistics {
+  carrierKey: string; // '' for invoices without a carrier
+  carrierType: string;
+  carrierNumber: string;
+  kind: CarrierKind;
+  displayName: string;
+  totalAmount: number;
+  invoiceCount: number;
+  percentage: number;
+}
+
 export interface ItemFrequencyStats {
   itemName: string;
   category: string;
@@ -49,7 +78,7 @@ export interface VoidedInvoiceStats {
  */
 export function calculateExtendedStatistics(invoices: Invoice[]): ExtendedStatistics {
   // Separate valid and voided invoices
-  const validInvoices = invoices.filter(invoice => invoice.status === 'issued');
+  const validInvoices = getValidInvoices(invoices);
   const voidedInvoices = invoices.filter(invoice => invoice.status === 'voided');
 
   // Basic statistics
@@ -58,6 +87,7 @@ export function calculateExtendedStatistics(invoices: Invoice[]): ExtendedStatis
   // Extended statistics
   const monthlyData = calculateMonthlyStatistics(validInvoices);
   const topMerchants = calculateMerchantStatistics(validInvoices);
+  const carrierBreakdown = calculateCarrierStatistics(validInvoices);
   const itemFrequency = calculateItemFrequencyStats(validInvoices);
   const voidedInvoicesStats = calculateVoidedInvoiceStats(invoices, voidedInvoices);
 
@@ -65,6 +95,7 @@ export function calculateExtendedStatistics(invoices: Invoice[]): ExtendedStatis
     ...basicStats,
     monthlyData,
     topMerchants,
+    carrierBreakdown,
     itemFrequency,
     voidedInvoicesStats,
   };
@@ -117,6 +148,7 @@ export function calculateBasicStatistics(invoices: Invoice[]): Statistics {
 
 /**
  * Calculate category breakdown with improved categorization
+ * Top-level categories roll up their subcategories, see buildCategoryTree.
  * Requirements: 4.1, 4.2
  */
 export function calculateCategoryBreakdown(invoices: Invoice[]): CategoryStat[] {
@@ -124,7 +156,8 @@ export function calculateCategoryBreakdown(invoices: Invoice[]): CategoryStat[]
   
   invoices.forEach(invoice => {
     invoice.items.forEach(item => {
-      const category = item.category || categorizeItemAdvanced(item.itemName);
+      const category =
+        normalizeCategoryPath(item.category || '') || categorizeItem(item.itemName, item.amount);
       const existing = categoryMap.get(category) || { amount: 0, count: 0 };
       categoryMap.set(category, {
         amount: existing.amount + item.amount,
@@ -133,16 +166,9 @@ export function calculateCategoryBreakdown(invoices: Invoice[]): CategoryStat[]
     });
   });
 
-  const totalAmount = Array.from(categoryMap.values()).reduce((sum, cat) => sum + cat.amount, 0);
-  
-  return Array.from(categoryMap.entries())
-    .map(([category, data]) => ({
-      category,
-      amount: data.amount,
-      count: data.count,
-      percentage: totalAmount > 0 ? (data.amount / totalAmount) * 100 : 0,
-    }))
-    .sort((a, b) => b.amount - a.amount);
+  return buildCategoryTree(
+    Array.from(categoryMap.entries()).map(([category, data]) => ({ category, ...data }))
+  );
 }
 
 /**
@@ -211,6 +237,7 @@ export function calculateMonthlyStatistics(invoices: Invoice[]): MonthlyStatisti
 
 /**
  * Calculate merchant statistics
+ * Grouped by name, so branches of a chain with their own tax IDs add up
  */
 export function calculateMerchantStatistics(invoices: Invoice[]): MerchantStatistics[] {
   const merchantMap = new Map<string, { amount: number; count: number }>();
@@ -237,6 +264,91 @@ export function calculateMerchantStatistics(invoices: Invoice[]): MerchantStatis
     .slice(0, 10); // Top 10 merchants
 }
 
+/**
+ * Spending and visits of every merchant in the sense of the merchant
+ * directory (told apart by getMerchantKey), largest spending first
+ */
+export function calculateMerchantVisitStatistics(invoices: Invoice[]): MerchantVisitStatistics[] {
+  const merchantMap = new Map<
+    string,
+    { name: string; amount: number; count: number; first: Date; last: Date }
+  >();
+
+  invoices.forEach(invoice => {
+    const key = getMerchantKey(invoice);
+    const date = invoice.invoiceDate;
+    const existing = merchantMap.get(key);
+    if (!existing) {
+      merchantMap.set(key, {
+        name: invoice.merchantName,
+        amount: invoice.totalAmount,
+        count: 1,
+        first: date,
+        last: date,
+      });
+      return;
+    }
+    existing.amount += invoice.totalAmount;
+    existing.count += 1;
+    if (date < existing.first) existing.first = date;
+    if (date >= existing.last) {
+      existing.last = date;
+      existing.name = invoice.merchantName;
+    }
+  });
+
+  const totalAmount = Array.from(merchantMap.values()).reduce((sum, merchant) => sum + merchant.amount, 0);
+
+  return Array.from(merchantMap.entries())
+    .map(([merchantKey, data]) => ({
+      merchantKey,
+      merchantName: data.name,
+      totalAmount: data.amount,
+      invoiceCount: data.count,
+      averageAmount: data.amount / data.count,
+      percentage: totalAmount > 0 ? (data.amount / totalAmount) * 100 : 0,
+      firstVisit: data.first,
+      lastVisit: data.last,
+    }))
+    .sort((a, b) => b.totalAmount - a.totalAmount);
+}
+
+/**
+ * Calculate spending per carrier (phone barcode, card, ...)
+ * labels maps carrier keys to the names the user gave them
+ */
+export function calculateCarrierStatistics(
+  invoices: Invoice[],
+  labels: Record<string, string> = {}
+): CarrierStatistics[] {
+  const carrierMap = new Map<string, { invoice: Invoice; amount: number; count: number }>();
+
+  invoices.forEach(invoice => {
+    const key = getCarrierKey(invoice);
+    const existing = carrierMap.get(key) || { invoice, amount: 0, count: 0 };
+    carrierMap.set(key, {
+      invoice: existing.invoice,
+      amount: existing.amount + invoice.totalAmount,
+      count: existing.count + 1,
+    });
+  });
+
+  const totalAmount = Array.from(carrierMap.values()).reduce((sum, carrier) => sum + carrier.amount, 0);
+
+  return Array.from(carrierMap.entries())
+    .map(([carrierKey, data]) => ({
+      carrierKey,
+      carrierType: data.invoice.carrierType.trim(),
+      carrierNumber: data.invoice.carrierNumber.trim(),
+      kind: getCarrierTypeInfo(data.invoice.carrierType).kind,
+      displayName: getCarrierDisplayName(carrierKey, labels),
+      totalAmount: data.amount,
+      invoiceCount: data.count,
+      percentage: totalAmount > 0 ? (data.amount / totalAmount) * 100 : 0,
+    }))
+    .sort((a, b) => b.totalAmount - a.totalAmount);
+}
+
 /**
  * Calculate item frequency statistics
  * Requirements: 4.1, 4.2
@@ -249,7 +361,7 @@ export function calculateItemFrequencyStats(invoices: Invoice[]): ItemFrequencyS
       const existing = itemMap.get(item.itemName) || { 
         frequency: 0, 
         totalAmount: 0, 
-        category: item.category || categorizeItemAdvanced(item.itemName) 
+        category: item.category || categorizeItem(item.itemName, item.amount) 
       };
       itemMap.set(item.itemName, {
         frequency: existing.frequency + 1,
@@ -287,84 +399,6 @@ export function calculateVoidedInvoiceStats(allInvoices: Invoice[], voidedInvoic
   };
 }
 
-/**
- * Advanced item categorization with more categories
- * Requirements: 4.1, 4.2
- */
-export function categorizeItemAdvanced(itemName: string): string {
-  const name = itemName.toLowerCase();
-  
-  // Beverages
-  if (name.includes('飲料') || name.includes('咖啡') || name.includes('茶') || 
-      name.includes('果汁') || name.includes('汽水') || name.includes('可樂') ||
-      name.includes('奶茶') || name.includes('豆漿') || name.includes('水')) {
-    return '飲料';
-  }
-  
-  // Snacks and desserts
-  if (name.includes('麵包') || name.includes('蛋糕') || name.includes('餅乾') || 
-      name.includes('糖果') || name.includes('巧克力') || name.includes('冰淇淋') ||
-      name.includes('零食') || name.includes('洋芋片')) {
-    return '點心零食';
-  }
-  
-  // Main meals
-  if (name.includes('便當') || name.includes('飯') || name.includes('麵') || 
-      name.includes('湯') || name.includes('雞腿') || name.includes('排骨') ||
-      name.includes('魚') || name.includes('肉') || name.includes('蛋') ||
-      name.includes('菜') || name.includes('炒') || name.includes('燉')) {
-    return '餐食';
-  }
-  
-  // Fresh food
-  if (name.includes('蔬菜') || name.includes('水果') || name.includes('肉類') ||
-      name.includes('海鮮') || name.includes('牛奶') || name.includes('雞蛋') ||
-      name.includes('豆腐') || name.includes('青菜')) {
-    return '生鮮食品';
-  }
-  
-  // Daily necessities
-  if (name.includes('衛生紙') || name.includes('洗髮') || name.includes('沐浴') || 
-      name.includes('牙膏') || name.includes('牙刷') || name.includes('洗衣') ||
-      name.includes('清潔') || name.includes('毛巾') || name.includes('肥皂')) {
-    return '日用品';
-  }
-  
-  // Health and medicine
-  if (name.includes('藥') || name.includes('維他命') || name.includes('保健') ||
-      name.includes('營養') || name.includes('膠囊') || name.includes('錠')) {
-    return '保健用品';
-  }
-  
-  // Transportation
-  if (name.includes('油') || name.includes('汽油') || name.includes('停車') ||
-      name.includes('過路費') || name.includes('捷運') || name.includes('公車') ||
-      name.includes('計程車') || name.includes('機車')) {
-    return '交通';
-  }
-  
-  // Clothing
-  if (name.includes('衣') || name.includes('褲') || name.includes('鞋') ||
-      name.includes('襪') || name.includes('帽') || name.includes('包')) {
-    return '服飾';
-  }
-  
-  // Electronics
-  if (name.includes('手機') || name.includes('電腦') || name.includes('充電') ||
-      name.includes('耳機') || name.includes('電池') || name.includes('3C')) {
-    return '3C電子';
-  }
-  
-  // Books and stationery
-  if (name.includes('書') || name.includes('筆') || name.includes('紙') ||
-      name.includes('文具') || name.includes('雜誌') || name.includes('報紙')) {
-    return '文具書籍';
-  }
-  
-  // Default category
-  return '其他';
-}
-
 /**
  * Filter invoices by date range
  */
@@ -395,22 +429,29 @@ export function filterInvoicesByAmountRange(invoices: Invoice[], minAmount: numb
 }
 
 /**
- * Filter invoices by category
+ * Filter invoices by category, including its subcategories
  */
 export function filterInvoicesByCategory(invoices: Invoice[], category: string): Invoice[] {
   return invoices.filter(invoice => 
     invoice.items.some(item => 
-      (item.category || categorizeItemAdvanced(item.itemName)) === category
+      isCategoryWithin(item.category || categorizeItem(item.itemName, item.amount), category)
     )
   );
 }
 
 /**
- * Get invoices excluding voided ones
+ * Filter invoices by carrier key (see getCarrierKey)
+ */
+export function filterInvoicesByCarrier(invoices: Invoice[], carrierKey: string): Invoice[] {
+  return invoices.filter(invoice => getCarrierKey(invoice) === carrierKey);
+}
+
+/**
+ * Get invoices excluding voided ones and those the user excluded
  * Requirements: Handle voided invoice filtering logic
  */
 export function getValidInvoices(invoices: Invoice[]): Invoice[] {
-  return invoices.filter(invoice => invoice.status === 'issued');
+  return invoices.filter(invoice => invoice.status === 'issued' && !invoice.excluded);
 }
 
 /**
@@ -0,0 +1,167 @@
+import { generateId } from './utils';
+
+/**
+ * Coordination between open tabs of the app
+ * Messages go over BroadcastChannel, or through `storage` events on a
+ * localStorage key where BroadcastChannel is missing. Exclusive work uses the
+ * Web Locks API, or a lease kept in localStorage as a fallback.
+ */
+
+// Identifies this tab in fallback messages and leases
+export const TAB_ID = generateId();
+
+export type TabMessage = { type: 'store-updated' };
+
+export interface TabChannel {
+  post: (message: TabMessage) => void;
+  subscribe: (listener: (message: TabMessage) => void) => () => void;
+}
+
+const LEASE_MS = 10000;
+const LEASE_POLL_MS = 250;
+
+export const messageKey = (name: string) => `${name}-message`;
+export const leaseKey = (name: string) => `${name}-lease`;
+
+/**
+ * Channel to the other tabs; the BroadcastChannel is opened on first use
+ */
+export function createTabChannel(name: string): TabChannel {
+  let channel: BroadcastChannel | null = null;
+  const getChannel = () => {
+    if (!channel && typeof BroadcastChannel !== 'undefined') {
+      channel = new BroadcastChannel(name);
+    }
+    return channel;
+  };
+
+  return {
+    post: message => {
+      const broadcast = getChannel();
+      if (broadcast) {
+        broadcast.postMessage(message);
+        return;
+      }
+      try {
+        // The nonce makes repeated messages still change the value
+        localStorage.setItem(
+          messageKey(name),
+          JSON.stringify({ ...message, sender: TAB_ID, nonce: generateId() })
+        );
+      } catch {
+        // Storage unavailable: other tabs catch up on their next load
+      }
+    },
+
+    subscribe: listener => {
+      const broadcast = getChannel();
+      if (broadcast) {
+        const handleMessage = (event: MessageEvent<TabMessage>) => listener(event.data);
+        broadcast.addEventListener('message', handleMessage);
+        return () => broadcast.removeEventListener('message', handleMessage);
+      }
+
+      const handleStorage = (event: StorageEvent) => {
+        if (event.key !== messageKey(name) || !event.newValue) return;
+        try {
+          const { sender, type } = JSON.parse(event.newValue);
+          if (sender !== TAB_ID) listener({ type } as TabMessage);
+        } catch {
+          // Not a message written by this app
+        }
+      };
+      window.addEventListener('storage', handleStorage);
+      return () => window.removeEventListener('storage', handleStorage);
+    },
+  };
+}
+
+interface Lease {
+  owner: string;
+  expires: number;
+}
+
+const readLease = (name: string): Lease | null => {
+  try {
+    const raw = localStorage.getItem(leaseKey(name));
+    return raw ? (JSON.parse(raw) as Lease) : null;
+  } catch {
+    return null;
+  }
+};
+
+const writeLease = (name: string) =>
+  localStorage.setItem(
+    leaseKey(name),
+    JSON.stringify({ owner: TAB_ID, expires: Date.now() + LEASE_MS })
+  );
+
+const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// Tasks of this tab under one name run one after another, as with Web Locks
+const localQueues = new Map<string, Promise<void>>();
+
+// Fallback lock: a lease that expires, so a closed tab cannot hold it forever
+async function runWithLease<T>(
+  name: string,
+  task: (waited: boolean) => Promise<T>,
+  onWait?: () => void
+): Promise<T> {
+  const previous = localQueues.get(name) ?? Promise.resolve();
+  let releaseLocal!: () => void;
+  const current = new Promise<void>(resolve => (releaseLocal = resolve));
+  localQueues.set(name, previous.then(() => current));
+  await previous;
+
+  let waited = false;
+  for (;;) {
+    const lease = readLease(name);
+    if (!lease || lease.owner === TAB_ID || lease.expires < Date.now()) {
+      writeLease(name);
+      // Another tab may have written at the same time; the last write wins
+      await wait(0);
+      if (readLease(name)?.owner === TAB_ID) break;
+    }
+    if (!waited) {
+      waited = true;
+      onWait?.();
+    }
+    await wait(LEASE_POLL_MS);
+  }
+
+  const renew = setInterval(() => writeLease(name), LEASE_MS / 2);
+  try {
+    return await task(waited);
+  } finally {
+    clearInterval(renew);
+    if (readLease(name)?.owner === TAB_ID) {
+      localStorage.removeItem(leaseKey(name));
+    }
+    releaseLocal();
+  }
+}
+
+/**
+ * Run a task while no other tab runs one under the same name
+ * `onWait` is called once when another tab holds the lock; the task is told
+ * whether it had to wait, since that tab may have changed shared data.
+ */
+export async function runExclusive<T>(
+  name: string,
+  task: (waited: boolean) => Promise<T>,
+  onWait?: () => void
+): Promise<T> {
+  if (typeof navigator === 'undefined' || !navigator.locks) {
+    return runWithLease(name, task, onWait);
+  }
+
+  const immediate = await navigator.locks.request(name, { ifAvailable: true }, async lock =>
+    lock ? { value: await task(false) } : null
+  );
+  if (immediate) {
+    return immediate.value;
+  }
+
+  onWait?.();
+  return navigator.locks.request(name, () => task(true));
+}
@@ -0,0 +1,152 @@
+import { Asset, FileInfo, Invoice } from '@/types';
+import { generateId } from './utils';
+
+/**
+ * Undo/redo history for destructive store actions
+ * An entry keeps only the records an action removed or replaced (with their
+ * positions), not a copy of the whole state, so deleting one file costs as
+ * much history as that file's invoices.
+ */
+
+export const HISTORY_LIMIT = 20;
+
+export interface HistoryData {
+  invoices: Invoice[];
+  files: FileInfo[];
+  assets: Asset[];
+}
+
+export type HistoryEntity = keyof HistoryData;
+
+const HISTORY_ENTITIES: HistoryEntity[] = ['invoices', 'files', 'assets'];
+
+interface PositionedRecord<T> {
+  index: number;
+  record: T;
+}
+
+export interface EntityChange<T = unknown> {
+  before: PositionedRecord<T>[]; // Records the action removed or replaced
+  after: PositionedRecord<T>[]; // Records the action added or replaced them with
+}
+
+export interface HistoryEntry {
+  id: string;
+  label: string;
+  timestamp: number;
+  changes: Partial<Record<HistoryEntity, EntityChange>>;
+}
+
+type WithId = { id: string };
+
+/**
+ * Records that differ (by reference) between two versions of a list
+ */
+export function diffRecords<T extends WithId>(before: T[], after: T[]): EntityChange<T> | null {
+  const afterById = new Map(after.map(record => [record.id, record]));
+  const beforeById = new Map(before.map(record => [record.id, record]));
+
+  const change: EntityChange<T> = {
+    before: before
+      .map((record, index) => ({ index, record }))
+      .filter(({ record }) => afterById.get(record.id) !== record),
+    after: after
+      .map((record, index) => ({ index, record }))
+      .filter(({ record }) => beforeById.get(record.id) !== record),
+  };
+
+  return change.before.length > 0 || change.after.length > 0 ? change : null;
+}
+
+// Take out the records of `remove` and put back those of `insert` at their positions
+const swapRecords = <T extends WithId>(
+  current: T[],
+  remove: PositionedRecord<T>[],
+  insert: PositionedRecord<T>[]
+): T[] => {
+  const removedIds = new Set(remove.map(({ record }) => record.id));
+  const insertedIds = new Set(insert.map(({ record }) => record.id));
+  const result = current.filter(
+    record => !removedIds.has(record.id) && !insertedIds.has(record.id)
+  );
+
+  [...insert]
+    .sort((a, b) => a.index - b.index)
+    .forEach(({ index, record }) => {
+      result.splice(Math.min(index, result.length), 0, record);
+    });
+  return result;
+};
+
+/**
+ * History entry for an action that turned `before` into `after`; null when
+ * nothing changed
+ */
+export function createHistoryEntry(
+  label: string,
+  before: HistoryData,
+  after: Partial<HistoryData>
+): HistoryEntry | null {
+  const changes: HistoryEntry['changes'] = {};
+  HISTORY_ENTITIES.forEach(entity => {
+    const next = after[entity];
+    const change = next ? diffRecords<WithId>(before[entity], next) : null;
+    if (change) {
+      changes[entity] = change;
+    }
+  });
+
+  if (Object.keys(changes).length === 0) {
+    return null;
+  }
+  return { id: generateId(), label, timestamp: Date.now(), changes };
+}
+
+/**
+ * Records of an entity that undoing or redoing the entries would bring back
+ * or replace, e.g. to keep what they refer to
+ */
+export function getHistoryRecords<K extends HistoryEntity>(
+  entries: HistoryEntry[],
+  entity: K
+): HistoryData[K][number][] {
+  return entries.flatMap(entry => {
+    const change = entry.changes[entity] as EntityChange<HistoryData[K][number]> | undefined;
+    return change ? [...change.before, ...change.after].map(({ record }) => record) : [];
+  });
+}
+
+/**
+ * State with the entry's action reverted
+ */
+export function undoEntry(current: HistoryData, entry: HistoryEntry): Partial<HistoryData> {
+  const result: Partial<HistoryData> = {};
+  HISTORY_ENTITIES.forEach(entity => {
+    const change = entry.changes[entity] as EntityChange<WithId> | undefined;
+    if (change) {
+      result[entity] = swapRecords<WithId>(current[entity], change.after, change.before) as never;
+    }
+  });
+  return result;
+}
+
+/**
+ * State with the entry's action applied again
+ */
+export function redoEntry(current: HistoryData, entry: HistoryEntry): Partial<HistoryData> {
+  const result: Partial<HistoryData> = {};
+  HISTORY_ENTITIES.forEach(entity => {
+    const change = entry.changes[entity] as EntityChange<WithId> | undefined;
+    if (change) {
+      result[entity] = swapRecords<WithId>(current[entity], change.before, change.after) as never;
+    }
+  });
+  return result;
+}
+
+/**
+ * Push an entry, dropping the oldest beyond HISTORY_LIMIT
+ */
+export function pushHistory(stack: HistoryEntry[], entry: HistoryEntry | null): HistoryEntry[] {
+  return entry ? [...stack, entry].slice(-HISTORY_LIMIT) : stack;
+}
@@ -0,0 +1,113 @@
+/**
+ * Passphrase-based encryption with WebCrypto
+ * Keys are derived with PBKDF2-SHA-256 and used for AES-GCM; every value gets
+ * a fresh 96-bit IV. Binary data is carried as base64 so it fits JSON.
+ */
+
+export const PBKDF2_ITERATIONS = 310000;
+
+export interface KeyDerivation {
+  salt: string; // base64
+  iterations: number;
+}
+
+export interface SealedValue {
+  iv: string; // base64
+  data: string; // base64 ciphertext including the GCM tag
+}
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+export function toBase64(bytes: Uint8Array): string {
+  let binary = '';
+  bytes.forEach(byte => {
+    binary += String.fromCharCode(byte);
+  });
+  return btoa(binary);
+}
+
+export function fromBase64(value: string) {
+  const binary = atob(value);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+}
+
+export function isWebCryptoAvailable(): boolean {
+  return typeof crypto !== 'undefined' && !!crypto.subtle;
+}
+
+export function createKeyDerivation(): KeyDerivation {
+  return {
+    salt: toBase64(crypto.getRandomValues(new Uint8Array(16))),
+    iterations: PBKDF2_ITERATIONS,
+  };
+}
+
+export async function deriveKey(passphrase: string, derivation: KeyDerivation): Promise<CryptoKey> {
+  const baseKey = await crypto.subtle.importKey(
+    'raw',
+    encoder.encode(passphrase),
+    'PBKDF2',
+    false,
+    ['deriveKey']
+  );
+
+  return crypto.subtle.deriveKey(
+    {
+      name: 'PBKDF2',
+      salt: fromBase64(derivation.salt),
+      iterations: derivation.iterations,
+      hash: 'SHA-256',
+    },
+    baseKey,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt']
+  );
+}
+
+/**
+ * Encrypt any JSON-serializable value
+ */
+export async function sealJSON(key: CryptoKey, value: unknown): Promise<SealedValue> {
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const ciphertext = await crypto.subtle.encrypt(
+    { name: 'AES-GCM', iv },
+    key,
+    encoder.encode(JSON.stringify(value))
+  );
+  return { iv: toBase64(iv), data: toBase64(new Uint8Array(ciphertext)) };
+}
+
+/**
+ * Decrypt a value sealed with sealJSON; rejects when the key is wrong or the
+ * data was tampered with
+ */
+export async function openJSON<T = unknown>(key: CryptoKey, sealed: SealedValue): Promise<T> {
+  const plaintext = await crypto.subtle.decrypt(
+    { name: 'AES-GCM', iv: fromBase64(sealed.iv) },
+    key,
+    fromBase64(sealed.data)
+  );
+  return JSON.parse(decoder.decode(plaintext));
+}
+
+/**
+ * Encrypt binary data such as a stored file; the ciphertext stays binary
+ */
+export async function sealBytes(
+  key: CryptoKey,
+  bytes: ArrayBuffer
+): Promise<{ iv: string; data: ArrayBuffer }> {
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const data = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, bytes);
+  return { iv: toBase64(iv), data };
+}
+
+export async function openBytes(key: CryptoKey, iv: string, data: ArrayBuffer): Promise<ArrayBuffer> {
+  return crypto.subtle.decrypt({ name: 'AES-GCM', iv: fromBase64(iv) }, key, data);
+}
@@ -0,0 +1,217 @@
+import type { StorageCodec } from './indexedDBStorage';
+import type { BinaryCodec } from './originalFileStore';
+import {
+  createKeyDerivation,
+  deriveKey,
+  isWebCryptoAvailable,
+  openBytes,
+  openJSON,
+  sealBytes,
+  sealJSON,
+  type KeyDerivation,
+  type SealedValue,
+} from './vaultCrypto';
+
+/**
+ * Optional passphrase vault for the persisted store
+ * When enabled every stored record is encrypted with a key derived from the
+ * passphrase. The key only lives in memory: after a reload or auto-lock the
+ * store stays empty until the passphrase is entered again. The vault config
+ * (salt and a verifier, no secrets) is kept in localStorage.
+ */
+
+export const VAULT_CONFIG_KEY = 'invoice-store-vault';
+export const DEFAULT_AUTO_LOCK_MINUTES = 10;
+
+const VERIFIER_TEXT = 'invoice-vault';
+
+export interface VaultConfig {
+  derivation: KeyDerivation;
+  verifier: SealedValue; // VERIFIER_TEXT sealed with the key, to check passphrases
+  autoLockMinutes: number; // 0 disables auto-lock
+}
+
+export type VaultStatus = 'disabled' | 'locked' | 'unlocked';
+
+// Stored form of an encrypted value; records keep their id as the IndexedDB key
+interface SealedRecord {
+  id?: string;
+  sealed: SealedValue;
+}
+
+const isSealedRecord = (value: unknown): value is SealedRecord =>
+  !!value && typeof value === 'object' && 'sealed' in value;
+
+class VaultService {
+  private key: CryptoKey | null = null;
+  // Salt the key was derived with, to notice a vault re-created in another tab
+  private keySalt: string | null = null;
+  private listeners: ((status: VaultStatus) => void)[] = [];
+
+  readonly codec: StorageCodec = {
+    encode: async value => {
+      if (!this.key) throw new Error('資料保險箱已鎖定');
+      const id =
+        value && typeof value === 'object' && 'id' in value
+          ? (value as { id: string }).id
+          : undefined;
+      const sealed = await sealJSON(this.key, value);
+      return id === undefined ? { sealed } : { id, sealed };
+    },
+    // Plaintext values written before the vault was enabled pass through
+    decode: async value => {
+      if (!isSealedRecord(value)) return value;
+      if (!this.key) throw new Error('資料保險箱已鎖定');
+      return openJSON(this.key, value.sealed);
+    },
+  };
+
+  isSupported(): boolean {
+    return isWebCryptoAvailable() && typeof indexedDB !== 'undefined';
+  }
+
+  getConfig(): VaultConfig | null {
+    try {
+      const raw = localStorage.getItem(VAULT_CONFIG_KEY);
+      return raw ? (JSON.parse(raw) as VaultConfig) : null;
+    } catch {
+      return null;
+    }
+  }
+
+  getStatus(): VaultStatus {
+    if (!this.getConfig()) return 'disabled';
+    return this.key ? 'unlocked' : 'locked';
+  }
+
+  isLocked(): boolean {
+    return this.getStatus() === 'locked';
+  }
+
+  // Codec for the storage adapter: null while the vault is disabled
+  getCodec(): StorageCodec | null {
+    return this.getConfig() ? this.codec : null;
+  }
+
+  /**
+   * Codec for binary data, bound to the current key so it still works after
+   * the vault is turned off; null while disabled or locked
+   */
+  getBinaryCodec(): BinaryCodec | null {
+    const key = this.key;
+    if (!this.getConfig() || !key) return null;
+    return {
+      encode: bytes => sealBytes(key, bytes),
+      decode: (iv, data) => openBytes(key, iv, data),
+    };
+  }
+
+  /**
+   * Derive the key and check it against the verifier; false on a wrong passphrase
+   */
+  async unlock(passphrase: string): Promise<boolean> {
+    const config = this.getConfig();
+    if (!config) return true;
+
+    const key = await deriveKey(passphrase, config.derivation);
+    try {
+      const text = await openJSON<string>(key, config.verifier);
+      if (text !== VERIFIER_TEXT) return false;
+    } catch {
+      return false;
+    }
+
+    this.key = key;
+    this.keySalt = config.derivation.salt;
+    this.notify();
+    return true;
+  }
+
+  lock(): void {
+    if (!this.key) return;
+    this.key = null;
+    this.keySalt = null;
+    this.notify();
+  }
+
+  /**
+   * Turn the vault on; the caller then rewrites the stored data encrypted
+   */
+  async enable(passphrase: string, autoLockMinutes = DEFAULT_AUTO_LOCK_MINUTES): Promise<void> {
+    if (!this.isSupported()) {
+      throw new Error('此瀏覽器不支援資料保險箱（需要 WebCrypto 與 IndexedDB）');
+    }
+
+    const derivation = createKeyDerivation();
+    const key = await deriveKey(passphrase, derivation);
+    const config: VaultConfig = {
+      derivation,
+      verifier: await sealJSON(key, VERIFIER_TEXT),
+      autoLockMinutes,
+    };
+
+    localStorage.setItem(VAULT_CONFIG_KEY, JSON.stringify(config));
+    this.key = key;
+    this.keySalt = derivation.salt;
+    this.notify();
+  }
+
+  /**
+   * Turn the vault off (only while unlocked); the caller then rewrites the
+   * stored data in plaintext
+   */
+  disable(): void {
+    if (this.isLocked()) {
+      throw new Error('請先解鎖資料保險箱');
+    }
+    localStorage.removeItem(VAULT_CONFIG_KEY);
+    this.key = null;
+    this.keySalt = null;
+    this.notify();
+  }
+
+  /**
+   * Forget the vault without the passphrase; the encrypted data is unreadable
+   * afterwards and must be cleared by the caller
+   */
+  reset(): void {
+    localStorage.removeItem(VAULT_CONFIG_KEY);
+    this.key = null;
+    this.keySalt = null;
+    this.notify();
+  }
+
+  setAutoLockMinutes(autoLockMinutes: number): void {
+    const config = this.getConfig();
+    if (!config) return;
+    localStorage.setItem(VAULT_CONFIG_KEY, JSON.stringify({ ...config, autoLockMinutes }));
+    this.notify();
+  }
+
+  /**
+   * Pick up a vault change made in another tab; once the vault is removed or
+   * set up with a new passphrase this tab's key no longer applies
+   */
+  syncConfig(): void {
+    if (this.key && this.getConfig()?.derivation.salt !== this.keySalt) {
+      this.key = null;
+      this.keySalt = null;
+    }
+    this.notify();
+  }
+
+  // Subscribe to lock/unlock and enable/disable
+  subscribe(listener: (status: VaultStatus) => void): () => void {
+    this.listeners.push(listener);
+    return () => {
+      this.listeners = this.listeners.filter(l => l !== listener);
+    };
+  }
+
+  private notify(): void {
+    const status = this.getStatus();
+    this.listeners.forEach(listener => listener(status));
+  }
+}
+
+export const vaultService = new VaultService();
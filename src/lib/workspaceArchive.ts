@@ -0,0 +1,324 @@
+import {
+  AppSettings,
+  Asset,
+  CategoryRule,
+  ColumnMappingProfile,
+  FileInfo,
+  Invoice,
+  Merchant,
+  StatementProfile,
+  UserProfile,
+} from '@/types';
+import {
+  PERSIST_VERSION,
+  assertReadableState,
+  migratePersistedState,
+} from '@/store/migrations';
+import {
+  createKeyDerivation,
+  deriveKey,
+  openJSON,
+  sealJSON,
+  type KeyDerivation,
+  type SealedValue,
+} from './vaultCrypto';
+
+/**
+ * Single-file backup of the whole workspace, for moving data between browsers
+ * The data section uses the persisted store schema; `schemaVersion` lets an
+ * archive written by an older release go through the same migrations as
+ * stored state. Restoring either replaces the workspace or merges into it.
+ */
+
+export const ARCHIVE_FORMAT = 'invoice-workspace';
+export const ARCHIVE_VERSION = 1;
+export const ENCRYPTED_ARCHIVE_FORMAT = 'invoice-workspace-encrypted';
+
+export interface WorkspaceData {
+  // Records of every profile, each tagged with its profileId
+  invoices: Invoice[];
+  files: FileInfo[]; // Originals inlined as originalFileData, so files can be reprocessed
+  assets: Asset[];
+  profiles: UserProfile[];
+  settings: AppSettings;
+  mappingProfiles: ColumnMappingProfile[];
+  statementProfiles: StatementProfile[];
+  carrierLabels: Record<string, string>;
+  categoryRules: CategoryRule[];
+  merchants: Merchant[];
+}
+
+export interface WorkspaceArchive {
+  format: typeof ARCHIVE_FORMAT;
+  archiveVersion: number;
+  schemaVersion: number;
+  exportedAt: string;
+  data: WorkspaceData;
+}
+
+// Archive sealed with its own passphrase, so it can be restored without the vault
+export interface EncryptedWorkspaceArchive {
+  format: typeof ENCRYPTED_ARCHIVE_FORMAT;
+  archiveVersion: number;
+  exportedAt: string;
+  derivation: KeyDerivation;
+  sealed: SealedValue;
+}
+
+export type ArchiveImportMode = 'replace' | 'merge';
+
+export type ArchiveEntity =
+  | 'invoices'
+  | 'files'
+  | 'assets'
+  | 'profiles'
+  | 'mappingProfiles'
+  | 'statementProfiles'
+  | 'categoryRules'
+  | 'merchants';
+
+export const ARCHIVE_ENTITY_LABELS: Record<ArchiveEntity, string> = {
+  invoices: '發票',
+  files: '檔案',
+  assets: '資產',
+  profiles: '成員',
+  mappingProfiles: '欄位對應設定檔',
+  statementProfiles: '對帳單設定檔',
+  categoryRules: '分類規則',
+  merchants: '商店資料',
+};
+
+const ARCHIVE_ENTITIES = Object.keys(ARCHIVE_ENTITY_LABELS) as ArchiveEntity[];
+
+export interface ChangeCounts {
+  added: number;
+  updated: number;
+  removed: number;
+  unchanged: number;
+}
+
+export interface ArchiveImportPlan {
+  data: WorkspaceData; // Workspace after the import
+  changes: Record<ArchiveEntity, ChangeCounts>;
+  settingsChanged: boolean;
+}
+
+/**
+ * Pick the workspace data out of the store state
+ */
+function getWorkspaceData(state: WorkspaceData): WorkspaceData {
+  return {
+    invoices: state.invoices,
+    files: state.files,
+    assets: state.assets,
+    profiles: state.profiles,
+    settings: state.settings,
+    mappingProfiles: state.mappingProfiles,
+    statementProfiles: state.statementProfiles,
+    carrierLabels: state.carrierLabels,
+    categoryRules: state.categoryRules,
+    merchants: state.merchants,
+  };
+}
+
+export function createWorkspaceArchive(
+  workspace: WorkspaceData,
+  now: Date = new Date()
+): WorkspaceArchive {
+  return {
+    format: ARCHIVE_FORMAT,
+    archiveVersion: ARCHIVE_VERSION,
+    schemaVersion: PERSIST_VERSION,
+    exportedAt: now.toISOString(),
+    data: getWorkspaceData(workspace),
+  };
+}
+
+export function getArchiveFileName(now: Date = new Date()): string {
+  const dateStr = now.toISOString().split('T')[0];
+  return `發票工作區備份_${dateStr}.json`;
+}
+
+export async function encryptWorkspaceArchive(
+  archive: WorkspaceArchive,
+  passphrase: string
+): Promise<EncryptedWorkspaceArchive> {
+  const derivation = createKeyDerivation();
+  const key = await deriveKey(passphrase, derivation);
+  return {
+    format: ENCRYPTED_ARCHIVE_FORMAT,
+    archiveVersion: ARCHIVE_VERSION,
+    exportedAt: archive.exportedAt,
+    derivation,
+    sealed: await sealJSON(key, archive),
+  };
+}
+
+export function isEncryptedArchive(text: string): boolean {
+  try {
+    return JSON.parse(text)?.format === ENCRYPTED_ARCHIVE_FORMAT;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Decrypt an encrypted archive back to archive text for parseWorkspaceArchive
+ */
+export async function decryptWorkspaceArchive(text: string, passphrase: string): Promise<string> {
+  const encrypted = JSON.parse(text) as EncryptedWorkspaceArchive;
+  const key = await deriveKey(passphrase, encrypted.derivation);
+  try {
+    return JSON.stringify(await openJSON(key, encrypted.sealed));
+  } catch {
+    throw new Error('密碼錯誤，無法解密備份檔');
+  }
+}
+
+/**
+ * Download the archive as a JSON file
+ */
+export function downloadWorkspaceArchive(
+  archive: WorkspaceArchive | EncryptedWorkspaceArchive
+): void {
+  const blob = new Blob([JSON.stringify(archive)], {
+    type: 'application/json;charset=utf-8;',
+  });
+
+  const link = document.createElement('a');
+  const url = URL.createObjectURL(blob);
+
+  link.setAttribute('href', url);
+  link.setAttribute('download', getArchiveFileName(new Date(archive.exportedAt)));
+  link.style.visibility = 'hidden';
+
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+
+  URL.revokeObjectURL(url);
+}
+
+/**
+ * Read and validate an archive file's text; throws with a user-facing message
+ */
+export function parseWorkspaceArchive(text: string): {
+  exportedAt: Date;
+  data: WorkspaceData;
+} {
+  let archive: Partial<WorkspaceArchive>;
+  try {
+    archive = JSON.parse(text);
+  } catch {
+    throw new Error('備份檔格式錯誤：不是有效的 JSON 檔案');
+  }
+
+  if (!archive || archive.format !== ARCHIVE_FORMAT || !archive.data) {
+    throw new Error('這不是發票工作區的備份檔');
+  }
+  if (typeof archive.archiveVersion !== 'number' || archive.archiveVersion > ARCHIVE_VERSION) {
+    throw new Error('備份檔由較新版本的程式產生，請先更新後再匯入');
+  }
+
+  const data = migratePersistedState(archive.data, Number(archive.schemaVersion) || 0);
+  assertReadableState(data);
+
+  return {
+    exportedAt: new Date(archive.exportedAt ?? ''),
+    data: {
+      invoices: data.invoices ?? [],
+      files: data.files ?? [],
+      assets: data.assets ?? [],
+      profiles: data.profiles ?? [],
+      settings: data.settings as AppSettings,
+      mappingProfiles: data.mappingProfiles ?? [],
+      statementProfiles: data.statementProfiles ?? [],
+      carrierLabels: data.carrierLabels ?? {},
+      categoryRules: data.categoryRules ?? [],
+      merchants: data.merchants ?? [],
+    },
+  };
+}
+
+// Dates and their ISO strings serialize the same, so archive records compare
+// equal to the stored ones they were exported from
+const isSameRecord = (a: unknown, b: unknown) => JSON.stringify(a) === JSON.stringify(b);
+
+const planRecords = <T extends { id: string }>(
+  current: T[],
+  incoming: T[],
+  mode: ArchiveImportMode
+): { records: T[]; counts: ChangeCounts } => {
+  const currentById = new Map(current.map(record => [record.id, record]));
+  const incomingIds = new Set(incoming.map(record => record.id));
+  const counts: ChangeCounts = { added: 0, updated: 0, removed: 0, unchanged: 0 };
+
+  // Unchanged records keep the current object so nothing is rewritten for them
+  const resolved = incoming.map(record => {
+    const existing = currentById.get(record.id);
+    if (!existing) {
+      counts.added++;
+      return record;
+    }
+    if (isSameRecord(existing, record)) {
+      counts.unchanged++;
+      return existing;
+    }
+    counts.updated++;
+    return record;
+  });
+
+  if (mode === 'replace') {
+    counts.removed = current.filter(record => !incomingIds.has(record.id)).length;
+    return { records: resolved, counts };
+  }
+
+  const resolvedById = new Map(resolved.map(record => [record.id, record]));
+  return {
+    records: [
+      ...current.map(record => resolvedById.get(record.id) ?? record),
+      ...resolved.filter(record => !currentById.has(record.id)),
+    ],
+    counts,
+  };
+};
+
+/**
+ * Work out the workspace after importing an archive and what changes
+ * Replace: the archive becomes the workspace. Merge: archive records are added
+ * or override records with the same id; everything else and the current
+ * settings are kept, and only carrier labels missing here are taken over.
+ */
+export function planArchiveImport(
+  current: WorkspaceData,
+  incoming: WorkspaceData,
+  mode: ArchiveImportMode
+): ArchiveImportPlan {
+  const data = { ...current };
+  const changes = {} as Record<ArchiveEntity, ChangeCounts>;
+
+  ARCHIVE_ENTITIES.forEach(entity => {
+    const { records, counts } = planRecords<{ id: string }>(
+      current[entity],
+      incoming[entity],
+      mode
+    );
+    (data as Record<ArchiveEntity, unknown>)[entity] = records;
+    changes[entity] = counts;
+  });
+
+  if (mode === 'replace') {
+    data.settings = { ...current.settings, ...incoming.settings };
+    data.carrierLabels = incoming.carrierLabels;
+  } else {
+    data.carrierLabels = { ...incoming.carrierLabels, ...current.carrierLabels };
+  }
+
+  return {
+    data,
+    changes,
+    settingsChanged:
+      !isSameRecord(data.settings, current.settings) ||
+      !isSameRecord(data.carrierLabels, current.carrierLabels),
+  };
+}
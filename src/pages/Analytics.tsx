@@ -1,48 +1,41 @@
 
-import { useState, useEffect, memo, useCallback } from 'react';
+import { useState, useMemo, memo, useCallback } from 'react';
 import { Download } from 'lucide-react';
 import { FilterPanel } from '@/components/FilterPanel';
 import { DataTable } from '@/components/DataTable';
 import { AdvancedTimeSeriesChart } from '@/components/AdvancedTimeSeriesChart';
 import { AdvancedCategoryChart } from '@/components/AdvancedCategoryChart';
+import { CarrierChart } from '@/components/CarrierChart';
 import { CSVExportDialog } from '@/components/CSVExportDialog';
 import { useInvoiceStore } from '@/store';
 import { FilterCriteria, FilteredData } from '@/types';
 import { getFilteredData, createEmptyFilters } from '@/lib/filterService';
+import { getValidInvoices } from '@/lib/statisticsService';
 import { Button } from '@/components/ui/button';
 
 const Analytics = memo(function Analytics() {
   const { invoices } = useInvoiceStore();
-  const [filteredData, setFilteredData] = useState<FilteredData>({
-    invoices: [],
-    statistics: {
-      totalAmount: 0,
-      totalInvoices: 0,
-      averageAmount: 0,
-      dateRange: { start: new Date(), end: new Date() },
-      categoryBreakdown: [],
-      timeSeriesData: [],
-    },
-  });
+  // Kept across store changes, so editing rows in the table keeps the filters
+  const [filters, setFilters] = useState<FilterCriteria>(createEmptyFilters);
   const [showExportDialog, setShowExportDialog] = useState(false);
 
-  // Initialize with empty filters
-  useEffect(() => {
-    const emptyFilters = createEmptyFilters();
-    const data = getFilteredData(invoices, emptyFilters);
-    setFilteredData(data);
-  }, [invoices]);
+  const filteredData = useMemo<FilteredData>(
+    () => getFilteredData(invoices, filters),
+    [invoices, filters]
+  );
+  // Charts leave out invoices excluded from statistics; the table lists them
+  const chartInvoices = useMemo(
+    () => getValidInvoices(filteredData.invoices),
+    [filteredData.invoices]
+  );
 
-  const handleFilterChange = useCallback((filters: FilterCriteria) => {
-    const data = getFilteredData(invoices, filters);
-    setFilteredData(data);
-  }, [invoices]);
+  const handleFilterChange = useCallback((nextFilters: FilterCriteria) => {
+    setFilters(nextFilters);
+  }, []);
 
   const handleFilterReset = useCallback(() => {
-    const emptyFilters = createEmptyFilters();
-    const data = getFilteredData(invoices, emptyFilters);
-    setFilteredData(data);
-  }, [invoices]);
+    setFilters(createEmptyFilters());
+  }, []);
 
   const handleExportData = useCallback(() => {
     setShowExportDialog(true);
@@ -92,12 +85,17 @@ const Analytics = memo(function Analytics() {
       <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
         <div className="bg-card border rounded-lg p-6">
           <h3 className="text-lg font-semibold mb-4">消費趨勢分析</h3>
-          <AdvancedTimeSeriesChart invoices={filteredData.invoices} />
+          <AdvancedTimeSeriesChart invoices={chartInvoices} />
         </div>
         
         <div className="bg-card border rounded-lg p-6">
           <h3 className="text-lg font-semibold mb-4">品項分類統計</h3>
-          <AdvancedCategoryChart invoices={filteredData.invoices} />
+          <AdvancedCategoryChart invoices={chartInvoices} />
+        </div>
+
+        <div className="bg-card border rounded-lg p-6 lg:col-span-2">
+          <h3 className="text-lg font-semibold mb-4">載具消費統計</h3>
+          <CarrierChart invoices={chartInvoices} />
         </div>
       </div>
 
@@ -106,7 +104,7 @@ const Analytics = memo(function Analytics() {
         <div className="p-4 border-b">
           <h2 className="text-lg font-semibold">詳細資料表格</h2>
           <p className="text-sm text-muted-foreground mt-1">
-            可排序、分頁的詳細發票資料表格，支援欄位客製化顯示
+            可排序、分頁的詳細發票資料表格，支援欄位客製化顯示；可直接修改分類、商店名稱與備註，或勾選多筆批次處理
           </p>
         </div>
         
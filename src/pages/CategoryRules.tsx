@@ -0,0 +1,398 @@
+import { memo, useMemo, useState } from 'react';
+import { AlertCircle, ArrowDown, ArrowUp, FlaskConical, Pencil, Plus, RotateCcw, Trash2 } from 'lucide-react';
+import { useInvoiceStore } from '@/store';
+import {
+  CATEGORY_RULE_MATCH_LABELS,
+  DEFAULT_CATEGORY_RULES,
+  countRecategorizedItems,
+  createCategoryRule,
+  findRuleMatches,
+  validateCategoryRule,
+  type CategoryRuleMatchResult,
+} from '@/lib/categoryRules';
+import { formatCategoryPath, getCategoryAncestors, normalizeCategoryPath } from '@/lib/categoryTree';
+import { CategoryRule, CategoryRuleMatch } from '@/types';
+import { CategorySuggestions } from '@/components/CategorySuggestions';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+
+const PREVIEW_MATCH_LIMIT = 20;
+
+const PATTERN_PLACEHOLDERS: Record<CategoryRuleMatch, string> = {
+  contains: '以逗號分隔，例如：咖啡, 拿鐵',
+  regex: '例如：^(大|中|小)杯',
+  merchant: '以逗號分隔，例如：全聯, 家樂福',
+  amount: '',
+};
+
+const parseAmount = (value: string): number | undefined =>
+  value.trim() === '' || Number.isNaN(Number(value)) ? undefined : Number(value);
+
+const describeRule = (rule: CategoryRule) => {
+  if (rule.match !== 'amount') {
+    return `${CATEGORY_RULE_MATCH_LABELS[rule.match]}「${rule.pattern}」`;
+  }
+  return `${CATEGORY_RULE_MATCH_LABELS.amount} ${rule.minAmount ?? '不限'} ~ ${rule.maxAmount ?? '不限'}`;
+};
+
+const CategoryRules = memo(function CategoryRules() {
+  const { invoices, categoryRules, merchants, setCategoryRules } = useInvoiceStore();
+  // Rule being added or edited; not part of the list until saved
+  const [draft, setDraft] = useState<CategoryRule | null>(null);
+  const [preview, setPreview] = useState<CategoryRuleMatchResult[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const categories = useMemo(
+    () => Array.from(new Set(categoryRules.flatMap(rule => getCategoryAncestors(rule.category)))),
+    [categoryRules]
+  );
+
+  // Apply a new rule list; existing items are categorized again right away
+  const applyRules = (nextRules: CategoryRule[]) => {
+    const changed = countRecategorizedItems(invoices, nextRules, merchants);
+    setCategoryRules(nextRules);
+    setMessage(changed > 0 ? `已更新規則，${changed} 個品項重新分類` : '已更新規則');
+  };
+
+  const updateDraft = (updates: Partial<CategoryRule>) => {
+    setDraft(current => (current ? { ...current, ...updates } : current));
+    setPreview(null);
+    setError(null);
+  };
+
+  const startEdit = (rule: CategoryRule) => {
+    setDraft({ ...rule });
+    setPreview(null);
+    setError(null);
+    setMessage(null);
+  };
+
+  const cancelEdit = () => {
+    setDraft(null);
+    setPreview(null);
+    setError(null);
+  };
+
+  const handleTest = () => {
+    if (!draft) return;
+    const validationError = validateCategoryRule(draft);
+    if (validationError) {
+      setError(validationError);
+      return;
+    }
+    setPreview(findRuleMatches(draft, invoices));
+  };
+
+  const handleSave = () => {
+    if (!draft) return;
+    const validationError = validateCategoryRule(draft);
+    if (validationError) {
+      setError(validationError);
+      return;
+    }
+
+    const rule = { ...draft, category: normalizeCategoryPath(draft.category) };
+    applyRules(
+      categoryRules.some(existing => existing.id === rule.id)
+        ? categoryRules.map(existing => (existing.id === rule.id ? rule : existing))
+        : [...categoryRules, rule]
+    );
+    cancelEdit();
+  };
+
+  const moveRule = (index: number, offset: number) => {
+    const nextRules = [...categoryRules];
+    const [rule] = nextRules.splice(index, 1);
+    nextRules.splice(index + offset, 0, rule);
+    applyRules(nextRules);
+  };
+
+  return (
+    <div className="p-6 space-y-6">
+      {/* Header */}
+      <div className="border-b pb-4">
+        <h1 className="text-3xl font-bold">分類規則</h1>
+        <p className="text-muted-foreground mt-2">
+          規則由上而下依序比對，第一條符合的規則決定品項分類；都不符合時使用商店的預設分類，沒有設定則歸為「其他」。修改規則後，現有品項會立即重新分類；手動指定的分類則維持不變。
+        </p>
+      </div>
+
+      {message && (
+        <p className="text-sm text-green-700" role="status">
+          {message}
+        </p>
+      )}
+
+      {/* Rule list */}
+      <Card>
+        <CardHeader className="flex flex-row items-center justify-between space-y-0">
+          <CardTitle>規則清單</CardTitle>
+          <div className="flex gap-2">
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => applyRules(DEFAULT_CATEGORY_RULES)}
+              title="以預設規則取代目前所有規則"
+            >
+              <RotateCcw className="mr-1 h-4 w-4" />
+              還原預設規則
+            </Button>
+            <Button size="sm" onClick={() => startEdit(createCategoryRule())}>
+              <Plus className="mr-1 h-4 w-4" />
+              新增規則
+            </Button>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {categoryRules.length === 0 ? (
+            <p className="text-sm text-muted-foreground">尚無規則，所有品項都會歸為「其他」。</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="w-24">順序</TableHead>
+                  <TableHead>條件</TableHead>
+                  <TableHead>分類</TableHead>
+                  <TableHead className="w-16">啟用</TableHead>
+                  <TableHead className="w-24 text-right">操作</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {categoryRules.map((rule, index) => (
+                  <TableRow key={rule.id} className={rule.enabled ? undefined : 'opacity-50'}>
+                    <TableCell>
+                      <div className="flex items-center gap-1">
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          className="h-7 w-7 p-0"
+                          aria-label="上移"
+                          disabled={index === 0}
+                          onClick={() => moveRule(index, -1)}
+                        >
+                          <ArrowUp className="h-3 w-3" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          className="h-7 w-7 p-0"
+                          aria-label="下移"
+                          disabled={index === categoryRules.length - 1}
+                          onClick={() => moveRule(index, 1)}
+                        >
+                          <ArrowDown className="h-3 w-3" />
+                        </Button>
+                      </div>
+                    </TableCell>
+                    <TableCell className="max-w-md truncate text-sm" title={describeRule(rule)}>
+                      {describeRule(rule)}
+                    </TableCell>
+                    <TableCell className="font-medium">{formatCategoryPath(rule.category)}</TableCell>
+                    <TableCell>
+                      <Checkbox
+                        aria-label="啟用規則"
+                        checked={rule.enabled}
+                        onCheckedChange={checked =>
+                          applyRules(
+                            categoryRules.map(existing =>
+                              existing.id === rule.id
+                                ? { ...existing, enabled: checked as boolean }
+                                : existing
+                            )
+                          )
+                        }
+                      />
+                    </TableCell>
+                    <TableCell>
+                      <div className="flex justify-end gap-1">
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          className="h-7 w-7 p-0"
+                          aria-label="編輯規則"
+                          onClick={() => startEdit(rule)}
+                        >
+                          <Pencil className="h-3 w-3" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          className="h-7 w-7 p-0"
+                          aria-label="刪除規則"
+                          onClick={() =>
+                            applyRules(categoryRules.filter(existing => existing.id !== rule.id))
+                          }
+                        >
+                          <Trash2 className="h-3 w-3" />
+                        </Button>
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Rule editor */}
+      {draft && (
+        <Card>
+          <CardHeader>
+            <CardTitle>
+              {categoryRules.some(rule => rule.id === draft.id) ? '編輯規則' : '新增規則'}
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="rule-match">條件</Label>
+                <Select
+                  value={draft.match}
+                  onValueChange={value => updateDraft({ match: value as CategoryRuleMatch })}
+                >
+                  <SelectTrigger id="rule-match">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Object.entries(CATEGORY_RULE_MATCH_LABELS).map(([value, label]) => (
+                      <SelectItem key={value} value={value}>
+                        {label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              {draft.match === 'amount' ? (
+                <div className="space-y-2">
+                  <Label>金額範圍</Label>
+                  <div className="flex items-center gap-2">
+                    <Input
+                      type="number"
+                      aria-label="金額下限"
+                      placeholder="下限"
+                      value={draft.minAmount ?? ''}
+                      onChange={event => updateDraft({ minAmount: parseAmount(event.target.value) })}
+                    />
+                    <span className="text-muted-foreground">~</span>
+                    <Input
+                      type="number"
+                      aria-label="金額上限"
+                      placeholder="上限"
+                      value={draft.maxAmount ?? ''}
+                      onChange={event => updateDraft({ maxAmount: parseAmount(event.target.value) })}
+                    />
+                  </div>
+                </div>
+              ) : (
+                <div className="space-y-2">
+                  <Label htmlFor="rule-pattern">
+                    {draft.match === 'regex' ? '正規表示式' : '關鍵字'}
+                  </Label>
+                  <Input
+                    id="rule-pattern"
+                    placeholder={PATTERN_PLACEHOLDERS[draft.match]}
+                    value={draft.pattern}
+                    onChange={event => updateDraft({ pattern: event.target.value })}
+                  />
+                </div>
+              )}
+
+              <div className="space-y-2">
+                <Label htmlFor="rule-category">分類</Label>
+                <Input
+                  id="rule-category"
+                  list="rule-categories"
+                  value={draft.category}
+                  onChange={event => updateDraft({ category: event.target.value })}
+                />
+                <datalist id="rule-categories">
+                  {categories.map(category => (
+                    <option key={category} value={category} />
+                  ))}
+                </datalist>
+                <p className="text-xs text-muted-foreground">
+                  以「/」分隔子分類，例如「餐食/午餐」；統計時子分類會合計到上層分類。
+                </p>
+              </div>
+            </div>
+
+            {error && (
+              <p className="flex items-center gap-1 text-sm text-red-600">
+                <AlertCircle className="h-4 w-4" />
+                {error}
+              </p>
+            )}
+
+            {preview && (
+              <div className="space-y-2">
+                <p className="text-sm">
+                  此規則符合目前資料中的 {preview.length} 個品項
+                  {preview.length > PREVIEW_MATCH_LIMIT && `（顯示前 ${PREVIEW_MATCH_LIMIT} 個）`}
+                  。排在前面的規則符合時，仍以前面的規則為準。
+                </p>
+                {preview.length > 0 && (
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>商店</TableHead>
+                        <TableHead>品名</TableHead>
+                        <TableHead className="text-right">金額</TableHead>
+                        <TableHead>目前分類</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {preview.slice(0, PREVIEW_MATCH_LIMIT).map(({ invoice, item, category }) => (
+                        <TableRow key={item.id}>
+                          <TableCell className="text-sm">{invoice.merchantName}</TableCell>
+                          <TableCell className="text-sm">{item.itemName}</TableCell>
+                          <TableCell className="text-right text-sm">{item.amount}</TableCell>
+                          <TableCell className="text-sm">
+                            {formatCategoryPath(category)}
+                            {category !== normalizeCategoryPath(draft.category) && (
+                              <span className="text-muted-foreground">
+                                {' '}→ {formatCategoryPath(draft.category)}
+                              </span>
+                            )}
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                )}
+              </div>
+            )}
+
+            <div className="flex justify-end gap-2">
+              <Button variant="outline" onClick={cancelEdit}>
+                取消
+              </Button>
+              <Button variant="outline" onClick={handleTest}>
+                <FlaskConical className="mr-1 h-4 w-4" />
+                以目前資料測試
+              </Button>
+              <Button onClick={handleSave}>儲存規則</Button>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      <CategorySuggestions categories={categories} />
+    </div>
+  );
+});
+
+export default CategoryRules;
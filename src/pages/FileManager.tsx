@@ -1,14 +1,21 @@
 
 import { useState, useCallback } from 'react';
-import { AlertCircle, RefreshCw, Info } from 'lucide-react';
+import { AlertCircle, Archive, RefreshCw, Info, QrCode } from 'lucide-react';
 import { FileUploader } from '@/components/FileUploader';
+import { QRInvoicePasteDialog } from '@/components/QRInvoicePasteDialog';
+import { WorkspaceBackupDialog } from '@/components/WorkspaceBackupDialog';
 import { FileList } from '@/components/FileList';
+import { ReconciliationReport } from '@/components/ReconciliationReport';
 import { useFileReprocessing } from '@/hooks/useFileReprocessing';
 import { useInvoiceStore } from '@/store';
+import { ENCODING_LABELS } from '@/lib/encodingDetector';
+import { FileEncoding } from '@/types';
 import { Card, CardContent } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
 import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 
 function FileManager() {
   const { files, refreshStatistics } = useInvoiceStore();
@@ -19,6 +26,9 @@ function FileManager() {
     fileName: string | null;
     suggestions: string[];
   }>({ open: false, fileId: null, fileName: null, suggestions: [] });
+  const [reprocessEncoding, setReprocessEncoding] = useState<FileEncoding | 'auto'>('auto');
+  const [qrDialogOpen, setQrDialogOpen] = useState(false);
+  const [backupDialogOpen, setBackupDialogOpen] = useState(false);
 
   const handleUploadComplete = useCallback((results: Array<{ success: boolean; fileName: string; errors?: string[] }>) => {
     // Refresh statistics after successful uploads
@@ -35,6 +45,7 @@ function FileManager() {
     const file = files.find(f => f.id === fileId);
     if (file) {
       const suggestions = getReprocessingSuggestions(fileId);
+      setReprocessEncoding('auto');
       setReprocessDialog({
         open: true,
         fileId,
@@ -46,7 +57,7 @@ function FileManager() {
 
   const handleReprocessConfirm = useCallback(async () => {
     if (reprocessDialog.fileId) {
-      const success = await reprocessFile(reprocessDialog.fileId);
+      const success = await reprocessFile(reprocessDialog.fileId, reprocessEncoding);
       
       if (success) {
         refreshStatistics();
@@ -54,7 +65,7 @@ function FileManager() {
       
       setReprocessDialog({ open: false, fileId: null, fileName: null, suggestions: [] });
     }
-  }, [reprocessDialog.fileId, reprocessFile, refreshStatistics]);
+  }, [reprocessDialog.fileId, reprocessEncoding, reprocessFile, refreshStatistics]);
 
   const handleReprocessCancel = useCallback(() => {
     setReprocessDialog({ open: false, fileId: null, fileName: null, suggestions: [] });
@@ -71,16 +82,34 @@ function FileManager() {
               上傳和管理您的發票CSV檔案。支援電子發票載具匯出的CSV格式。
             </p>
           </div>
-          {files.length > 0 && (
+          <div className="flex items-center gap-2">
             <Button
               variant="outline"
-              onClick={refreshStatistics}
+              onClick={() => setQrDialogOpen(true)}
               className="flex items-center gap-2"
             >
-              <RefreshCw className="h-4 w-4" />
-              重新整理統計
+              <QrCode className="h-4 w-4" />
+              貼上發票 QR 碼
             </Button>
-          )}
+            <Button
+              variant="outline"
+              onClick={() => setBackupDialogOpen(true)}
+              className="flex items-center gap-2"
+            >
+              <Archive className="h-4 w-4" />
+              工作區備份
+            </Button>
+            {files.length > 0 && (
+              <Button
+                variant="outline"
+                onClick={refreshStatistics}
+                className="flex items-center gap-2"
+              >
+                <RefreshCw className="h-4 w-4" />
+                重新整理統計
+              </Button>
+            )}
+          </div>
         </div>
       </div>
 
@@ -93,6 +122,9 @@ function FileManager() {
       {/* File List */}
       <FileList onReprocessFile={handleReprocessFile} />
 
+      {/* Invoices whose items do not add up to the total */}
+      <ReconciliationReport />
+
       {/* Instructions */}
       <Card className="border-l-4 border-l-blue-500">
         <CardContent className="p-4">
@@ -106,15 +138,27 @@ function FileManager() {
                 <ul className="list-disc list-inside ml-4 space-y-1">
                   <li>CSV 格式檔案（.csv）</li>
                   <li>最大檔案大小：10MB</li>
-                  <li>編碼格式：UTF-8 或 Big5</li>
+                  <li>編碼格式：UTF-8 或 Big5（自動偵測，亦可手動指定）</li>
                   <li>包含 M 行（發票主要資訊）和 D 行（明細資訊）</li>
                 </ul>
+                <p>沒有歸戶到載具的紙本發票，可用「貼上發票 QR 碼」輸入證明聯上左右兩個 QR 碼的內容。</p>
               </div>
             </div>
           </div>
         </CardContent>
       </Card>
 
+      <QRInvoicePasteDialog
+        open={qrDialogOpen}
+        onClose={() => setQrDialogOpen(false)}
+        onImported={refreshStatistics}
+      />
+
+      <WorkspaceBackupDialog
+        open={backupDialogOpen}
+        onClose={() => setBackupDialogOpen(false)}
+      />
+
       {/* Reprocess Confirmation Dialog */}
       <Dialog open={reprocessDialog.open} onOpenChange={(open) => !open && handleReprocessCancel()}>
         <DialogContent onClose={handleReprocessCancel}>
@@ -142,6 +186,26 @@ function FileManager() {
               </AlertDescription>
             </Alert>
           )}
+
+          <div className="flex items-center gap-2">
+            <Label htmlFor="reprocess-encoding">檔案編碼</Label>
+            <Select
+              value={reprocessEncoding}
+              onValueChange={(value: FileEncoding | 'auto') => setReprocessEncoding(value)}
+            >
+              <SelectTrigger id="reprocess-encoding" className="w-40">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="auto">自動偵測</SelectItem>
+                {(Object.keys(ENCODING_LABELS) as FileEncoding[]).map(key => (
+                  <SelectItem key={key} value={key}>
+                    {ENCODING_LABELS[key]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
           
           <DialogFooter>
             <Button variant="outline" onClick={handleReprocessCancel}>
@@ -0,0 +1,119 @@
+import { memo, useMemo, useState } from 'react';
+import { StatisticsCards } from '@/components/StatisticsCards';
+import { TimeSeriesChart } from '@/components/TimeSeriesChart';
+import { CategoryChart } from '@/components/CategoryChart';
+import { useInvoiceStore } from '@/store';
+import { summarizeHousehold } from '@/lib/profiles';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Label } from '@/components/ui/label';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+
+const formatCurrency = (amount: number) =>
+  new Intl.NumberFormat('zh-TW', {
+    style: 'currency',
+    currency: 'TWD',
+    minimumFractionDigits: 0,
+  }).format(amount);
+
+const Household = memo(function Household() {
+  const { invoices, files, assets, profiles, activeProfileId, profileData } = useInvoiceStore();
+  // Profiles left out of the combined view; new profiles are included
+  const [excludedIds, setExcludedIds] = useState<string[]>([]);
+
+  const selectedProfiles = useMemo(
+    () => profiles.filter(profile => !excludedIds.includes(profile.id)),
+    [profiles, excludedIds]
+  );
+  const summary = useMemo(
+    () =>
+      summarizeHousehold(
+        { invoices, files, assets, activeProfileId, profileData },
+        selectedProfiles
+      ),
+    [invoices, files, assets, activeProfileId, profileData, selectedProfiles]
+  );
+
+  const toggleProfile = (profileId: string, included: boolean) =>
+    setExcludedIds(ids =>
+      included ? ids.filter(id => id !== profileId) : [...ids, profileId]
+    );
+
+  return (
+    <div className="p-6 space-y-6">
+      {/* Header */}
+      <div className="border-b pb-4">
+        <h1 className="text-3xl font-bold">家庭總覽</h1>
+        <p className="text-muted-foreground mt-2">
+          合併檢視所選成員的消費統計，並比較每位成員的支出。
+        </p>
+      </div>
+
+      {/* Profile selection */}
+      <div className="flex flex-wrap items-center gap-4">
+        {profiles.map(profile => (
+          <div key={profile.id} className="flex items-center space-x-2">
+            <Checkbox
+              id={`household-profile-${profile.id}`}
+              checked={!excludedIds.includes(profile.id)}
+              onCheckedChange={checked => toggleProfile(profile.id, checked as boolean)}
+            />
+            <Label htmlFor={`household-profile-${profile.id}`} className="text-sm">
+              {profile.name}
+            </Label>
+          </div>
+        ))}
+      </div>
+
+      <StatisticsCards data={summary} />
+
+      {/* Per-person breakdown */}
+      <Card>
+        <CardHeader>
+          <CardTitle>成員支出</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>成員</TableHead>
+                <TableHead className="text-right">發票數</TableHead>
+                <TableHead className="text-right">消費總額</TableHead>
+                <TableHead className="text-right">平均每張</TableHead>
+                <TableHead className="text-right">占比</TableHead>
+                <TableHead className="text-right">資產（TWD）</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {summary.members.map(member => (
+                <TableRow key={member.profile.id}>
+                  <TableCell className="font-medium">
+                    {member.profile.name}
+                    {member.profile.id === activeProfileId && (
+                      <span className="ml-2 text-xs text-muted-foreground">目前成員</span>
+                    )}
+                  </TableCell>
+                  <TableCell className="text-right">{member.invoiceCount}</TableCell>
+                  <TableCell className="text-right">{formatCurrency(member.totalAmount)}</TableCell>
+                  <TableCell className="text-right">
+                    {formatCurrency(member.averageAmount)}
+                  </TableCell>
+                  <TableCell className="text-right">{(member.share * 100).toFixed(1)}%</TableCell>
+                  <TableCell className="text-right">{formatCurrency(member.assetValue)}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+
+      {/* Charts */}
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        <TimeSeriesChart data={summary} />
+        <CategoryChart data={summary} />
+      </div>
+    </div>
+  );
+});
+
+export default Household;
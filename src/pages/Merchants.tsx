@@ -0,0 +1,277 @@
+import { memo, useMemo, useState } from 'react';
+import { Pencil, Search, Trash2 } from 'lucide-react';
+import { useInvoiceStore } from '@/store';
+import { useDateFormatter } from '@/hooks/useDateFormatter';
+import { calculateMerchantVisitStatistics, getValidInvoices } from '@/lib/statisticsService';
+import { createMerchant, parseTags } from '@/lib/merchantDirectory';
+import { formatCategoryPath, getCategoryAncestors } from '@/lib/categoryTree';
+import { Merchant } from '@/types';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+
+const formatCurrency = (amount: number) =>
+  new Intl.NumberFormat('zh-TW', {
+    style: 'currency',
+    currency: 'TWD',
+    minimumFractionDigits: 0,
+  }).format(amount);
+
+interface MerchantRow {
+  key: string;
+  merchantName: string;
+  entry?: Merchant;
+  totalAmount: number;
+  visits: number;
+  firstVisit?: Date;
+  lastVisit?: Date;
+}
+
+// Directory entry being edited; tags are edited as text
+interface MerchantDraft extends Omit<Merchant, 'tags'> {
+  tags: string;
+}
+
+const Merchants = memo(function Merchants() {
+  const { invoices, merchants, categoryRules, saveMerchant, removeMerchant } = useInvoiceStore();
+  const { formatDate } = useDateFormatter();
+  const [query, setQuery] = useState('');
+  const [draft, setDraft] = useState<MerchantDraft | null>(null);
+
+  // Every merchant on the invoices, and directory entries no invoice uses anymore
+  const rows = useMemo<MerchantRow[]>(() => {
+    const entries = new Map(merchants.map(merchant => [merchant.id, merchant]));
+    const statistics = calculateMerchantVisitStatistics(getValidInvoices(invoices));
+    const seen = new Set(statistics.map(stat => stat.merchantKey));
+    return [
+      ...statistics.map(stat => ({
+        key: stat.merchantKey,
+        merchantName: stat.merchantName,
+        entry: entries.get(stat.merchantKey),
+        totalAmount: stat.totalAmount,
+        visits: stat.invoiceCount,
+        firstVisit: stat.firstVisit,
+        lastVisit: stat.lastVisit,
+      })),
+      ...merchants
+        .filter(merchant => !seen.has(merchant.id))
+        .map(merchant => ({
+          key: merchant.id,
+          merchantName: merchant.merchantName,
+          entry: merchant,
+          totalAmount: 0,
+          visits: 0,
+        })),
+    ];
+  }, [invoices, merchants]);
+
+  const filteredRows = useMemo(() => {
+    const text = query.trim().toLowerCase();
+    if (!text) return rows;
+    return rows.filter(row =>
+      [row.key, row.merchantName, row.entry?.displayName, ...(row.entry?.tags ?? [])].some(value =>
+        value?.toLowerCase().includes(text)
+      )
+    );
+  }, [rows, query]);
+
+  const categories = useMemo(
+    () => Array.from(new Set(categoryRules.flatMap(rule => getCategoryAncestors(rule.category)))),
+    [categoryRules]
+  );
+
+  const startEdit = (row: MerchantRow) => {
+    const merchant = row.entry ?? createMerchant(row.key, row.merchantName);
+    setDraft({ ...merchant, merchantName: row.merchantName, tags: merchant.tags.join(', ') });
+  };
+
+  const updateDraft = (changes: Partial<MerchantDraft>) =>
+    setDraft(current => (current ? { ...current, ...changes } : current));
+
+  const handleSave = () => {
+    if (!draft) return;
+    saveMerchant({ ...draft, tags: parseTags(draft.tags) });
+    setDraft(null);
+  };
+
+  return (
+    <div className="p-6 space-y-6">
+      {/* Header */}
+      <div className="border-b pb-4">
+        <h1 className="text-3xl font-bold">商店</h1>
+        <p className="text-muted-foreground mt-2">
+          為商店設定顯示名稱、標籤與備註。設定預設分類後，分類規則都不符合的品項會歸入該分類。
+        </p>
+      </div>
+
+      <Card>
+        <CardHeader className="flex flex-row items-center justify-between space-y-0">
+          <CardTitle>商店清單</CardTitle>
+          <div className="relative w-64">
+            <Search className="absolute left-2 top-2.5 h-4 w-4 text-muted-foreground" />
+            <Input
+              aria-label="搜尋商店"
+              placeholder="搜尋名稱、統編或標籤"
+              className="pl-8"
+              value={query}
+              onChange={event => setQuery(event.target.value)}
+            />
+          </div>
+        </CardHeader>
+        <CardContent>
+          {filteredRows.length === 0 ? (
+            <p className="text-sm text-muted-foreground">
+              {rows.length === 0 ? '尚無商店資料，上傳發票後會列出消費過的商店。' : '沒有符合的商店。'}
+            </p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>商店</TableHead>
+                  <TableHead>統一編號</TableHead>
+                  <TableHead>預設分類</TableHead>
+                  <TableHead className="text-right">消費次數</TableHead>
+                  <TableHead className="text-right">消費總額</TableHead>
+                  <TableHead>首次消費</TableHead>
+                  <TableHead>最近消費</TableHead>
+                  <TableHead className="w-24 text-right">操作</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {filteredRows.map(row => (
+                  <TableRow key={row.key}>
+                    <TableCell>
+                      <div className="font-medium">{row.entry?.displayName || row.merchantName}</div>
+                      {row.entry?.displayName && (
+                        <div className="text-xs text-muted-foreground">{row.merchantName}</div>
+                      )}
+                      {row.entry && row.entry.tags.length > 0 && (
+                        <div className="mt-1 flex flex-wrap gap-1">
+                          {row.entry.tags.map(tag => (
+                            <Badge key={tag} variant="outline" className="text-xs">
+                              {tag}
+                            </Badge>
+                          ))}
+                        </div>
+                      )}
+                      {row.entry?.notes && (
+                        <div className="mt-1 text-xs text-muted-foreground">{row.entry.notes}</div>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-sm">
+                      {row.key !== row.merchantName ? row.key : '-'}
+                    </TableCell>
+                    <TableCell className="text-sm">
+                      {row.entry?.defaultCategory ? formatCategoryPath(row.entry.defaultCategory) : '-'}
+                    </TableCell>
+                    <TableCell className="text-right">{row.visits}</TableCell>
+                    <TableCell className="text-right">{formatCurrency(row.totalAmount)}</TableCell>
+                    <TableCell className="text-sm">
+                      {row.firstVisit ? formatDate(row.firstVisit) : '-'}
+                    </TableCell>
+                    <TableCell className="text-sm">
+                      {row.lastVisit ? formatDate(row.lastVisit) : '-'}
+                    </TableCell>
+                    <TableCell>
+                      <div className="flex justify-end gap-1">
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          className="h-7 w-7 p-0"
+                          aria-label="編輯商店"
+                          onClick={() => startEdit(row)}
+                        >
+                          <Pencil className="h-3 w-3" />
+                        </Button>
+                        {row.entry && (
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            className="h-7 w-7 p-0"
+                            aria-label="清除商店設定"
+                            onClick={() => removeMerchant(row.key)}
+                          >
+                            <Trash2 className="h-3 w-3" />
+                          </Button>
+                        )}
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Merchant editor */}
+      {draft && (
+        <Card>
+          <CardHeader>
+            <CardTitle>編輯商店：{draft.merchantName}</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="merchant-display-name">顯示名稱</Label>
+                <Input
+                  id="merchant-display-name"
+                  placeholder={draft.merchantName}
+                  value={draft.displayName ?? ''}
+                  onChange={event => updateDraft({ displayName: event.target.value })}
+                />
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="merchant-category">預設分類</Label>
+                <Input
+                  id="merchant-category"
+                  list="merchant-categories"
+                  placeholder="例如：交通/加油"
+                  value={draft.defaultCategory ?? ''}
+                  onChange={event => updateDraft({ defaultCategory: event.target.value })}
+                />
+                <datalist id="merchant-categories">
+                  {categories.map(category => (
+                    <option key={category} value={category} />
+                  ))}
+                </datalist>
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="merchant-tags">標籤</Label>
+                <Input
+                  id="merchant-tags"
+                  placeholder="以逗號分隔，例如：常去, 公司附近"
+                  value={draft.tags}
+                  onChange={event => updateDraft({ tags: event.target.value })}
+                />
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="merchant-notes">備註</Label>
+                <Input
+                  id="merchant-notes"
+                  value={draft.notes ?? ''}
+                  onChange={event => updateDraft({ notes: event.target.value })}
+                />
+              </div>
+            </div>
+
+            <div className="flex justify-end gap-2">
+              <Button variant="outline" onClick={() => setDraft(null)}>
+                取消
+              </Button>
+              <Button onClick={handleSave}>儲存</Button>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+});
+
+export default Merchants;
@@ -0,0 +1,406 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { STORE_NAME, clearLockedState, reloadPersistedState, useInvoiceStore } from '@/store';
+import { DEFAULT_CATEGORY_RULES, createCategoryRule } from '@/lib/categoryRules';
+import { FileInfo, Invoice } from '@/types';
+
+const createInvoice = (
+  invoiceNumber: string,
+  totalAmount: number,
+  sourceFileId?: string
+): Invoice => ({
+  id: invoiceNumber,
+  carrierType: '3J0002',
+  carrierNumber: '/ABC123',
+  invoiceDate: new Date('2024-01-15'),
+  merchantId: '12345678',
+  merchantName: '測試商店',
+  invoiceNumber,
+  totalAmount,
+  status: 'issued',
+  items: [],
+  sourceFileId,
+});
+
+const createFile = (id: string, invoiceCount: number): FileInfo => ({
+  id,
+  fileName: `${id}.csv`,
+  uploadDate: new Date('2024-02-01'),
+  fileSize: 100,
+  status: 'completed',
+  invoiceCount,
+});
+
+describe('invoice store - source files', () => {
+  beforeEach(() => {
+    useInvoiceStore.getState().clearData();
+  });
+
+  it('removeFile removes only the invoices imported from that file', () => {
+    const store = useInvoiceStore.getState();
+    store.setFiles([createFile('file-a', 1), createFile('file-b', 1)]);
+    store.setInvoices([
+      createInvoice('AB00000001', 100, 'file-a'),
+      createInvoice('AB00000002', 200, 'file-b'),
+    ]);
+
+    useInvoiceStore.getState().removeFile('file-a');
+
+    const state = useInvoiceStore.getState();
+    expect(state.files.map(f => f.id)).toEqual(['file-b']);
+    expect(state.invoices.map(i => i.invoiceNumber)).toEqual(['AB00000002']);
+    expect(state.statistics?.totalAmount).toBe(200);
+  });
+
+  it('replaceFileInvoices swaps a file\'s invoices instead of appending', () => {
+    const store = useInvoiceStore.getState();
+    store.setInvoices([
+      createInvoice('AB00000001', 100, 'file-a'),
+      createInvoice('AB00000002', 200, 'file-b'),
+    ]);
+
+    useInvoiceStore
+      .getState()
+      .replaceFileInvoices('file-a', [createInvoice('AB00000003', 50)]);
+
+    const state = useInvoiceStore.getState();
+    expect(state.invoices).toHaveLength(2);
+    expect(
+      state.invoices.find(i => i.invoiceNumber === 'AB00000003')?.sourceFileId
+    ).toBe('file-a');
+    expect(state.statistics?.totalAmount).toBe(250);
+  });
+
+  it('assigns legacy persisted invoices to files in upload order', () => {
+    const migrate = useInvoiceStore.persist.getOptions().migrate!;
+    const merged = migrate(
+      {
+        files: [createFile('file-a', 2), createFile('file-b', 1)],
+        invoices: [
+          createInvoice('AB00000001', 100),
+          createInvoice('AB00000002', 100),
+          createInvoice('AB00000003', 100),
+        ],
+        assets: [],
+        statistics: null,
+      },
+      0
+    ) as ReturnType<typeof useInvoiceStore.getState>;
+
+    expect(merged.invoices.map(i => i.sourceFileId)).toEqual([
+      'file-a',
+      'file-a',
+      'file-b',
+    ]);
+  });
+
+  it('leaves legacy invoices untagged when counts do not line up', () => {
+    const migrate = useInvoiceStore.persist.getOptions().migrate!;
+    const merged = migrate(
+      {
+        files: [createFile('file-a', 2), createFile('file-b', 2)],
+        invoices: [createInvoice('AB00000001', 100)],
+        assets: [],
+        statistics: null,
+      },
+      0
+    ) as ReturnType<typeof useInvoiceStore.getState>;
+
+    expect(merged.invoices[0].sourceFileId).toBeUndefined();
+  });
+});
+
+describe('invoice store - undo/redo', () => {
+  beforeEach(() => {
+    useInvoiceStore.getState().clearAllData?.();
+  });
+
+  it('undoes and redoes removeFile', () => {
+    const store = useInvoiceStore.getState();
+    store.setFiles([createFile('file-a', 1), createFile('file-b', 1)]);
+    store.setInvoices([
+      createInvoice('AB00000001', 100, 'file-a'),
+      createInvoice('AB00000002', 200, 'file-b'),
+    ]);
+
+    useInvoiceStore.getState().removeFile('file-a');
+    expect(useInvoiceStore.getState().undoStack.at(-1)?.label).toBe('刪除檔案 file-a.csv');
+
+    useInvoiceStore.getState().undo();
+    let state = useInvoiceStore.getState();
+    expect(state.files.map(f => f.id)).toEqual(['file-a', 'file-b']);
+    expect(state.invoices.map(i => i.invoiceNumber)).toEqual(['AB00000001', 'AB00000002']);
+    expect(state.statistics?.totalAmount).toBe(300);
+
+    useInvoiceStore.getState().redo();
+    state = useInvoiceStore.getState();
+    expect(state.files.map(f => f.id)).toEqual(['file-b']);
+    expect(state.redoStack).toHaveLength(0);
+  });
+
+  it('undoes clearData and persists only the last history entry', () => {
+    const store = useInvoiceStore.getState();
+    store.setInvoices([createInvoice('AB00000001', 100)]);
+    store.addAsset({ id: 'asset-1', name: '存款', type: 'cash', value: 10, currency: 'TWD' });
+    useInvoiceStore.getState().removeAsset('asset-1');
+    useInvoiceStore.getState().clearData();
+
+    const partialize = useInvoiceStore.persist.getOptions().partialize!;
+    const persisted = partialize(useInvoiceStore.getState()) as { undoStack: unknown[] };
+    expect(persisted.undoStack).toHaveLength(1);
+
+    useInvoiceStore.getState().undo();
+    expect(useInvoiceStore.getState().invoices).toHaveLength(1);
+    expect(useInvoiceStore.getState().assets).toHaveLength(0);
+  });
+});
+
+describe('invoice store - profiles', () => {
+  beforeEach(() => {
+    useInvoiceStore.getState().clearAllData?.();
+  });
+
+  it('keeps each profile\'s records separate when switching', () => {
+    useInvoiceStore.getState().setInvoices([createInvoice('AB00000001', 100)]);
+    const defaultId = useInvoiceStore.getState().activeProfileId;
+    const partner = useInvoiceStore.getState().addProfile('伴侶');
+
+    useInvoiceStore.getState().switchProfile(partner.id);
+    expect(useInvoiceStore.getState().invoices).toEqual([]);
+    expect(useInvoiceStore.getState().statistics).toBeNull();
+
+    useInvoiceStore.getState().addInvoices([createInvoice('AB00000002', 200)]);
+    expect(useInvoiceStore.getState().invoices[0].profileId).toBe(partner.id);
+
+    useInvoiceStore.getState().switchProfile(defaultId);
+    const state = useInvoiceStore.getState();
+    expect(state.invoices.map(i => i.invoiceNumber)).toEqual(['AB00000001']);
+    expect(state.statistics?.totalAmount).toBe(100);
+    expect(state.profileData[partner.id].invoices[0].invoiceNumber).toBe('AB00000002');
+
+    useInvoiceStore.getState().removeProfile(partner.id);
+    expect(useInvoiceStore.getState().profileData[partner.id]).toBeUndefined();
+  });
+
+  it('keeps this tab\'s profile when reloading another tab\'s changes', async () => {
+    useInvoiceStore.getState().setInvoices([createInvoice('AB00000001', 100)]);
+    const partner = useInvoiceStore.getState().addProfile('伴侶');
+    useInvoiceStore.getState().switchProfile(partner.id);
+
+    // Another tab saved with the default profile active
+    const stored = JSON.parse(localStorage.getItem(STORE_NAME)!);
+    localStorage.setItem(
+      STORE_NAME,
+      JSON.stringify({ ...stored, state: { ...stored.state, activeProfileId: 'default' } })
+    );
+    await reloadPersistedState();
+
+    const state = useInvoiceStore.getState();
+    expect(state.activeProfileId).toBe(partner.id);
+    expect(state.invoices).toEqual([]);
+    expect(state.profileData.default.invoices).toHaveLength(1);
+
+    useInvoiceStore.getState().switchProfile('default');
+    useInvoiceStore.getState().removeProfile(partner.id);
+  });
+
+  it('persists all profiles together and splits them again on load', () => {
+    useInvoiceStore.getState().setInvoices([createInvoice('AB00000001', 100)]);
+    const partner = useInvoiceStore.getState().addProfile('伴侶');
+    useInvoiceStore.getState().switchProfile(partner.id);
+    useInvoiceStore.getState().addInvoices([createInvoice('AB00000002', 200)]);
+
+    const options = useInvoiceStore.persist.getOptions();
+    const persisted = JSON.parse(JSON.stringify(options.partialize!(useInvoiceStore.getState())));
+    expect(persisted.invoices).toHaveLength(2);
+
+    const merged = options.merge!(persisted, useInvoiceStore.getState()) as ReturnType<
+      typeof useInvoiceStore.getState
+    >;
+    expect(merged.activeProfileId).toBe(partner.id);
+    expect(merged.invoices.map(i => i.invoiceNumber)).toEqual(['AB00000002']);
+    expect(merged.profileData.default.invoices[0].invoiceDate).toBeInstanceOf(Date);
+
+    useInvoiceStore.getState().switchProfile('default');
+    useInvoiceStore.getState().removeProfile(partner.id);
+  });
+});
+
+describe('invoice store - category rules', () => {
+  beforeEach(() => {
+    useInvoiceStore.getState().clearAllData?.();
+  });
+
+  it('categorizes imported and existing items of every profile by the rules', () => {
+    const withItem = (invoiceNumber: string, itemName: string): Invoice => ({
+      ...createInvoice(invoiceNumber, 50),
+      items: [{ id: `${invoiceNumber}-1`, invoiceNumber, itemName, amount: 50 }],
+    });
+    useInvoiceStore.getState().addInvoices([withItem('AB00000001', '拿鐵咖啡')]);
+    expect(useInvoiceStore.getState().invoices[0].items[0].category).toBe('飲料');
+
+    const partner = useInvoiceStore.getState().addProfile('伴侶');
+    useInvoiceStore.getState().switchProfile(partner.id);
+    useInvoiceStore.getState().addInvoices([withItem('AB00000002', '拿鐵咖啡')]);
+
+    const coffee = createCategoryRule({ pattern: '拿鐵', category: '咖啡' });
+    useInvoiceStore.getState().setCategoryRules([coffee, ...DEFAULT_CATEGORY_RULES]);
+
+    const state = useInvoiceStore.getState();
+    expect(state.invoices[0].items[0].category).toBe('咖啡');
+    expect(state.profileData.default.invoices[0].items[0].category).toBe('咖啡');
+    expect(state.statistics?.categoryBreakdown[0].category).toBe('咖啡');
+
+    useInvoiceStore.getState().setCategoryRules(DEFAULT_CATEGORY_RULES);
+    useInvoiceStore.getState().switchProfile('default');
+    useInvoiceStore.getState().removeProfile(partner.id);
+  });
+});
+
+describe('invoice store - merchant directory', () => {
+  beforeEach(() => {
+    useInvoiceStore.getState().clearAllData?.();
+  });
+
+  it("uses the merchant's default category for items no rule matches", () => {
+    useInvoiceStore.getState().addInvoices([
+      {
+        ...createInvoice('AB00000001', 1000),
+        items: [
+          { id: 'fuel', invoiceNumber: 'AB00000001', itemName: '95無鉛', amount: 900 },
+          { id: 'drink', invoiceNumber: 'AB00000001', itemName: '礦泉水', amount: 100 },
+        ],
+      },
+    ]);
+    expect(useInvoiceStore.getState().invoices[0].items[0].category).toBe('其他');
+
+    useInvoiceStore.getState().saveMerchant({
+      id: '12345678',
+      merchantName: '測試商店',
+      defaultCategory: ' 交通 / 加油 ',
+      tags: ['加油站'],
+    });
+
+    let state = useInvoiceStore.getState();
+    expect(state.merchants[0].defaultCategory).toBe('交通/加油');
+    expect(state.invoices[0].items.map(item => item.category)).toEqual(['交通/加油', '飲料']);
+    expect(state.statistics?.categoryBreakdown[0].category).toBe('交通');
+
+    // Without any details the entry is dropped again
+    useInvoiceStore.getState().saveMerchant({ id: '12345678', merchantName: '測試商店', tags: [] });
+
+    state = useInvoiceStore.getState();
+    expect(state.merchants).toEqual([]);
+    expect(state.invoices[0].items[0].category).toBe('其他');
+  });
+});
+
+describe('invoice store - manual categories', () => {
+  beforeEach(() => {
+    useInvoiceStore.getState().clearAllData?.();
+  });
+
+  it('keeps manual categories under the rules and trains the classifier on them', () => {
+    useInvoiceStore.getState().addInvoices([
+      {
+        ...createInvoice('AB00000001', 300),
+        items: [{ id: 'wash', invoiceNumber: 'AB00000001', itemName: '洗車', amount: 300 }],
+      },
+    ]);
+
+    useInvoiceStore
+      .getState()
+      .setItemCategories([{ invoiceId: 'AB00000001', itemId: 'wash', category: '交通/保養' }]);
+
+    let state = useInvoiceStore.getState();
+    expect(state.invoices[0].items[0]).toMatchObject({ category: '交通/保養', manualCategory: true });
+    expect(state.categoryModel.categories['交通/保養'].examples).toBe(1);
+    expect(state.statistics?.categoryBreakdown[0].category).toBe('交通');
+
+    useInvoiceStore.getState().setCategoryRules(DEFAULT_CATEGORY_RULES);
+    state = useInvoiceStore.getState();
+    expect(state.invoices[0].items[0].category).toBe('交通/保養');
+  });
+
+  it('forgets manual categories once their invoices are gone and relearns them on undo', () => {
+    useInvoiceStore.getState().addInvoices([
+      {
+        ...createInvoice('AB00000001', 300),
+        items: [{ id: 'wash', invoiceNumber: 'AB00000001', itemName: '洗車', amount: 300 }],
+      },
+    ]);
+    useInvoiceStore
+      .getState()
+      .setItemCategories([{ invoiceId: 'AB00000001', itemId: 'wash', category: '交通/保養' }]);
+
+    useInvoiceStore.getState().clearData();
+    expect(useInvoiceStore.getState().categoryModel.categories['交通/保養']).toBeUndefined();
+
+    useInvoiceStore.getState().undo();
+    expect(useInvoiceStore.getState().categoryModel.categories['交通/保養'].examples).toBe(1);
+  });
+});
+
+describe('invoice store - invoice edits', () => {
+  beforeEach(() => {
+    useInvoiceStore.getState().clearAllData?.();
+  });
+
+  it('leaves excluded invoices out of statistics and keeps edits when a file is reprocessed', () => {
+    const store = useInvoiceStore.getState();
+    store.setInvoices([
+      createInvoice('AB00000001', 100, 'file-a'),
+      createInvoice('AB00000002', 200, 'file-a'),
+    ]);
+
+    useInvoiceStore
+      .getState()
+      .editInvoices(['AB00000002'], { notes: '代墊', tags: ['公務'], excluded: true });
+    expect(useInvoiceStore.getState().statistics?.totalAmount).toBe(100);
+
+    useInvoiceStore.getState().replaceFileInvoices('file-a', [
+      { ...createInvoice('AB00000001', 100, 'file-a'), id: 'reparsed-1' },
+      { ...createInvoice('AB00000002', 200, 'file-a'), id: 'reparsed-2' },
+    ]);
+
+    const state = useInvoiceStore.getState();
+    expect(state.invoices.find(invoice => invoice.id === 'reparsed-2')).toMatchObject({
+      notes: '代墊',
+      tags: ['公務'],
+      excluded: true,
+    });
+    expect(state.statistics?.totalAmount).toBe(100);
+  });
+});
+
+describe('invoice store - vault lock', () => {
+  beforeEach(() => {
+    useInvoiceStore.getState().clearAllData?.();
+  });
+
+  it('drops every persisted field from memory when the vault locks', () => {
+    const store = useInvoiceStore.getState();
+    store.addInvoices([
+      {
+        ...createInvoice('AB00000001', 300),
+        items: [{ id: 'wash', invoiceNumber: 'AB00000001', itemName: '洗車', amount: 300 }],
+      },
+    ]);
+    store.setItemCategories([{ invoiceId: 'AB00000001', itemId: 'wash', category: '交通/保養' }]);
+    store.saveMerchant({ id: '12345678', merchantName: '測試商店', tags: ['洗車'] });
+    store.setCategoryRules([createCategoryRule({ pattern: '洗車', category: '交通/保養' })]);
+    store.addProfile('伴侶');
+
+    clearLockedState();
+
+    const state = useInvoiceStore.getState();
+    const initialState = useInvoiceStore.getInitialState();
+    expect(state.invoices).toEqual([]);
+    expect(state.merchants).toEqual([]);
+    expect(state.categoryModel).toEqual(initialState.categoryModel);
+    expect(state.categoryRules).toEqual(DEFAULT_CATEGORY_RULES);
+    expect(state.profiles.map(profile => profile.name)).toEqual(
+      initialState.profiles.map(profile => profile.name)
+    );
+    expect(state.profileData).toEqual({});
+  });
+});
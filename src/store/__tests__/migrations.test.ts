@@ -0,0 +1,157 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import {
+  MIGRATIONS,
+  PERSIST_VERSION,
+  assertReadableState,
+  migratePersistedState,
+} from '@/store/migrations';
+import { STORE_NAME, useInvoiceStore } from '@/store';
+import { backupName } from '@/lib/indexedDBStorage';
+
+const legacyInvoice = {
+  id: 'inv-1',
+  carrierType: '',
+  carrierNumber: '',
+  invoiceDate: '2024-01-15T00:00:00.000Z',
+  merchantId: '12345678',
+  merchantName: '測試商店',
+  invoiceNumber: 'AB00000001',
+  totalAmount: 100,
+  status: 'issued',
+};
+
+const legacyFile = {
+  id: 'file-a',
+  fileName: 'a.csv',
+  uploadDate: '2024-02-01T00:00:00.000Z',
+  fileSize: 100,
+  status: 'completed',
+  invoiceCount: 1,
+};
+
+describe('persisted state migrations', () => {
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  it('has a step for every version', () => {
+    for (let version = 1; version <= PERSIST_VERSION; version++) {
+      expect(MIGRATIONS[version]).toBeTypeOf('function');
+    }
+  });
+
+  it('v1 fills missing invoice items and asset currency and links files', () => {
+    const state = MIGRATIONS[1]({
+      invoices: [legacyInvoice],
+      files: [legacyFile],
+      assets: [{ id: 'asset-1', name: '存款', type: 'cash', value: 1000 }],
+    });
+
+    expect(state.invoices[0].items).toEqual([]);
+    expect(state.invoices[0].sourceFileId).toBe('file-a');
+    expect(state.assets[0].currency).toBe('TWD');
+  });
+
+  it('v2 adds settings and the per-user collections', () => {
+    const state = MIGRATIONS[2]({ invoices: [], settings: null });
+
+    expect(state.settings).toEqual({});
+    expect(state.mappingProfiles).toEqual([]);
+    expect(state.statementProfiles).toEqual([]);
+    expect(state.carrierLabels).toEqual({});
+  });
+
+  it('v3 drops statistics saved by older versions', () => {
+    const state = MIGRATIONS[3]({ statistics: { totalAmount: 999 } });
+    expect(state.statistics).toBeNull();
+  });
+
+  it('v4 starts with an empty undo history', () => {
+    expect(MIGRATIONS[4]({ invoices: [] }).undoStack).toEqual([]);
+  });
+
+  it('v5 gives existing records to the default profile', () => {
+    const state = MIGRATIONS[5]({ invoices: [{ id: 'a' }], files: [], assets: [{ id: 'b' }] });
+
+    expect(state.activeProfileId).toBe('default');
+    expect(state.profiles.map((profile: { id: string }) => profile.id)).toEqual(['default']);
+    expect(state.invoices[0].profileId).toBe('default');
+    expect(state.assets[0].profileId).toBe('default');
+  });
+
+  it('v6 categorizes items with the default rules', () => {
+    const state = MIGRATIONS[6]({
+      invoices: [
+        {
+          ...legacyInvoice,
+          items: [
+            { id: 'i1', itemName: '台電電費', amount: 900, category: '飲料' },
+            { id: 'i2', itemName: '未分配', amount: 10, category: '未分配', adjustment: true },
+          ],
+        },
+      ],
+    });
+
+    expect(state.invoices[0].items.map((item: { category: string }) => item.category)).toEqual([
+      '帳單繳費',
+      '未分配',
+    ]);
+    expect(state.categoryRules.length).toBeGreaterThan(0);
+  });
+
+  it('v7 starts an empty merchant directory', () => {
+    expect(MIGRATIONS[7]({ invoices: [] }).merchants).toEqual([]);
+  });
+
+  it('v8 starts an untrained category model', () => {
+    expect(MIGRATIONS[8]({ invoices: [] }).categoryModel.exampleCount).toBe(0);
+  });
+
+  it('runs only the steps after the saved version', () => {
+    const state = migratePersistedState(
+      { invoices: [], settings: { previewBeforeImport: false }, statistics: { totalAmount: 1 } },
+      2
+    );
+
+    expect(state.settings).toEqual({ previewBeforeImport: false });
+    expect(state.undoStack).toEqual([]);
+    expect(state.statistics).toBeNull();
+    expect(state.mappingProfiles).toBeUndefined();
+  });
+
+  it('rejects state from a newer version', () => {
+    expect(() => migratePersistedState({}, PERSIST_VERSION + 1)).toThrow();
+  });
+
+  it('flags invoices that would crash rendering', () => {
+    expect(() =>
+      assertReadableState({ invoices: [{ ...legacyInvoice, invoiceDate: 'garbage' } as never] })
+    ).toThrow();
+    expect(() =>
+      assertReadableState(migratePersistedState({ invoices: [legacyInvoice] }, 0))
+    ).not.toThrow();
+  });
+
+  it('refuses to merge corrupted invoices', () => {
+    const merge = useInvoiceStore.persist.getOptions().merge!;
+    expect(() =>
+      merge({ invoices: [{ id: 'inv-1', items: null }] }, useInvoiceStore.getState())
+    ).toThrow();
+  });
+
+  it('backs up stored data that fails to load before starting clean', async () => {
+    const stored = JSON.stringify({
+      state: { invoices: [{ id: 'inv-1', items: null }] },
+      version: PERSIST_VERSION,
+    });
+    localStorage.setItem(STORE_NAME, stored);
+
+    await useInvoiceStore.persist.rehydrate();
+    await vi.waitFor(() => expect(useInvoiceStore.persist.hasHydrated()).toBe(true));
+
+    const backup = JSON.parse(localStorage.getItem(backupName(STORE_NAME))!);
+    expect(backup.state).toBe(stored);
+    expect(backup.reason).toContain('已儲存的發票資料損毀');
+    expect(useInvoiceStore.getState().invoices).toEqual([]);
+  });
+});
@@ -1,11 +1,92 @@
-import { create } from 'zustand';
+import { create, type StateCreator, type StoreMutatorIdentifier } from 'zustand';
 import { persist } from 'zustand/middleware';
-import { Invoice, FileInfo, Statistics, Asset } from '@/types';
+import {
+  Invoice,
+  FileInfo,
+  Statistics,
+  Asset,
+  AppSettings,
+  ColumnMappingProfile,
+  StatementProfile,
+  UserProfile,
+  CategoryRule,
+  Merchant,
+} from '@/types';
 import { assetService } from '@/lib/assetService';
+import { generateId } from '@/lib/utils';
+import type {
+  DuplicatePair,
+  DuplicateResolution,
+} from '@/lib/duplicateService';
 import {
   calculateBasicStatistics,
   getValidInvoices,
 } from '@/lib/statisticsService';
+import { addAdjustmentItem } from '@/lib/reconciliation';
+import type { WorkspaceData } from '@/lib/workspaceArchive';
+import {
+  createHistoryEntry,
+  pushHistory,
+  redoEntry,
+  undoEntry,
+  type EntityChange,
+  type HistoryData,
+  type HistoryEntity,
+  type HistoryEntry,
+} from '@/lib/undoHistory';
+import { backupName, createIndexedDBStorage } from '@/lib/indexedDBStorage';
+import { errorService } from '@/lib/errorService';
+import { vaultService } from '@/lib/vaultService';
+import { createTabChannel } from '@/lib/tabSync';
+import {
+  DEFAULT_CATEGORY_RULES,
+  applyCategoryRules,
+  applyManualCategories,
+  type ItemCategoryChange,
+} from '@/lib/categoryRules';
+import { applyInvoiceEdit, carryOverEdits, type InvoiceEdit } from '@/lib/invoiceEdits';
+import {
+  createEmptyModel,
+  getTrainingExamples,
+  trainModel,
+  type CategoryModel,
+} from '@/lib/categoryClassifier';
+import { isEmptyMerchant, normalizeMerchant } from '@/lib/merchantDirectory';
+import {
+  DEFAULT_PROFILE_ID,
+  DEFAULT_PROFILE_NAME,
+  EMPTY_PROFILE_DATA,
+  claimRecords,
+  getAllProfileData,
+  splitProfileData,
+  type ProfileData,
+  type ProfileState,
+} from '@/lib/profiles';
+import {
+  PERSIST_VERSION,
+  assertReadableState,
+  migratePersistedState,
+  type PersistedState,
+} from './migrations';
+
+export const STORE_NAME = 'invoice-store';
+
+// Tells other open tabs to load the stored data again
+export const storeChannel = createTabChannel(STORE_NAME);
+
+// Stored state is partial: keys added later are missing until merged with defaults
+const persistStorage = createIndexedDBStorage<Partial<PersistedState>>({
+  entities: ['invoices', 'files', 'assets'],
+  getCodec: () => vaultService.getCodec(),
+  isLocked: () => vaultService.isLocked(),
+  onWrite: () => storeChannel.post({ type: 'store-updated' }),
+});
+
+export const DEFAULT_SETTINGS: AppSettings = {
+  duplicatePolicy: 'skip',
+  previewBeforeImport: false,
+  dateDisplay: 'gregorian',
+};
 
 const ensureDate = (value: Date | string | number): Date => {
   if (value instanceof Date) {
@@ -47,6 +128,89 @@ const deserializeAsset = (asset: Asset): Asset => ({
   acquiredDate: asset.acquiredDate ? ensureDate(asset.acquiredDate) : undefined,
 });
 
+const deserializeProfile = (profile: UserProfile): UserProfile => ({
+  ...profile,
+  createdAt: ensureDate(profile.createdAt),
+});
+
+// Record type of each entity covered by undo/redo
+type HistoryRecord<K extends HistoryEntity> = HistoryData[K][number];
+
+const historyDeserializers: {
+  [K in HistoryEntity]: (record: HistoryRecord<K>) => HistoryRecord<K>;
+} = {
+  invoices: deserializeInvoice,
+  files: deserializeFile,
+  assets: deserializeAsset,
+};
+
+const deserializeEntityChange = <K extends HistoryEntity>(
+  entity: K,
+  change: EntityChange
+): EntityChange<HistoryRecord<K>> => {
+  const deserialize = historyDeserializers[entity];
+  const deserializeRecords = (records: EntityChange['before']) =>
+    records.map(({ index, record }) => ({
+      index,
+      record: deserialize(record as HistoryRecord<K>),
+    }));
+
+  return { before: deserializeRecords(change.before), after: deserializeRecords(change.after) };
+};
+
+const deserializeHistoryEntry = (entry: HistoryEntry): HistoryEntry => ({
+  ...entry,
+  changes: Object.fromEntries(
+    (Object.keys(entry.changes) as HistoryEntity[]).map(entity => [
+      entity,
+      deserializeEntityChange(entity, entry.changes[entity]!),
+    ])
+  ),
+});
+
+/**
+ * The parts of the state covered by undo/redo
+ */
+export const getHistoryData = (state: HistoryData): HistoryData => ({
+  invoices: state.invoices,
+  files: state.files,
+  assets: state.assets,
+});
+
+const withStatistics = (updates: Partial<HistoryData>, state: HistoryData) => {
+  const invoices = updates.invoices ?? state.invoices;
+  return {
+    ...updates,
+    statistics:
+      invoices.length > 0
+        ? calculateBasicStatistics(getValidInvoices(invoices))
+        : null,
+  };
+};
+
+// The classifier learns from every profile's manual categories; it is trained
+// again whenever invoices holding them may have gone or come back
+const trainCategoryModel = (state: ProfileState) =>
+  trainModel(getTrainingExamples(getAllProfileData(state).invoices));
+
+// Every profile's items categorized again, e.g. after the rules changed
+const recategorizeAll = (
+  state: InvoiceStore,
+  categoryRules: CategoryRule[],
+  merchants: Merchant[]
+) => ({
+  ...withStatistics(
+    { invoices: applyCategoryRules(state.invoices, categoryRules, merchants) },
+    state
+  ),
+  profileData: Object.fromEntries(
+    Object.entries(state.profileData).map(([profileId, data]) => [
+      profileId,
+      { ...data, invoices: applyCategoryRules(data.invoices, categoryRules, merchants) },
+    ])
+  ),
+});
+
 const deserializeStatistics = (statistics: Statistics): Statistics => ({
   ...statistics,
   dateRange: {
@@ -59,18 +223,90 @@ const deserializeStatistics = (statistics: Statistics): Statistics => ({
   })),
 });
 
+let recoveredFromLoadError = false;
+
+// Set while loading another tab's changes: each tab keeps its own profile
+let reloadingProfileId: string | null = null;
+
+/**
+ * Stored data that cannot be loaded (unreadable, failed migration or corrupted
+ * records) leaves the store un-hydrated. Back the stored data up, then clear
+ * it and start clean; without a backup nothing is written, so it is kept.
+ */
+const recoverFromLoadError = async (error: unknown) => {
+  if (recoveredFromLoadError) {
+    return;
+  }
+  recoveredFromLoadError = true;
+
+  const reason = error instanceof Error ? error.message : String(error);
+  if (!(await persistStorage?.backup?.(STORE_NAME, reason))) {
+    errorService.createError(
+      'storage-error',
+      '已儲存的資料無法讀取且備份失敗，為保留原始資料，變更將不會儲存',
+      reason
+    );
+    return;
+  }
+
+  errorService.createError(
+    'storage-error',
+    '已儲存的資料無法讀取，已備份原始資料並以空白資料重新開始',
+    `${reason}（備份位置: ${backupName(STORE_NAME)}）`
+  );
+  await persistStorage?.removeItem(STORE_NAME);
+  await useInvoiceStore.persist.rehydrate();
+};
+
 interface InvoiceStore {
   // State
   invoices: Invoice[];
   files: FileInfo[];
   assets: Asset[];
   statistics: Statistics | null;
+  settings: AppSettings;
+  mappingProfiles: ColumnMappingProfile[];
+  statementProfiles: StatementProfile[];
+  carrierLabels: Record<string, string>; // Carrier key -> user label
+  categoryRules: CategoryRule[];
+  merchants: Merchant[]; // Merchant directory, see merchantDirectory
+  categoryModel: CategoryModel; // Trained on every profile's manual categories
+  undoStack: HistoryEntry[]; // Only the latest entry is persisted
+  redoStack: HistoryEntry[];
+  profiles: UserProfile[];
+  activeProfileId: string; // invoices, files and assets above are this profile's
+  profileData: Record<string, ProfileData>; // Records of the other profiles
   isLoading: boolean;
   error: string | null;
 
   // Actions
   setInvoices: (invoices: Invoice[]) => void;
   addInvoices: (invoices: Invoice[]) => void;
+  replaceFileInvoices: (
+    fileId: string,
+    invoices: Invoice[],
+    removedIds?: string[]
+  ) => void;
+  resolveDuplicate: (
+    pair: DuplicatePair,
+    resolution: DuplicateResolution
+  ) => void;
+  addAdjustmentItems: (invoiceIds: string[]) => void;
+  updateSettings: (updates: Partial<AppSettings>) => void;
+  saveMappingProfile: (profile: ColumnMappingProfile) => void;
+  removeMappingProfile: (profileId: string) => void;
+  saveStatementProfile: (profile: StatementProfile) => void;
+  removeStatementProfile: (profileId: string) => void;
+  setCarrierLabel: (carrierKey: string, label: string) => void;
+  setCategoryRules: (rules: CategoryRule[]) => void;
+  saveMerchant: (merchant: Merchant) => void;
+  removeMerchant: (merchantId: string) => void;
+  setItemCategories: (changes: ItemCategoryChange[]) => void;
+  editInvoices: (
+    invoiceIds: string[],
+    edit: InvoiceEdit | ((invoice: Invoice) => InvoiceEdit)
+  ) => void;
+  retrainCategoryModel: () => void;
   setFiles: (files: FileInfo[]) => void;
   addFile: (file: FileInfo) => void;
   removeFile: (fileId: string) => void;
@@ -94,23 +330,99 @@ interface InvoiceStore {
   updateAsset: (assetId: string, updates: Partial<Asset>) => void;
   removeAsset: (assetId: string) => void;
   refreshStatistics: () => void;
+  restoreWorkspace: (workspace: WorkspaceData) => void;
+  // Undo/redo for destructive actions
+  captureHistory: (label: string, before: HistoryData) => void;
+  undo: () => HistoryEntry | null;
+  redo: () => HistoryEntry | null;
+  // Household profiles
+  addProfile: (name: string) => UserProfile;
+  renameProfile: (profileId: string, name: string) => void;
+  removeProfile: (profileId: string) => void;
+  switchProfile: (profileId: string) => void;
 }
 
+/**
+ * Middleware: records that reach the store without an owner join the active
+ * profile, so every stored record says whose it is
+ */
+const claimForActiveProfile =
+  <Mis extends [StoreMutatorIdentifier, unknown][], Mcs extends [StoreMutatorIdentifier, unknown][]>(
+    config: StateCreator<InvoiceStore, Mis, Mcs>
+  ): StateCreator<InvoiceStore, Mis, Mcs> =>
+  (set, get, api) => {
+    type Updates = Partial<InvoiceStore>;
+    const setState = set as unknown as (
+      partial: (state: InvoiceStore) => Updates,
+      replace?: boolean
+    ) => void;
+
+    const claimingSet = (
+      partial: Updates | ((state: InvoiceStore) => Updates),
+      replace?: boolean
+    ) =>
+      setState(state => {
+        const updates = typeof partial === 'function' ? partial(state) : partial;
+        const profileId = updates.activeProfileId ?? state.activeProfileId;
+        return {
+          ...updates,
+          ...(updates.invoices && { invoices: claimRecords(updates.invoices, profileId) }),
+          ...(updates.files && { files: claimRecords(updates.files, profileId) }),
+          ...(updates.assets && { assets: claimRecords(updates.assets, profileId) }),
+        };
+      }, replace);
+
+    return config(claimingSet as typeof set, get, api);
+  };
+
+// The fields written to storage; clearLockedState resets the same list
+const persistedFields = (state: InvoiceStore): PersistedState => ({
+  // Every profile's records are stored together and split again on load
+  ...getAllProfileData(state),
+  statistics: state.statistics,
+  settings: state.settings,
+  mappingProfiles: state.mappingProfiles,
+  statementProfiles: state.statementProfiles,
+  carrierLabels: state.carrierLabels,
+  categoryRules: state.categoryRules,
+  merchants: state.merchants,
+  categoryModel: state.categoryModel,
+  // Enough to undo the last action after a reload
+  undoStack: state.undoStack.slice(-1),
+  profiles: state.profiles,
+  activeProfileId: state.activeProfileId,
+});
+
 export const useInvoiceStore = create<InvoiceStore>()(
   persist(
-    set => ({
+    claimForActiveProfile<[['zustand/persist', unknown]], []>((set, get) => ({
       // Initial state
       invoices: [],
       files: [],
       assets: [],
       statistics: null,
+      settings: DEFAULT_SETTINGS,
+      mappingProfiles: [],
+      statementProfiles: [],
+      carrierLabels: {},
+      categoryRules: DEFAULT_CATEGORY_RULES,
+      merchants: [],
+      categoryModel: createEmptyModel(),
+      undoStack: [],
+      redoStack: [],
+      profiles: [{ id: DEFAULT_PROFILE_ID, name: DEFAULT_PROFILE_NAME, createdAt: new Date() }],
+      activeProfileId: DEFAULT_PROFILE_ID,
+      profileData: {},
       isLoading: false,
       error: null,
 
       // Actions
       setInvoices: invoices => {
         const normalizedInvoices = invoices.map(deserializeInvoice);
-        set({ invoices: normalizedInvoices });
+        set(state => ({
+          invoices: normalizedInvoices,
+          categoryModel: trainCategoryModel({ ...state, invoices: normalizedInvoices }),
+        }));
         // Auto-refresh statistics when invoices change
         const validInvoices = getValidInvoices(normalizedInvoices);
         const newStatistics = calculateBasicStatistics(validInvoices);
@@ -119,7 +431,11 @@ export const useInvoiceStore = create<InvoiceStore>()(
 
       addInvoices: newInvoices => {
         set(state => {
-          const normalizedNewInvoices = newInvoices.map(deserializeInvoice);
+          const normalizedNewInvoices = applyCategoryRules(
+            newInvoices.map(deserializeInvoice),
+            state.categoryRules,
+            state.merchants
+          );
           const updatedInvoices = [...state.invoices, ...normalizedNewInvoices];
           const validInvoices = getValidInvoices(updatedInvoices);
           const newStatistics = calculateBasicStatistics(validInvoices);
@@ -130,6 +446,175 @@ export const useInvoiceStore = create<InvoiceStore>()(
         });
       },
 
+      replaceFileInvoices: (fileId, fileInvoices, removedIds = []) => {
+        set(state => {
+          const removed = new Set(removedIds);
+          // The user's edits of the replaced invoices carry over to the new ones
+          const replaced = state.invoices.filter(
+            invoice => invoice.sourceFileId === fileId || removed.has(invoice.id)
+          );
+          const normalizedFileInvoices = applyCategoryRules(
+            carryOverEdits(
+              replaced,
+              fileInvoices.map(invoice =>
+                deserializeInvoice({ ...invoice, sourceFileId: fileId })
+              )
+            ),
+            state.categoryRules,
+            state.merchants
+          );
+          const updatedInvoices = [
+            ...state.invoices.filter(
+              invoice =>
+                invoice.sourceFileId !== fileId && !removed.has(invoice.id)
+            ),
+            ...normalizedFileInvoices,
+          ];
+          const validInvoices = getValidInvoices(updatedInvoices);
+          const newStatistics = calculateBasicStatistics(validInvoices);
+          return {
+            invoices: updatedInvoices,
+            statistics: newStatistics,
+            categoryModel: trainCategoryModel({ ...state, invoices: updatedInvoices }),
+          };
+        });
+      },
+
+      resolveDuplicate: (pair, resolution) => {
+        set(state => {
+          const kept: Invoice[] = [];
+          if (resolution !== 'incoming') kept.push(pair.existing);
+          if (resolution !== 'existing') kept.push(pair.incoming);
+
+          const updatedInvoices = [
+            ...state.invoices.filter(
+              invoice =>
+                invoice.id !== pair.existing.id &&
+                invoice.id !== pair.incoming.id
+            ),
+            ...kept.map(deserializeInvoice),
+          ];
+          const validInvoices = getValidInvoices(updatedInvoices);
+          const newStatistics = calculateBasicStatistics(validInvoices);
+          return {
+            invoices: updatedInvoices,
+            statistics: newStatistics,
+            categoryModel: trainCategoryModel({ ...state, invoices: updatedInvoices }),
+          };
+        });
+      },
+
+      addAdjustmentItems: invoiceIds => {
+        set(state => {
+          const ids = new Set(invoiceIds);
+          const updatedInvoices = state.invoices.map(invoice =>
+            ids.has(invoice.id) ? addAdjustmentItem(invoice) : invoice
+          );
+          const validInvoices = getValidInvoices(updatedInvoices);
+          const newStatistics = calculateBasicStatistics(validInvoices);
+          return {
+            invoices: updatedInvoices,
+            statistics: newStatistics,
+          };
+        });
+      },
+
+      updateSettings: updates =>
+        set(state => ({ settings: { ...state.settings, ...updates } })),
+
+      // Upsert by id so re-saving a profile updates it in place
+      saveMappingProfile: profile =>
+        set(state => ({
+          mappingProfiles: state.mappingProfiles.some(p => p.id === profile.id)
+            ? state.mappingProfiles.map(p =>
+                p.id === profile.id ? profile : p
+              )
+            : [...state.mappingProfiles, profile],
+        })),
+
+      removeMappingProfile: profileId =>
+        set(state => ({
+          mappingProfiles: state.mappingProfiles.filter(
+            p => p.id !== profileId
+          ),
+        })),
+
+      saveStatementProfile: profile =>
+        set(state => ({
+          statementProfiles: state.statementProfiles.some(
+            p => p.id === profile.id
+          )
+            ? state.statementProfiles.map(p =>
+                p.id === profile.id ? profile : p
+              )
+            : [...state.statementProfiles, profile],
+        })),
+
+      removeStatementProfile: profileId =>
+        set(state => ({
+          statementProfiles: state.statementProfiles.filter(
+            p => p.id !== profileId
+          ),
+        })),
+
+      // An empty label falls back to the carrier's type name and number
+      setCarrierLabel: (carrierKey, label) =>
+        set(state => {
+          const carrierLabels = { ...state.carrierLabels };
+          if (label.trim()) {
+            carrierLabels[carrierKey] = label.trim();
+          } else {
+            delete carrierLabels[carrierKey];
+          }
+          return { carrierLabels };
+        }),
+
+      // Every profile's items are categorized again under the new rules
+      setCategoryRules: categoryRules =>
+        set(state => ({
+          categoryRules,
+          ...recategorizeAll(state, categoryRules, state.merchants),
+        })),
+
+      // Entries left without details are removed; a changed default category
+      // applies to existing items right away
+      saveMerchant: merchant =>
+        set(state => {
+          const entry = normalizeMerchant(merchant);
+          const others = state.merchants.filter(existing => existing.id !== entry.id);
+          const merchants = isEmptyMerchant(entry)
+            ? others
+            : state.merchants.some(existing => existing.id === entry.id)
+              ? state.merchants.map(existing => (existing.id === entry.id ? entry : existing))
+              : [...state.merchants, entry];
+          return { merchants, ...recategorizeAll(state, state.categoryRules, merchants) };
+        }),
+
+      removeMerchant: merchantId =>
+        set(state => {
+          const merchants = state.merchants.filter(merchant => merchant.id !== merchantId);
+          return { merchants, ...recategorizeAll(state, state.categoryRules, merchants) };
+        }),
+
+      // Corrections of the active profile's items; the classifier learns from them
+      setItemCategories: changes =>
+        set(state => {
+          const invoices = applyManualCategories(state.invoices, changes);
+          return {
+            ...withStatistics({ invoices }, state),
+            categoryModel: trainCategoryModel({ ...state, invoices }),
+          };
+        }),
+
+      // Notes, tags and exclusion of the active profile's invoices
+      editInvoices: (invoiceIds, edit) =>
+        set(state =>
+          withStatistics({ invoices: applyInvoiceEdit(state.invoices, invoiceIds, edit) }, state)
+        ),
+
+      retrainCategoryModel: () =>
+        set(state => ({ categoryModel: trainCategoryModel(state) })),
+
       setFiles: files => set({ files: files.map(deserializeFile) }),
 
       setAssets: assets => set({ assets: assets.map(deserializeAsset) }),
@@ -172,9 +657,18 @@ export const useInvoiceStore = create<InvoiceStore>()(
         })),
 
       removeAsset: assetId =>
-        set(state => ({
-          assets: state.assets.filter(a => a.id !== assetId),
-        })),
+        set(state => {
+          const assets = state.assets.filter(a => a.id !== assetId);
+          const name = state.assets.find(a => a.id === assetId)?.name ?? '';
+          return {
+            assets,
+            undoStack: pushHistory(
+              state.undoStack,
+              createHistoryEntry(`刪除資產 ${name}`, state, { assets })
+            ),
+            redoStack: [],
+          };
+        }),
 
       // Remote update: optimistic update and call API
       updateAssetRemote: async (assetId: string, updates: Partial<Asset>) => {
@@ -215,15 +709,26 @@ export const useInvoiceStore = create<InvoiceStore>()(
         set(state => {
           const updatedFiles = state.files.filter(file => file.id !== fileId);
           const updatedInvoices = state.invoices.filter(
-            _invoice => !state.files.find(file => file.id === fileId)
+            invoice => invoice.sourceFileId !== fileId
           );
           const validInvoices = getValidInvoices(updatedInvoices);
           const newStatistics = calculateBasicStatistics(validInvoices);
+          const fileName =
+            state.files.find(file => file.id === fileId)?.fileName ?? '';
 
           return {
             files: updatedFiles,
             invoices: updatedInvoices,
             statistics: newStatistics,
+            categoryModel: trainCategoryModel({ ...state, invoices: updatedInvoices }),
+            undoStack: pushHistory(
+              state.undoStack,
+              createHistoryEntry(`刪除檔案 ${fileName}`, state, {
+                files: updatedFiles,
+                invoices: updatedInvoices,
+              })
+            ),
+            redoStack: [],
           };
         }),
 
@@ -261,31 +766,45 @@ export const useInvoiceStore = create<InvoiceStore>()(
       setError: error => set({ error }),
 
       clearData: () =>
-        set({
+        set(state => ({
           invoices: [],
           files: [],
           assets: [],
           statistics: null,
           error: null,
-        }),
-      // Keep backwards-compat alias for tests
+          categoryModel: trainCategoryModel({ ...state, invoices: [] }),
+          undoStack: pushHistory(
+            state.undoStack,
+            createHistoryEntry('清除所有資料', state, {
+              invoices: [],
+              files: [],
+              assets: [],
+            })
+          ),
+          redoStack: [],
+        })),
+      // Keep backwards-compat alias for tests; also resets the history
       clearAllData: () =>
-        set({
+        set(state => ({
           invoices: [],
           files: [],
           assets: [],
           statistics: null,
           error: null,
-        }),
+          categoryModel: trainCategoryModel({ ...state, invoices: [] }),
+          undoStack: [],
+          redoStack: [],
+        })),
 
       removeAssetRemote: async (assetId: string) => {
         const prev = useInvoiceStore.getState().assets;
-        set(state => ({ assets: state.assets.filter(a => a.id !== assetId) }));
+        const prevUndoStack = useInvoiceStore.getState().undoStack;
+        get().removeAsset(assetId);
         try {
           await assetService.remove(assetId);
           return true;
         } catch (err) {
-          set({ assets: prev });
+          set({ assets: prev, undoStack: prevUndoStack });
           set({ error: String(err) });
           return false;
         }
@@ -298,41 +817,274 @@ export const useInvoiceStore = create<InvoiceStore>()(
           return { statistics: newStatistics };
         });
       },
-    }),
+
+      restoreWorkspace: workspace =>
+        set(state => {
+          // Records kept from the current workspace are already normalized
+          const current = getAllProfileData(state);
+          const keep = <T>(records: T[], deserialize: (record: T) => T) => {
+            const known = new Set(records);
+            return (record: T) => (known.has(record) ? record : deserialize(record));
+          };
+          const profiles =
+            workspace.profiles.length > 0
+              ? workspace.profiles.map(keep(state.profiles, deserializeProfile))
+              : state.profiles;
+          const activeProfileId = profiles.some(profile => profile.id === state.activeProfileId)
+            ? state.activeProfileId
+            : profiles[0].id;
+          const { active: data, profileData } = splitProfileData(
+            {
+              invoices: workspace.invoices.map(keep(current.invoices, deserializeInvoice)),
+              files: workspace.files.map(keep(current.files, deserializeFile)),
+              assets: workspace.assets.map(keep(current.assets, deserializeAsset)),
+            },
+            profiles.map(profile => profile.id),
+            activeProfileId
+          );
+
+          return {
+            ...withStatistics(data, state),
+            profiles,
+            activeProfileId,
+            profileData,
+            settings: { ...DEFAULT_SETTINGS, ...workspace.settings },
+            mappingProfiles: workspace.mappingProfiles,
+            statementProfiles: workspace.statementProfiles,
+            carrierLabels: workspace.carrierLabels,
+            categoryRules: workspace.categoryRules,
+            merchants: workspace.merchants,
+            categoryModel: trainModel(getTrainingExamples(workspace.invoices)),
+            // History only covers the active profile's records
+            undoStack:
+              activeProfileId === state.activeProfileId
+                ? pushHistory(state.undoStack, createHistoryEntry('匯入工作區備份', state, data))
+                : [],
+            redoStack: [],
+          };
+        }),
+
+      captureHistory: (label, before) =>
+        set(state => ({
+          undoStack: pushHistory(
+            state.undoStack,
+            createHistoryEntry(label, before, getHistoryData(state))
+          ),
+          redoStack: [],
+        })),
+
+      undo: () => {
+        const state = get();
+        const entry = state.undoStack[state.undoStack.length - 1];
+        if (!entry) {
+          return null;
+        }
+
+        const updates = undoEntry(state, entry);
+        set({
+          ...withStatistics(updates, state),
+          categoryModel: trainCategoryModel({ ...state, ...updates }),
+          undoStack: state.undoStack.slice(0, -1),
+          redoStack: [...state.redoStack, entry],
+        });
+        return entry;
+      },
+
+      redo: () => {
+        const state = get();
+        const entry = state.redoStack[state.redoStack.length - 1];
+        if (!entry) {
+          return null;
+        }
+
+        const updates = redoEntry(state, entry);
+        set({
+          ...withStatistics(updates, state),
+          categoryModel: trainCategoryModel({ ...state, ...updates }),
+          undoStack: pushHistory(state.undoStack, entry),
+          redoStack: state.redoStack.slice(0, -1),
+        });
+        return entry;
+      },
+
+      addProfile: name => {
+        const profile: UserProfile = { id: generateId(), name: name.trim(), createdAt: new Date() };
+        set(state => ({ profiles: [...state.profiles, profile] }));
+        return profile;
+      },
+
+      renameProfile: (profileId, name) =>
+        set(state => ({
+          profiles: state.profiles.map(profile =>
+            profile.id === profileId ? { ...profile, name: name.trim() } : profile
+          ),
+        })),
+
+      // Deletes the profile's records too; the active profile cannot be removed
+      removeProfile: profileId =>
+        set(state => {
+          if (profileId === state.activeProfileId) {
+            return {};
+          }
+          const profileData = Object.fromEntries(
+            Object.entries(state.profileData).filter(([id]) => id !== profileId)
+          );
+          return {
+            profiles: state.profiles.filter(profile => profile.id !== profileId),
+            profileData,
+            categoryModel: trainCategoryModel({ ...state, profileData }),
+          };
+        }),
+
+      // Undo history covers one profile's records, so it starts over
+      switchProfile: profileId =>
+        set(state => {
+          if (
+            profileId === state.activeProfileId ||
+            !state.profiles.some(profile => profile.id === profileId)
+          ) {
+            return {};
+          }
+
+          const { [profileId]: next = EMPTY_PROFILE_DATA, ...others } = state.profileData;
+          const previous = state.activeProfileId;
+          return {
+            ...withStatistics(next, state),
+            activeProfileId: profileId,
+            profileData: {
+              ...others,
+              [previous]: {
+                invoices: claimRecords(state.invoices, previous),
+                files: claimRecords(state.files, previous),
+                assets: claimRecords(state.assets, previous),
+              },
+            },
+            undoStack: [],
+            redoStack: [],
+          };
+        }),
+    })),
     {
-      name: 'invoice-store',
-      partialize: state => ({
-        invoices: state.invoices,
-        files: state.files,
-        assets: state.assets,
-        statistics: state.statistics,
-      }),
+      name: STORE_NAME,
+      storage: persistStorage,
+      // A locked vault is loaded once the passphrase has been entered
+      skipHydration: vaultService.isLocked(),
+      partialize: persistedFields,
+      version: PERSIST_VERSION,
+      // A failed step throws and ends up in recoverFromLoadError
+      migrate: migratePersistedState,
       merge: (persistedState, currentState) => {
         if (!persistedState) {
           return currentState;
         }
 
-        const typedState = persistedState as InvoiceStore;
+        const typedState = persistedState as Partial<PersistedState>;
+        // Throws for records that would crash rendering, see recoverFromLoadError
+        assertReadableState(typedState);
+
+        const profiles = typedState.profiles?.length
+          ? typedState.profiles.map(deserializeProfile)
+          : currentState.profiles;
+        const preferredProfileId = reloadingProfileId ?? typedState.activeProfileId;
+        const activeProfileId = profiles.some(profile => profile.id === preferredProfileId)
+          ? preferredProfileId!
+          : profiles[0].id;
+        const { active, profileData } = splitProfileData(
+          {
+            invoices: (typedState.invoices || currentState.invoices).map(
+              deserializeInvoice
+            ),
+            files: (typedState.files || currentState.files).map(deserializeFile),
+            assets: (typedState.assets || currentState.assets).map(
+              deserializeAsset
+            ),
+          },
+          profiles.map(profile => profile.id),
+          activeProfileId
+        );
+        const invoices = active.invoices;
 
         return {
           ...currentState,
           ...typedState,
-          invoices: (typedState.invoices || currentState.invoices).map(
-            deserializeInvoice
-          ),
-          files: (typedState.files || currentState.files).map(deserializeFile),
-          assets: (typedState.assets || currentState.assets).map(
-            deserializeAsset
-          ),
+          ...active,
+          profiles,
+          activeProfileId,
+          profileData,
           statistics: typedState.statistics
             ? deserializeStatistics(typedState.statistics)
-            : null,
+            : invoices.length > 0
+              ? calculateBasicStatistics(getValidInvoices(invoices))
+              : null,
+          settings: { ...DEFAULT_SETTINGS, ...typedState.settings },
+          mappingProfiles:
+            typedState.mappingProfiles || currentState.mappingProfiles,
+          statementProfiles:
+            typedState.statementProfiles || currentState.statementProfiles,
+          carrierLabels: typedState.carrierLabels || currentState.carrierLabels,
+          categoryRules: typedState.categoryRules || currentState.categoryRules,
+          merchants: typedState.merchants || currentState.merchants,
+          categoryModel: typedState.categoryModel || currentState.categoryModel,
+          undoStack: (typedState.undoStack || currentState.undoStack).map(
+            deserializeHistoryEntry
+          ),
         };
       },
+      onRehydrateStorage: () => (_state, error) => {
+        if (error) {
+          void recoverFromLoadError(error);
+        }
+      },
     }
   )
 );
 
+/**
+ * Store every record again, e.g. after the vault was turned on or off
+ */
+export const rewritePersistedState = () => {
+  persistStorage?.invalidate?.();
+  useInvoiceStore.setState({});
+};
+
+/**
+ * Wait until every change made in this tab is stored
+ */
+export const flushPersistedState = async () => {
+  await persistStorage?.flush?.();
+};
+
+/**
+ * Load the stored data again, e.g. after another tab changed it
+ */
+export const reloadPersistedState = async () => {
+  if (vaultService.isLocked()) {
+    return;
+  }
+  await flushPersistedState();
+  reloadingProfileId = useInvoiceStore.getState().activeProfileId;
+  try {
+    await useInvoiceStore.persist.rehydrate();
+  } finally {
+    reloadingProfileId = null;
+  }
+};
+
+/**
+ * Drop the decrypted data from memory when the vault locks; nothing is written
+ * while it is locked, so the stored data stays as it is. Every persisted field
+ * goes back to its initial value, as do the in-memory records derived from them
+ */
+export const clearLockedState = () => {
+  const initialState = useInvoiceStore.getInitialState();
+  const fields = Object.keys(persistedFields(initialState)) as Array<keyof PersistedState>;
+  useInvoiceStore.setState({
+    ...Object.fromEntries(fields.map(field => [field, initialState[field]])),
+    redoStack: [],
+    profileData: {},
+  });
+};
+
 // Utility functions for computed values
 export const getValidInvoicesFromStore = (): Invoice[] => {
   const state = useInvoiceStore.getState();
@@ -341,20 +1093,16 @@ export const getValidInvoicesFromStore = (): Invoice[] => {
 
 export const getInvoicesByDateRange = (start: Date, end: Date): Invoice[] => {
   const state = useInvoiceStore.getState();
-  return state.invoices.filter(invoice => {
+  return getValidInvoices(state.invoices).filter(invoice => {
     const invoiceDate = invoice.invoiceDate;
-    return (
-      invoiceDate >= start && invoiceDate <= end && invoice.status === 'issued'
-    );
+    return invoiceDate >= start && invoiceDate <= end;
   });
 };
 
 export const getInvoicesByMerchant = (merchantName: string): Invoice[] => {
   const state = useInvoiceStore.getState();
-  return state.invoices.filter(
-    invoice =>
-      invoice.merchantName.toLowerCase().includes(merchantName.toLowerCase()) &&
-      invoice.status === 'issued'
+  return getValidInvoices(state.invoices).filter(invoice =>
+    invoice.merchantName.toLowerCase().includes(merchantName.toLowerCase())
   );
 };
 
@@ -0,0 +1,242 @@
+import {
+  AppSettings,
+  Asset,
+  CategoryRule,
+  ColumnMappingProfile,
+  FileInfo,
+  Invoice,
+  Merchant,
+  Statistics,
+  StatementProfile,
+  UserProfile,
+} from '@/types';
+import { DEFAULT_PROFILE_ID, DEFAULT_PROFILE_NAME } from '@/lib/profiles';
+import { DEFAULT_CATEGORY_RULES, createCategorizer } from '@/lib/categoryRules';
+import { createEmptyModel, type CategoryModel } from '@/lib/categoryClassifier';
+import type { HistoryEntry } from '@/lib/undoHistory';
+
+/**
+ * Schema versions of the persisted `invoice-store`
+ * Version 0 is everything saved before the schema was versioned. Each step
+ * upgrades the state by one version; steps run in order on load, so a step
+ * only ever sees the shape produced by the step before it.
+ */
+
+export const PERSIST_VERSION = 8;
+
+export interface PersistedState {
+  invoices: Invoice[];
+  files: FileInfo[];
+  assets: Asset[];
+  statistics: Statistics | null;
+  settings: Partial<AppSettings>;
+  mappingProfiles: ColumnMappingProfile[];
+  statementProfiles: StatementProfile[];
+  carrierLabels: Record<string, string>;
+  categoryRules: CategoryRule[];
+  merchants: Merchant[];
+  categoryModel: CategoryModel;
+  undoStack: HistoryEntry[];
+  profiles: UserProfile[];
+  activeProfileId: string;
+}
+
+// Persisted data is untrusted JSON until it has been migrated and checked
+type UnknownRecord = Record<string, unknown>;
+type Migration = (state: UnknownRecord) => UnknownRecord;
+
+const asArray = (value: unknown): unknown[] => (Array.isArray(value) ? value : []);
+
+const asObject = (value: unknown): UnknownRecord =>
+  value && typeof value === 'object' ? (value as UnknownRecord) : {};
+
+// Entries that are not objects become empty records, as spreading them would
+const asRecords = (value: unknown): UnknownRecord[] => asArray(value).map(asObject);
+
+/**
+ * Link invoices persisted before sourceFileId existed back to their files.
+ * Invoices were appended in upload order, so when the untagged invoices line
+ * up exactly with the files' invoice counts they can be assigned in sequence.
+ */
+const assignLegacySourceFiles = (
+  invoices: UnknownRecord[],
+  files: Array<UnknownRecord & { invoiceCount: number }>
+): UnknownRecord[] => {
+  const untagged = invoices.filter(invoice => !invoice.sourceFileId);
+  if (untagged.length === 0 || files.length === 0) {
+    return invoices;
+  }
+
+  const sourceIds = new Map<UnknownRecord, unknown>();
+  if (files.length === 1) {
+    untagged.forEach(invoice => sourceIds.set(invoice, files[0].id));
+  } else {
+    const expected = files.reduce((sum, file) => sum + file.invoiceCount, 0);
+    if (expected !== untagged.length) {
+      return invoices;
+    }
+
+    let cursor = 0;
+    files.forEach(file => {
+      untagged
+        .slice(cursor, cursor + file.invoiceCount)
+        .forEach(invoice => sourceIds.set(invoice, file.id));
+      cursor += file.invoiceCount;
+    });
+  }
+
+  return invoices.map(invoice =>
+    sourceIds.has(invoice)
+      ? { ...invoice, sourceFileId: sourceIds.get(invoice) }
+      : invoice
+  );
+};
+
+// Keyed by the version each step produces
+export const MIGRATIONS: Record<number, Migration> = {
+  // Unversioned data: fill invoice, file and asset fields added over time and
+  // link invoices to the files they came from
+  1: state => {
+    const files = asRecords(state.files).map(file => ({
+      ...file,
+      invoiceCount: Number(file.invoiceCount) || 0,
+    }));
+    const invoices = asRecords(state.invoices).map(invoice => ({
+      ...invoice,
+      status: invoice.status === 'voided' ? 'voided' : 'issued',
+      items: asArray(invoice.items),
+    }));
+
+    return {
+      ...state,
+      files,
+      invoices: assignLegacySourceFiles(invoices, files),
+      assets: asRecords(state.assets).map(asset => ({
+        ...asset,
+        currency: asset.currency || 'TWD',
+      })),
+    };
+  },
+
+  // Settings and the per-user collections added after the first release
+  2: state => ({
+    ...state,
+    settings: asObject(state.settings),
+    mappingProfiles: asArray(state.mappingProfiles),
+    statementProfiles: asArray(state.statementProfiles),
+    carrierLabels: asObject(state.carrierLabels),
+  }),
+
+  // Statistics saved by older versions miss voided-invoice filtering and
+  // adjustment items; drop them so they are recalculated from the invoices
+  3: state => ({ ...state, statistics: null }),
+
+  // Undo history for the last destructive action
+  4: state => ({ ...state, undoStack: [] }),
+
+  // Household profiles: everything saved so far belongs to the first profile
+  5: state => {
+    const owned = (records: unknown) =>
+      asRecords(records).map(record => ({ ...record, profileId: DEFAULT_PROFILE_ID }));
+
+    return {
+      ...state,
+      invoices: owned(state.invoices),
+      files: owned(state.files),
+      assets: owned(state.assets),
+      profiles: [
+        { id: DEFAULT_PROFILE_ID, name: DEFAULT_PROFILE_NAME, createdAt: new Date().toISOString() },
+      ],
+      activeProfileId: DEFAULT_PROFILE_ID,
+    };
+  },
+
+  // Categorization rules: items categorized by the two old keyword lists get
+  // the default rules' categories, so both agree
+  6: state => {
+    const categorize = createCategorizer(DEFAULT_CATEGORY_RULES);
+    return {
+      ...state,
+      invoices: asRecords(state.invoices).map(invoice => ({
+        ...invoice,
+        items: asRecords(invoice.items).map(item =>
+          item.adjustment
+            ? item
+            : {
+                ...item,
+                category: categorize({
+                  itemName: String(item.itemName ?? ''),
+                  amount: Number(item.amount) || 0,
+                  merchantName: String(invoice.merchantName ?? ''),
+                }),
+              }
+        ),
+      })),
+      categoryRules: DEFAULT_CATEGORY_RULES,
+      statistics: null,
+    };
+  },
+
+  // Merchant directory
+  7: state => ({ ...state, merchants: [] }),
+
+  // Category classifier; nothing was categorized by hand before
+  8: state => ({ ...state, categoryModel: createEmptyModel() }),
+};
+
+/**
+ * Run every step from `fromVersion` up to PERSIST_VERSION; the result still
+ * has to pass assertReadableState, and missing keys get the store's defaults
+ */
+export function migratePersistedState(
+  persistedState: unknown,
+  fromVersion: number
+): Partial<PersistedState> {
+  if (!persistedState || typeof persistedState !== 'object') {
+    throw new Error('已儲存的資料格式無法辨識');
+  }
+  if (fromVersion > PERSIST_VERSION) {
+    throw new Error(`已儲存的資料版本 (${fromVersion}) 比此版本的程式新`);
+  }
+
+  let state = persistedState as UnknownRecord;
+  for (let version = fromVersion + 1; version <= PERSIST_VERSION; version++) {
+    state = MIGRATIONS[version](state);
+  }
+  return state as Partial<PersistedState>;
+}
+
+const isValidDateValue = (value: unknown) =>
+  (value instanceof Date || typeof value === 'string' || typeof value === 'number') &&
+  !Number.isNaN(new Date(value).getTime());
+
+/**
+ * Check the current-version shape before it reaches the UI; throws when the
+ * state would crash rendering
+ */
+export function assertReadableState(state: Partial<PersistedState>): void {
+  (['invoices', 'files', 'assets'] as const).forEach(key => {
+    if (state[key] !== undefined && !Array.isArray(state[key])) {
+      throw new Error(`已儲存的 ${key} 不是清單`);
+    }
+  });
+
+  const badInvoice = (state.invoices ?? []).find(
+    invoice =>
+      !invoice ||
+      typeof invoice.id !== 'string' ||
+      !Array.isArray(invoice.items) ||
+      !Number.isFinite(invoice.totalAmount) ||
+      !isValidDateValue(invoice.invoiceDate)
+  );
+  if (badInvoice !== undefined) {
+    throw new Error(`已儲存的發票資料損毀: ${JSON.stringify(badInvoice)?.slice(0, 200)}`);
+  }
+
+  const badFile = (state.files ?? []).find(
+    file => !file || typeof file.id !== 'string' || !isValidDateValue(file.uploadDate)
+  );
+  if (badFile !== undefined) {
+    throw new Error(`已儲存的檔案資料損毀: ${JSON.stringify(badFile)?.slice(0, 200)}`);
+  }
+}
@@ -6,9 +6,9 @@ import {
   calculateTimeSeriesData,
   calculateMonthlyStatistics,
   calculateMerchantStatistics,
+  calculateMerchantVisitStatistics,
   calculateItemFrequencyStats,
   calculateVoidedInvoiceStats,
-  categorizeItemAdvanced,
   filterInvoicesByDateRange,
   filterInvoicesByMerchant,
   filterInvoicesByAmountRange,
@@ -16,6 +16,7 @@ import {
   getValidInvoices,
   getVoidedInvoices,
 } from '../lib/statisticsService';
+import { categorizeItem } from '../lib/categoryRules';
 import { Invoice, InvoiceItem } from '../types';
 
 describe('Statistics Service', () => {
@@ -162,6 +163,24 @@ describe('Statistics Service', () => {
 
       expect(breakdown).toHaveLength(0);
     });
+
+    it('should roll subcategories up into their top-level category', () => {
+      const breakdown = calculateCategoryBreakdown([
+        {
+          ...sampleInvoices[0],
+          items: [
+            { id: 'sub1', invoiceNumber: 'INV001', itemName: '飯糰', amount: 40, category: '餐食/早餐' },
+            { id: 'sub2', invoiceNumber: 'INV001', itemName: '便當', amount: 80, category: '餐食/午餐' },
+            { id: 'sub3', invoiceNumber: 'INV001', itemName: '悠遊卡', amount: 80, category: '交通' },
+          ],
+        },
+      ]);
+
+      expect(breakdown.map(stat => stat.category)).toEqual(['餐食', '交通']);
+      expect(breakdown[0].amount).toBe(120);
+      expect(breakdown[0].percentage).toBe(60);
+      expect(breakdown[0].children?.map(stat => stat.category)).toEqual(['餐食/午餐', '餐食/早餐']);
+    });
   });
 
   describe('calculateTimeSeriesData', () => {
@@ -223,6 +242,37 @@ describe('Statistics Service', () => {
       expect(merchantStats[0].averageAmount).toBe(500);
       expect(merchantStats[0].percentage).toBeCloseTo(66.67, 1);
     });
+
+    it('should add up branches with their own tax IDs on the dashboard', () => {
+      const { topMerchants } = calculateExtendedStatistics([
+        sampleInvoices[0],
+        { ...sampleInvoices[1], merchantId: '99999999', merchantName: sampleInvoices[0].merchantName },
+      ]);
+
+      expect(topMerchants).toHaveLength(1);
+      expect(topMerchants[0]).toMatchObject({
+        merchantName: sampleInvoices[0].merchantName,
+        invoiceCount: 2,
+      });
+    });
+  });
+
+  describe('calculateMerchantVisitStatistics', () => {
+    it('should group merchants by tax ID and track first and last visits', () => {
+      const merchantStats = calculateMerchantVisitStatistics([
+        sampleInvoices[0],
+        { ...sampleInvoices[1], merchantId: '12345678', merchantName: '便利商店A 新店' },
+      ]);
+
+      expect(merchantStats).toHaveLength(1);
+      expect(merchantStats[0]).toMatchObject({
+        merchantKey: '12345678',
+        merchantName: '便利商店A 新店',
+        invoiceCount: 2,
+        firstVisit: new Date('2024-01-15'),
+        lastVisit: new Date('2024-01-20'),
+      });
+    });
   });
 
   describe('calculateItemFrequencyStats', () => {
@@ -262,43 +312,43 @@ describe('Statistics Service', () => {
     });
   });
 
-  describe('categorizeItemAdvanced', () => {
+  describe('categorizeItem with the default rules', () => {
     it('should categorize beverages correctly', () => {
-      expect(categorizeItemAdvanced('咖啡')).toBe('飲料');
-      expect(categorizeItemAdvanced('奶茶')).toBe('飲料');
-      expect(categorizeItemAdvanced('可樂')).toBe('飲料');
-      expect(categorizeItemAdvanced('礦泉水')).toBe('飲料');
+      expect(categorizeItem('咖啡')).toBe('飲料');
+      expect(categorizeItem('奶茶')).toBe('飲料');
+      expect(categorizeItem('可樂')).toBe('飲料');
+      expect(categorizeItem('礦泉水')).toBe('飲料');
     });
 
     it('should categorize snacks correctly', () => {
-      expect(categorizeItemAdvanced('蛋糕')).toBe('點心零食');
-      expect(categorizeItemAdvanced('餅乾')).toBe('點心零食');
-      expect(categorizeItemAdvanced('巧克力')).toBe('點心零食');
-      expect(categorizeItemAdvanced('洋芋片')).toBe('點心零食');
+      expect(categorizeItem('蛋糕')).toBe('點心零食');
+      expect(categorizeItem('餅乾')).toBe('點心零食');
+      expect(categorizeItem('巧克力')).toBe('點心零食');
+      expect(categorizeItem('洋芋片')).toBe('點心零食');
     });
 
     it('should categorize meals correctly', () => {
-      expect(categorizeItemAdvanced('便當')).toBe('餐食');
-      expect(categorizeItemAdvanced('牛肉麵')).toBe('餐食');
-      expect(categorizeItemAdvanced('炒飯')).toBe('餐食');
-      expect(categorizeItemAdvanced('雞腿')).toBe('餐食');
+      expect(categorizeItem('便當')).toBe('餐食');
+      expect(categorizeItem('牛肉麵')).toBe('餐食');
+      expect(categorizeItem('炒飯')).toBe('餐食');
+      expect(categorizeItem('雞腿')).toBe('餐食');
     });
 
     it('should categorize daily necessities correctly', () => {
-      expect(categorizeItemAdvanced('衛生紙')).toBe('日用品');
-      expect(categorizeItemAdvanced('洗髮精')).toBe('日用品');
-      expect(categorizeItemAdvanced('牙膏')).toBe('日用品');
+      expect(categorizeItem('衛生紙')).toBe('日用品');
+      expect(categorizeItem('洗髮精')).toBe('日用品');
+      expect(categorizeItem('牙膏')).toBe('日用品');
     });
 
     it('should categorize transportation correctly', () => {
-      expect(categorizeItemAdvanced('汽油')).toBe('交通');
-      expect(categorizeItemAdvanced('停車費')).toBe('交通');
-      expect(categorizeItemAdvanced('捷運')).toBe('交通');
+      expect(categorizeItem('汽油')).toBe('交通');
+      expect(categorizeItem('停車費')).toBe('交通');
+      expect(categorizeItem('捷運')).toBe('交通');
     });
 
     it('should return default category for unknown items', () => {
-      expect(categorizeItemAdvanced('未知商品')).toBe('其他');
-      expect(categorizeItemAdvanced('random item')).toBe('其他');
+      expect(categorizeItem('未知商品')).toBe('其他');
+      expect(categorizeItem('random item')).toBe('其他');
     });
   });
 
@@ -345,6 +395,18 @@ describe('Statistics Service', () => {
         expect(filtered).toHaveLength(1); // Only INV001 has 飲料 items
         expect(filtered[0].invoiceNumber).toBe('INV001');
       });
+
+      it('should include items in subcategories', () => {
+        const invoices = [
+          {
+            ...sampleInvoices[0],
+            items: [{ id: 'sub1', invoiceNumber: 'INV001', itemName: '捷運', amount: 30, category: '交通/捷運' }],
+          },
+        ];
+
+        expect(filterInvoicesByCategory(invoices, '交通')).toHaveLength(1);
+        expect(filterInvoicesByCategory(invoices, '交通/公車')).toHaveLength(0);
+      });
     });
 
     describe('getValidInvoices', () => {
@@ -381,5 +443,19 @@ describe('Statistics Service', () => {
       expect(extendedStats.itemFrequency).toHaveLength(4);
       expect(extendedStats.voidedInvoicesStats.totalVoidedInvoices).toBe(1);
     });
+
+    it('should leave excluded invoices out of every breakdown', () => {
+      const extendedStats = calculateExtendedStatistics([
+        sampleInvoices[0],
+        { ...sampleInvoices[1], excluded: true },
+      ]);
+
+      expect(extendedStats.totalInvoices).toBe(1);
+      expect(extendedStats.topMerchants.map(merchant => merchant.merchantName)).toEqual([
+        sampleInvoices[0].merchantName,
+      ]);
+      expect(extendedStats.carrierBreakdown.reduce((sum, carrier) => sum + carrier.invoiceCount, 0)).toBe(1);
+      expect(extendedStats.itemFrequency).toHaveLength(sampleInvoices[0].items.length);
+    });
   });
 });
\ No newline at end of file
@@ -10,14 +10,30 @@ export interface Invoice {
   totalAmount: number;
   status: 'issued' | 'voided';
   items: InvoiceItem[];
+  sourceFileId?: string; // FileInfo.id of the file this invoice was imported from
+  sourceRow?: number; // Row of the M-line in the source file
+  sourceType?: InvoiceSourceType; // Missing on data imported before statements existed
+  profileId?: string; // UserProfile the invoice belongs to; the active profile when missing
+  // User edits, kept when the source file is reprocessed (see invoiceEdits)
+  notes?: string;
+  tags?: string[];
+  excluded?: boolean; // Left out of statistics
 }
 
+// Where a record came from: MoF e-invoice export, a bank/card statement,
+// or a paper e-invoice proof read from its QR codes
+export type InvoiceSourceType = 'e-invoice' | 'statement' | 'paper';
+
 export interface InvoiceItem {
   id: string;
   invoiceNumber: string;
   amount: number;
   itemName: string;
   category?: string;
+  manualCategory?: boolean; // Category set by the user; rules leave it alone
+  acceptedSuggestion?: boolean; // Manual category taken from the classifier's suggestion as is
+  sourceRow?: number; // Row of the D-line in the source file
+  adjustment?: boolean; // Unallocated/discount line added to balance the invoice total
 }
 
 // Statistics data models
@@ -34,10 +50,11 @@ export interface Statistics {
 }
 
 export interface CategoryStat {
-  category: string;
-  amount: number;
+  category: string; // Full path, e.g. '餐食/午餐'
+  amount: number; // Includes all subcategories
   count: number;
-  percentage: number;
+  percentage: number; // Of the whole breakdown
+  children?: CategoryStat[]; // Subcategories, largest first
 }
 
 export interface TimeSeriesPoint {
@@ -47,6 +64,8 @@ export interface TimeSeriesPoint {
 }
 
 // File management data models
+export type FileEncoding = 'utf-8' | 'big5';
+
 export interface FileInfo {
   id: string;
   fileName: string;
@@ -55,8 +74,123 @@ export interface FileInfo {
   status: 'processing' | 'completed' | 'error';
   invoiceCount: number;
   errorMessage?: string;
-  originalFileData?: string; // Base64 encoded original file data for reprocessing
+  originalFileHash?: string; // Key of the original upload in the original file store
+  originalFileData?: string; // Base64 original; older files, or where IndexedDB is unavailable
   lastProcessedDate?: Date; // Track when file was last processed
+  encoding?: FileEncoding; // Text encoding the file was decoded with
+  columnMapping?: ColumnMapping; // Column mapping used when the file was imported
+  sourceType?: InvoiceSourceType; // Defaults to 'e-invoice'
+  statementProfileId?: string; // StatementProfile used for statement files
+  dataQuality?: DataQualitySummary; // Validation warnings found at import
+  profileId?: string; // UserProfile the file belongs to; the active profile when missing
+}
+
+// Data-quality warnings raised while importing (the invoice is still imported)
+export type ValidationWarningCode = 'invoice-number' | 'merchant-id' | 'future-date';
+
+export interface DataQualitySummary {
+  checkedInvoices: number;
+  warningCount: number;
+  warningCounts: Partial<Record<ValidationWarningCode, number>>;
+  periods: string[]; // Invoice periods (期別) covered, e.g. '11306'
+}
+
+// CSV column mapping (zero-based column indexes)
+export type MLineField =
+  | 'carrierType'
+  | 'carrierNumber'
+  | 'invoiceDate'
+  | 'merchantId'
+  | 'merchantName'
+  | 'invoiceNumber'
+  | 'totalAmount'
+  | 'status';
+
+// Order of the amount and item name columns on D-lines
+export type DLineLayout = 'auto' | 'amount-first' | 'name-first';
+
+export interface ColumnMapping {
+  mLine: Record<MLineField, number>;
+  dLine: {
+    invoiceNumber: number;
+    layout: DLineLayout;
+  };
+}
+
+export interface ColumnMappingProfile {
+  id: string;
+  name: string;
+  fileNamePattern: string; // Glob matched against file names, e.g. "載具*.csv"
+  mapping: ColumnMapping;
+}
+
+// Bank / credit-card statement import (zero-based column indexes)
+export type StatementDateFormat =
+  | 'YYYY-MM-DD'
+  | 'YYYY/MM/DD'
+  | 'YYYYMMDD'
+  | 'MM/DD/YYYY'
+  | 'DD/MM/YYYY'
+  | 'ROC'; // 民國 yyy/MM/dd or yyyMMdd
+
+// How spending is recognised in the amount column(s)
+export type StatementAmountConvention =
+  | 'negative-expense' // Single signed column, withdrawals are negative
+  | 'positive-expense' // Single signed column, charges are positive (card statements)
+  | 'debit-credit'; // Separate withdrawal and deposit columns (deposits are ignored)
+
+export interface StatementProfile {
+  id: string;
+  name: string;
+  fileNamePattern: string;
+  delimiter: string; // Empty string lets the parser detect it
+  headerRows: number; // Rows skipped before the first transaction
+  dateColumn: number;
+  dateFormat: StatementDateFormat;
+  amountColumn: number; // Signed amount, or the withdrawal column for 'debit-credit'
+  amountConvention: StatementAmountConvention;
+  descriptionColumn: number;
+  counterpartyColumn?: number;
+}
+
+// Categorization rules, tried in order; the first enabled match sets the category
+export type CategoryRuleMatch =
+  | 'contains' // Item name contains one of the keywords
+  | 'regex' // Item name matches a regular expression
+  | 'merchant' // Merchant name contains one of the keywords
+  | 'amount'; // Item amount within minAmount..maxAmount
+
+export interface CategoryRule {
+  id: string;
+  match: CategoryRuleMatch;
+  pattern: string; // Comma-separated keywords, or the regular expression
+  minAmount?: number; // Amount rules; either bound may be left open
+  maxAmount?: number;
+  category: string;
+  enabled: boolean;
+}
+
+// Merchant directory entry; id is the merchant key (see getMerchantKey)
+export interface Merchant {
+  id: string;
+  merchantName: string; // Name on the invoices when the entry was saved
+  displayName?: string;
+  defaultCategory?: string; // Used for items no category rule matches
+  tags: string[];
+  notes?: string;
+}
+
+// Import / duplicate handling
+export type DuplicatePolicy = 'skip' | 'replace' | 'keep-both';
+
+// Application settings (persisted with the store)
+// Calendar used when showing and exporting dates
+export type DateDisplayMode = 'gregorian' | 'roc';
+
+export interface AppSettings {
+  duplicatePolicy: DuplicatePolicy;
+  previewBeforeImport: boolean;
+  dateDisplay: DateDisplayMode;
 }
 
 // Filter data models
@@ -70,6 +204,7 @@ export interface FilterCriteria {
     min: number | null;
     max: number | null;
   };
+  carrierKey?: string | null; // Carrier key from getCarrierKey; null for all carriers
 }
 
 export interface FilteredData {
@@ -94,4 +229,12 @@ export interface Asset {
   currency: string; // e.g., 'TWD', 'USD'
   acquiredDate?: Date;
   notes?: string;
+  profileId?: string; // UserProfile the asset belongs to; the active profile when missing
+}
+
+// Household member with their own invoices, files and assets
+export interface UserProfile {
+  id: string;
+  name: string;
+  createdAt: Date;
 }